@@ -1,7 +1,9 @@
 const sqlite3 = require('sqlite3').verbose();
 const path = require('path');
+const { AsyncLocalStorage } = require('async_hooks');
 
-const dbPath = path.join(__dirname, 'equipment.db');
+// DB_PATH points elsewhere, e.g. ':memory:' for tests
+const dbPath = process.env.DB_PATH || path.join(__dirname, 'equipment.db');
 
 // Create or open database
 const db = new sqlite3.Database(dbPath, (err) => {
@@ -15,29 +17,24 @@ const db = new sqlite3.Database(dbPath, (err) => {
 // Enable foreign keys
 db.run('PRAGMA foreign_keys = ON');
 
-// Initialize database - create table if it doesn't exist
-const initialize = () => {
-  db.run(`
-    CREATE TABLE IF NOT EXISTS equipment (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      type TEXT NOT NULL CHECK(type IN ('Machine', 'Vessel', 'Tank', 'Mixer')),
-      status TEXT NOT NULL CHECK(status IN ('Active', 'Inactive', 'Under Maintenance')),
-      lastCleanedDate TEXT,
-      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `, (err) => {
-    if (err) {
-      console.error('Error creating table:', err.message);
-    } else {
-      console.log('Equipment table ready');
-    }
-  });
+// All statements share one connection, so a transaction is everything run
+// on it between BEGIN and COMMIT. Statements of a transaction run inside it;
+// every other statement waits in one queue with the transactions, so a query
+// from another request cannot land between BEGIN and COMMIT and be committed
+// or rolled back along with work it has nothing to do with.
+const insideTransaction = new AsyncLocalStorage();
+let queue = Promise.resolve();
+
+const enqueue = (task) => {
+  const result = queue.then(task);
+  queue = result.catch(() => {});
+  return result;
 };
 
+const schedule = (task) => (insideTransaction.getStore() ? task() : enqueue(task));
+
 // Helper function to run queries with promises
-const run = (sql, params = []) => {
+const run = (sql, params = []) => schedule(() => {
   return new Promise((resolve, reject) => {
     db.run(sql, params, function(err) {
       if (err) {
@@ -47,10 +44,10 @@ const run = (sql, params = []) => {
       }
     });
   });
-};
+});
 
 // Helper function to get all records
-const all = (sql, params = []) => {
+const all = (sql, params = []) => schedule(() => {
   return new Promise((resolve, reject) => {
     db.all(sql, params, (err, rows) => {
       if (err) {
@@ -60,10 +57,10 @@ const all = (sql, params = []) => {
       }
     });
   });
-};
+});
 
 // Helper function to get a single record
-const get = (sql, params = []) => {
+const get = (sql, params = []) => schedule(() => {
   return new Promise((resolve, reject) => {
     db.get(sql, params, (err, row) => {
       if (err) {
@@ -73,12 +70,36 @@ const get = (sql, params = []) => {
       }
     });
   });
+});
+
+// Run a function inside a transaction, committing if it resolves and rolling
+// back if it throws. Called from inside another transaction, the work simply
+// becomes part of it, so services can make their changes atomic whether or
+// not the caller already started one.
+const transaction = (work) => {
+  if (insideTransaction.getStore()) {
+    return work();
+  }
+
+  return enqueue(() => insideTransaction.run(true, async () => {
+    await run('BEGIN');
+    try {
+      const value = await work();
+      await run('COMMIT');
+      return value;
+    } catch (err) {
+      await run('ROLLBACK');
+      throw err;
+    }
+  }));
 };
 
 module.exports = {
-  initialize,
   run,
   all,
   get,
-  close: () => db.close()
+  transaction,
+  close: () => enqueue(() => new Promise((resolve, reject) => {
+    db.close((err) => (err ? reject(err) : resolve()));
+  }))
 };
@@ -0,0 +1,41 @@
+const { SESSION_COOKIE, getSessionUser } = require('../services/authService');
+const { hasPermission } = require('../services/permissionService');
+const { sendProblem } = require('./problem');
+
+// Attach the signed-in user (if any) to req.user
+const loadUser = async (req, res, next) => {
+  try {
+    req.user = await getSessionUser(req.cookies[SESSION_COOKIE]);
+    next();
+  } catch (err) {
+    next(err);
+  }
+};
+
+// Reject requests without a valid session
+const requireAuth = (req, res, next) => {
+  if (!req.user) {
+    return sendProblem(res, 'AUTHENTICATION_REQUIRED');
+  }
+  next();
+};
+
+// Reject signed-in users whose role lacks a permission
+const requirePermission = (permission) => (req, res, next) => {
+  if (!req.user) {
+    return requireAuth(req, res, next);
+  }
+  if (!hasPermission(req.user, permission)) {
+    return sendProblem(res, 'PERMISSION_DENIED', {
+      detail: `Your role does not have the ${permission} permission`,
+      permission
+    });
+  }
+  next();
+};
+
+module.exports = {
+  loadUser,
+  requireAuth,
+  requirePermission
+};
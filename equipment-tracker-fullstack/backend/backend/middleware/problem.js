@@ -0,0 +1,119 @@
+// Errors are sent as RFC 7807 problem details (application/problem+json): a
+// type, title, status, detail and instance, plus a code that stays the same
+// across releases for clients to branch on and, for invalid input, the problem
+// with each field in errors. success: false is kept so every response can be
+// told apart the same way.
+
+const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+// Every code the API sends, with its status and title. The title is the same
+// for every occurrence; what is particular to one goes in detail.
+const PROBLEMS = {
+  VALIDATION_FAILED: { status: 400, title: 'Validation failed' },
+  INVALID_QUERY: { status: 400, title: 'Invalid query parameters' },
+  INVALID_ID: { status: 400, title: 'Invalid ID' },
+  INVALID_JSON: { status: 400, title: 'Malformed JSON body' },
+  INVALID_CSV: { status: 400, title: 'Invalid CSV' },
+  NO_CHANGES: { status: 400, title: 'No fields to update' },
+  AUTHENTICATION_REQUIRED: { status: 401, title: 'Authentication required' },
+  INVALID_CREDENTIALS: { status: 401, title: 'Invalid username or password' },
+  PERMISSION_DENIED: { status: 403, title: 'Permission denied' },
+  ROUTE_NOT_FOUND: { status: 404, title: 'Route not found' },
+  EQUIPMENT_NOT_FOUND: { status: 404, title: 'Equipment not found' },
+  WORK_ORDER_NOT_FOUND: { status: 404, title: 'Work order not found' },
+  PM_PLAN_NOT_FOUND: { status: 404, title: 'PM plan not found' },
+  LOCATION_NOT_FOUND: { status: 404, title: 'Location not found' },
+  CUSTOM_FIELD_NOT_FOUND: { status: 404, title: 'Custom field not found' },
+  TYPE_NOT_FOUND: { status: 404, title: 'Equipment type not found' },
+  STATUS_NOT_FOUND: { status: 404, title: 'Equipment status not found' },
+  ATTACHMENT_NOT_FOUND: { status: 404, title: 'Attachment not found' },
+  THUMBNAIL_NOT_FOUND: { status: 404, title: 'Attachment has no thumbnail' },
+  VERSION_CONFLICT: { status: 409, title: 'Version conflict' },
+  ASSET_TAG_IN_USE: { status: 409, title: 'Asset tag already in use' },
+  LOCATION_EXISTS: { status: 409, title: 'Location already exists' },
+  LOCATION_IN_USE: { status: 409, title: 'Location is in use' },
+  CUSTOM_FIELD_EXISTS: { status: 409, title: 'Custom field already exists' },
+  TYPE_EXISTS: { status: 409, title: 'Equipment type already exists' },
+  TYPE_IN_USE: { status: 409, title: 'Equipment type is in use' },
+  STATUS_EXISTS: { status: 409, title: 'Equipment status already exists' },
+  STATUS_IN_USE: { status: 409, title: 'Equipment status is in use' },
+  FILE_TOO_LARGE: { status: 413, title: 'File too large' },
+  UNSUPPORTED_FILE_TYPE: { status: 415, title: 'Unsupported file type' },
+  VERSION_REQUIRED: { status: 428, title: 'Precondition required' },
+  INTERNAL_ERROR: { status: 500, title: 'Internal server error' }
+};
+
+const PROBLEM_CODES = Object.keys(PROBLEMS);
+
+// The type URI of a code: not a page to fetch, just a stable name
+const problemType = (code) => `urn:equipment-tracker:problem:${code.toLowerCase().replace(/_/g, '-')}`;
+
+// The problem a code describes, without sending it; bulk results carry these
+// for the items that failed. Without a detail, the field errors are joined
+// into one.
+const toProblem = (code, { detail, errors, ...extensions } = {}) => {
+  const { status, title } = PROBLEMS[code];
+  const summary = detail || (errors && Object.values(errors).join('; '));
+
+  return {
+    type: problemType(code),
+    title,
+    status,
+    ...(summary && { detail: summary }),
+    code,
+    success: false,
+    ...(errors && { errors }),
+    ...extensions
+  };
+};
+
+// Send the problem a code describes. Extensions such as the id that was not
+// found are added as members.
+const sendProblem = (res, code, fields = {}) => {
+  const problem = toProblem(code, fields);
+
+  res.status(problem.status).type(PROBLEM_CONTENT_TYPE).json({
+    ...problem,
+    instance: res.req.originalUrl,
+    requestId: res.req.id
+  });
+};
+
+// A 500 for an unexpected failure; summary says what was being done
+const sendServerError = (res, summary, err) => {
+  sendProblem(res, 'INTERNAL_ERROR', { detail: `${summary}: ${err.message}` });
+};
+
+// A path parameter that is not an id, keyed by the parameter's name
+const sendInvalidId = (res, param, label) => {
+  sendProblem(res, 'INVALID_ID', { errors: { [param]: `Invalid ${label} ID` } });
+};
+
+// For requests no route matched
+const notFoundHandler = (req, res) => {
+  sendProblem(res, 'ROUTE_NOT_FOUND', { detail: `${req.method} ${req.path} is not a route of this API` });
+};
+
+// For errors passed to next() or thrown by middleware; bodies that are not
+// valid JSON are the client's mistake rather than the server's. Express
+// knows error handlers by their four parameters, so next stays.
+const errorHandler = (err, req, res, next) => {
+  if (err.type === 'entity.parse.failed') {
+    return sendProblem(res, 'INVALID_JSON', { detail: err.message });
+  }
+  console.error(err.stack);
+  sendProblem(res, 'INTERNAL_ERROR', { detail: err.message });
+};
+
+module.exports = {
+  PROBLEM_CONTENT_TYPE,
+  PROBLEMS,
+  PROBLEM_CODES,
+  problemType,
+  toProblem,
+  sendProblem,
+  sendServerError,
+  sendInvalidId,
+  notFoundHandler,
+  errorHandler
+};
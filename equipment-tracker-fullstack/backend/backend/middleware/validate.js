@@ -0,0 +1,24 @@
+const { getFieldErrors } = require('equipment-tracker-shared');
+const { sendProblem } = require('./problem');
+
+// Refuse a request body, naming the problem with each field so clients can
+// show it next to the input it belongs to
+const sendValidationErrors = (res, errors) => {
+  sendProblem(res, 'VALIDATION_FAILED', { errors });
+};
+
+// Check req.body against a schema from the shared package, replacing it with
+// the parsed value (text trimmed, unknown fields dropped)
+const validateBody = (schema) => (req, res, next) => {
+  const result = schema.safeParse(req.body);
+  if (!result.success) {
+    return sendValidationErrors(res, getFieldErrors(result.error));
+  }
+  req.body = result.data;
+  next();
+};
+
+module.exports = {
+  sendValidationErrors,
+  validateBody
+};
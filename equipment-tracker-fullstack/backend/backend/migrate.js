@@ -0,0 +1,141 @@
+const fs = require('fs');
+const path = require('path');
+const db = require('./db');
+
+const migrationsDir = path.join(__dirname, 'migrations');
+
+// Migration files are named <number>_<description>.js and applied in order
+const loadMigrations = () => {
+  return fs.readdirSync(migrationsDir)
+    .filter((file) => /^\d+_.+\.js$/.test(file))
+    .sort()
+    .map((file) => ({
+      version: path.basename(file, '.js'),
+      ...require(path.join(migrationsDir, file))
+    }));
+};
+
+const ensureMigrationsTable = () => {
+  return db.run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version TEXT PRIMARY KEY,
+      appliedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+};
+
+const getAppliedVersions = async () => {
+  const rows = await db.all('SELECT version FROM schema_migrations ORDER BY version');
+  return rows.map((row) => row.version);
+};
+
+// Run one migration step in a transaction. Foreign keys are switched off so
+// that tables can be rebuilt, and checked before committing instead.
+const runStep = async (step) => {
+  await db.run('PRAGMA foreign_keys = OFF');
+  try {
+    await db.transaction(async () => {
+      await step();
+
+      const violations = await db.all('PRAGMA foreign_key_check');
+      if (violations.length > 0) {
+        throw new Error(`Foreign key check failed on table ${violations[0].table}`);
+      }
+    });
+  } finally {
+    await db.run('PRAGMA foreign_keys = ON');
+  }
+};
+
+// Apply all pending migrations, returning the versions applied
+const migrate = async () => {
+  await ensureMigrationsTable();
+  const applied = await getAppliedVersions();
+  const pending = loadMigrations().filter((migration) => !applied.includes(migration.version));
+
+  for (const migration of pending) {
+    await runStep(async () => {
+      await migration.up(db);
+      await db.run('INSERT INTO schema_migrations (version) VALUES (?)', [migration.version]);
+    });
+    console.log(`Applied migration ${migration.version}`);
+  }
+
+  return pending.map((migration) => migration.version);
+};
+
+// Revert the most recently applied migrations, returning the versions reverted
+const rollback = async (steps = 1) => {
+  await ensureMigrationsTable();
+  const applied = await getAppliedVersions();
+  const migrations = loadMigrations();
+  const toRevert = applied.slice(-steps).reverse();
+
+  for (const version of toRevert) {
+    const migration = migrations.find((m) => m.version === version);
+    if (!migration) {
+      throw new Error(`Migration file for ${version} not found`);
+    }
+
+    await runStep(async () => {
+      await migration.down(db);
+      await db.run('DELETE FROM schema_migrations WHERE version = ?', [version]);
+    });
+    console.log(`Reverted migration ${version}`);
+  }
+
+  return toRevert;
+};
+
+// List every migration with whether it has been applied
+const status = async () => {
+  await ensureMigrationsTable();
+  const applied = await getAppliedVersions();
+  return loadMigrations().map((migration) => ({
+    version: migration.version,
+    applied: applied.includes(migration.version)
+  }));
+};
+
+module.exports = {
+  migrate,
+  rollback,
+  status
+};
+
+// CLI: node migrate.js [up | rollback [steps] | status]
+if (require.main === module) {
+  const [command = 'up', arg] = process.argv.slice(2);
+
+  const commands = {
+    up: async () => {
+      const applied = await migrate();
+      console.log(applied.length > 0 ? `${applied.length} migration(s) applied` : 'Database is up to date');
+    },
+    rollback: async () => {
+      const steps = arg === undefined ? 1 : parseInt(arg, 10);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error('steps must be a positive integer');
+      }
+      const reverted = await rollback(steps);
+      console.log(reverted.length > 0 ? `${reverted.length} migration(s) reverted` : 'Nothing to roll back');
+    },
+    status: async () => {
+      (await status()).forEach(({ version, applied }) => {
+        console.log(`  ${applied ? '[x]' : '[ ]'} ${version}`);
+      });
+    }
+  };
+
+  if (!commands[command]) {
+    console.error(`Unknown command "${command}". Use: up, rollback [steps], status`);
+    process.exit(1);
+  }
+
+  commands[command]()
+    .catch((err) => {
+      console.error('Migration failed:', err.message);
+      process.exitCode = 1;
+    })
+    .finally(() => db.close());
+}
@@ -0,0 +1,20 @@
+// Original equipment table, with types and statuses fixed by CHECK constraints
+module.exports = {
+  up: async (db) => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS equipment (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('Machine', 'Vessel', 'Tank', 'Mixer')),
+        status TEXT NOT NULL CHECK(status IN ('Active', 'Inactive', 'Under Maintenance')),
+        lastCleanedDate TEXT,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  },
+
+  down: async (db) => {
+    await db.run('DROP TABLE IF EXISTS equipment');
+  }
+};
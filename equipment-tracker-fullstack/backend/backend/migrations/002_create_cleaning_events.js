@@ -0,0 +1,34 @@
+// Cleaning history, replacing the single overwritable lastCleanedDate
+module.exports = {
+  up: async (db) => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS cleaning_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        equipmentId INTEGER NOT NULL REFERENCES equipment(id) ON DELETE CASCADE,
+        cleanedAt TEXT NOT NULL,
+        cleanedBy TEXT,
+        method TEXT,
+        notes TEXT,
+        verifiedBy TEXT,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await db.run(`
+      CREATE INDEX IF NOT EXISTS idx_cleaning_events_equipment
+      ON cleaning_events (equipmentId, cleanedAt)
+    `);
+
+    // Carry over dates recorded before cleaning history existed
+    await db.run(`
+      INSERT INTO cleaning_events (equipmentId, cleanedAt)
+      SELECT id, lastCleanedDate FROM equipment
+      WHERE lastCleanedDate IS NOT NULL
+        AND id NOT IN (SELECT equipmentId FROM cleaning_events)
+    `);
+  },
+
+  down: async (db) => {
+    await db.run('DROP TABLE IF EXISTS cleaning_events');
+  }
+};
@@ -0,0 +1,28 @@
+// Audit trail of every change; deliberately has no foreign keys so that
+// history outlives the records it describes
+module.exports = {
+  up: async (db) => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entityType TEXT NOT NULL,
+        entityId INTEGER NOT NULL,
+        equipmentId INTEGER,
+        action TEXT NOT NULL CHECK(action IN ('create', 'update', 'delete')),
+        actor TEXT NOT NULL,
+        requestId TEXT,
+        changes TEXT NOT NULL,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await db.run(`
+      CREATE INDEX IF NOT EXISTS idx_audit_log_equipment
+      ON audit_log (equipmentId, createdAt)
+    `);
+  },
+
+  down: async (db) => {
+    await db.run('DROP TABLE IF EXISTS audit_log');
+  }
+};
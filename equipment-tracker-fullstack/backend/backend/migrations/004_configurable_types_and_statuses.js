@@ -0,0 +1,73 @@
+// Move equipment types and statuses from CHECK constraints into lookup tables
+const DEFAULT_TYPES = ['Machine', 'Vessel', 'Tank', 'Mixer'];
+const DEFAULT_STATUSES = ['Active', 'Inactive', 'Under Maintenance'];
+
+const COPY_COLUMNS = 'id, name, type, status, lastCleanedDate, createdAt, updatedAt';
+
+// Swap the equipment table for one with a different definition, keeping its rows
+const rebuildEquipment = async (db, columns) => {
+  await db.run(`CREATE TABLE equipment_new (${columns})`);
+  await db.run(`INSERT INTO equipment_new (${COPY_COLUMNS}) SELECT ${COPY_COLUMNS} FROM equipment`);
+  await db.run('DROP TABLE equipment');
+  await db.run('ALTER TABLE equipment_new RENAME TO equipment');
+};
+
+// Create a lookup table and seed it with defaults the first time only
+const createLookupTable = async (db, table, defaults) => {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS ${table} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT,
+      sortOrder INTEGER NOT NULL DEFAULT 0,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  const { count } = await db.get(`SELECT COUNT(*) AS count FROM ${table}`);
+  if (count === 0) {
+    for (const [index, name] of defaults.entries()) {
+      await db.run(`INSERT INTO ${table} (name, sortOrder) VALUES (?, ?)`, [name, index + 1]);
+    }
+  }
+};
+
+module.exports = {
+  up: async (db) => {
+    await createLookupTable(db, 'equipment_types', DEFAULT_TYPES);
+    await createLookupTable(db, 'equipment_statuses', DEFAULT_STATUSES);
+
+    // Databases created before migrations existed may already be upgraded
+    const table = await db.get(
+      `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'equipment'`
+    );
+    if (!table.sql.includes('CHECK(type IN')) {
+      return;
+    }
+
+    await rebuildEquipment(db, `
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL REFERENCES equipment_types(name) ON UPDATE CASCADE,
+      status TEXT NOT NULL REFERENCES equipment_statuses(name) ON UPDATE CASCADE,
+      lastCleanedDate TEXT,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    `);
+  },
+
+  // Fails if equipment uses a type or status outside the original defaults
+  down: async (db) => {
+    await rebuildEquipment(db, `
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL CHECK(type IN ('Machine', 'Vessel', 'Tank', 'Mixer')),
+      status TEXT NOT NULL CHECK(status IN ('Active', 'Inactive', 'Under Maintenance')),
+      lastCleanedDate TEXT,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    `);
+    await db.run('DROP TABLE equipment_statuses');
+    await db.run('DROP TABLE equipment_types');
+  }
+};
@@ -0,0 +1,35 @@
+// Accounts for the operators using the tracker, and their login sessions.
+// Sessions store a hash of the cookie token rather than the token itself.
+module.exports = {
+  up: async (db) => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        displayName TEXT NOT NULL,
+        passwordHash TEXT NOT NULL,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        userId INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expiresAt DATETIME NOT NULL
+      )
+    `);
+
+    await db.run(`
+      CREATE INDEX IF NOT EXISTS idx_sessions_user
+      ON sessions (userId)
+    `);
+  },
+
+  down: async (db) => {
+    await db.run('DROP TABLE IF EXISTS sessions');
+    await db.run('DROP TABLE IF EXISTS users');
+  }
+};
@@ -0,0 +1,14 @@
+// Roles for role-based access control. Existing users become operators, the
+// least privileged role; promote them with `node users.js role`.
+module.exports = {
+  up: async (db) => {
+    await db.run(`
+      ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'operator'
+      CHECK(role IN ('operator', 'supervisor', 'admin'))
+    `);
+  },
+
+  down: async (db) => {
+    await db.run('ALTER TABLE users DROP COLUMN role');
+  }
+};
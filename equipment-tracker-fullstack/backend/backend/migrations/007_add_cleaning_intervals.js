@@ -0,0 +1,13 @@
+// Days between cleanings, set per equipment type and optionally overridden
+// per equipment item. NULL means no schedule.
+module.exports = {
+  up: async (db) => {
+    await db.run('ALTER TABLE equipment_types ADD COLUMN cleaningIntervalDays INTEGER');
+    await db.run('ALTER TABLE equipment ADD COLUMN cleaningIntervalDays INTEGER');
+  },
+
+  down: async (db) => {
+    await db.run('ALTER TABLE equipment DROP COLUMN cleaningIntervalDays');
+    await db.run('ALTER TABLE equipment_types DROP COLUMN cleaningIntervalDays');
+  }
+};
@@ -0,0 +1,31 @@
+// Maintenance work orders. statusBefore is the equipment status when the
+// order was opened with no other orders open, restored once all are closed.
+module.exports = {
+  up: async (db) => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS work_orders (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        equipmentId INTEGER NOT NULL REFERENCES equipment(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        description TEXT,
+        priority TEXT NOT NULL DEFAULT 'medium' CHECK(priority IN ('low', 'medium', 'high', 'critical')),
+        assignee TEXT,
+        openedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        closedAt DATETIME,
+        downtimeMinutes INTEGER,
+        statusBefore TEXT,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await db.run(`
+      CREATE INDEX IF NOT EXISTS idx_work_orders_equipment
+      ON work_orders (equipmentId, closedAt)
+    `);
+  },
+
+  down: async (db) => {
+    await db.run('DROP TABLE IF EXISTS work_orders');
+  }
+};
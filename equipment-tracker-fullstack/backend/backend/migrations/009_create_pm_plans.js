@@ -0,0 +1,42 @@
+// Preventive maintenance plans, which open work orders on a schedule: every
+// N days, every N hours of equipment runtime, or on a cron calendar rule.
+// Equipment gains a runtime hour meter for the runtime-based plans.
+module.exports = {
+  up: async (db) => {
+    await db.run('ALTER TABLE equipment ADD COLUMN runtimeHours REAL NOT NULL DEFAULT 0');
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS pm_plans (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        equipmentId INTEGER NOT NULL REFERENCES equipment(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        description TEXT,
+        priority TEXT NOT NULL DEFAULT 'medium' CHECK(priority IN ('low', 'medium', 'high', 'critical')),
+        assignee TEXT,
+        scheduleType TEXT NOT NULL CHECK(scheduleType IN ('days', 'runtime_hours', 'cron')),
+        intervalDays INTEGER,
+        intervalHours INTEGER,
+        cron TEXT,
+        nextDueAt DATETIME,
+        lastRuntimeHours REAL,
+        lastGeneratedAt DATETIME,
+        active INTEGER NOT NULL DEFAULT 1,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await db.run(`
+      CREATE INDEX IF NOT EXISTS idx_pm_plans_equipment
+      ON pm_plans (equipmentId)
+    `);
+
+    await db.run('ALTER TABLE work_orders ADD COLUMN pmPlanId INTEGER REFERENCES pm_plans(id) ON DELETE SET NULL');
+  },
+
+  down: async (db) => {
+    await db.run('ALTER TABLE work_orders DROP COLUMN pmPlanId');
+    await db.run('DROP TABLE IF EXISTS pm_plans');
+    await db.run('ALTER TABLE equipment DROP COLUMN runtimeHours');
+  }
+};
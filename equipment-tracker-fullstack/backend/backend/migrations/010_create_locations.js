@@ -0,0 +1,32 @@
+// Location hierarchy (sites, buildings, areas and rooms) that equipment can
+// be placed in. Names are unique among the children of the same parent.
+module.exports = {
+  up: async (db) => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS locations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        parentId INTEGER REFERENCES locations(id) ON DELETE RESTRICT,
+        name TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK(kind IN ('site', 'building', 'area', 'room')),
+        description TEXT,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await db.run(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_locations_parent_name
+      ON locations (COALESCE(parentId, 0), name COLLATE NOCASE)
+    `);
+
+    await db.run('ALTER TABLE equipment ADD COLUMN locationId INTEGER REFERENCES locations(id) ON DELETE SET NULL');
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_equipment_location ON equipment (locationId)');
+  },
+
+  down: async (db) => {
+    await db.run('DROP INDEX IF EXISTS idx_equipment_location');
+    await db.run('ALTER TABLE equipment DROP COLUMN locationId');
+    await db.run('DROP TABLE IF EXISTS locations');
+  }
+};
@@ -0,0 +1,30 @@
+// Asset identification and purchase details. Asset tags are unique (ignoring
+// case) but optional, so any number of items may have none.
+const COLUMNS = [
+  'assetTag TEXT',
+  'serialNumber TEXT',
+  'manufacturer TEXT',
+  'model TEXT',
+  'installDate TEXT',
+  'purchaseCost REAL'
+];
+
+module.exports = {
+  up: async (db) => {
+    for (const column of COLUMNS) {
+      await db.run(`ALTER TABLE equipment ADD COLUMN ${column}`);
+    }
+
+    await db.run(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_equipment_asset_tag
+      ON equipment (assetTag COLLATE NOCASE)
+    `);
+  },
+
+  down: async (db) => {
+    await db.run('DROP INDEX IF EXISTS idx_equipment_asset_tag');
+    for (const column of [...COLUMNS].reverse()) {
+      await db.run(`ALTER TABLE equipment DROP COLUMN ${column.split(' ')[0]}`);
+    }
+  }
+};
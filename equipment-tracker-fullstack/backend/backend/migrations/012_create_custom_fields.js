@@ -0,0 +1,30 @@
+// Custom fields that admins define per equipment type. Each item stores its
+// values as a JSON object keyed by field key.
+module.exports = {
+  up: async (db) => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS custom_fields (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        typeId INTEGER NOT NULL REFERENCES equipment_types(id) ON DELETE CASCADE,
+        key TEXT NOT NULL,
+        label TEXT NOT NULL,
+        fieldType TEXT NOT NULL CHECK(fieldType IN ('text', 'number', 'date', 'enum', 'boolean')),
+        required INTEGER NOT NULL DEFAULT 0,
+        min REAL,
+        max REAL,
+        options TEXT,
+        sortOrder INTEGER NOT NULL DEFAULT 0,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (typeId, key)
+      )
+    `);
+
+    await db.run(`ALTER TABLE equipment ADD COLUMN customFields TEXT NOT NULL DEFAULT '{}'`);
+  },
+
+  down: async (db) => {
+    await db.run('ALTER TABLE equipment DROP COLUMN customFields');
+    await db.run('DROP TABLE IF EXISTS custom_fields');
+  }
+};
@@ -0,0 +1,28 @@
+// Files attached to equipment. The files themselves live on disk, named by
+// the SHA-256 of their content, so identical uploads share one copy.
+module.exports = {
+  up: async (db) => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS attachments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        equipmentId INTEGER NOT NULL REFERENCES equipment(id) ON DELETE CASCADE,
+        fileName TEXT NOT NULL,
+        mimeType TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        sha256 TEXT NOT NULL,
+        category TEXT NOT NULL DEFAULT 'other' CHECK(category IN ('manual', 'certificate', 'photo', 'other')),
+        description TEXT,
+        hasThumbnail INTEGER NOT NULL DEFAULT 0,
+        uploadedBy TEXT,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_attachments_equipment ON attachments (equipmentId)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_attachments_sha256 ON attachments (sha256)');
+  },
+
+  down: async (db) => {
+    await db.run('DROP TABLE IF EXISTS attachments');
+  }
+};
@@ -0,0 +1,24 @@
+// A version number for optimistic concurrency: clients send the version they
+// loaded with If-Match, and writes against an older one are refused. The
+// trigger bumps it on every change, including those made by cascades and
+// background jobs. Recursive triggers are off, so its own UPDATE does not
+// fire it again.
+module.exports = {
+  up: async (db) => {
+    await db.run('ALTER TABLE equipment ADD COLUMN version INTEGER NOT NULL DEFAULT 1');
+
+    await db.run(`
+      CREATE TRIGGER IF NOT EXISTS trg_equipment_version
+      AFTER UPDATE ON equipment
+      FOR EACH ROW WHEN NEW.version = OLD.version
+      BEGIN
+        UPDATE equipment SET version = OLD.version + 1 WHERE id = NEW.id;
+      END
+    `);
+  },
+
+  down: async (db) => {
+    await db.run('DROP TRIGGER IF EXISTS trg_equipment_version');
+    await db.run('ALTER TABLE equipment DROP COLUMN version');
+  }
+};
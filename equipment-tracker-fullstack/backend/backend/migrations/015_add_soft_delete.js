@@ -0,0 +1,80 @@
+// Deleting equipment moves it to a trash it can be restored from until it is
+// purged. Trashed items keep their asset tag without blocking its reuse, and
+// restores and purges get audit actions of their own.
+const AUDIT_COLUMNS = 'id, entityType, entityId, equipmentId, action, actor, requestId, changes, createdAt';
+
+// Swap the audit log for one accepting a different set of actions, keeping
+// its rows. mapAction is a SQL expression for each row's new action.
+const rebuildAuditLog = async (db, actions, mapAction = 'action') => {
+  await db.run(`
+    CREATE TABLE audit_log_new (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      entityType TEXT NOT NULL,
+      entityId INTEGER NOT NULL,
+      equipmentId INTEGER,
+      action TEXT NOT NULL CHECK(action IN (${actions.map((action) => `'${action}'`).join(', ')})),
+      actor TEXT NOT NULL,
+      requestId TEXT,
+      changes TEXT NOT NULL,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  await db.run(`
+    INSERT INTO audit_log_new (${AUDIT_COLUMNS})
+    SELECT ${AUDIT_COLUMNS.replace('action', mapAction)} FROM audit_log
+  `);
+  await db.run('DROP TABLE audit_log');
+  await db.run('ALTER TABLE audit_log_new RENAME TO audit_log');
+  await db.run(`
+    CREATE INDEX IF NOT EXISTS idx_audit_log_equipment
+    ON audit_log (equipmentId, createdAt)
+  `);
+};
+
+module.exports = {
+  up: async (db) => {
+    await db.run('ALTER TABLE equipment ADD COLUMN deletedAt DATETIME');
+    await db.run('ALTER TABLE equipment ADD COLUMN deletedBy TEXT');
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_equipment_deleted_at ON equipment (deletedAt)');
+
+    await db.run('DROP INDEX IF EXISTS idx_equipment_asset_tag');
+    await db.run(`
+      CREATE UNIQUE INDEX idx_equipment_asset_tag
+      ON equipment (assetTag COLLATE NOCASE) WHERE deletedAt IS NULL
+    `);
+
+    await rebuildAuditLog(db, ['create', 'update', 'delete', 'restore', 'purge']);
+  },
+
+  // Trashed equipment is deleted for good; restores are logged as updates
+  // and purges as deletes
+  down: async (db) => {
+    await rebuildAuditLog(
+      db,
+      ['create', 'update', 'delete'],
+      "CASE action WHEN 'restore' THEN 'update' WHEN 'purge' THEN 'delete' ELSE action END"
+    );
+
+    // Foreign keys are off while migrating, so nothing cascades: the rows
+    // belonging to trashed equipment go first. Work orders refer to PM plans,
+    // so they go before them.
+    for (const table of ['cleaning_events', 'work_orders', 'pm_plans', 'attachments']) {
+      await db.run(`
+        DELETE FROM ${table}
+        WHERE equipmentId IN (SELECT id FROM equipment WHERE deletedAt IS NOT NULL)
+      `);
+    }
+    await db.run('DELETE FROM equipment WHERE deletedAt IS NOT NULL');
+
+    await db.run('DROP INDEX IF EXISTS idx_equipment_asset_tag');
+    await db.run('DROP INDEX IF EXISTS idx_equipment_deleted_at');
+    await db.run('ALTER TABLE equipment DROP COLUMN deletedBy');
+    await db.run('ALTER TABLE equipment DROP COLUMN deletedAt');
+
+    await db.run(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_equipment_asset_tag
+      ON equipment (assetTag COLLATE NOCASE)
+    `);
+  }
+};
@@ -0,0 +1,103 @@
+// Full-text index of equipment for search, one row per item with the item's
+// id as its rowid. Besides the item's own fields it holds the notes of its
+// cleanings and the titles and descriptions of its work orders. Triggers keep
+// it in step with all three tables, including changes made by cascades.
+const EQUIPMENT_COLUMNS = ['name', 'type', 'status', 'assetTag', 'serialNumber', 'manufacturer', 'model'];
+
+const cleaningNotesSql = (equipmentId) => `
+  (SELECT group_concat(notes, ' ') FROM cleaning_events WHERE equipmentId = ${equipmentId})
+`;
+
+const workOrderTextSql = (equipmentId) => `
+  (SELECT group_concat(title || ' ' || coalesce(description, ''), ' ')
+   FROM work_orders WHERE equipmentId = ${equipmentId})
+`;
+
+// Triggers that refresh one column of an item's row from a child table
+const childTriggers = (table, column, textSql) => [
+  `CREATE TRIGGER IF NOT EXISTS trg_${table}_search_insert
+   AFTER INSERT ON ${table}
+   BEGIN
+     UPDATE equipment_search SET ${column} = ${textSql('NEW.equipmentId')} WHERE rowid = NEW.equipmentId;
+   END`,
+  `CREATE TRIGGER IF NOT EXISTS trg_${table}_search_update
+   AFTER UPDATE ON ${table}
+   BEGIN
+     UPDATE equipment_search SET ${column} = ${textSql('OLD.equipmentId')} WHERE rowid = OLD.equipmentId;
+     UPDATE equipment_search SET ${column} = ${textSql('NEW.equipmentId')} WHERE rowid = NEW.equipmentId;
+   END`,
+  `CREATE TRIGGER IF NOT EXISTS trg_${table}_search_delete
+   AFTER DELETE ON ${table}
+   BEGIN
+     UPDATE equipment_search SET ${column} = ${textSql('OLD.equipmentId')} WHERE rowid = OLD.equipmentId;
+   END`
+];
+
+const TRIGGERS = [
+  'trg_equipment_search_insert',
+  'trg_equipment_search_update',
+  'trg_equipment_search_delete',
+  ...['cleaning_events', 'work_orders'].flatMap((table) =>
+    ['insert', 'update', 'delete'].map((event) => `trg_${table}_search_${event}`)
+  )
+];
+
+module.exports = {
+  up: async (db) => {
+    await db.run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS equipment_search USING fts5(
+        ${EQUIPMENT_COLUMNS.join(', ')}, cleaningNotes, workOrders,
+        tokenize = 'unicode61 remove_diacritics 2'
+      )
+    `);
+
+    await db.run(`
+      INSERT INTO equipment_search (rowid, ${EQUIPMENT_COLUMNS.join(', ')}, cleaningNotes, workOrders)
+      SELECT id, ${EQUIPMENT_COLUMNS.join(', ')}, ${cleaningNotesSql('equipment.id')}, ${workOrderTextSql('equipment.id')}
+      FROM equipment
+    `);
+
+    await db.run(`
+      CREATE TRIGGER IF NOT EXISTS trg_equipment_search_insert
+      AFTER INSERT ON equipment
+      BEGIN
+        INSERT INTO equipment_search (rowid, ${EQUIPMENT_COLUMNS.join(', ')})
+        VALUES (NEW.id, ${EQUIPMENT_COLUMNS.map((column) => `NEW.${column}`).join(', ')});
+      END
+    `);
+
+    // Only the indexed columns, so version bumps and cleaning dates don't
+    // rewrite the row
+    await db.run(`
+      CREATE TRIGGER IF NOT EXISTS trg_equipment_search_update
+      AFTER UPDATE OF ${EQUIPMENT_COLUMNS.join(', ')} ON equipment
+      BEGIN
+        UPDATE equipment_search
+        SET ${EQUIPMENT_COLUMNS.map((column) => `${column} = NEW.${column}`).join(', ')}
+        WHERE rowid = NEW.id;
+      END
+    `);
+
+    await db.run(`
+      CREATE TRIGGER IF NOT EXISTS trg_equipment_search_delete
+      AFTER DELETE ON equipment
+      BEGIN
+        DELETE FROM equipment_search WHERE rowid = OLD.id;
+      END
+    `);
+
+    for (const sql of [
+      ...childTriggers('cleaning_events', 'cleaningNotes', cleaningNotesSql),
+      ...childTriggers('work_orders', 'workOrders', workOrderTextSql)
+    ]) {
+      await db.run(sql);
+    }
+  },
+
+  down: async (db) => {
+    for (const trigger of TRIGGERS) {
+      await db.run(`DROP TRIGGER IF EXISTS ${trigger}`);
+    }
+    await db.run('DROP TABLE IF EXISTS equipment_search');
+  }
+};
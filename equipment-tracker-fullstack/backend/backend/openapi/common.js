@@ -0,0 +1,172 @@
+const { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } = require('../services/equipmentQuery');
+
+// Building blocks shared by the path definitions
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+
+// OpenAPI 3.0 ignores anything next to a $ref, so references are wrapped
+const nullable = (schema) => (schema.$ref
+  ? { allOf: [schema], nullable: true }
+  : { ...schema, nullable: true });
+
+const DATE = { type: 'string', format: 'date', example: '2025-12-18' };
+
+// SQLite timestamps, UTC in "YYYY-MM-DD HH:MM:SS" form
+const TIMESTAMP = { type: 'string', example: '2025-12-18 10:30:00' };
+
+const json = (schema) => ({ content: { 'application/json': { schema } } });
+
+// A response carrying one record in data
+const dataResponse = (description, schema, extra = {}) => ({
+  description,
+  ...json({
+    type: 'object',
+    required: ['success', 'data'],
+    properties: {
+      success: { type: 'boolean', enum: [true] },
+      message: { type: 'string' },
+      ...extra,
+      data: schema
+    }
+  })
+});
+
+// A response carrying an unpaginated list in data
+const listResponse = (description, itemSchema) => ({
+  description,
+  ...json({
+    type: 'object',
+    required: ['success', 'count', 'data'],
+    properties: {
+      success: { type: 'boolean', enum: [true] },
+      count: { type: 'integer' },
+      data: { type: 'array', items: itemSchema }
+    }
+  })
+});
+
+// A response carrying one page of a list in data
+const pageResponse = (description, itemSchema, extra = {}) => ({
+  description,
+  ...json({
+    type: 'object',
+    required: ['success', 'count', 'total', 'page', 'pageSize', 'totalPages', 'data'],
+    properties: {
+      success: { type: 'boolean', enum: [true] },
+      count: { type: 'integer' },
+      total: { type: 'integer' },
+      page: { type: 'integer' },
+      pageSize: { type: 'integer' },
+      totalPages: { type: 'integer' },
+      ...extra,
+      data: { type: 'array', items: itemSchema }
+    }
+  })
+});
+
+// The response of deleting a record
+const deletedResponse = (description) => ({
+  description,
+  ...json({
+    type: 'object',
+    required: ['success', 'message', 'id'],
+    properties: {
+      success: { type: 'boolean', enum: [true] },
+      message: { type: 'string' },
+      id: { type: 'integer' }
+    }
+  })
+});
+
+// A response carrying a problem; schema adds to Problem where needed
+const errorResponse = (description, schema = ref('Problem')) => ({
+  description,
+  content: { 'application/problem+json': { schema } }
+});
+
+const body = (schema, description) => ({
+  required: true,
+  ...(description && { description }),
+  ...json(schema)
+});
+
+const pathParam = (name, description) => ({
+  name,
+  in: 'path',
+  required: true,
+  description,
+  schema: { type: 'integer' }
+});
+
+const queryParam = (name, schema, description) => ({
+  name,
+  in: 'query',
+  ...(description && { description }),
+  schema
+});
+
+const ID = pathParam('id', 'Equipment id');
+
+const PAGINATION = [
+  queryParam('page', { type: 'integer', minimum: 1, default: 1 }, 'Page number, starting at 1'),
+  queryParam('pageSize', { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE }, 'Items per page')
+];
+
+// Error responses shared by many operations, kept once under
+// components.responses
+const SHARED_RESPONSES = {
+  BadRequest: errorResponse('Invalid id, query or body (INVALID_ID, INVALID_QUERY, INVALID_JSON or VALIDATION_FAILED); errors holds the problem with each field'),
+  Unauthorized: errorResponse('Not signed in'),
+  Forbidden: errorResponse("The user's role lacks the permission named in permission"),
+  NotFound: errorResponse('No such record; code names its kind and id echoes the id asked for'),
+  ServerError: errorResponse('Unexpected server error')
+};
+
+const sharedResponse = (name) => ({ $ref: `#/components/responses/${name}` });
+
+// Responses most operations can give besides their own
+const COMMON_ERRORS = {
+  400: sharedResponse('BadRequest'),
+  401: sharedResponse('Unauthorized'),
+  500: sharedResponse('ServerError')
+};
+
+const FORBIDDEN = sharedResponse('Forbidden');
+
+const NOT_FOUND = sharedResponse('NotFound');
+
+// An operation. permission is the one requirePermission checks, if any.
+// Responses given override the common ones.
+const operation = ({ tag, summary, description, permission, parameters, requestBody, responses }) => ({
+  tags: [tag],
+  summary,
+  ...((description || permission) && {
+    description: [description, permission && `Requires the \`${permission}\` permission.`]
+      .filter(Boolean)
+      .join('\n\n')
+  }),
+  ...(parameters && { parameters }),
+  ...(requestBody && { requestBody }),
+  responses: { ...COMMON_ERRORS, ...(permission && { 403: FORBIDDEN }), ...responses }
+});
+
+module.exports = {
+  ref,
+  nullable,
+  DATE,
+  TIMESTAMP,
+  json,
+  dataResponse,
+  listResponse,
+  pageResponse,
+  deletedResponse,
+  errorResponse,
+  body,
+  pathParam,
+  queryParam,
+  ID,
+  PAGINATION,
+  SHARED_RESPONSES,
+  NOT_FOUND,
+  operation
+};
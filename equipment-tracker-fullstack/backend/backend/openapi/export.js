@@ -0,0 +1,32 @@
+// Write the OpenAPI document to openapi.json, which the frontend generates
+// its API types from. Fails when the document disagrees with the routers or
+// with the shared schemas the API validates bodies with.
+// Usage: npm run openapi
+const fs = require('fs');
+const path = require('path');
+const db = require('../db');
+const { buildOpenApiDocument } = require('./index');
+const { checkCoverage } = require('./routes');
+const { checkSharedSchemas } = require('./shared');
+
+const OUTPUT = path.join(__dirname, '..', 'openapi.json');
+
+const document = buildOpenApiDocument();
+const { undocumented, unrouted } = checkCoverage(document);
+const mismatches = checkSharedSchemas(document);
+
+if (undocumented.length > 0 || unrouted.length > 0) {
+  undocumented.forEach((route) => console.error(`  Undocumented route: ${route}`));
+  unrouted.forEach((route) => console.error(`  Documented but not routed: ${route}`));
+  console.error('openapi.json was not written; update openapi/paths to match the routes');
+  process.exitCode = 1;
+} else if (mismatches.length > 0) {
+  mismatches.forEach((mismatch) => console.error(`  ${mismatch}`));
+  console.error('openapi.json was not written; update openapi/schemas.js to match the shared schemas');
+  process.exitCode = 1;
+} else {
+  fs.writeFileSync(OUTPUT, `${JSON.stringify(document, null, 2)}\n`);
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)} (${Object.keys(document.paths).length} paths)`);
+}
+
+db.close();
@@ -0,0 +1,75 @@
+const { version } = require('../package.json');
+const { SESSION_COOKIE } = require('../services/authService');
+const schemas = require('./schemas');
+const { json, SHARED_RESPONSES } = require('./common');
+
+// Path definitions, in the order server.js mounts their routers
+const PATHS = [
+  require('./paths/auth'),
+  require('./paths/equipment'),
+  require('./paths/cleanings'),
+  require('./paths/workOrders'),
+  require('./paths/pmPlans'),
+  require('./paths/locations'),
+  require('./paths/customFields'),
+  require('./paths/attachments'),
+  require('./paths/audit'),
+  require('./paths/search'),
+  require('./paths/meta'),
+  require('./paths/events')
+];
+
+// Served by server.js itself, outside /api
+const HEALTH = {
+  '/health': {
+    get: {
+      tags: ['Health'],
+      summary: 'Health check',
+      security: [],
+      responses: {
+        200: {
+          description: 'The API is running',
+          ...json({
+            type: 'object',
+            required: ['status', 'message'],
+            properties: {
+              status: { type: 'string', enum: ['OK'] },
+              message: { type: 'string' }
+            }
+          })
+        }
+      }
+    }
+  }
+};
+
+const DESCRIPTION = [
+  'REST API of the Equipment Tracker.',
+  `Every endpoint but signing in, signing out and the health check needs the \`${SESSION_COOKIE}\` cookie that POST /api/auth/login sets.`,
+  'Successful responses have `success: true` and the result in `data`.',
+  'Failures are RFC 7807 problem details sent as `application/problem+json`: `title` and `detail` say what went wrong, `code` names the kind of problem in a way that stays the same across releases, and for invalid input `errors` holds the problem with each field. They also have `success: false`.'
+].join('\n\n');
+
+// The OpenAPI 3 document describing the API, built from the path definitions
+// and the schemas derived from the services' validation rules
+const buildOpenApiDocument = () => ({
+  openapi: '3.0.3',
+  info: {
+    title: 'Equipment Tracker API',
+    version,
+    description: DESCRIPTION
+  },
+  security: [{ cookieAuth: [] }],
+  paths: Object.assign({}, ...PATHS, HEALTH),
+  components: {
+    securitySchemes: {
+      cookieAuth: { type: 'apiKey', in: 'cookie', name: SESSION_COOKIE }
+    },
+    schemas,
+    responses: SHARED_RESPONSES
+  }
+});
+
+module.exports = {
+  buildOpenApiDocument
+};
@@ -0,0 +1,126 @@
+const { MAX_ATTACHMENT_BYTES, ALLOWED_TYPES } = require('../../services/attachmentService');
+const {
+  ref,
+  dataResponse,
+  listResponse,
+  deletedResponse,
+  errorResponse,
+  pathParam,
+  queryParam,
+  ID,
+  NOT_FOUND,
+  operation
+} = require('../common');
+
+const tag = 'Attachments';
+
+const ATTACHMENT_ID = pathParam('attachmentId', 'Attachment id');
+
+// Stored files never change under an attachment, so they are cached for good
+const FILE_HEADERS = {
+  'Cache-Control': { schema: { type: 'string', example: 'private, max-age=31536000, immutable' } }
+};
+
+module.exports = {
+  '/api/equipment/{id}/attachments': {
+    get: operation({
+      tag,
+      summary: 'Fetch attachments of equipment',
+      description: 'Newest first.',
+      parameters: [ID],
+      responses: {
+        200: listResponse('The attachments of the item', ref('Attachment')),
+        404: NOT_FOUND
+      }
+    }),
+    post: operation({
+      tag,
+      summary: 'Upload an attachment',
+      description: `The type is detected from the content and must be one of: ${ALLOWED_TYPES.join(', ')}.`,
+      permission: 'attachment:create',
+      parameters: [ID],
+      requestBody: {
+        required: true,
+        content: {
+          'multipart/form-data': {
+            schema: {
+              type: 'object',
+              required: ['file'],
+              properties: {
+                file: { type: 'string', format: 'binary' },
+                category: ref('AttachmentCategory'),
+                description: { type: 'string' }
+              }
+            }
+          }
+        }
+      },
+      responses: {
+        201: dataResponse('The stored attachment', ref('Attachment')),
+        404: NOT_FOUND,
+        413: errorResponse(`The file is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`),
+        415: errorResponse('The file is not of an allowed type')
+      }
+    })
+  },
+
+  '/api/equipment/{id}/attachments/{attachmentId}': {
+    get: operation({
+      tag,
+      summary: 'Fetch one attachment',
+      parameters: [ID, ATTACHMENT_ID],
+      responses: {
+        200: dataResponse('The attachment', ref('Attachment')),
+        404: NOT_FOUND
+      }
+    }),
+    delete: operation({
+      tag,
+      summary: 'Delete an attachment',
+      description: 'The stored file is removed once no attachment uses it.',
+      permission: 'attachment:delete',
+      parameters: [ID, ATTACHMENT_ID],
+      responses: {
+        200: deletedResponse('The attachment was deleted'),
+        404: NOT_FOUND
+      }
+    })
+  },
+
+  '/api/equipment/{id}/attachments/{attachmentId}/download': {
+    get: operation({
+      tag,
+      summary: 'Download an attachment',
+      parameters: [
+        ID,
+        ATTACHMENT_ID,
+        queryParam('inline', { type: 'boolean', default: false }, 'Display the file in the browser instead of saving it')
+      ],
+      responses: {
+        200: {
+          description: 'The file, with its own content type',
+          headers: FILE_HEADERS,
+          content: { '*/*': { schema: { type: 'string', format: 'binary' } } }
+        },
+        404: NOT_FOUND
+      }
+    })
+  },
+
+  '/api/equipment/{id}/attachments/{attachmentId}/thumbnail': {
+    get: operation({
+      tag,
+      summary: 'Fetch an image thumbnail',
+      description: 'A WebP of at most 256x256 pixels.',
+      parameters: [ID, ATTACHMENT_ID],
+      responses: {
+        200: {
+          description: 'The thumbnail',
+          headers: FILE_HEADERS,
+          content: { 'image/webp': { schema: { type: 'string', format: 'binary' } } }
+        },
+        404: errorResponse('No such attachment, or it has no thumbnail')
+      }
+    })
+  }
+};
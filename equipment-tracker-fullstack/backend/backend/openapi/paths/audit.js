@@ -0,0 +1,38 @@
+const { AUDIT_ACTIONS } = require('../../services/auditService');
+const { ref, listResponse, pageResponse, queryParam, ID, PAGINATION, DATE, operation } = require('../common');
+
+const tag = 'Audit';
+
+module.exports = {
+  '/api/equipment/{id}/history': {
+    get: operation({
+      tag,
+      summary: 'Fetch equipment audit trail',
+      description: 'Changes to the item and to everything belonging to it, newest first. Stays available after the item is deleted.',
+      permission: 'audit:read',
+      parameters: [ID],
+      responses: { 200: listResponse('The audit trail', ref('AuditEntry')) }
+    })
+  },
+
+  '/api/audit': {
+    get: operation({
+      tag,
+      summary: 'Search the audit log',
+      description: 'Newest first.',
+      permission: 'audit:read',
+      parameters: [
+        ...PAGINATION,
+        queryParam('entityType', { type: 'string' }, 'Such as equipment, work_order or location'),
+        queryParam('entityId', { type: 'integer' }),
+        queryParam('equipmentId', { type: 'integer' }),
+        queryParam('action', { type: 'string', enum: AUDIT_ACTIONS }),
+        queryParam('actor', { type: 'string' }, 'Username'),
+        queryParam('requestId', { type: 'string' }, 'The X-Request-Id of the request that made the change'),
+        queryParam('from', DATE, 'Changes on or after this day'),
+        queryParam('to', DATE, 'Changes on or before this day')
+      ],
+      responses: { 200: pageResponse('A page of the audit log', ref('AuditEntry')) }
+    })
+  }
+};
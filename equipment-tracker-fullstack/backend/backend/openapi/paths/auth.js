@@ -0,0 +1,53 @@
+const { ref, json, dataResponse, errorResponse, body, operation } = require('../common');
+
+const tag = 'Auth';
+
+module.exports = {
+  '/api/auth/login': {
+    post: {
+      ...operation({
+        tag,
+        summary: 'Sign in',
+        description: 'Sets the HTTP-only session cookie the other endpoints need.',
+        requestBody: body(ref('LoginRequest')),
+        responses: {
+          200: dataResponse('The signed-in user', ref('User')),
+          401: errorResponse('Invalid username or password')
+        }
+      }),
+      security: []
+    }
+  },
+
+  '/api/auth/logout': {
+    post: {
+      ...operation({
+        tag,
+        summary: 'Sign out',
+        description: 'Ends the session, if any, and clears its cookie.',
+        responses: {
+          200: {
+            description: 'Signed out',
+            ...json({
+              type: 'object',
+              required: ['success', 'message'],
+              properties: {
+                success: { type: 'boolean', enum: [true] },
+                message: { type: 'string' }
+              }
+            })
+          }
+        }
+      }),
+      security: []
+    }
+  },
+
+  '/api/auth/me': {
+    get: operation({
+      tag,
+      summary: 'Fetch the signed-in user',
+      responses: { 200: dataResponse('The signed-in user and their permissions', ref('User')) }
+    })
+  }
+};
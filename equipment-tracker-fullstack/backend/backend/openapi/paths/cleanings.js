@@ -0,0 +1,30 @@
+const { ref, dataResponse, listResponse, body, ID, NOT_FOUND, operation } = require('../common');
+
+const tag = 'Cleanings';
+
+module.exports = {
+  '/api/equipment/{id}/cleanings': {
+    get: operation({
+      tag,
+      summary: 'Fetch cleaning history',
+      description: 'Most recent first.',
+      parameters: [ID],
+      responses: {
+        200: listResponse('The cleanings of the item', ref('CleaningEvent')),
+        404: NOT_FOUND
+      }
+    }),
+    post: operation({
+      tag,
+      summary: 'Log a cleaning',
+      description: "Keeps the item's lastCleanedDate up to date.",
+      permission: 'cleaning:create',
+      parameters: [ID],
+      requestBody: body(ref('CleaningEventInput')),
+      responses: {
+        201: dataResponse('The logged cleaning', ref('CleaningEvent')),
+        404: NOT_FOUND
+      }
+    })
+  }
+};
@@ -0,0 +1,72 @@
+const {
+  ref,
+  dataResponse,
+  listResponse,
+  deletedResponse,
+  errorResponse,
+  body,
+  pathParam,
+  queryParam,
+  NOT_FOUND,
+  operation
+} = require('../common');
+
+const tag = 'Custom fields';
+
+const FIELD_ID = pathParam('id', 'Custom field id');
+
+module.exports = {
+  '/api/custom-fields': {
+    get: operation({
+      tag,
+      summary: 'Fetch custom field definitions',
+      description: 'Grouped by type, in display order.',
+      parameters: [queryParam('type', { type: 'string' }, 'Only the fields of the type with this name')],
+      responses: { 200: listResponse('The field definitions', ref('CustomField')) }
+    }),
+    post: operation({
+      tag,
+      summary: 'Define a custom field on a type',
+      permission: 'meta:manage',
+      requestBody: body(ref('CustomFieldInput')),
+      responses: {
+        201: dataResponse('The created field', ref('CustomField')),
+        409: errorResponse('The type already has a field with this key')
+      }
+    })
+  },
+
+  '/api/custom-fields/{id}': {
+    get: operation({
+      tag,
+      summary: 'Fetch one custom field',
+      parameters: [FIELD_ID],
+      responses: {
+        200: dataResponse('The field', ref('CustomField')),
+        404: NOT_FOUND
+      }
+    }),
+    put: operation({
+      tag,
+      summary: 'Update a custom field',
+      description: 'Only the fields sent are changed; typeId, key and fieldType cannot be.',
+      permission: 'meta:manage',
+      parameters: [FIELD_ID],
+      requestBody: body(ref('CustomFieldUpdate')),
+      responses: {
+        200: dataResponse('The updated field', ref('CustomField')),
+        404: NOT_FOUND
+      }
+    }),
+    delete: operation({
+      tag,
+      summary: 'Delete a custom field and its values',
+      permission: 'meta:manage',
+      parameters: [FIELD_ID],
+      responses: {
+        200: deletedResponse('The field was deleted, along with its values on every item'),
+        404: NOT_FOUND
+      }
+    })
+  }
+};
@@ -0,0 +1,248 @@
+const { SORT_COLUMNS } = require('../../services/equipmentQuery');
+const { EXPORT_FORMATS } = require('../../services/exportService');
+const { IMPORT_FIELDS, MAX_IMPORT_ROWS } = require('../../services/importService');
+const { TRASH_RETENTION_DAYS, MAX_RETENTION_DAYS } = require('../../services/trashService');
+const {
+  ref,
+  json,
+  dataResponse,
+  listResponse,
+  pageResponse,
+  errorResponse,
+  body,
+  queryParam,
+  ID,
+  PAGINATION,
+  NOT_FOUND,
+  operation
+} = require('../common');
+
+const tag = 'Equipment';
+
+// The filters and sort shared by the list and the export
+const LIST_FILTERS = [
+  queryParam('type', { type: 'string' }, 'Only items of this type'),
+  queryParam('status', { type: 'string' }, 'Only items with this status'),
+  queryParam(
+    'locationId',
+    { oneOf: [{ type: 'integer' }, { type: 'string', enum: ['none'] }] },
+    'Only items in this location or those below it; none for items without a location'
+  ),
+  queryParam('overdue', { type: 'boolean' }, 'Only items that are, or are not, overdue for cleaning'),
+  queryParam('q', { type: 'string' }, 'Full-text search, as in GET /api/search'),
+  queryParam('sort', { type: 'string', enum: Object.keys(SORT_COLUMNS), default: 'id' }),
+  queryParam('order', { type: 'string', enum: ['asc', 'desc'] }, 'Defaults to asc when sort is given, else desc')
+];
+
+// Updates and deletes name the version they are based on
+const IF_MATCH = {
+  name: 'If-Match',
+  in: 'header',
+  required: true,
+  description: 'The version the change is based on, such as "3", or * to skip the check',
+  schema: { type: 'string' }
+};
+
+const VERSION_RESPONSES = {
+  409: errorResponse('The item changed since that version (VERSION_CONFLICT); data holds it as it now is. Also sent for an asset tag already in use (ASSET_TAG_IN_USE).'),
+  428: errorResponse('If-Match is missing (VERSION_REQUIRED)')
+};
+
+module.exports = {
+  '/api/equipment': {
+    get: operation({
+      tag,
+      summary: 'Fetch a page of equipment',
+      description: 'Items in the trash are left out.',
+      parameters: [...PAGINATION, ...LIST_FILTERS],
+      responses: { 200: pageResponse('A page of equipment', ref('Equipment')) }
+    }),
+    post: operation({
+      tag,
+      summary: 'Create new equipment',
+      permission: 'equipment:create',
+      requestBody: body(ref('EquipmentInput')),
+      responses: {
+        201: dataResponse('The created item', ref('Equipment')),
+        409: errorResponse('Asset tag already in use')
+      }
+    })
+  },
+
+  '/api/equipment/export': {
+    get: operation({
+      tag,
+      summary: 'Export equipment as CSV or Excel',
+      description: 'Every item matching the filters is exported, not just one page.',
+      parameters: [
+        queryParam('format', { type: 'string', enum: EXPORT_FORMATS, default: 'csv' }),
+        ...LIST_FILTERS
+      ],
+      responses: {
+        200: {
+          description: 'The file, as an attachment',
+          content: {
+            'text/csv': { schema: { type: 'string' } },
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+              schema: { type: 'string', format: 'binary' }
+            }
+          }
+        }
+      }
+    })
+  },
+
+  '/api/equipment/overdue': {
+    get: operation({
+      tag,
+      summary: 'Fetch equipment overdue for cleaning',
+      description: 'Most overdue first.',
+      responses: { 200: listResponse('Overdue equipment', ref('Equipment')) }
+    })
+  },
+
+  '/api/equipment/trash': {
+    get: operation({
+      tag,
+      summary: 'Fetch deleted equipment',
+      description: 'Most recently deleted first.',
+      parameters: PAGINATION,
+      responses: {
+        200: pageResponse('A page of the trash', ref('TrashedEquipment'), {
+          retentionDays: { type: 'integer', description: 'Days items stay in the trash before a purge removes them' }
+        })
+      }
+    }),
+    delete: operation({
+      tag,
+      summary: 'Purge equipment past the retention period',
+      description: 'Permanently deletes the items, with their cleanings, work orders, plans and attachments.',
+      permission: 'equipment:purge',
+      parameters: [
+        queryParam(
+          'olderThanDays',
+          { type: 'integer', minimum: 0, maximum: MAX_RETENTION_DAYS, default: TRASH_RETENTION_DAYS },
+          'Only items deleted at least this many days ago; 0 empties the trash'
+        )
+      ],
+      responses: {
+        200: {
+          description: 'The items purged',
+          ...json({
+            type: 'object',
+            required: ['success', 'message', 'count', 'ids'],
+            properties: {
+              success: { type: 'boolean', enum: [true] },
+              message: { type: 'string' },
+              count: { type: 'integer' },
+              ids: { type: 'array', items: { type: 'integer' } }
+            }
+          })
+        },
+        400: errorResponse('Invalid olderThanDays (INVALID_QUERY); errors holds the problem with it')
+      }
+    })
+  },
+
+  '/api/equipment/import': {
+    post: operation({
+      tag,
+      summary: 'Import equipment from CSV',
+      description: `Every row is validated as by POST /api/equipment, and nothing is imported unless all are valid. At most ${MAX_IMPORT_ROWS} rows.`,
+      permission: 'equipment:import',
+      parameters: [
+        queryParam('dryRun', { type: 'boolean', default: false }, 'Only validate, returning the report'),
+        {
+          name: 'mapping',
+          in: 'query',
+          description: 'The CSV column for each field, as mapping[field]=Column; unmapped fields use a column of the same name',
+          style: 'deepObject',
+          explode: true,
+          schema: {
+            type: 'object',
+            properties: Object.fromEntries(IMPORT_FIELDS.map((field) => [field, { type: 'string' }]))
+          }
+        }
+      ],
+      requestBody: {
+        required: true,
+        description: 'CSV with a header row',
+        content: {
+          'text/csv': { schema: { type: 'string' } },
+          'text/plain': { schema: { type: 'string' } }
+        }
+      },
+      responses: {
+        200: { description: 'The report of a dry run', ...json(ref('ImportReport')) },
+        201: { description: 'The report of the import', ...json(ref('ImportReport')) },
+        400: errorResponse(
+          'Unreadable CSV (INVALID_CSV) or mapping (INVALID_QUERY), or invalid rows (VALIDATION_FAILED, with the report)',
+          { oneOf: [ref('Problem'), { allOf: [ref('Problem'), ref('ImportReport')] }] }
+        )
+      }
+    })
+  },
+
+  '/api/equipment/bulk': {
+    post: operation({
+      tag,
+      summary: 'Apply one action to many items',
+      description: 'Each action needs its own permission: delete needs `equipment:delete`, setStatus and setType need `equipment:update` and markCleaned needs `cleaning:create`. Items the action cannot apply to are reported and skipped.',
+      requestBody: body(ref('BulkRequest')),
+      responses: {
+        200: { description: 'The outcome for each item', ...json(ref('BulkResult')) },
+        403: errorResponse("The user's role lacks the permission of the action")
+      }
+    })
+  },
+
+  '/api/equipment/{id}': {
+    get: operation({
+      tag,
+      summary: 'Fetch one equipment item',
+      parameters: [ID],
+      responses: {
+        200: dataResponse('The item', ref('Equipment')),
+        404: NOT_FOUND
+      }
+    }),
+    put: operation({
+      tag,
+      summary: 'Update equipment',
+      permission: 'equipment:update',
+      parameters: [ID, IF_MATCH],
+      requestBody: body(ref('EquipmentUpdate')),
+      responses: {
+        200: dataResponse('The updated item', ref('Equipment')),
+        404: NOT_FOUND,
+        ...VERSION_RESPONSES
+      }
+    }),
+    delete: operation({
+      tag,
+      summary: 'Move equipment to the trash',
+      description: 'Everything belonging to the item stays in place until it is purged.',
+      permission: 'equipment:delete',
+      parameters: [ID, IF_MATCH],
+      responses: {
+        200: dataResponse('The item as it is in the trash', ref('TrashedEquipment'), { id: { type: 'integer' } }),
+        404: NOT_FOUND,
+        ...VERSION_RESPONSES
+      }
+    })
+  },
+
+  '/api/equipment/{id}/restore': {
+    post: operation({
+      tag,
+      summary: 'Restore equipment from the trash',
+      permission: 'equipment:delete',
+      parameters: [ID],
+      responses: {
+        200: dataResponse('The restored item', ref('Equipment')),
+        404: errorResponse('The item is not in the trash'),
+        409: errorResponse('Another item has taken its asset tag since it was deleted')
+      }
+    })
+  }
+};
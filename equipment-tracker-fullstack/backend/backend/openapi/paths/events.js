@@ -0,0 +1,17 @@
+const { operation } = require('../common');
+
+module.exports = {
+  '/api/events': {
+    get: operation({
+      tag: 'Events',
+      summary: 'Stream changes as Server-Sent Events',
+      description: 'Stays open, sending an `equipment` event whose data is an EquipmentEvent for each change to equipment, and a comment every 25 seconds to keep the connection alive.',
+      responses: {
+        200: {
+          description: 'The event stream',
+          content: { 'text/event-stream': { schema: { type: 'string' } } }
+        }
+      }
+    })
+  }
+};
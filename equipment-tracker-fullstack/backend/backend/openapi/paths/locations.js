@@ -0,0 +1,74 @@
+const {
+  ref,
+  dataResponse,
+  listResponse,
+  deletedResponse,
+  errorResponse,
+  body,
+  pathParam,
+  NOT_FOUND,
+  operation
+} = require('../common');
+
+const tag = 'Locations';
+
+const LOCATION_ID = pathParam('id', 'Location id');
+
+const DUPLICATE = errorResponse('Another location with this name has the same parent');
+
+module.exports = {
+  '/api/locations': {
+    get: operation({
+      tag,
+      summary: 'Fetch all locations',
+      description: 'Returned flat, in name order; parentId links each one to its parent.',
+      responses: { 200: listResponse('Every location', ref('Location')) }
+    }),
+    post: operation({
+      tag,
+      summary: 'Create a location',
+      permission: 'location:manage',
+      requestBody: body(ref('LocationInput')),
+      responses: {
+        201: dataResponse('The created location', ref('Location')),
+        409: DUPLICATE
+      }
+    })
+  },
+
+  '/api/locations/{id}': {
+    get: operation({
+      tag,
+      summary: 'Fetch one location',
+      parameters: [LOCATION_ID],
+      responses: {
+        200: dataResponse('The location', ref('Location')),
+        404: NOT_FOUND
+      }
+    }),
+    put: operation({
+      tag,
+      summary: 'Update or move a location',
+      description: 'Only the fields sent are changed. A location cannot be moved below itself.',
+      permission: 'location:manage',
+      parameters: [LOCATION_ID],
+      requestBody: body(ref('LocationUpdate')),
+      responses: {
+        200: dataResponse('The updated location', ref('Location')),
+        404: NOT_FOUND,
+        409: DUPLICATE
+      }
+    }),
+    delete: operation({
+      tag,
+      summary: 'Delete an empty location',
+      permission: 'location:manage',
+      parameters: [LOCATION_ID],
+      responses: {
+        200: deletedResponse('The location was deleted'),
+        404: NOT_FOUND,
+        409: errorResponse('The location still contains locations or equipment')
+      }
+    })
+  }
+};
@@ -0,0 +1,69 @@
+const { LOOKUPS } = require('../../services/lookupService');
+const {
+  ref,
+  dataResponse,
+  listResponse,
+  deletedResponse,
+  errorResponse,
+  body,
+  pathParam,
+  NOT_FOUND,
+  operation
+} = require('../common');
+
+const tag = 'Types and statuses';
+
+// The same endpoints serve every configurable option list
+module.exports = Object.fromEntries(
+  Object.entries(LOOKUPS).flatMap(([lookup, { label }]) => {
+    const name = label.toLowerCase();
+    const optionId = pathParam('id', `${label} id`);
+
+    return [
+      [`/api/meta/${lookup}`, {
+        get: operation({
+          tag,
+          summary: `Fetch equipment ${lookup}`,
+          description: 'In display order.',
+          responses: { 200: listResponse(`Every ${name}`, ref('LookupOption')) }
+        }),
+        post: operation({
+          tag,
+          summary: `Add an ${name}`,
+          permission: 'meta:manage',
+          requestBody: body(ref('LookupOptionInput')),
+          responses: {
+            201: dataResponse(`The created ${name}`, ref('LookupOption')),
+            409: errorResponse(`An ${name} with this name already exists`)
+          }
+        })
+      }],
+      [`/api/meta/${lookup}/{id}`, {
+        put: operation({
+          tag,
+          summary: `Update an ${name}`,
+          description: 'Only the fields sent are changed. Renaming cascades to all equipment using it.',
+          permission: 'meta:manage',
+          parameters: [optionId],
+          requestBody: body(ref('LookupOptionUpdate')),
+          responses: {
+            200: dataResponse(`The updated ${name}`, ref('LookupOption')),
+            404: NOT_FOUND,
+            409: errorResponse(`An ${name} with this name already exists`)
+          }
+        }),
+        delete: operation({
+          tag,
+          summary: `Delete an unused ${name}`,
+          permission: 'meta:manage',
+          parameters: [optionId],
+          responses: {
+            200: deletedResponse(`The ${name} was deleted`),
+            404: NOT_FOUND,
+            409: errorResponse(`Equipment still uses the ${name}`)
+          }
+        })
+      }]
+    ];
+  })
+);
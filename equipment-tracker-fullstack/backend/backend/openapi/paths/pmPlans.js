@@ -0,0 +1,93 @@
+const {
+  ref,
+  dataResponse,
+  listResponse,
+  deletedResponse,
+  body,
+  pathParam,
+  queryParam,
+  NOT_FOUND,
+  operation
+} = require('../common');
+
+const tag = 'PM plans';
+
+const PLAN_ID = pathParam('id', 'PM plan id');
+
+module.exports = {
+  '/api/pm-plans': {
+    get: operation({
+      tag,
+      summary: 'Fetch preventive maintenance plans',
+      description: 'Plans of equipment in the trash are left out.',
+      parameters: [
+        queryParam('equipmentId', { type: 'integer' }),
+        queryParam('active', { type: 'boolean' })
+      ],
+      responses: { 200: listResponse('The plans', ref('PmPlan')) }
+    }),
+    post: operation({
+      tag,
+      summary: 'Create a PM plan',
+      permission: 'pm_plan:manage',
+      requestBody: body({
+        allOf: [
+          ref('PmPlanInput'),
+          { type: 'object', required: ['equipmentId'], properties: { equipmentId: { type: 'integer' } } }
+        ]
+      }),
+      responses: {
+        201: dataResponse('The created plan', ref('PmPlan')),
+        404: NOT_FOUND
+      }
+    })
+  },
+
+  '/api/pm-plans/upcoming': {
+    get: operation({
+      tag,
+      summary: 'Fetch plans coming due',
+      description: 'Active plans only, soonest first.',
+      parameters: [
+        queryParam('days', { type: 'integer', minimum: 0, maximum: 365, default: 30 }, 'Date-based plans due within this many days'),
+        queryParam('hours', { type: 'integer', minimum: 0, default: 24 }, 'Runtime plans due within this many runtime hours')
+      ],
+      responses: { 200: listResponse('The plans coming due', ref('PmPlan')) }
+    })
+  },
+
+  '/api/pm-plans/{id}': {
+    get: operation({
+      tag,
+      summary: 'Fetch one PM plan',
+      parameters: [PLAN_ID],
+      responses: {
+        200: dataResponse('The plan', ref('PmPlan')),
+        404: NOT_FOUND
+      }
+    }),
+    put: operation({
+      tag,
+      summary: 'Update a PM plan',
+      description: 'The fields sent are merged into the plan, which is validated whole. The equipment cannot be changed.',
+      permission: 'pm_plan:manage',
+      parameters: [PLAN_ID],
+      requestBody: body(ref('PmPlanUpdate')),
+      responses: {
+        200: dataResponse('The updated plan', ref('PmPlan')),
+        404: NOT_FOUND
+      }
+    }),
+    delete: operation({
+      tag,
+      summary: 'Delete a PM plan',
+      description: 'Work orders it opened are kept.',
+      permission: 'pm_plan:manage',
+      parameters: [PLAN_ID],
+      responses: {
+        200: deletedResponse('The plan was deleted'),
+        404: NOT_FOUND
+      }
+    })
+  }
+};
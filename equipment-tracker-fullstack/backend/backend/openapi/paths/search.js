@@ -0,0 +1,22 @@
+const { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } = require('../../services/searchService');
+const { ref, listResponse, errorResponse, queryParam, operation } = require('../common');
+
+const tag = 'Search';
+
+module.exports = {
+  '/api/search': {
+    get: operation({
+      tag,
+      summary: 'Full-text search of equipment',
+      description: 'Every word must match the start of a word in a field; accents and case are ignored. Best match first, leaving out items in the trash.',
+      parameters: [
+        { ...queryParam('q', { type: 'string' }, 'Must contain at least one letter or digit'), required: true },
+        queryParam('limit', { type: 'integer', minimum: 1, maximum: MAX_SEARCH_LIMIT, default: DEFAULT_SEARCH_LIMIT })
+      ],
+      responses: {
+        200: listResponse('The matching items, each with the fields it matched in', ref('SearchResult')),
+        400: errorResponse('Missing or invalid q or limit (INVALID_QUERY); errors holds the problem with each')
+      }
+    })
+  }
+};
@@ -0,0 +1,95 @@
+const { PRIORITIES } = require('../../services/workOrderService');
+const {
+  ref,
+  dataResponse,
+  listResponse,
+  pageResponse,
+  deletedResponse,
+  body,
+  pathParam,
+  queryParam,
+  ID,
+  PAGINATION,
+  NOT_FOUND,
+  operation
+} = require('../common');
+
+const tag = 'Work orders';
+
+const WORK_ORDER_ID = pathParam('workOrderId', 'Work order id');
+
+module.exports = {
+  '/api/work-orders': {
+    get: operation({
+      tag,
+      summary: 'Fetch a page of work orders',
+      description: 'Across all equipment outside the trash; open orders first, most urgent first, then newest.',
+      parameters: [
+        ...PAGINATION,
+        queryParam('status', ref('WorkOrderStatus')),
+        queryParam('priority', { type: 'string', enum: PRIORITIES }),
+        queryParam('assignee', { type: 'string' }, 'Matched ignoring case'),
+        queryParam('equipmentId', { type: 'integer' })
+      ],
+      responses: { 200: pageResponse('A page of work orders', ref('WorkOrder')) }
+    })
+  },
+
+  '/api/equipment/{id}/work-orders': {
+    get: operation({
+      tag,
+      summary: 'Fetch work orders of equipment',
+      parameters: [ID],
+      responses: {
+        200: listResponse('The work orders of the item', ref('WorkOrder')),
+        404: NOT_FOUND
+      }
+    }),
+    post: operation({
+      tag,
+      summary: 'Open a work order',
+      description: 'The first open order puts the item under maintenance.',
+      permission: 'work_order:create',
+      parameters: [ID],
+      requestBody: body(ref('WorkOrderInput')),
+      responses: {
+        201: dataResponse('The opened work order', ref('WorkOrder')),
+        404: NOT_FOUND
+      }
+    })
+  },
+
+  '/api/equipment/{id}/work-orders/{workOrderId}': {
+    get: operation({
+      tag,
+      summary: 'Fetch one work order',
+      parameters: [ID, WORK_ORDER_ID],
+      responses: {
+        200: dataResponse('The work order', ref('WorkOrder')),
+        404: NOT_FOUND
+      }
+    }),
+    put: operation({
+      tag,
+      summary: 'Update, close or reopen a work order',
+      description: 'Closing the last open order puts the item back to the status it had before.',
+      permission: 'work_order:update',
+      parameters: [ID, WORK_ORDER_ID],
+      requestBody: body(ref('WorkOrderUpdate')),
+      responses: {
+        200: dataResponse('The updated work order', ref('WorkOrder')),
+        404: NOT_FOUND
+      }
+    }),
+    delete: operation({
+      tag,
+      summary: 'Delete a work order',
+      permission: 'work_order:delete',
+      parameters: [ID, WORK_ORDER_ID],
+      responses: {
+        200: deletedResponse('The work order was deleted'),
+        404: NOT_FOUND
+      }
+    })
+  }
+};
@@ -0,0 +1,37 @@
+const fs = require('fs');
+const path = require('path');
+
+const ROUTES_DIR = path.join(__dirname, '..', 'routes');
+
+// Every route the routers in routes/ define, as mounted under /api, with
+// Express's :params written the OpenAPI way as {params}
+const listRoutes = () => {
+  return fs.readdirSync(ROUTES_DIR)
+    .filter((file) => file.endsWith('.js'))
+    .flatMap((file) => require(path.join(ROUTES_DIR, file)).stack)
+    .filter((layer) => layer.route)
+    .flatMap((layer) => Object.keys(layer.route.methods).map((method) => ({
+      method,
+      path: `/api${layer.route.path.replace(/:(\w+)/g, '{$1}')}`
+    })));
+};
+
+// Compare the document against the routers: routes it leaves out, and
+// operations it describes that no router serves
+const checkCoverage = (document) => {
+  const routes = listRoutes();
+  const documented = Object.entries(document.paths)
+    .filter(([docPath]) => docPath.startsWith('/api/'))
+    .flatMap(([docPath, operations]) => Object.keys(operations).map((method) => `${method} ${docPath}`));
+  const served = routes.map((route) => `${route.method} ${route.path}`);
+
+  return {
+    undocumented: served.filter((route) => !documented.includes(route)),
+    unrouted: documented.filter((operation) => !served.includes(operation))
+  };
+};
+
+module.exports = {
+  listRoutes,
+  checkCoverage
+};
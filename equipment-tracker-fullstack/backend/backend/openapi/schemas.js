@@ -0,0 +1,596 @@
+const {
+  MIN_NAME_LENGTH,
+  MAX_NAME_LENGTH,
+  MAX_CLEANING_INTERVAL_DAYS,
+  MAX_RUNTIME_HOURS,
+  MAX_ASSET_TEXT_LENGTH,
+  MAX_PURCHASE_COST
+} = require('equipment-tracker-shared');
+const { ROLES, PERMISSIONS } = require('../services/permissionService');
+const { AUDIT_ACTIONS } = require('../services/auditService');
+const { LOCATION_KINDS, MAX_NAME_LENGTH: MAX_LOCATION_NAME_LENGTH } = require('../services/locationService');
+const { MAX_NAME_LENGTH: MAX_OPTION_NAME_LENGTH } = require('../services/lookupService');
+const { FIELD_TYPES, KEY_PATTERN, MAX_LABEL_LENGTH, MAX_OPTIONS } = require('../services/customFieldService');
+const { PRIORITIES, MAX_DOWNTIME_MINUTES } = require('../services/workOrderService');
+const { SCHEDULE_TYPES, MAX_INTERVAL_DAYS, MAX_INTERVAL_HOURS } = require('../services/pmPlanService');
+const { CATEGORIES, MAX_DESCRIPTION_LENGTH } = require('../services/attachmentService');
+const { BULK_ACTIONS, MAX_BULK_IDS } = require('../services/bulkService');
+const { IMPORT_FIELDS } = require('../services/importService');
+const { SEARCH_FIELDS } = require('../services/searchService');
+const { PROBLEM_CODES } = require('../middleware/problem');
+const { ref, nullable, DATE, TIMESTAMP } = require('./common');
+
+// Schemas of the records the API sends and accepts. Enums and limits come
+// from the services and shared schemas that validate them, so they cannot
+// drift apart.
+
+const string = (description, extra = {}) => ({ type: 'string', ...(description && { description }), ...extra });
+const integer = (description, extra = {}) => ({ type: 'integer', ...(description && { description }), ...extra });
+const number = (description, extra = {}) => ({ type: 'number', ...(description && { description }), ...extra });
+const boolean = (description) => ({ type: 'boolean', ...(description && { description }) });
+
+const object = (required, properties, description) => ({
+  type: 'object',
+  ...(description && { description }),
+  ...(required.length > 0 && { required }),
+  properties
+});
+
+// Every property of an object, none of them required
+const partial = (schema, description) => {
+  const { required, ...rest } = schema;
+  return { ...rest, ...(description && { description }) };
+};
+
+const CLEANING_INTERVAL = nullable(integer(
+  'Days between cleanings set on this item; null falls back to its type',
+  { minimum: 1, maximum: MAX_CLEANING_INTERVAL_DAYS }
+));
+
+const ASSET_TEXT = (description) => nullable(string(description, { maxLength: MAX_ASSET_TEXT_LENGTH }));
+
+// The optional identification and purchase details; asset tags are unique
+const ASSET_PROPERTIES = {
+  assetTag: ASSET_TEXT('Unique among equipment outside the trash, ignoring case'),
+  serialNumber: ASSET_TEXT(),
+  manufacturer: ASSET_TEXT(),
+  model: ASSET_TEXT(),
+  installDate: nullable(DATE),
+  purchaseCost: nullable(number(undefined, { minimum: 0, maximum: MAX_PURCHASE_COST }))
+};
+
+const CUSTOM_FIELD_VALUE_INPUT = {
+  oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }],
+  nullable: true
+};
+
+const WORK_ORDER_PROPERTIES = {
+  title: string(undefined, { minLength: 1 }),
+  description: nullable(string()),
+  priority: ref('WorkOrderPriority'),
+  assignee: nullable(string())
+};
+
+const equipmentInput = object(['name', 'type', 'status'], {
+  name: string('Trimmed before checking its length', { minLength: MIN_NAME_LENGTH, maxLength: MAX_NAME_LENGTH }),
+  type: string('The name of a configured equipment type', { minLength: 1 }),
+  status: string('The name of a configured equipment status', { minLength: 1 }),
+  cleaningIntervalDays: CLEANING_INTERVAL,
+  runtimeHours: number('Hour meter reading', { minimum: 0, maximum: MAX_RUNTIME_HOURS }),
+  locationId: nullable(integer('The id of an existing location')),
+  ...ASSET_PROPERTIES,
+  customFields: {
+    type: 'object',
+    description: "Values of the custom fields defined on the item's type, keyed by field key; null clears a value",
+    additionalProperties: CUSTOM_FIELD_VALUE_INPUT
+  },
+  cleaning: nullable(ref('CleaningEventInput')),
+  lastCleanedDate: nullable({
+    ...DATE,
+    description: 'Shorthand for a cleaning with only cleanedAt; ignored when cleaning is sent, and on updates when it is the current date'
+  })
+});
+
+const pmPlanProperties = {
+  ...WORK_ORDER_PROPERTIES,
+  scheduleType: ref('PmScheduleType'),
+  intervalDays: nullable(integer('Days between orders of day-based plans', { minimum: 1, maximum: MAX_INTERVAL_DAYS })),
+  intervalHours: nullable(integer('Runtime hours between orders of runtime plans', { minimum: 1, maximum: MAX_INTERVAL_HOURS })),
+  cron: nullable(string('Five-field cron expression of cron plans, in UTC', { example: '0 6 * * 1' })),
+  active: boolean()
+};
+
+const locationInput = object(['name', 'kind'], {
+  parentId: nullable(integer('An existing location; sending it on an update moves the location and everything in it')),
+  name: string('Unique among the locations with the same parent, ignoring case', { minLength: 1, maxLength: MAX_LOCATION_NAME_LENGTH }),
+  kind: ref('LocationKind'),
+  description: nullable(string())
+});
+
+const lookupOptionInput = object(['name'], {
+  name: string('Renaming an option renames it on every item using it', { minLength: 1, maxLength: MAX_OPTION_NAME_LENGTH }),
+  description: nullable(string()),
+  sortOrder: integer(),
+  cleaningIntervalDays: nullable(integer('Equipment types only', { minimum: 1, maximum: MAX_CLEANING_INTERVAL_DAYS }))
+});
+
+const customFieldInput = object(['typeId', 'key', 'label', 'fieldType'], {
+  typeId: integer('An existing equipment type'),
+  key: string(undefined, { pattern: KEY_PATTERN.source }),
+  label: string(undefined, { minLength: 1, maxLength: MAX_LABEL_LENGTH }),
+  fieldType: ref('CustomFieldType'),
+  required: boolean(),
+  min: nullable(number('Text and number fields only')),
+  max: nullable(number('Text and number fields only')),
+  options: nullable({
+    type: 'array',
+    description: 'Required on enum fields, and only allowed on them',
+    minItems: 1,
+    maxItems: MAX_OPTIONS,
+    items: { type: 'string', minLength: 1 }
+  }),
+  sortOrder: integer()
+});
+
+const pmPlanInput = object(['title', 'scheduleType'], {
+  ...pmPlanProperties,
+  nextDueAt: nullable({
+    ...DATE,
+    description: 'Day-based plans are first due then instead of one interval from now'
+  })
+});
+
+const schemas = {
+  Role: { type: 'string', enum: ROLES },
+
+  Permission: { type: 'string', enum: PERMISSIONS },
+
+  User: object(['id', 'username', 'displayName', 'role', 'permissions', 'createdAt', 'updatedAt'], {
+    id: integer(),
+    username: string(),
+    displayName: string(),
+    role: ref('Role'),
+    permissions: {
+      type: 'array',
+      description: "Everything the user's role allows, as enforced by the API",
+      items: ref('Permission')
+    },
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP
+  }),
+
+  LoginRequest: object(['username', 'password'], {
+    username: string(),
+    password: string(undefined, { format: 'password' })
+  }),
+
+  CustomFieldValue: {
+    oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }]
+  },
+
+  Equipment: object(
+    [
+      'id', 'name', 'type', 'status', 'lastCleanedDate', 'cleaningCount', 'cleaningIntervalDays',
+      'effectiveCleaningIntervalDays', 'nextCleaningDue', 'overdue', 'runtimeHours', 'locationId',
+      'locationName', 'assetTag', 'serialNumber', 'manufacturer', 'model', 'installDate', 'purchaseCost',
+      'customFields', 'version', 'deletedAt', 'deletedBy', 'createdAt', 'updatedAt'
+    ],
+    {
+      id: integer(),
+      name: string(),
+      type: string(),
+      status: string(),
+      lastCleanedDate: nullable(DATE),
+      cleaningCount: integer(),
+      cleaningIntervalDays: CLEANING_INTERVAL,
+      effectiveCleaningIntervalDays: nullable(integer("The item's cleaning interval, else its type's")),
+      nextCleaningDue: nullable({
+        ...DATE,
+        description: 'Null when neither the item nor its type has a cleaning interval'
+      }),
+      overdue: boolean(),
+      runtimeHours: number('Hour meter reading, for runtime-based maintenance plans'),
+      locationId: nullable(integer()),
+      locationName: nullable(string()),
+      ...ASSET_PROPERTIES,
+      customFields: {
+        type: 'object',
+        description: "Values of the custom fields defined on the item's type, keyed by field key",
+        additionalProperties: ref('CustomFieldValue')
+      },
+      version: integer('Goes up with every change; updates and deletes must name the version they are based on'),
+      deletedAt: nullable({ ...TIMESTAMP, description: 'Set while the item is in the trash, which only the trash endpoints return' }),
+      deletedBy: nullable(string()),
+      createdAt: TIMESTAMP,
+      updatedAt: TIMESTAMP
+    }
+  ),
+
+  EquipmentInput: equipmentInput,
+
+  EquipmentUpdate: partial(equipmentInput, 'Only the fields sent are changed'),
+
+  TrashedEquipment: {
+    allOf: [
+      ref('Equipment'),
+      object(['purgeAfter'], {
+        purgeAfter: { ...TIMESTAMP, description: 'When a purge of the trash will remove the item' }
+      })
+    ]
+  },
+
+  CleaningEvent: object(
+    ['id', 'equipmentId', 'cleanedAt', 'cleanedBy', 'method', 'notes', 'verifiedBy', 'createdAt'],
+    {
+      id: integer(),
+      equipmentId: integer(),
+      cleanedAt: DATE,
+      cleanedBy: nullable(string()),
+      method: nullable(string()),
+      notes: nullable(string()),
+      verifiedBy: nullable(string()),
+      createdAt: TIMESTAMP
+    }
+  ),
+
+  CleaningEventInput: object(['cleanedAt'], {
+    cleanedAt: { ...DATE, description: 'No later than today' },
+    cleanedBy: nullable(string()),
+    method: nullable(string()),
+    notes: nullable(string()),
+    verifiedBy: nullable(string())
+  }),
+
+  LocationKind: { type: 'string', enum: LOCATION_KINDS },
+
+  Location: object(
+    ['id', 'parentId', 'name', 'kind', 'description', 'equipmentCount', 'childCount', 'createdAt', 'updatedAt'],
+    {
+      id: integer(),
+      parentId: nullable(integer('Null for top-level locations')),
+      name: string(),
+      kind: ref('LocationKind'),
+      description: nullable(string()),
+      equipmentCount: integer('Equipment placed directly in this location, not in those below it'),
+      childCount: integer(),
+      createdAt: TIMESTAMP,
+      updatedAt: TIMESTAMP
+    },
+    'A node of the site/building/area/room hierarchy'
+  ),
+
+  LocationInput: locationInput,
+
+  LocationUpdate: partial(locationInput, 'Only the fields sent are changed'),
+
+  LookupOption: object(['id', 'name', 'description', 'sortOrder', 'createdAt'], {
+    id: integer(),
+    name: string(),
+    description: nullable(string()),
+    sortOrder: integer(),
+    cleaningIntervalDays: nullable(integer('Only set on equipment types')),
+    createdAt: TIMESTAMP
+  }, 'A configurable equipment type or status'),
+
+  LookupOptionInput: lookupOptionInput,
+
+  LookupOptionUpdate: partial(lookupOptionInput, 'Only the fields sent are changed'),
+
+  CustomFieldType: { type: 'string', enum: FIELD_TYPES },
+
+  CustomField: object(
+    ['id', 'typeId', 'typeName', 'key', 'label', 'fieldType', 'required', 'min', 'max', 'options', 'sortOrder', 'createdAt', 'updatedAt'],
+    {
+      id: integer(),
+      typeId: integer(),
+      typeName: string(),
+      key: string(),
+      label: string(),
+      fieldType: ref('CustomFieldType'),
+      required: boolean(),
+      min: nullable(number('Value bound on number fields, length bound on text fields')),
+      max: nullable(number('Value bound on number fields, length bound on text fields')),
+      options: nullable({ type: 'array', description: 'The choices of an enum field', items: { type: 'string' } }),
+      sortOrder: integer(),
+      createdAt: TIMESTAMP,
+      updatedAt: TIMESTAMP
+    },
+    'A field an admin has defined on one equipment type'
+  ),
+
+  CustomFieldInput: customFieldInput,
+
+  CustomFieldUpdate: partial(customFieldInput, 'Only the fields sent are changed; typeId, key and fieldType cannot be'),
+
+  WorkOrderPriority: { type: 'string', enum: PRIORITIES },
+
+  WorkOrderStatus: { type: 'string', enum: ['open', 'closed'] },
+
+  WorkOrder: object(
+    [
+      'id', 'equipmentId', 'equipmentName', 'title', 'description', 'priority', 'assignee', 'status',
+      'openedAt', 'closedAt', 'downtimeMinutes', 'statusBefore', 'pmPlanId', 'createdAt', 'updatedAt'
+    ],
+    {
+      id: integer(),
+      equipmentId: integer(),
+      equipmentName: string(),
+      ...WORK_ORDER_PROPERTIES,
+      status: ref('WorkOrderStatus'),
+      openedAt: TIMESTAMP,
+      closedAt: nullable(TIMESTAMP),
+      downtimeMinutes: nullable(integer('Set when closed: the time it was open, unless entered by hand')),
+      statusBefore: nullable(string('The equipment status to go back to once the last open order closes')),
+      pmPlanId: nullable(integer('The preventive maintenance plan that generated the order, if any')),
+      createdAt: TIMESTAMP,
+      updatedAt: TIMESTAMP
+    }
+  ),
+
+  WorkOrderInput: object(['title'], WORK_ORDER_PROPERTIES),
+
+  WorkOrderUpdate: object([], {
+    ...WORK_ORDER_PROPERTIES,
+    closed: boolean('true closes the order, false reopens it'),
+    downtimeMinutes: nullable(integer(undefined, { minimum: 0, maximum: MAX_DOWNTIME_MINUTES }))
+  }),
+
+  PmScheduleType: { type: 'string', enum: SCHEDULE_TYPES },
+
+  PmPlan: object(
+    [
+      'id', 'equipmentId', 'equipmentName', 'title', 'description', 'priority', 'assignee', 'scheduleType',
+      'intervalDays', 'intervalHours', 'cron', 'nextDueAt', 'nextDueRuntimeHours', 'runtimeHoursRemaining',
+      'lastRuntimeHours', 'equipmentRuntimeHours', 'lastGeneratedAt', 'openWorkOrders', 'active',
+      'createdAt', 'updatedAt'
+    ],
+    {
+      id: integer(),
+      equipmentId: integer(),
+      equipmentName: string(),
+      ...pmPlanProperties,
+      nextDueAt: nullable({ ...TIMESTAMP, description: 'Date-based plans (days, cron), in UTC' }),
+      nextDueRuntimeHours: nullable(number('Runtime plans: the meter reading at which the next order opens')),
+      runtimeHoursRemaining: nullable(number()),
+      lastRuntimeHours: nullable(number()),
+      equipmentRuntimeHours: number(),
+      lastGeneratedAt: nullable(TIMESTAMP),
+      openWorkOrders: integer(),
+      createdAt: TIMESTAMP,
+      updatedAt: TIMESTAMP
+    },
+    'A preventive maintenance plan, which opens a work order each time it comes due. Only the fields of its schedule type are set.'
+  ),
+
+  PmPlanInput: pmPlanInput,
+
+  PmPlanUpdate: partial(pmPlanInput, 'Merged into the plan, which is then validated whole'),
+
+  AttachmentCategory: { type: 'string', enum: CATEGORIES },
+
+  Attachment: object(
+    ['id', 'equipmentId', 'fileName', 'mimeType', 'size', 'sha256', 'category', 'description', 'hasThumbnail', 'uploadedBy', 'createdAt'],
+    {
+      id: integer(),
+      equipmentId: integer(),
+      fileName: string(),
+      mimeType: string(),
+      size: integer('In bytes'),
+      sha256: string('Identical uploads share one stored copy'),
+      category: ref('AttachmentCategory'),
+      description: nullable(string(undefined, { maxLength: MAX_DESCRIPTION_LENGTH })),
+      hasThumbnail: boolean('Images get a WebP thumbnail of at most 256x256 pixels'),
+      uploadedBy: nullable(string()),
+      createdAt: TIMESTAMP
+    },
+    'A file stored against an equipment item'
+  ),
+
+  AuditAction: { type: 'string', enum: AUDIT_ACTIONS },
+
+  AuditEntry: object(
+    ['id', 'entityType', 'entityId', 'equipmentId', 'action', 'actor', 'requestId', 'changes', 'createdAt'],
+    {
+      id: integer(),
+      entityType: string(undefined, { example: 'equipment' }),
+      entityId: integer(),
+      equipmentId: nullable(integer()),
+      action: ref('AuditAction'),
+      actor: string('Username of whoever made the change'),
+      requestId: nullable(string()),
+      changes: {
+        type: 'object',
+        description: 'The fields that changed',
+        additionalProperties: object(['before', 'after'], { before: {}, after: {} })
+      },
+      createdAt: TIMESTAMP
+    }
+  ),
+
+  BulkAction: { type: 'string', enum: BULK_ACTIONS },
+
+  BulkRequest: object(['action', 'ids', 'versions'], {
+    action: ref('BulkAction'),
+    ids: {
+      type: 'array',
+      description: 'Duplicates are applied once',
+      minItems: 1,
+      maxItems: MAX_BULK_IDS,
+      items: { type: 'integer', minimum: 1 }
+    },
+    versions: {
+      type: 'object',
+      description: 'The version each item in ids is expected to be at, keyed by id; items at another version are not changed and fail with VERSION_CONFLICT',
+      additionalProperties: { type: 'integer', minimum: 1 },
+      example: { 1: 3, 2: 1 }
+    },
+    status: string('Required by setStatus'),
+    type: string('Required by setType')
+  }, 'One action applied to many items'),
+
+  BulkItemResult: object(['id', 'success'], {
+    id: integer(),
+    success: boolean(),
+    data: { allOf: [ref('Equipment')], description: 'The item after the change, or on a version conflict as it now is; absent for deletions and other failures' },
+    type: string('On failures, this and the members below are those of a Problem'),
+    title: string(),
+    status: integer(),
+    detail: string(),
+    code: ref('ProblemCode'),
+    errors: ref('FieldErrors')
+  }),
+
+  BulkResult: object(['success', 'message', 'action', 'total', 'succeeded', 'failed', 'results'], {
+    success: { type: 'boolean', enum: [true] },
+    message: string(),
+    action: ref('BulkAction'),
+    total: integer(),
+    succeeded: integer(),
+    failed: integer(),
+    results: { type: 'array', items: ref('BulkItemResult') }
+  }),
+
+  ImportField: { type: 'string', enum: IMPORT_FIELDS },
+
+  ImportRowResult: object(['row', 'data', 'errors'], {
+    row: integer('Line number in the file, counting the header'),
+    data: {
+      type: 'object',
+      description: 'purchaseCost comes back as a number when it parses as one',
+      additionalProperties: { oneOf: [{ type: 'string' }, { type: 'number' }] }
+    },
+    errors: ref('FieldErrors'),
+    id: integer('The created item, once imported')
+  }),
+
+  ImportReport: object(['success', 'dryRun', 'columns', 'mapping', 'total', 'valid', 'invalid', 'imported', 'rows'], {
+    success: boolean(),
+    message: string(),
+    dryRun: boolean(),
+    columns: { type: 'array', items: { type: 'string' } },
+    mapping: {
+      type: 'object',
+      description: 'The CSV column feeding each field',
+      additionalProperties: { type: 'string' }
+    },
+    total: integer(),
+    valid: integer(),
+    invalid: integer(),
+    imported: integer(),
+    rows: { type: 'array', items: ref('ImportRowResult') }
+  }),
+
+  SearchField: {
+    type: 'string',
+    description: 'Fields of an item that full-text search looks in',
+    enum: SEARCH_FIELDS.map(([field]) => field)
+  },
+
+  SearchMatch: object(['field', 'snippet'], {
+    field: ref('SearchField'),
+    snippet: {
+      type: 'array',
+      description: 'A stretch of the field around the words that matched, split into plain and matched parts',
+      items: object(['text', 'highlight'], { text: string(), highlight: boolean() })
+    }
+  }),
+
+  SearchResult: object(['equipment', 'matches'], {
+    equipment: ref('Equipment'),
+    matches: { type: 'array', items: ref('SearchMatch') }
+  }),
+
+  EventActor: object(['username', 'displayName'], {
+    username: string(),
+    displayName: string()
+  }),
+
+  EquipmentEvent: {
+    description: 'Sent as an "equipment" event on GET /api/events for every change made to equipment, its cleanings, its work orders or its attachments, including changes that follow from editing a type, status, location or custom field. Deletions carry the item as it was before going to the trash, or the work order or attachment as it was before being deleted. Work orders that put equipment under maintenance or take it out are followed by an update of the equipment.',
+    oneOf: [
+      object(['action', 'equipment', 'actor', 'requestId'], {
+        action: { type: 'string', enum: ['create', 'update', 'delete', 'restore'] },
+        equipment: ref('Equipment'),
+        actor: nullable(ref('EventActor')),
+        requestId: nullable(string())
+      }),
+      object(['action', 'count', 'actor', 'requestId'], {
+        action: { type: 'string', enum: ['import'] },
+        count: integer(),
+        actor: nullable(ref('EventActor')),
+        requestId: nullable(string())
+      }),
+      object(['action', 'operation', 'ids', 'count', 'actor', 'requestId'], {
+        action: { type: 'string', enum: ['bulk'] },
+        operation: ref('BulkAction'),
+        ids: { type: 'array', description: 'The items the action succeeded on', items: { type: 'integer' } },
+        count: integer(),
+        actor: nullable(ref('EventActor')),
+        requestId: nullable(string())
+      }),
+      object(['action', 'ids', 'count', 'actor', 'requestId'], {
+        action: { type: 'string', enum: ['purge'] },
+        ids: { type: 'array', description: 'The items permanently deleted from the trash', items: { type: 'integer' } },
+        count: integer(),
+        actor: nullable(ref('EventActor')),
+        requestId: nullable(string())
+      }),
+      object(['action', 'operation', 'workOrder', 'actor', 'requestId'], {
+        action: { type: 'string', enum: ['workOrder'] },
+        operation: { type: 'string', enum: ['create', 'update', 'delete'] },
+        workOrder: ref('WorkOrder'),
+        actor: nullable(ref('EventActor')),
+        requestId: nullable(string())
+      }),
+      object(['action', 'operation', 'attachment', 'actor', 'requestId'], {
+        action: { type: 'string', enum: ['attachment'] },
+        operation: { type: 'string', enum: ['create', 'delete'] },
+        attachment: ref('Attachment'),
+        actor: nullable(ref('EventActor')),
+        requestId: nullable(string())
+      }),
+      object(['action', 'entityType', 'operation', 'ids', 'count', 'actor', 'requestId'], {
+        action: { type: 'string', enum: ['cascade'] },
+        entityType: {
+          type: 'string',
+          description: 'What was changed: renaming a type, status or location, or changing a type\'s cleaning interval, changes the equipment using it, and deleting a custom field removes its values',
+          enum: ['equipment_type', 'equipment_status', 'location', 'custom_field']
+        },
+        operation: { type: 'string', enum: ['update', 'delete'] },
+        ids: { type: 'array', description: 'The items changed along with it, including any in the trash', items: { type: 'integer' } },
+        count: integer(),
+        actor: nullable(ref('EventActor')),
+        requestId: nullable(string())
+      })
+    ]
+  },
+
+  ProblemCode: {
+    type: 'string',
+    description: 'Names the kind of problem; unlike title and detail, codes stay the same across releases',
+    enum: PROBLEM_CODES
+  },
+
+  FieldErrors: {
+    type: 'object',
+    description: 'The problem with each field, keyed by its path such as name or cleaning.cleanedAt',
+    additionalProperties: { type: 'string' }
+  },
+
+  Problem: object(['type', 'title', 'status', 'code', 'success'], {
+    type: string('URI naming the kind of problem, one per code', { example: 'urn:equipment-tracker:problem:equipment-not-found' }),
+    title: string('Summary of the kind of problem, the same for every occurrence'),
+    status: integer('The HTTP status code'),
+    detail: string('What went wrong this time'),
+    instance: string('The path and query of the request'),
+    code: ref('ProblemCode'),
+    success: { type: 'boolean', enum: [false] },
+    errors: ref('FieldErrors'),
+    requestId: string('The X-Request-Id of the request, for finding it in the logs'),
+    id: integer('The id that was not found'),
+    permission: ref('Permission'),
+    data: { allOf: [ref('Equipment')], description: 'On a version conflict, the item as it now is' }
+  }, 'An RFC 7807 problem details object, sent as application/problem+json')
+};
+
+module.exports = schemas;
@@ -0,0 +1,124 @@
+const { cleaningSchema, equipmentSchema, equipmentUpdateSchema } = require('equipment-tracker-shared');
+
+// Component schemas describing bodies that the shared zod schemas validate
+const SHARED_SCHEMAS = {
+  EquipmentInput: equipmentSchema,
+  EquipmentUpdate: equipmentUpdateSchema,
+  CleaningEventInput: cleaningSchema
+};
+
+const BOUNDS = ['minLength', 'maxLength', 'minimum', 'maximum'];
+
+// What a zod schema accepts, in OpenAPI terms: its type, whether it may be
+// left out or null, its bounds and, for objects, its properties. Refinements
+// such as the date format can't be read back and are left out.
+const describeZod = (schema) => {
+  let current = schema;
+  let optional = false;
+  let nullable = false;
+
+  for (;;) {
+    const { typeName } = current._def;
+    if (typeName === 'ZodOptional') {
+      optional = true;
+      current = current._def.innerType;
+    } else if (typeName === 'ZodNullable') {
+      nullable = true;
+      current = current._def.innerType;
+    } else if (typeName === 'ZodEffects') {
+      current = current._def.schema;
+    } else {
+      break;
+    }
+  }
+
+  const { typeName, checks = [] } = current._def;
+  const values = (kind) => checks.filter((check) => check.kind === kind).map((check) => check.value);
+  const lowest = (kind) => (values(kind).length > 0 ? Math.max(...values(kind)) : undefined);
+  const highest = (kind) => (values(kind).length > 0 ? Math.min(...values(kind)) : undefined);
+
+  switch (typeName) {
+    case 'ZodString':
+      return { optional, nullable, type: 'string', minLength: lowest('min'), maxLength: highest('max') };
+    case 'ZodNumber':
+      return {
+        optional,
+        nullable,
+        type: checks.some((check) => check.kind === 'int') ? 'integer' : 'number',
+        minimum: lowest('min'),
+        maximum: highest('max')
+      };
+    case 'ZodObject':
+      return { optional, nullable, type: 'object', properties: current.shape };
+    case 'ZodRecord':
+      return { optional, nullable, type: 'object' };
+    default:
+      throw new Error(`Cannot compare zod type ${typeName} with the OpenAPI document`);
+  }
+};
+
+// Follow $refs, including the allOf wrapper nullable() puts around them
+const resolve = (document, schema) => {
+  if (schema.$ref) {
+    return resolve(document, document.components.schemas[schema.$ref.split('/').pop()]);
+  }
+  if (schema.allOf) {
+    return { ...resolve(document, schema.allOf[0]), nullable: Boolean(schema.nullable) };
+  }
+  return schema;
+};
+
+const compareObject = (document, name, shape, schema, mismatches) => {
+  const properties = schema.properties || {};
+  const required = schema.required || [];
+
+  new Set([...Object.keys(shape), ...Object.keys(properties)]).forEach((key) => {
+    const at = `${name}.${key}`;
+
+    if (!properties[key]) {
+      mismatches.push(`${at} is validated but not documented`);
+      return;
+    }
+    if (!shape[key]) {
+      mismatches.push(`${at} is documented but not validated`);
+      return;
+    }
+
+    const expected = describeZod(shape[key]);
+    const actual = resolve(document, properties[key]);
+
+    if (expected.optional === required.includes(key)) {
+      mismatches.push(`${at} should ${expected.optional ? 'not ' : ''}be required`);
+    }
+    if (expected.nullable !== Boolean(actual.nullable)) {
+      mismatches.push(`${at} should ${expected.nullable ? '' : 'not '}be nullable`);
+    }
+    if (expected.type !== actual.type) {
+      mismatches.push(`${at} should be of type ${expected.type}, not ${actual.type}`);
+    }
+    BOUNDS.forEach((bound) => {
+      if (expected[bound] !== actual[bound]) {
+        mismatches.push(`${at} should have ${bound} ${expected[bound] ?? 'unset'}, not ${actual[bound] ?? 'unset'}`);
+      }
+    });
+
+    if (expected.properties && actual.type === 'object') {
+      compareObject(document, at, expected.properties, actual, mismatches);
+    }
+  });
+};
+
+// Compare the document against the shared zod schemas the API validates
+// bodies with: properties either side leaves out, and differences in type,
+// required, nullable or bounds
+const checkSharedSchemas = (document) => {
+  const mismatches = [];
+  Object.entries(SHARED_SCHEMAS).forEach(([name, schema]) => {
+    compareObject(document, name, schema.shape, resolve(document, document.components.schemas[name]), mismatches);
+  });
+  return mismatches;
+};
+
+module.exports = {
+  checkSharedSchemas
+};
@@ -0,0 +1,283 @@
+const express = require('express');
+const multer = require('multer');
+const db = require('../db');
+const {
+  MAX_ATTACHMENT_BYTES,
+  ALLOWED_TYPES,
+  detectMimeType,
+  getFilePath,
+  getThumbnailPath,
+  validateAttachment,
+  listAttachments,
+  getAttachment,
+  createAttachment,
+  deleteAttachment
+} = require('../services/attachmentService');
+const { publishEquipmentEvent } = require('../services/eventService');
+const { requirePermission } = require('../middleware/auth');
+const { sendProblem, sendServerError, sendInvalidId } = require('../middleware/problem');
+const { sendValidationErrors } = require('../middleware/validate');
+const router = express.Router();
+
+// Uploads are held in memory so they can be hashed and checked before
+// anything is written to disk
+const uploadFile = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1, fields: 10 }
+}).single('file');
+
+// Parse a multipart upload, answering 413/400 for oversized or malformed ones
+const upload = (req, res, next) => {
+  uploadFile(req, res, (err) => {
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return sendProblem(res, 'FILE_TOO_LARGE', {
+          detail: `Attachments must be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+        });
+      }
+      return sendValidationErrors(res, { [err.field || 'file']: err.message });
+    }
+    next(err);
+  });
+};
+
+// Resolve :id, responding with 400/404 when it is invalid or missing.
+// Returns the equipment id, or null once responded.
+const findEquipment = async (req, res) => {
+  const { id } = req.params;
+
+  if (!id || isNaN(id)) {
+    sendInvalidId(res, 'id', 'equipment');
+    return null;
+  }
+
+  const existing = await db.get('SELECT id FROM equipment WHERE id = ? AND deletedAt IS NULL', [id]);
+
+  if (!existing) {
+    sendProblem(res, 'EQUIPMENT_NOT_FOUND', { id: parseInt(id) });
+    return null;
+  }
+
+  return existing.id;
+};
+
+// Resolve :id and :attachmentId, responding with 400/404 when either is
+// invalid or missing, or the equipment is in the trash. Returns the
+// attachment, or null once responded.
+const findAttachment = async (req, res) => {
+  const { attachmentId } = req.params;
+
+  const id = await findEquipment(req, res);
+  if (!id) {
+    return null;
+  }
+
+  if (!attachmentId || isNaN(attachmentId)) {
+    sendInvalidId(res, 'attachmentId', 'attachment');
+    return null;
+  }
+
+  const attachment = await getAttachment(id, attachmentId);
+
+  if (!attachment) {
+    sendProblem(res, 'ATTACHMENT_NOT_FOUND', { id: parseInt(attachmentId) });
+    return null;
+  }
+
+  return attachment;
+};
+
+// Send a stored file; content never changes under an attachment, so it can
+// be cached for good
+const sendStoredFile = (res, filePath, headers) => {
+  return new Promise((resolve, reject) => {
+    res.sendFile(filePath, {
+      headers: {
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+        ...headers
+      }
+    }, (err) => (err ? reject(err) : resolve()));
+  });
+};
+
+// ============================================================================
+// GET /api/equipment/:id/attachments - Fetch the attachments of equipment
+// ============================================================================
+router.get('/equipment/:id/attachments', async (req, res) => {
+  try {
+    const equipmentId = await findEquipment(req, res);
+    if (!equipmentId) {
+      return;
+    }
+
+    const attachments = await listAttachments(equipmentId);
+
+    res.json({
+      success: true,
+      count: attachments.length,
+      data: attachments
+    });
+  } catch (err) {
+    console.error('Error fetching attachments:', err);
+    sendServerError(res, 'Failed to fetch attachments', err);
+  }
+});
+
+// ============================================================================
+// POST /api/equipment/:id/attachments - Upload an attachment
+// Body: multipart/form-data with file, and optionally category and description
+// ============================================================================
+router.post(
+  '/equipment/:id/attachments',
+  requirePermission('attachment:create'),
+  upload,
+  async (req, res) => {
+    try {
+      const equipmentId = await findEquipment(req, res);
+      if (!equipmentId) {
+        return;
+      }
+
+      if (!req.file) {
+        return sendValidationErrors(res, {
+          file: 'file is required; send it as multipart/form-data in a field named "file"'
+        });
+      }
+
+      const mimeType = detectMimeType(req.file.buffer);
+
+      if (!mimeType) {
+        return sendProblem(res, 'UNSUPPORTED_FILE_TYPE', {
+          detail: `Attachments must be one of: ${ALLOWED_TYPES.join(', ')}`
+        });
+      }
+
+      // Validation
+      const errors = validateAttachment(req.body);
+
+      if (Object.keys(errors).length > 0) {
+        return sendValidationErrors(res, errors);
+      }
+
+      const attachment = await createAttachment(req, equipmentId, req.file, mimeType, req.body);
+
+      if (!attachment) {
+        return sendProblem(res, 'EQUIPMENT_NOT_FOUND', { id: equipmentId });
+      }
+
+      publishEquipmentEvent(req, 'attachment', { operation: 'create', attachment });
+
+      res.status(201).json({
+        success: true,
+        message: 'Attachment uploaded successfully',
+        data: attachment
+      });
+    } catch (err) {
+      console.error('Error uploading attachment:', err);
+      sendServerError(res, 'Failed to upload attachment', err);
+    }
+  }
+);
+
+// ============================================================================
+// GET /api/equipment/:id/attachments/:attachmentId - Fetch one attachment
+// ============================================================================
+router.get('/equipment/:id/attachments/:attachmentId', async (req, res) => {
+  try {
+    const attachment = await findAttachment(req, res);
+    if (!attachment) {
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: attachment
+    });
+  } catch (err) {
+    console.error('Error fetching attachment:', err);
+    sendServerError(res, 'Failed to fetch attachment', err);
+  }
+});
+
+// ============================================================================
+// GET /api/equipment/:id/attachments/:attachmentId/download - Download a file
+// Query: inline=true to display it in the browser instead of saving it
+// ============================================================================
+router.get('/equipment/:id/attachments/:attachmentId/download', async (req, res) => {
+  try {
+    const attachment = await findAttachment(req, res);
+    if (!attachment) {
+      return;
+    }
+
+    // res.attachment encodes the file name safely; inline only swaps the type
+    res.attachment(attachment.fileName);
+    if (req.query.inline === 'true') {
+      res.set('Content-Disposition', res.get('Content-Disposition').replace(/^attachment/, 'inline'));
+    }
+
+    await sendStoredFile(res, getFilePath(attachment.sha256), {
+      'Content-Type': attachment.mimeType,
+      ETag: `"${attachment.sha256}"`
+    });
+  } catch (err) {
+    console.error('Error downloading attachment:', err);
+    if (!res.headersSent) {
+      sendServerError(res, 'Failed to download attachment', err);
+    }
+  }
+});
+
+// ============================================================================
+// GET /api/equipment/:id/attachments/:attachmentId/thumbnail - Image preview
+// A WebP of at most 256x256 pixels; 404 for files without one
+// ============================================================================
+router.get('/equipment/:id/attachments/:attachmentId/thumbnail', async (req, res) => {
+  try {
+    const attachment = await findAttachment(req, res);
+    if (!attachment) {
+      return;
+    }
+
+    if (!attachment.hasThumbnail) {
+      return sendProblem(res, 'THUMBNAIL_NOT_FOUND', { id: attachment.id });
+    }
+
+    await sendStoredFile(res, getThumbnailPath(attachment.sha256), {
+      'Content-Type': 'image/webp'
+    });
+  } catch (err) {
+    console.error('Error fetching thumbnail:', err);
+    if (!res.headersSent) {
+      sendServerError(res, 'Failed to fetch thumbnail', err);
+    }
+  }
+});
+
+// ============================================================================
+// DELETE /api/equipment/:id/attachments/:attachmentId - Delete an attachment
+// ============================================================================
+router.delete('/equipment/:id/attachments/:attachmentId', requirePermission('attachment:delete'), async (req, res) => {
+  try {
+    const attachment = await findAttachment(req, res);
+    if (!attachment) {
+      return;
+    }
+
+    await deleteAttachment(req, attachment);
+
+    publishEquipmentEvent(req, 'attachment', { operation: 'delete', attachment });
+
+    res.json({
+      success: true,
+      message: 'Attachment deleted successfully',
+      id: attachment.id
+    });
+  } catch (err) {
+    console.error('Error deleting attachment:', err);
+    sendServerError(res, 'Failed to delete attachment', err);
+  }
+});
+
+module.exports = router;
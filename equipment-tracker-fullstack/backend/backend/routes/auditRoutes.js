@@ -0,0 +1,152 @@
+const express = require('express');
+const db = require('../db');
+const { AUDIT_ACTIONS, formatAuditEntry } = require('../services/auditService');
+const { validateSingleParams, parsePagination } = require('../services/equipmentQuery');
+const { requirePermission } = require('../middleware/auth');
+const { sendProblem, sendServerError, sendInvalidId } = require('../middleware/problem');
+const router = express.Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Filters GET /api/audit reads; each may be given at most once
+const AUDIT_PARAMS = ['entityType', 'entityId', 'equipmentId', 'action', 'actor', 'requestId', 'from', 'to'];
+
+// ============================================================================
+// GET /api/equipment/:id/history - Fetch the audit trail of one equipment item
+// ============================================================================
+router.get('/equipment/:id/history', requirePermission('audit:read'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'equipment');
+    }
+
+    // History stays available after the equipment itself is deleted
+    const entries = await db.all(
+      `SELECT * FROM audit_log
+       WHERE equipmentId = ?
+       ORDER BY createdAt DESC, id DESC`,
+      [id]
+    );
+
+    res.json({
+      success: true,
+      count: entries.length,
+      data: entries.map(formatAuditEntry)
+    });
+  } catch (err) {
+    console.error('Error fetching equipment history:', err);
+    sendServerError(res, 'Failed to fetch equipment history', err);
+  }
+});
+
+// ============================================================================
+// GET /api/audit - Search the audit log
+// Query: entityType, entityId, equipmentId, action, actor, requestId,
+//        from, to (YYYY-MM-DD), page, pageSize
+// ============================================================================
+router.get('/audit', requirePermission('audit:read'), async (req, res) => {
+  try {
+    const singleErrors = validateSingleParams(req.query, AUDIT_PARAMS);
+
+    if (Object.keys(singleErrors).length > 0) {
+      return sendProblem(res, 'INVALID_QUERY', { errors: singleErrors });
+    }
+
+    const { entityType, entityId, equipmentId, action, actor, requestId, from, to } = req.query;
+    const pagination = parsePagination(req.query);
+    const errors = { ...pagination.errors };
+    const conditions = [];
+    const params = [];
+
+    if (entityType !== undefined) {
+      conditions.push('entityType = ?');
+      params.push(entityType);
+    }
+
+    if (entityId !== undefined) {
+      if (isNaN(entityId)) {
+        errors.entityId = 'entityId must be a number';
+      }
+      conditions.push('entityId = ?');
+      params.push(entityId);
+    }
+
+    if (equipmentId !== undefined) {
+      if (isNaN(equipmentId)) {
+        errors.equipmentId = 'equipmentId must be a number';
+      }
+      conditions.push('equipmentId = ?');
+      params.push(equipmentId);
+    }
+
+    if (action !== undefined) {
+      if (!AUDIT_ACTIONS.includes(action)) {
+        errors.action = `action must be one of: ${AUDIT_ACTIONS.join(', ')}`;
+      }
+      conditions.push('action = ?');
+      params.push(action);
+    }
+
+    if (actor !== undefined) {
+      conditions.push('actor = ?');
+      params.push(actor);
+    }
+
+    if (requestId !== undefined) {
+      conditions.push('requestId = ?');
+      params.push(requestId);
+    }
+
+    if (from !== undefined) {
+      if (!DATE_PATTERN.test(from)) {
+        errors.from = 'from must be in YYYY-MM-DD format';
+      }
+      conditions.push('date(createdAt) >= ?');
+      params.push(from);
+    }
+
+    if (to !== undefined) {
+      if (!DATE_PATTERN.test(to)) {
+        errors.to = 'to must be in YYYY-MM-DD format';
+      }
+      conditions.push('date(createdAt) <= ?');
+      params.push(to);
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return sendProblem(res, 'INVALID_QUERY', { errors: errors });
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const { total } = await db.get(
+      `SELECT COUNT(*) AS total FROM audit_log ${where}`,
+      params
+    );
+
+    const entries = await db.all(
+      `SELECT * FROM audit_log ${where}
+       ORDER BY createdAt DESC, id DESC
+       LIMIT ? OFFSET ?`,
+      [...params, pagination.pageSize, pagination.offset]
+    );
+
+    res.json({
+      success: true,
+      count: entries.length,
+      total,
+      page: pagination.page,
+      pageSize: pagination.pageSize,
+      totalPages: Math.ceil(total / pagination.pageSize),
+      data: entries.map(formatAuditEntry)
+    });
+  } catch (err) {
+    console.error('Error fetching audit log:', err);
+    sendServerError(res, 'Failed to fetch audit log', err);
+  }
+});
+
+module.exports = router;
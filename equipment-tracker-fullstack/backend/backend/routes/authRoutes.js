@@ -0,0 +1,93 @@
+const express = require('express');
+const router = express.Router();
+const {
+  SESSION_COOKIE,
+  authenticate,
+  createSession,
+  deleteSession
+} = require('../services/authService');
+const { withPermissions } = require('../services/permissionService');
+const { requireAuth } = require('../middleware/auth');
+const { sendProblem, sendServerError } = require('../middleware/problem');
+const { sendValidationErrors } = require('../middleware/validate');
+
+// HTTP-only so scripts cannot read the token; secure outside development
+const cookieOptions = () => ({
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: process.env.NODE_ENV === 'production',
+  path: '/'
+});
+
+// ============================================================================
+// POST /api/auth/login - Sign in and start a session
+// ============================================================================
+router.post('/auth/login', async (req, res) => {
+  try {
+    const { username, password } = req.body || {};
+
+    const errors = {};
+    if (!username || typeof username !== 'string') {
+      errors.username = 'username is required';
+    }
+    if (!password || typeof password !== 'string') {
+      errors.password = 'password is required';
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+
+    const user = await authenticate(username.trim(), password);
+
+    if (!user) {
+      return sendProblem(res, 'INVALID_CREDENTIALS');
+    }
+
+    const { token, expiresAt } = await createSession(user.id);
+    res.cookie(SESSION_COOKIE, token, { ...cookieOptions(), expires: expiresAt });
+
+    res.json({
+      success: true,
+      message: 'Signed in successfully',
+      data: withPermissions(user)
+    });
+  } catch (err) {
+    console.error('Error signing in:', err);
+    sendServerError(res, 'Failed to sign in', err);
+  }
+});
+
+// ============================================================================
+// POST /api/auth/logout - End the current session
+// ============================================================================
+router.post('/auth/logout', async (req, res) => {
+  try {
+    const token = req.cookies[SESSION_COOKIE];
+
+    if (token) {
+      await deleteSession(token);
+    }
+    res.clearCookie(SESSION_COOKIE, cookieOptions());
+
+    res.json({
+      success: true,
+      message: 'Signed out successfully'
+    });
+  } catch (err) {
+    console.error('Error signing out:', err);
+    sendServerError(res, 'Failed to sign out', err);
+  }
+});
+
+// ============================================================================
+// GET /api/auth/me - Fetch the signed-in user and their permissions
+// ============================================================================
+router.get('/auth/me', requireAuth, (req, res) => {
+  res.json({
+    success: true,
+    data: withPermissions(req.user)
+  });
+});
+
+module.exports = router;
@@ -0,0 +1,103 @@
+const express = require('express');
+const { cleaningSchema } = require('equipment-tracker-shared');
+const db = require('../db');
+const { recordCleaning } = require('../services/cleaningService');
+const { recordAudit } = require('../services/auditService');
+const { getEquipmentById } = require('../services/equipmentService');
+const { publishEquipmentEvent } = require('../services/eventService');
+const { requirePermission } = require('../middleware/auth');
+const { validateBody } = require('../middleware/validate');
+const { sendProblem, sendServerError, sendInvalidId } = require('../middleware/problem');
+const router = express.Router();
+
+// ============================================================================
+// GET /api/equipment/:id/cleanings - Fetch cleaning history for equipment
+// ============================================================================
+router.get('/equipment/:id/cleanings', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'equipment');
+    }
+
+    // Check if equipment exists
+    const existing = await db.get(
+      'SELECT id FROM equipment WHERE id = ? AND deletedAt IS NULL',
+      [id]
+    );
+
+    if (!existing) {
+      return sendProblem(res, 'EQUIPMENT_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    const cleanings = await db.all(
+      `SELECT * FROM cleaning_events
+       WHERE equipmentId = ?
+       ORDER BY cleanedAt DESC, id DESC`,
+      [id]
+    );
+
+    res.json({
+      success: true,
+      count: cleanings.length,
+      data: cleanings
+    });
+  } catch (err) {
+    console.error('Error fetching cleanings:', err);
+    sendServerError(res, 'Failed to fetch cleanings', err);
+  }
+});
+
+// ============================================================================
+// POST /api/equipment/:id/cleanings - Log a cleaning event
+// ============================================================================
+router.post('/equipment/:id/cleanings', requirePermission('cleaning:create'), validateBody(cleaningSchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'equipment');
+    }
+
+    // Check if equipment exists
+    const existing = await db.get(
+      'SELECT id FROM equipment WHERE id = ? AND deletedAt IS NULL',
+      [id]
+    );
+
+    if (!existing) {
+      return sendProblem(res, 'EQUIPMENT_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    const { cleaning, equipment } = await db.transaction(async () => {
+      const recorded = await recordCleaning(existing.id, req.body);
+
+      await recordAudit(req, {
+        entityType: 'cleaning_event',
+        entityId: recorded.id,
+        equipmentId: existing.id,
+        action: 'create',
+        after: recorded
+      });
+
+      return { cleaning: recorded, equipment: await getEquipmentById(existing.id) };
+    });
+
+    // The cleaning changes the item's last cleaned date and cleaning count
+    publishEquipmentEvent(req, 'update', { equipment });
+
+    res.status(201).json({
+      success: true,
+      message: 'Cleaning logged successfully',
+      data: cleaning
+    });
+  } catch (err) {
+    console.error('Error logging cleaning:', err);
+    sendServerError(res, 'Failed to log cleaning', err);
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,174 @@
+const express = require('express');
+const {
+  validateFieldDefinition,
+  isUniqueViolation,
+  listFields,
+  getFieldById,
+  createField,
+  updateField,
+  deleteField
+} = require('../services/customFieldService');
+const { publishEquipmentEvent } = require('../services/eventService');
+const { requirePermission } = require('../middleware/auth');
+const { sendProblem, sendServerError, sendInvalidId } = require('../middleware/problem');
+const { sendValidationErrors } = require('../middleware/validate');
+const router = express.Router();
+
+// ============================================================================
+// GET /api/custom-fields - Fetch custom field definitions
+// Query: type (equipment type name) to fetch the fields of one type
+// ============================================================================
+router.get('/custom-fields', async (req, res) => {
+  try {
+    const fields = await listFields(req.query.type);
+
+    res.json({
+      success: true,
+      count: fields.length,
+      data: fields
+    });
+  } catch (err) {
+    console.error('Error fetching custom fields:', err);
+    sendServerError(res, 'Failed to fetch custom fields', err);
+  }
+});
+
+// ============================================================================
+// GET /api/custom-fields/:id - Fetch one custom field definition
+// ============================================================================
+router.get('/custom-fields/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'custom field');
+    }
+
+    const field = await getFieldById(id);
+
+    if (!field) {
+      return sendProblem(res, 'CUSTOM_FIELD_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    res.json({
+      success: true,
+      data: field
+    });
+  } catch (err) {
+    console.error('Error fetching custom field:', err);
+    sendServerError(res, 'Failed to fetch custom field', err);
+  }
+});
+
+// ============================================================================
+// POST /api/custom-fields - Define a custom field on an equipment type
+// ============================================================================
+router.post('/custom-fields', requirePermission('meta:manage'), async (req, res) => {
+  try {
+    // Validation
+    const errors = await validateFieldDefinition(req.body);
+
+    if (Object.keys(errors).length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+
+    const field = await createField(req, req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'Custom field created successfully',
+      data: field
+    });
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      return sendProblem(res, 'CUSTOM_FIELD_EXISTS', {
+        detail: 'The equipment type already has a field with this key'
+      });
+    }
+    console.error('Error creating custom field:', err);
+    sendServerError(res, 'Failed to create custom field', err);
+  }
+});
+
+// ============================================================================
+// PUT /api/custom-fields/:id - Update a custom field definition
+// The type, key and fieldType are fixed once the field exists.
+// ============================================================================
+router.put('/custom-fields/:id', requirePermission('meta:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'custom field');
+    }
+
+    const existing = await getFieldById(id);
+
+    if (!existing) {
+      return sendProblem(res, 'CUSTOM_FIELD_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    // Validation
+    const errors = await validateFieldDefinition(req.body, existing);
+
+    if (Object.keys(errors).length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+
+    const { label, required, min, max, options, sortOrder } = req.body;
+
+    if ([label, required, min, max, options, sortOrder].every((value) => value === undefined)) {
+      return sendProblem(res, 'NO_CHANGES');
+    }
+
+    const updated = await updateField(req, existing, req.body);
+
+    res.json({
+      success: true,
+      message: 'Custom field updated successfully',
+      data: updated
+    });
+  } catch (err) {
+    console.error('Error updating custom field:', err);
+    sendServerError(res, 'Failed to update custom field', err);
+  }
+});
+
+// ============================================================================
+// DELETE /api/custom-fields/:id - Delete a custom field and its values
+// ============================================================================
+router.delete('/custom-fields/:id', requirePermission('meta:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'custom field');
+    }
+
+    const existing = await getFieldById(id);
+
+    if (!existing) {
+      return sendProblem(res, 'CUSTOM_FIELD_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    const ids = await deleteField(req, existing);
+
+    if (ids.length > 0) {
+      publishEquipmentEvent(req, 'cascade', { entityType: 'custom_field', operation: 'delete', ids, count: ids.length });
+    }
+
+    res.json({
+      success: true,
+      message: 'Custom field deleted successfully',
+      id: existing.id
+    });
+  } catch (err) {
+    console.error('Error deleting custom field:', err);
+    sendServerError(res, 'Failed to delete custom field', err);
+  }
+});
+
+module.exports = router;
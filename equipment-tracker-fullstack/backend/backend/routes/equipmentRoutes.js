@@ -1,78 +1,302 @@
 const express = require('express');
+const { equipmentSchema, equipmentUpdateSchema, getFieldErrors } = require('equipment-tracker-shared');
 const db = require('../db');
+const { recordCleaning } = require('../services/cleaningService');
+const { recordAudit } = require('../services/auditService');
+const { publishEquipmentEvent } = require('../services/eventService');
+const { parseListQuery, parsePagination } = require('../services/equipmentQuery');
+const {
+  validateCustomFields,
+  normalizeCustomFields,
+  mergeCustomFields
+} = require('../services/customFieldService');
+const {
+  TRASH_RETENTION_DAYS,
+  validateRetentionDays,
+  softDeleteEquipment,
+  listTrash,
+  getTrashedEquipment,
+  restoreEquipment,
+  purgeTrash
+} = require('../services/trashService');
+const {
+  ASSET_FIELDS,
+  OVERDUE_SQL,
+  EQUIPMENT_FROM,
+  EQUIPMENT_SELECT,
+  formatEquipment,
+  matchesIfMatch,
+  getCleaningInput,
+  getEquipmentById,
+  loadOptions,
+  normalizeAssetField,
+  getAssetTags,
+  isAssetTagConflict,
+  validateEquipmentOptions,
+  validateNewEquipment,
+  createEquipment
+} = require('../services/equipmentService');
+const {
+  MAX_IMPORT_ROWS,
+  parseCsv,
+  resolveMapping,
+  toEquipmentInput
+} = require('../services/importService');
+const { EXPORT_FORMATS, toCsv, toXlsx } = require('../services/exportService');
+const { BULK_PERMISSIONS, validateBulkRequest, applyBulkAction } = require('../services/bulkService');
+const { requirePermission } = require('../middleware/auth');
+const { sendValidationErrors, validateBody } = require('../middleware/validate');
+const { sendProblem, sendServerError, sendInvalidId } = require('../middleware/problem');
 const router = express.Router();
 
-// Valid enum values
-const VALID_TYPES = ['Machine', 'Vessel', 'Tank', 'Mixer'];
-const VALID_STATUSES = ['Active', 'Inactive', 'Under Maintenance'];
+// Refuse a change made against an out-of-date copy, sending the item as it
+// now is so the client can show what changed
+const sendVersionConflict = (res, current) => {
+  sendProblem(res, 'VERSION_CONFLICT', {
+    detail: 'The equipment was changed by someone else since it was loaded',
+    data: current
+  });
+};
+
+// Check the If-Match header against the item's version, responding with 428
+// when it is missing or 409 when it is out of date. Returns whether the
+// request may go ahead.
+const checkVersion = (req, res, existing) => {
+  const ifMatch = req.get('If-Match');
+
+  if (!ifMatch) {
+    sendProblem(res, 'VERSION_REQUIRED', {
+      detail: 'Send If-Match with the version of the equipment the change is based on'
+    });
+    return false;
+  }
+
+  if (!matchesIfMatch(ifMatch, existing)) {
+    sendVersionConflict(res, existing);
+    return false;
+  }
+
+  return true;
+};
+
+// Each bulk action needs its own permission; unknown actions are left for
+// validation to reject
+const requireBulkPermission = (req, res, next) => {
+  const permission = BULK_PERMISSIONS[req.body && req.body.action];
+  if (!permission) {
+    return next();
+  }
+  requirePermission(permission)(req, res, next);
+};
 
 // ============================================================================
-// GET /api/equipment - Fetch all equipment
+// GET /api/equipment - Fetch a page of equipment
+// Query: page, pageSize, type, status, locationId, overdue, q, sort, order
 // ============================================================================
 router.get('/equipment', async (req, res) => {
   try {
-    const equipment = await db.all('SELECT * FROM equipment ORDER BY id DESC');
+    const list = parseListQuery(req.query);
+    const pagination = parsePagination(req.query);
+    const errors = { ...list.errors, ...pagination.errors };
+
+    if (Object.keys(errors).length > 0) {
+      return sendProblem(res, 'INVALID_QUERY', { errors: errors });
+    }
+
+    const { total } = await db.get(
+      `SELECT COUNT(*) AS total ${EQUIPMENT_FROM} ${list.where}`,
+      list.params
+    );
+
+    const equipment = await db.all(
+      `${EQUIPMENT_SELECT} ${list.where} ${list.orderBy} LIMIT ? OFFSET ?`,
+      [...list.params, pagination.pageSize, pagination.offset]
+    );
+
     res.json({
       success: true,
       count: equipment.length,
-      data: equipment
+      total,
+      page: pagination.page,
+      pageSize: pagination.pageSize,
+      totalPages: Math.ceil(total / pagination.pageSize),
+      data: equipment.map(formatEquipment)
     });
   } catch (err) {
     console.error('Error fetching equipment:', err);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to fetch equipment',
-      message: err.message
+    sendServerError(res, 'Failed to fetch equipment', err);
+  }
+});
+
+// ============================================================================
+// GET /api/equipment/export - Download equipment as CSV or Excel
+// Query: format (csv | xlsx), plus the filters and sort of GET /api/equipment
+// ============================================================================
+router.get('/equipment/export', async (req, res) => {
+  try {
+    const format = req.query.format || 'csv';
+    const list = parseListQuery(req.query);
+    const errors = { ...list.errors };
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      errors.format = `format must be one of: ${EXPORT_FORMATS.join(', ')}`;
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return sendProblem(res, 'INVALID_QUERY', { errors: errors });
+    }
+
+    // Every matching row is exported, not just the current page
+    const equipment = await db.all(
+      `${EQUIPMENT_SELECT} ${list.where} ${list.orderBy}`,
+      list.params
+    );
+
+    const fileName = `equipment-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.attachment(fileName);
+
+    if (format === 'xlsx') {
+      res.type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.send(Buffer.from(await toXlsx(equipment.map(formatEquipment))));
+    } else {
+      res.type('text/csv');
+      res.send(toCsv(equipment.map(formatEquipment)));
+    }
+  } catch (err) {
+    console.error('Error exporting equipment:', err);
+    sendServerError(res, 'Failed to export equipment', err);
+  }
+});
+
+// ============================================================================
+// GET /api/equipment/overdue - Fetch all equipment overdue for cleaning
+// Most overdue first
+// ============================================================================
+router.get('/equipment/overdue', async (req, res) => {
+  try {
+    const equipment = await db.all(
+      `${EQUIPMENT_SELECT} WHERE e.deletedAt IS NULL AND ${OVERDUE_SQL} = 1 ORDER BY nextCleaningDue ASC, e.id ASC`
+    );
+
+    res.json({
+      success: true,
+      count: equipment.length,
+      data: equipment.map(formatEquipment)
     });
+  } catch (err) {
+    console.error('Error fetching overdue equipment:', err);
+    sendServerError(res, 'Failed to fetch overdue equipment', err);
   }
 });
 
 // ============================================================================
-// POST /api/equipment - Create new equipment
+// GET /api/equipment/trash - Fetch a page of deleted equipment
+// Query: page, pageSize. Most recently deleted first.
+// ============================================================================
+router.get('/equipment/trash', async (req, res) => {
+  try {
+    const pagination = parsePagination(req.query);
+
+    if (Object.keys(pagination.errors).length > 0) {
+      return sendProblem(res, 'INVALID_QUERY', { errors: pagination.errors });
+    }
+
+    const { total, items } = await listTrash(pagination);
+
+    res.json({
+      success: true,
+      count: items.length,
+      total,
+      page: pagination.page,
+      pageSize: pagination.pageSize,
+      totalPages: Math.ceil(total / pagination.pageSize),
+      retentionDays: TRASH_RETENTION_DAYS,
+      data: items
+    });
+  } catch (err) {
+    console.error('Error fetching trash:', err);
+    sendServerError(res, 'Failed to fetch trash', err);
+  }
+});
+
 // ============================================================================
-router.post('/equipment', async (req, res) => {
+// DELETE /api/equipment/trash - Permanently delete equipment from the trash
+// Query: olderThanDays (default TRASH_RETENTION_DAYS); 0 empties the trash
+// ============================================================================
+router.delete('/equipment/trash', requirePermission('equipment:purge'), async (req, res) => {
   try {
-    const { name, type, status, lastCleanedDate } = req.body;
+    const { olderThanDays } = req.query;
+    const days = olderThanDays === undefined ? TRASH_RETENTION_DAYS : Number(olderThanDays);
 
     // Validation
-    const errors = [];
+    const errors = validateRetentionDays(days);
 
-    if (!name || typeof name !== 'string' || name.trim() === '') {
-      errors.push('name is required and must be a non-empty string');
+    if (Object.keys(errors).length > 0) {
+      return sendProblem(res, 'INVALID_QUERY', { errors: errors });
     }
 
-    if (!type || !VALID_TYPES.includes(type)) {
-      errors.push(`type is required and must be one of: ${VALID_TYPES.join(', ')}`);
+    const ids = await purgeTrash(req, days);
+
+    if (ids.length > 0) {
+      publishEquipmentEvent(req, 'purge', { ids, count: ids.length });
     }
 
-    if (!status || !VALID_STATUSES.includes(status)) {
-      errors.push(`status is required and must be one of: ${VALID_STATUSES.join(', ')}`);
+    res.json({
+      success: true,
+      message: `${ids.length} equipment item(s) purged successfully`,
+      count: ids.length,
+      ids
+    });
+  } catch (err) {
+    console.error('Error purging trash:', err);
+    sendServerError(res, 'Failed to purge trash', err);
+  }
+});
+
+// ============================================================================
+// GET /api/equipment/:id - Fetch one equipment item
+// Registered after the fixed /equipment/* paths so they are not taken as ids
+// ============================================================================
+router.get('/equipment/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'equipment');
     }
 
-    if (lastCleanedDate && !/^\d{4}-\d{2}-\d{2}$/.test(lastCleanedDate)) {
-      errors.push('lastCleanedDate must be in YYYY-MM-DD format');
+    const equipment = await getEquipmentById(id);
+
+    if (!equipment) {
+      return sendProblem(res, 'EQUIPMENT_NOT_FOUND', { id: parseInt(id) });
     }
 
-    if (errors.length > 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation failed',
-        details: errors
-      });
+    res.json({
+      success: true,
+      data: equipment
+    });
+  } catch (err) {
+    console.error('Error fetching equipment:', err);
+    sendServerError(res, 'Failed to fetch equipment', err);
+  }
+});
+
+// ============================================================================
+// POST /api/equipment - Create new equipment
+// ============================================================================
+router.post('/equipment', requirePermission('equipment:create'), validateBody(equipmentSchema), async (req, res) => {
+  try {
+    // Validation against the configured options
+    const options = await loadOptions();
+    const errors = validateNewEquipment(req.body, options);
+
+    if (Object.keys(errors).length > 0) {
+      return sendValidationErrors(res, errors);
     }
 
-    // Insert into database
-    const result = await db.run(
-      `INSERT INTO equipment (name, type, status, lastCleanedDate)
-       VALUES (?, ?, ?, ?)`,
-      [name.trim(), type, status, lastCleanedDate || null]
-    );
+    const newEquipment = await createEquipment(req, req.body, options);
 
-    // Fetch and return the created record
-    const newEquipment = await db.get(
-      'SELECT * FROM equipment WHERE id = ?',
-      [result.id]
-    );
+    publishEquipmentEvent(req, 'create', { equipment: newEquipment });
 
     res.status(201).json({
       success: true,
@@ -80,119 +304,329 @@ router.post('/equipment', async (req, res) => {
       data: newEquipment
     });
   } catch (err) {
+    if (isAssetTagConflict(err)) {
+      return sendProblem(res, 'ASSET_TAG_IN_USE');
+    }
     console.error('Error creating equipment:', err);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to create equipment',
-      message: err.message
+    sendServerError(res, 'Failed to create equipment', err);
+  }
+});
+
+// ============================================================================
+// POST /api/equipment/import - Import equipment from CSV
+// Body: CSV text (Content-Type: text/csv) with a header row
+// Query: dryRun=true to validate only, mapping[field]=Column to map columns
+// ============================================================================
+router.post(
+  '/equipment/import',
+  requirePermission('equipment:import'),
+  express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }),
+  async (req, res) => {
+    try {
+      const dryRun = req.query.dryRun === 'true' || req.query.dryRun === '1';
+
+      if (typeof req.body !== 'string' || req.body.trim() === '') {
+        return sendProblem(res, 'INVALID_CSV', {
+          detail: 'CSV body is required; send the file as text/csv'
+        });
+      }
+
+      let parsed;
+      try {
+        parsed = parseCsv(req.body);
+      } catch (parseErr) {
+        return sendProblem(res, 'INVALID_CSV', { detail: parseErr.message });
+      }
+
+      const { columns, records } = parsed;
+
+      if (records.length === 0) {
+        return sendProblem(res, 'INVALID_CSV', { detail: 'CSV contains no data rows' });
+      }
+
+      if (records.length > MAX_IMPORT_ROWS) {
+        return sendProblem(res, 'INVALID_CSV', {
+          detail: `CSV must contain at most ${MAX_IMPORT_ROWS} rows`
+        });
+      }
+
+      const { errors: mappingErrors, mapping } = resolveMapping(columns, req.query.mapping);
+
+      if (Object.keys(mappingErrors).length > 0) {
+        return sendProblem(res, 'INVALID_QUERY', { errors: mappingErrors });
+      }
+
+      // Validate every row exactly as POST /api/equipment would, and check
+      // asset tags against the database and the rows above
+      const options = await loadOptions();
+      const assetTags = await getAssetTags();
+      const rows = records.map((record, index) => {
+        const data = toEquipmentInput(record, mapping);
+        const parsed = equipmentSchema.safeParse(data);
+        const errors = {
+          ...validateNewEquipment(data, options),
+          ...(parsed.success ? {} : getFieldErrors(parsed.error))
+        };
+
+        if (typeof data.assetTag === 'string') {
+          const tag = data.assetTag.trim().toLowerCase();
+          if (assetTags.includes(tag)) {
+            errors.assetTag = `assetTag "${data.assetTag}" is already in use`;
+          }
+          assetTags.push(tag);
+        }
+
+        return {
+          row: index + 2, // Line number in the file, counting the header
+          data,
+          errors
+        };
+      });
+
+      const invalid = rows.filter((row) => Object.keys(row.errors).length > 0).length;
+      const report = {
+        dryRun,
+        columns,
+        mapping,
+        total: rows.length,
+        valid: rows.length - invalid,
+        invalid,
+        imported: 0,
+        rows
+      };
+
+      if (dryRun) {
+        return res.json({ success: true, ...report });
+      }
+
+      // Nothing is imported unless every row is valid
+      if (invalid > 0) {
+        return sendProblem(res, 'VALIDATION_FAILED', {
+          detail: `${invalid} of ${rows.length} row(s) are invalid; nothing was imported`,
+          ...report
+        });
+      }
+
+      const created = await db.transaction(async () => {
+        const items = [];
+        for (const row of rows) {
+          items.push(await createEquipment(req, row.data, options));
+        }
+        return items;
+      });
+
+      rows.forEach((row, index) => {
+        row.id = created[index].id;
+      });
+
+      // One event for the batch rather than one per row
+      publishEquipmentEvent(req, 'import', { count: created.length });
+
+      res.status(201).json({
+        success: true,
+        message: `${created.length} equipment item(s) imported successfully`,
+        ...report,
+        imported: created.length
+      });
+    } catch (err) {
+      console.error('Error importing equipment:', err);
+      sendServerError(res, 'Failed to import equipment', err);
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/equipment/bulk - Apply one action to many equipment items
+// Body: { action: delete|setStatus|setType|markCleaned, ids, versions, status?, type? }
+// ============================================================================
+router.post('/equipment/bulk', requireBulkPermission, async (req, res) => {
+  try {
+    // Validation
+    const options = await loadOptions();
+    const errors = validateBulkRequest(req.body, options);
+
+    if (Object.keys(errors).length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+
+    const { action } = req.body;
+    const ids = [...new Set(req.body.ids)];
+
+    // One transaction for the batch; items the action can't apply to are
+    // reported and skipped, while any other error rolls back every item
+    const results = await db.transaction(async () => {
+      const items = [];
+      for (const id of ids) {
+        items.push(await applyBulkAction(req, req.body, id, options));
+      }
+      return items;
     });
+
+    const succeededIds = results.filter((result) => result.success).map((result) => result.id);
+
+    // One event for the batch rather than one per item
+    if (succeededIds.length > 0) {
+      publishEquipmentEvent(req, 'bulk', { operation: action, ids: succeededIds, count: succeededIds.length });
+    }
+
+    res.json({
+      success: true,
+      message: `${action} applied to ${succeededIds.length} of ${ids.length} equipment item(s)`,
+      action,
+      total: ids.length,
+      succeeded: succeededIds.length,
+      failed: ids.length - succeededIds.length,
+      results
+    });
+  } catch (err) {
+    console.error('Error applying bulk action:', err);
+    sendServerError(res, 'Failed to apply bulk action', err);
   }
 });
 
 // ============================================================================
 // PUT /api/equipment/:id - Update equipment
+// Header: If-Match with the version the changes are based on
 // ============================================================================
-router.put('/equipment/:id', async (req, res) => {
+router.put('/equipment/:id', requirePermission('equipment:update'), validateBody(equipmentUpdateSchema), async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, type, status, lastCleanedDate } = req.body;
+    const { name, type, status, cleaningIntervalDays, runtimeHours, locationId, customFields } = req.body;
 
     // Validate ID
     if (!id || isNaN(id)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid equipment ID'
-      });
+      return sendInvalidId(res, 'id', 'equipment');
     }
 
     // Check if equipment exists
-    const existing = await db.get(
-      'SELECT * FROM equipment WHERE id = ?',
-      [id]
-    );
+    const existing = await getEquipmentById(id);
 
     if (!existing) {
-      return res.status(404).json({
-        success: false,
-        error: 'Equipment not found',
-        id: parseInt(id)
-      });
+      return sendProblem(res, 'EQUIPMENT_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    if (!checkVersion(req, res, existing)) {
+      return;
     }
 
+    // Validation against the configured options. Custom fields are checked
+    // against the type the item ends up with; changing the type drops values
+    // for fields the new type doesn't have.
+    const options = await loadOptions();
+    const errors = validateEquipmentOptions(req.body, options);
+    let values = null;
+    let fields = null;
+
+    if (!errors.type && (customFields !== undefined || (type !== undefined && type !== existing.type))) {
+      fields = options.fieldsByType[type !== undefined ? type : existing.type] || [];
+      values = mergeCustomFields(existing.customFields, customFields, fields);
+      Object.assign(errors, validateCustomFields(values, fields));
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+
+    const cleaning = getCleaningInput(req.body, existing);
+
     // Build update query dynamically
     const updates = [];
     const params = [];
 
     if (name !== undefined) {
-      if (typeof name !== 'string' || name.trim() === '') {
-        return res.status(400).json({
-          success: false,
-          error: 'Validation failed',
-          details: ['name must be a non-empty string']
-        });
-      }
       updates.push('name = ?');
-      params.push(name.trim());
+      params.push(name);
     }
 
     if (type !== undefined) {
-      if (!VALID_TYPES.includes(type)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Validation failed',
-          details: [`type must be one of: ${VALID_TYPES.join(', ')}`]
-        });
-      }
       updates.push('type = ?');
       params.push(type);
     }
 
     if (status !== undefined) {
-      if (!VALID_STATUSES.includes(status)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Validation failed',
-          details: [`status must be one of: ${VALID_STATUSES.join(', ')}`]
-        });
-      }
       updates.push('status = ?');
       params.push(status);
     }
 
-    if (lastCleanedDate !== undefined) {
-      if (lastCleanedDate !== null && !/^\d{4}-\d{2}-\d{2}$/.test(lastCleanedDate)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Validation failed',
-          details: ['lastCleanedDate must be in YYYY-MM-DD format']
-        });
+    if (cleaningIntervalDays !== undefined) {
+      updates.push('cleaningIntervalDays = ?');
+      params.push(cleaningIntervalDays);
+    }
+
+    if (runtimeHours !== undefined) {
+      updates.push('runtimeHours = ?');
+      params.push(runtimeHours);
+    }
+
+    if (locationId !== undefined) {
+      updates.push('locationId = ?');
+      params.push(locationId);
+    }
+
+    ASSET_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined) {
+        updates.push(`${field} = ?`);
+        params.push(normalizeAssetField(field, req.body[field]));
       }
-      updates.push('lastCleanedDate = ?');
-      params.push(lastCleanedDate);
+    });
+
+    if (values) {
+      updates.push('customFields = ?');
+      params.push(JSON.stringify(normalizeCustomFields(values, fields)));
     }
 
-    if (updates.length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'No fields to update'
-      });
+    if (updates.length === 0 && !cleaning) {
+      return sendProblem(res, 'NO_CHANGES');
     }
 
     // Add updatedAt timestamp
     updates.push('updatedAt = CURRENT_TIMESTAMP');
-    params.push(id);
+    params.push(id, existing.version);
+
+    // Execute the update with its cleaning and audit entry, unless someone
+    // else changed the item since it was read
+    const outcome = await db.transaction(async () => {
+      const result = await db.run(
+        `UPDATE equipment SET ${updates.join(', ')} WHERE id = ? AND version = ?`,
+        params
+      );
+
+      if (result.changes === 0) {
+        return null;
+      }
 
-    // Execute update
-    await db.run(
-      `UPDATE equipment SET ${updates.join(', ')} WHERE id = ?`,
-      params
-    );
+      if (cleaning) {
+        await recordCleaning(existing.id, cleaning);
+      }
 
-    // Fetch and return updated record
-    const updated = await db.get(
-      'SELECT * FROM equipment WHERE id = ?',
-      [id]
-    );
+      const updated = await getEquipmentById(id);
+
+      const auditId = await recordAudit(req, {
+        entityType: 'equipment',
+        entityId: existing.id,
+        equipmentId: existing.id,
+        action: 'update',
+        before: existing,
+        after: updated
+      });
+
+      return { updated, auditId };
+    });
+
+    if (!outcome) {
+      const current = await getEquipmentById(id);
+      if (!current) {
+        return sendProblem(res, 'EQUIPMENT_NOT_FOUND', { id: parseInt(id) });
+      }
+      return sendVersionConflict(res, current);
+    }
+
+    const { updated, auditId } = outcome;
+
+    // Updates that changed nothing were not audited and are not announced
+    if (auditId) {
+      publishEquipmentEvent(req, 'update', { equipment: updated });
+    }
 
     res.json({
       success: true,
@@ -200,59 +634,101 @@ router.put('/equipment/:id', async (req, res) => {
       data: updated
     });
   } catch (err) {
+    if (isAssetTagConflict(err)) {
+      return sendProblem(res, 'ASSET_TAG_IN_USE');
+    }
     console.error('Error updating equipment:', err);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to update equipment',
-      message: err.message
-    });
+    sendServerError(res, 'Failed to update equipment', err);
   }
 });
 
 // ============================================================================
-// DELETE /api/equipment/:id - Delete equipment
+// DELETE /api/equipment/:id - Move equipment to the trash
+// Header: If-Match with the version being deleted
 // ============================================================================
-router.delete('/equipment/:id', async (req, res) => {
+router.delete('/equipment/:id', requirePermission('equipment:delete'), async (req, res) => {
   try {
     const { id } = req.params;
 
     // Validate ID
     if (!id || isNaN(id)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid equipment ID'
-      });
+      return sendInvalidId(res, 'id', 'equipment');
     }
 
     // Check if equipment exists
-    const existing = await db.get(
-      'SELECT * FROM equipment WHERE id = ?',
-      [id]
-    );
+    const existing = await getEquipmentById(id);
 
     if (!existing) {
-      return res.status(404).json({
-        success: false,
-        error: 'Equipment not found',
-        id: parseInt(id)
-      });
+      return sendProblem(res, 'EQUIPMENT_NOT_FOUND', { id: parseInt(id) });
     }
 
-    // Delete the equipment
-    await db.run('DELETE FROM equipment WHERE id = ?', [id]);
+    if (!checkVersion(req, res, existing)) {
+      return;
+    }
+
+    // Everything belonging to the item stays in place until it is purged
+    const deleted = await softDeleteEquipment(req, existing);
+
+    if (!deleted) {
+      const current = await getEquipmentById(id);
+      if (!current) {
+        return sendProblem(res, 'EQUIPMENT_NOT_FOUND', { id: parseInt(id) });
+      }
+      return sendVersionConflict(res, current);
+    }
+
+    publishEquipmentEvent(req, 'delete', { equipment: existing });
 
     res.json({
       success: true,
-      message: 'Equipment deleted successfully',
-      id: parseInt(id)
+      message: 'Equipment moved to the trash',
+      id: parseInt(id),
+      data: await getTrashedEquipment(id)
     });
   } catch (err) {
     console.error('Error deleting equipment:', err);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to delete equipment',
-      message: err.message
+    sendServerError(res, 'Failed to delete equipment', err);
+  }
+});
+
+// ============================================================================
+// POST /api/equipment/:id/restore - Take equipment out of the trash
+// ============================================================================
+router.post('/equipment/:id/restore', requirePermission('equipment:delete'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'equipment');
+    }
+
+    const trashed = await getTrashedEquipment(id);
+
+    if (!trashed) {
+      return sendProblem(res, 'EQUIPMENT_NOT_FOUND', {
+        detail: 'The equipment is not in the trash',
+        id: parseInt(id)
+      });
+    }
+
+    const restored = await restoreEquipment(req, trashed);
+
+    publishEquipmentEvent(req, 'restore', { equipment: restored });
+
+    res.json({
+      success: true,
+      message: 'Equipment restored successfully',
+      data: restored
     });
+  } catch (err) {
+    if (isAssetTagConflict(err)) {
+      return sendProblem(res, 'ASSET_TAG_IN_USE', {
+        detail: 'Another item has taken its asset tag since it was deleted'
+      });
+    }
+    console.error('Error restoring equipment:', err);
+    sendServerError(res, 'Failed to restore equipment', err);
   }
 });
 
@@ -0,0 +1,27 @@
+const express = require('express');
+const { subscribe } = require('../services/eventService');
+const router = express.Router();
+
+// ============================================================================
+// GET /api/events - Stream changes as Server-Sent Events
+// Stays open; sends an "equipment" event for each change to equipment, and a
+// comment every 25 seconds to keep it alive
+// ============================================================================
+router.get('/events', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stops nginx and similar proxies from buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  // Tell the browser how long to wait before reconnecting after a drop
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = subscribe(res);
+  req.on('close', unsubscribe);
+});
+
+module.exports = router;
@@ -0,0 +1,197 @@
+const express = require('express');
+const {
+  validateLocation,
+  isUniqueViolation,
+  listLocations,
+  getLocationById,
+  createLocation,
+  updateLocation,
+  deleteLocation
+} = require('../services/locationService');
+const { publishEquipmentEvent } = require('../services/eventService');
+const { requirePermission } = require('../middleware/auth');
+const { sendProblem, sendServerError, sendInvalidId } = require('../middleware/problem');
+const { sendValidationErrors } = require('../middleware/validate');
+const router = express.Router();
+
+// ============================================================================
+// GET /api/locations - Fetch all locations
+// Returned flat, in name order; parentId links each one to its parent
+// ============================================================================
+router.get('/locations', async (req, res) => {
+  try {
+    const locations = await listLocations();
+
+    res.json({
+      success: true,
+      count: locations.length,
+      data: locations
+    });
+  } catch (err) {
+    console.error('Error fetching locations:', err);
+    sendServerError(res, 'Failed to fetch locations', err);
+  }
+});
+
+// ============================================================================
+// GET /api/locations/:id - Fetch one location
+// ============================================================================
+router.get('/locations/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'location');
+    }
+
+    const location = await getLocationById(id);
+
+    if (!location) {
+      return sendProblem(res, 'LOCATION_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    res.json({
+      success: true,
+      data: location
+    });
+  } catch (err) {
+    console.error('Error fetching location:', err);
+    sendServerError(res, 'Failed to fetch location', err);
+  }
+});
+
+// ============================================================================
+// POST /api/locations - Create a location
+// ============================================================================
+router.post('/locations', requirePermission('location:manage'), async (req, res) => {
+  try {
+    // Validation
+    const errors = validateLocation(req.body);
+
+    if (Object.keys(errors).length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+
+    const { location, errors: parentErrors } = await createLocation(req, req.body);
+
+    if (parentErrors) {
+      return sendValidationErrors(res, parentErrors);
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Location created successfully',
+      data: location
+    });
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      return sendProblem(res, 'LOCATION_EXISTS', {
+        detail: 'Another location with this name has the same parent'
+      });
+    }
+    console.error('Error creating location:', err);
+    sendServerError(res, 'Failed to create location', err);
+  }
+});
+
+// ============================================================================
+// PUT /api/locations/:id - Update or move a location
+// ============================================================================
+router.put('/locations/:id', requirePermission('location:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'location');
+    }
+
+    const existing = await getLocationById(id);
+
+    if (!existing) {
+      return sendProblem(res, 'LOCATION_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    // Validation
+    const errors = validateLocation(req.body, { partial: true });
+
+    if (Object.keys(errors).length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+
+    const { parentId, name, kind, description } = req.body;
+
+    if ([parentId, name, kind, description].every((value) => value === undefined)) {
+      return sendProblem(res, 'NO_CHANGES');
+    }
+
+    const { location, equipmentIds, errors: parentErrors } = await updateLocation(req, existing, req.body);
+
+    if (parentErrors) {
+      return sendValidationErrors(res, parentErrors);
+    }
+
+    if (equipmentIds.length > 0) {
+      publishEquipmentEvent(req, 'cascade', {
+        entityType: 'location',
+        operation: 'update',
+        ids: equipmentIds,
+        count: equipmentIds.length
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Location updated successfully',
+      data: location
+    });
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      return sendProblem(res, 'LOCATION_EXISTS', {
+        detail: 'Another location with this name has the same parent'
+      });
+    }
+    console.error('Error updating location:', err);
+    sendServerError(res, 'Failed to update location', err);
+  }
+});
+
+// ============================================================================
+// DELETE /api/locations/:id - Delete an empty location
+// ============================================================================
+router.delete('/locations/:id', requirePermission('location:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'location');
+    }
+
+    const existing = await getLocationById(id);
+
+    if (!existing) {
+      return sendProblem(res, 'LOCATION_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    if (existing.childCount > 0 || existing.equipmentCount > 0) {
+      return sendProblem(res, 'LOCATION_IN_USE', {
+        detail: `"${existing.name}" still contains ${existing.childCount} location(s) and ${existing.equipmentCount} equipment item(s)`
+      });
+    }
+
+    await deleteLocation(req, existing);
+
+    res.json({
+      success: true,
+      message: 'Location deleted successfully',
+      id: existing.id
+    });
+  } catch (err) {
+    console.error('Error deleting location:', err);
+    sendServerError(res, 'Failed to delete location', err);
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,273 @@
+const express = require('express');
+const db = require('../db');
+const { MAX_NAME_LENGTH, LOOKUPS, listOptions } = require('../services/lookupService');
+const { recordAudit } = require('../services/auditService');
+const { validateCleaningInterval } = require('../services/cleaningService');
+const { publishEquipmentEvent } = require('../services/eventService');
+const { requirePermission } = require('../middleware/auth');
+const { sendProblem, sendServerError, sendInvalidId } = require('../middleware/problem');
+const { sendValidationErrors } = require('../middleware/validate');
+const router = express.Router();
+
+// Validators for the extra settings a lookup may store
+const SETTING_VALIDATORS = {
+  cleaningIntervalDays: validateCleaningInterval
+};
+
+// Validate an option payload; name is only required when creating
+const validateOption = (body, settings, { partial = false } = {}) => {
+  const { name, description, sortOrder } = body;
+  const errors = {};
+
+  if (name !== undefined || !partial) {
+    if (!name || typeof name !== 'string' || name.trim() === '') {
+      errors.name = 'name is required and must be a non-empty string';
+    } else if (name.trim().length > MAX_NAME_LENGTH) {
+      errors.name = `name must be at most ${MAX_NAME_LENGTH} characters`;
+    }
+  }
+
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    errors.description = 'description must be a string';
+  }
+
+  if (sortOrder !== undefined && !Number.isInteger(sortOrder)) {
+    errors.sortOrder = 'sortOrder must be an integer';
+  }
+
+  settings.forEach((setting) => {
+    if (body[setting] !== undefined) {
+      Object.assign(errors, SETTING_VALIDATORS[setting](body[setting]));
+    }
+  });
+
+  return errors;
+};
+
+const isUniqueViolation = (err) => err.code === 'SQLITE_CONSTRAINT' && /UNIQUE/.test(err.message);
+
+// The same admin endpoints serve every configurable option list
+Object.entries(LOOKUPS).forEach(([lookup, { table, column, label, entityType, settings }]) => {
+  // Problem codes are named after the column, e.g. TYPE_NOT_FOUND
+  const code = column.toUpperCase();
+
+  // ==========================================================================
+  // GET /api/meta/:lookup - Fetch all options
+  // ==========================================================================
+  router.get(`/meta/${lookup}`, async (req, res) => {
+    try {
+      const options = await listOptions(lookup);
+      res.json({
+        success: true,
+        count: options.length,
+        data: options
+      });
+    } catch (err) {
+      console.error(`Error fetching ${lookup}:`, err);
+      sendServerError(res, `Failed to fetch ${lookup}`, err);
+    }
+  });
+
+  // ==========================================================================
+  // POST /api/meta/:lookup - Create an option
+  // ==========================================================================
+  router.post(`/meta/${lookup}`, requirePermission('meta:manage'), async (req, res) => {
+    try {
+      const errors = validateOption(req.body, settings);
+
+      if (Object.keys(errors).length > 0) {
+        return sendValidationErrors(res, errors);
+      }
+
+      const { name, description, sortOrder } = req.body;
+      const columns = ['name', 'description', 'sortOrder', ...settings];
+      const values = [
+        name.trim(),
+        description || null,
+        sortOrder || 0,
+        ...settings.map((setting) => (req.body[setting] === undefined ? null : req.body[setting]))
+      ];
+      const option = await db.transaction(async () => {
+        const result = await db.run(
+          `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+          values
+        );
+
+        const created = await db.get(`SELECT * FROM ${table} WHERE id = ?`, [result.id]);
+
+        await recordAudit(req, {
+          entityType,
+          entityId: created.id,
+          action: 'create',
+          after: created
+        });
+
+        return created;
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `${label} created successfully`,
+        data: option
+      });
+    } catch (err) {
+      if (isUniqueViolation(err)) {
+        return sendProblem(res, `${code}_EXISTS`);
+      }
+      console.error(`Error creating ${column}:`, err);
+      sendServerError(res, `Failed to create ${label.toLowerCase()}`, err);
+    }
+  });
+
+  // ==========================================================================
+  // PUT /api/meta/:lookup/:id - Update an option
+  // Renaming cascades to all equipment using it.
+  // ==========================================================================
+  router.put(`/meta/${lookup}/:id`, requirePermission('meta:manage'), async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!id || isNaN(id)) {
+        return sendInvalidId(res, 'id', label.toLowerCase());
+      }
+
+      const existing = await db.get(`SELECT * FROM ${table} WHERE id = ?`, [id]);
+
+      if (!existing) {
+        return sendProblem(res, `${code}_NOT_FOUND`, { id: parseInt(id) });
+      }
+
+      const errors = validateOption(req.body, settings, { partial: true });
+
+      if (Object.keys(errors).length > 0) {
+        return sendValidationErrors(res, errors);
+      }
+
+      const { name, description, sortOrder } = req.body;
+      const updates = [];
+      const params = [];
+
+      if (name !== undefined) {
+        updates.push('name = ?');
+        params.push(name.trim());
+      }
+
+      if (description !== undefined) {
+        updates.push('description = ?');
+        params.push(description || null);
+      }
+
+      if (sortOrder !== undefined) {
+        updates.push('sortOrder = ?');
+        params.push(sortOrder);
+      }
+
+      settings.forEach((setting) => {
+        if (req.body[setting] !== undefined) {
+          updates.push(`${setting} = ?`);
+          params.push(req.body[setting]);
+        }
+      });
+
+      if (updates.length === 0) {
+        return sendProblem(res, 'NO_CHANGES');
+      }
+
+      params.push(id);
+      const { updated, equipmentIds } = await db.transaction(async () => {
+        await db.run(`UPDATE ${table} SET ${updates.join(', ')} WHERE id = ?`, params);
+
+        const option = await db.get(`SELECT * FROM ${table} WHERE id = ?`, [id]);
+
+        await recordAudit(req, {
+          entityType,
+          entityId: existing.id,
+          action: 'update',
+          before: existing,
+          after: option
+        });
+
+        // Equipment using the option changes with its name or its settings
+        const changesEquipment = ['name', ...settings].some((field) => option[field] !== existing[field]);
+        const rows = changesEquipment
+          ? await db.all(`SELECT id FROM equipment WHERE ${column} = ? ORDER BY id`, [option.name])
+          : [];
+
+        return { updated: option, equipmentIds: rows.map((row) => row.id) };
+      });
+
+      if (equipmentIds.length > 0) {
+        publishEquipmentEvent(req, 'cascade', {
+          entityType,
+          operation: 'update',
+          ids: equipmentIds,
+          count: equipmentIds.length
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `${label} updated successfully`,
+        data: updated
+      });
+    } catch (err) {
+      if (isUniqueViolation(err)) {
+        return sendProblem(res, `${code}_EXISTS`);
+      }
+      console.error(`Error updating ${column}:`, err);
+      sendServerError(res, `Failed to update ${label.toLowerCase()}`, err);
+    }
+  });
+
+  // ==========================================================================
+  // DELETE /api/meta/:lookup/:id - Delete an unused option
+  // ==========================================================================
+  router.delete(`/meta/${lookup}/:id`, requirePermission('meta:manage'), async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!id || isNaN(id)) {
+        return sendInvalidId(res, 'id', label.toLowerCase());
+      }
+
+      const existing = await db.get(`SELECT * FROM ${table} WHERE id = ?`, [id]);
+
+      if (!existing) {
+        return sendProblem(res, `${code}_NOT_FOUND`, { id: parseInt(id) });
+      }
+
+      const { count } = await db.get(
+        `SELECT COUNT(*) AS count FROM equipment WHERE ${column} = ?`,
+        [existing.name]
+      );
+
+      if (count > 0) {
+        return sendProblem(res, `${code}_IN_USE`, {
+          detail: `${count} equipment item(s) still use "${existing.name}"`
+        });
+      }
+
+      await db.transaction(async () => {
+        await db.run(`DELETE FROM ${table} WHERE id = ?`, [id]);
+
+        await recordAudit(req, {
+          entityType,
+          entityId: existing.id,
+          action: 'delete',
+          before: existing
+        });
+      });
+
+      res.json({
+        success: true,
+        message: `${label} deleted successfully`,
+        id: parseInt(id)
+      });
+    } catch (err) {
+      console.error(`Error deleting ${column}:`, err);
+      sendServerError(res, `Failed to delete ${label.toLowerCase()}`, err);
+    }
+  });
+});
+
+module.exports = router;
@@ -0,0 +1,263 @@
+const express = require('express');
+const db = require('../db');
+const {
+  PM_PLAN_SELECT,
+  formatPmPlan,
+  mergePmPlan,
+  validatePmPlan,
+  getPmPlanById,
+  createPmPlan,
+  updatePmPlan,
+  deletePmPlan,
+  listUpcomingPmPlans
+} = require('../services/pmPlanService');
+const { requirePermission } = require('../middleware/auth');
+const { sendProblem, sendServerError, sendInvalidId } = require('../middleware/problem');
+const { sendValidationErrors } = require('../middleware/validate');
+const router = express.Router();
+
+const DEFAULT_UPCOMING_DAYS = 30;
+const DEFAULT_UPCOMING_HOURS = 24;
+const MAX_UPCOMING_DAYS = 365;
+
+// Parse a non-negative integer query parameter, falling back to a default
+const parseWindow = (value, fallback) => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : NaN;
+};
+
+// ============================================================================
+// GET /api/pm-plans - Fetch preventive maintenance plans
+// Query: equipmentId, active (true|false)
+// ============================================================================
+router.get('/pm-plans', async (req, res) => {
+  try {
+    const { equipmentId, active } = req.query;
+    const errors = {};
+    // Plans of equipment in the trash are hidden along with it
+    const conditions = ['e.deletedAt IS NULL'];
+    const params = [];
+
+    if (equipmentId !== undefined) {
+      if (isNaN(equipmentId)) {
+        errors.equipmentId = 'equipmentId must be a number';
+      }
+      conditions.push('p.equipmentId = ?');
+      params.push(equipmentId);
+    }
+
+    if (active !== undefined) {
+      if (active !== 'true' && active !== 'false') {
+        errors.active = 'active must be true or false';
+      }
+      conditions.push('p.active = ?');
+      params.push(active === 'true' ? 1 : 0);
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return sendProblem(res, 'INVALID_QUERY', { errors: errors });
+    }
+
+    const where = `WHERE ${conditions.join(' AND ')}`;
+
+    const plans = await db.all(
+      `${PM_PLAN_SELECT} ${where} ORDER BY e.name COLLATE NOCASE, p.title COLLATE NOCASE, p.id`,
+      params
+    );
+
+    res.json({
+      success: true,
+      count: plans.length,
+      data: plans.map(formatPmPlan)
+    });
+  } catch (err) {
+    console.error('Error fetching PM plans:', err);
+    sendServerError(res, 'Failed to fetch PM plans', err);
+  }
+});
+
+// ============================================================================
+// GET /api/pm-plans/upcoming - Fetch active plans coming due, soonest first
+// Query: days (date-based plans due within, default 30),
+//        hours (runtime plans due within, default 24)
+// ============================================================================
+router.get('/pm-plans/upcoming', async (req, res) => {
+  try {
+    const days = parseWindow(req.query.days, DEFAULT_UPCOMING_DAYS);
+    const hours = parseWindow(req.query.hours, DEFAULT_UPCOMING_HOURS);
+    const errors = {};
+
+    if (Number.isNaN(days) || days > MAX_UPCOMING_DAYS) {
+      errors.days = `days must be an integer between 0 and ${MAX_UPCOMING_DAYS}`;
+    }
+
+    if (Number.isNaN(hours)) {
+      errors.hours = 'hours must be a non-negative integer';
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return sendProblem(res, 'INVALID_QUERY', { errors: errors });
+    }
+
+    const until = new Date();
+    until.setUTCDate(until.getUTCDate() + days);
+
+    const plans = await listUpcomingPmPlans({ until, withinHours: hours });
+
+    res.json({
+      success: true,
+      count: plans.length,
+      data: plans
+    });
+  } catch (err) {
+    console.error('Error fetching upcoming PM plans:', err);
+    sendServerError(res, 'Failed to fetch upcoming PM plans', err);
+  }
+});
+
+// ============================================================================
+// GET /api/pm-plans/:id - Fetch one PM plan
+// ============================================================================
+router.get('/pm-plans/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'PM plan');
+    }
+
+    const plan = await getPmPlanById(id);
+
+    if (!plan) {
+      return sendProblem(res, 'PM_PLAN_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    res.json({
+      success: true,
+      data: plan
+    });
+  } catch (err) {
+    console.error('Error fetching PM plan:', err);
+    sendServerError(res, 'Failed to fetch PM plan', err);
+  }
+});
+
+// ============================================================================
+// POST /api/pm-plans - Create a PM plan for an equipment item
+// ============================================================================
+router.post('/pm-plans', requirePermission('pm_plan:manage'), async (req, res) => {
+  try {
+    const equipmentId = req.body && req.body.equipmentId;
+
+    if (!Number.isInteger(equipmentId)) {
+      return sendValidationErrors(res, { equipmentId: 'equipmentId is required and must be an integer' });
+    }
+
+    // Check if equipment exists
+    const equipment = await db.get(
+      'SELECT id, runtimeHours FROM equipment WHERE id = ? AND deletedAt IS NULL',
+      [equipmentId]
+    );
+
+    if (!equipment) {
+      return sendProblem(res, 'EQUIPMENT_NOT_FOUND', { id: equipmentId });
+    }
+
+    // Validation
+    const errors = validatePmPlan(req.body);
+
+    if (Object.keys(errors).length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+
+    const plan = await createPmPlan(req, equipment, req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'PM plan created successfully',
+      data: plan
+    });
+  } catch (err) {
+    console.error('Error creating PM plan:', err);
+    sendServerError(res, 'Failed to create PM plan', err);
+  }
+});
+
+// ============================================================================
+// PUT /api/pm-plans/:id - Update a PM plan
+// ============================================================================
+router.put('/pm-plans/:id', requirePermission('pm_plan:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'PM plan');
+    }
+
+    const existing = await getPmPlanById(id);
+
+    if (!existing) {
+      return sendProblem(res, 'PM_PLAN_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    // Validation
+    const errors = validatePmPlan(mergePmPlan(existing, req.body));
+
+    if (req.body && req.body.equipmentId !== undefined && req.body.equipmentId !== existing.equipmentId) {
+      errors.equipmentId = 'equipmentId cannot be changed';
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+
+    const updated = await updatePmPlan(req, existing, req.body);
+
+    res.json({
+      success: true,
+      message: 'PM plan updated successfully',
+      data: updated
+    });
+  } catch (err) {
+    console.error('Error updating PM plan:', err);
+    sendServerError(res, 'Failed to update PM plan', err);
+  }
+});
+
+// ============================================================================
+// DELETE /api/pm-plans/:id - Delete a PM plan
+// ============================================================================
+router.delete('/pm-plans/:id', requirePermission('pm_plan:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'PM plan');
+    }
+
+    const existing = await getPmPlanById(id);
+
+    if (!existing) {
+      return sendProblem(res, 'PM_PLAN_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    await deletePmPlan(req, existing);
+
+    res.json({
+      success: true,
+      message: 'PM plan deleted successfully',
+      id: existing.id
+    });
+  } catch (err) {
+    console.error('Error deleting PM plan:', err);
+    sendServerError(res, 'Failed to delete PM plan', err);
+  }
+});
+
+module.exports = router;
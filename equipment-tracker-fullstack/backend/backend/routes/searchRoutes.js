@@ -0,0 +1,47 @@
+const express = require('express');
+const {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  toMatchQuery,
+  searchEquipment
+} = require('../services/searchService');
+const { sendProblem, sendServerError } = require('../middleware/problem');
+const router = express.Router();
+
+// ============================================================================
+// GET /api/search - Full-text search of equipment, best match first
+// Query: q (required), limit
+// ============================================================================
+router.get('/search', async (req, res) => {
+  try {
+    const { q } = req.query;
+    const limit = req.query.limit === undefined ? DEFAULT_SEARCH_LIMIT : Number(req.query.limit);
+    const matchQuery = typeof q === 'string' ? toMatchQuery(q) : null;
+    const errors = {};
+
+    if (!matchQuery) {
+      errors.q = 'q is required and must contain at least one letter or digit';
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      errors.limit = `limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}`;
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return sendProblem(res, 'INVALID_QUERY', { errors: errors });
+    }
+
+    const results = await searchEquipment(matchQuery, limit);
+
+    res.json({
+      success: true,
+      count: results.length,
+      data: results
+    });
+  } catch (err) {
+    console.error('Error searching equipment:', err);
+    sendServerError(res, 'Failed to search equipment', err);
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,286 @@
+const express = require('express');
+const db = require('../db');
+const {
+  PRIORITIES,
+  WORK_ORDER_SELECT,
+  WORK_ORDER_ORDER_BY,
+  formatWorkOrder,
+  validateWorkOrder,
+  getWorkOrder,
+  listWorkOrders,
+  createWorkOrder,
+  updateWorkOrder,
+  deleteWorkOrder
+} = require('../services/workOrderService');
+const { validateSingleParams, parsePagination } = require('../services/equipmentQuery');
+const { requirePermission } = require('../middleware/auth');
+const { sendProblem, sendServerError, sendInvalidId } = require('../middleware/problem');
+const { sendValidationErrors } = require('../middleware/validate');
+const router = express.Router();
+
+const VALID_STATES = ['open', 'closed'];
+
+// Filters GET /api/work-orders reads; each may be given at most once
+const LIST_PARAMS = ['status', 'priority', 'assignee', 'equipmentId'];
+
+// Resolve :id and :workOrderId, responding with 400/404 when either is
+// invalid or missing. Returns the work order, or null once responded.
+const findWorkOrder = async (req, res) => {
+  const { id, workOrderId } = req.params;
+
+  if (!id || isNaN(id)) {
+    sendInvalidId(res, 'id', 'equipment');
+    return null;
+  }
+
+  if (!workOrderId || isNaN(workOrderId)) {
+    sendInvalidId(res, 'workOrderId', 'work order');
+    return null;
+  }
+
+  const workOrder = await getWorkOrder(id, workOrderId);
+
+  if (!workOrder) {
+    sendProblem(res, 'WORK_ORDER_NOT_FOUND', { id: parseInt(workOrderId) });
+    return null;
+  }
+
+  return workOrder;
+};
+
+// ============================================================================
+// GET /api/work-orders - Fetch a page of work orders across all equipment
+// Query: status (open|closed), priority, assignee, equipmentId, page, pageSize
+// ============================================================================
+router.get('/work-orders', async (req, res) => {
+  try {
+    const singleErrors = validateSingleParams(req.query, LIST_PARAMS);
+
+    if (Object.keys(singleErrors).length > 0) {
+      return sendProblem(res, 'INVALID_QUERY', { errors: singleErrors });
+    }
+
+    const { status, priority, assignee, equipmentId } = req.query;
+    const pagination = parsePagination(req.query);
+    const errors = { ...pagination.errors };
+    // Orders of equipment in the trash are hidden along with it
+    const conditions = ['w.equipmentId IN (SELECT id FROM equipment WHERE deletedAt IS NULL)'];
+    const params = [];
+
+    if (status !== undefined) {
+      if (!VALID_STATES.includes(status)) {
+        errors.status = `status must be one of: ${VALID_STATES.join(', ')}`;
+      }
+      conditions.push(status === 'open' ? 'w.closedAt IS NULL' : 'w.closedAt IS NOT NULL');
+    }
+
+    if (priority !== undefined) {
+      if (!PRIORITIES.includes(priority)) {
+        errors.priority = `priority must be one of: ${PRIORITIES.join(', ')}`;
+      }
+      conditions.push('w.priority = ?');
+      params.push(priority);
+    }
+
+    if (assignee !== undefined) {
+      conditions.push('w.assignee = ? COLLATE NOCASE');
+      params.push(assignee);
+    }
+
+    if (equipmentId !== undefined) {
+      if (isNaN(equipmentId)) {
+        errors.equipmentId = 'equipmentId must be a number';
+      }
+      conditions.push('w.equipmentId = ?');
+      params.push(equipmentId);
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return sendProblem(res, 'INVALID_QUERY', { errors: errors });
+    }
+
+    const where = `WHERE ${conditions.join(' AND ')}`;
+
+    const { total } = await db.get(
+      `SELECT COUNT(*) AS total FROM work_orders w ${where}`,
+      params
+    );
+
+    const workOrders = await db.all(
+      `${WORK_ORDER_SELECT} ${where} ${WORK_ORDER_ORDER_BY} LIMIT ? OFFSET ?`,
+      [...params, pagination.pageSize, pagination.offset]
+    );
+
+    res.json({
+      success: true,
+      count: workOrders.length,
+      total,
+      page: pagination.page,
+      pageSize: pagination.pageSize,
+      totalPages: Math.ceil(total / pagination.pageSize),
+      data: workOrders.map(formatWorkOrder)
+    });
+  } catch (err) {
+    console.error('Error fetching work orders:', err);
+    sendServerError(res, 'Failed to fetch work orders', err);
+  }
+});
+
+// ============================================================================
+// GET /api/equipment/:id/work-orders - Fetch the work orders of equipment
+// ============================================================================
+router.get('/equipment/:id/work-orders', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'equipment');
+    }
+
+    // Check if equipment exists
+    const existing = await db.get(
+      'SELECT id FROM equipment WHERE id = ? AND deletedAt IS NULL',
+      [id]
+    );
+
+    if (!existing) {
+      return sendProblem(res, 'EQUIPMENT_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    const workOrders = await listWorkOrders(existing.id);
+
+    res.json({
+      success: true,
+      count: workOrders.length,
+      data: workOrders
+    });
+  } catch (err) {
+    console.error('Error fetching work orders:', err);
+    sendServerError(res, 'Failed to fetch work orders', err);
+  }
+});
+
+// ============================================================================
+// POST /api/equipment/:id/work-orders - Open a work order
+// ============================================================================
+router.post('/equipment/:id/work-orders', requirePermission('work_order:create'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!id || isNaN(id)) {
+      return sendInvalidId(res, 'id', 'equipment');
+    }
+
+    // Check if equipment exists
+    const existing = await db.get(
+      'SELECT id FROM equipment WHERE id = ? AND deletedAt IS NULL',
+      [id]
+    );
+
+    if (!existing) {
+      return sendProblem(res, 'EQUIPMENT_NOT_FOUND', { id: parseInt(id) });
+    }
+
+    // Validation
+    const errors = validateWorkOrder(req.body);
+
+    if (req.body && req.body.closed !== undefined) {
+      errors.closed = 'closed cannot be set on a new work order';
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+
+    const workOrder = await createWorkOrder(req, existing.id, req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'Work order opened successfully',
+      data: workOrder
+    });
+  } catch (err) {
+    console.error('Error opening work order:', err);
+    sendServerError(res, 'Failed to open work order', err);
+  }
+});
+
+// ============================================================================
+// GET /api/equipment/:id/work-orders/:workOrderId - Fetch one work order
+// ============================================================================
+router.get('/equipment/:id/work-orders/:workOrderId', async (req, res) => {
+  try {
+    const workOrder = await findWorkOrder(req, res);
+
+    if (!workOrder) {
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: workOrder
+    });
+  } catch (err) {
+    console.error('Error fetching work order:', err);
+    sendServerError(res, 'Failed to fetch work order', err);
+  }
+});
+
+// ============================================================================
+// PUT /api/equipment/:id/work-orders/:workOrderId - Update, close or reopen
+// ============================================================================
+router.put('/equipment/:id/work-orders/:workOrderId', requirePermission('work_order:update'), async (req, res) => {
+  try {
+    const existing = await findWorkOrder(req, res);
+
+    if (!existing) {
+      return;
+    }
+
+    // Validation
+    const errors = validateWorkOrder(req.body, { partial: true });
+
+    if (Object.keys(errors).length > 0) {
+      return sendValidationErrors(res, errors);
+    }
+
+    const updated = await updateWorkOrder(req, existing, req.body);
+
+    res.json({
+      success: true,
+      message: 'Work order updated successfully',
+      data: updated
+    });
+  } catch (err) {
+    console.error('Error updating work order:', err);
+    sendServerError(res, 'Failed to update work order', err);
+  }
+});
+
+// ============================================================================
+// DELETE /api/equipment/:id/work-orders/:workOrderId - Delete a work order
+// ============================================================================
+router.delete('/equipment/:id/work-orders/:workOrderId', requirePermission('work_order:delete'), async (req, res) => {
+  try {
+    const existing = await findWorkOrder(req, res);
+
+    if (!existing) {
+      return;
+    }
+
+    await deleteWorkOrder(req, existing);
+
+    res.json({
+      success: true,
+      message: 'Work order deleted successfully',
+      id: existing.id
+    });
+  } catch (err) {
+    console.error('Error deleting work order:', err);
+    sendServerError(res, 'Failed to delete work order', err);
+  }
+});
+
+module.exports = router;
@@ -1,20 +1,63 @@
 const express = require('express');
 const cors = require('cors');
-const db = require('./db');
+const cookieParser = require('cookie-parser');
+const swaggerUi = require('swagger-ui-express');
+const { migrate } = require('./migrate');
+const authRoutes = require('./routes/authRoutes');
 const equipmentRoutes = require('./routes/equipmentRoutes');
+const cleaningRoutes = require('./routes/cleaningRoutes');
+const workOrderRoutes = require('./routes/workOrderRoutes');
+const pmPlanRoutes = require('./routes/pmPlanRoutes');
+const locationRoutes = require('./routes/locationRoutes');
+const customFieldRoutes = require('./routes/customFieldRoutes');
+const attachmentRoutes = require('./routes/attachmentRoutes');
+const auditRoutes = require('./routes/auditRoutes');
+const searchRoutes = require('./routes/searchRoutes');
+const metaRoutes = require('./routes/metaRoutes');
+const eventRoutes = require('./routes/eventRoutes');
+const requestId = require('./middleware/requestId');
+const { loadUser, requireAuth } = require('./middleware/auth');
+const { notFoundHandler, errorHandler } = require('./middleware/problem');
+const { startPmScheduler } = require('./services/pmScheduler');
+const { buildOpenApiDocument } = require('./openapi/index');
+const { checkCoverage } = require('./openapi/routes');
+const { checkSharedSchemas } = require('./openapi/shared');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
+const PM_SCHEDULER_INTERVAL_MS = Number(process.env.PM_SCHEDULER_INTERVAL_MS) || 60 * 1000;
+const openApiDocument = buildOpenApiDocument();
 
 // Middleware
-app.use(cors());
+app.use(cors({ exposedHeaders: ['X-Request-Id'] }));
+// Ahead of the body parser so malformed bodies are answered with an id too
+app.use(requestId);
 app.use(express.json());
+app.use(cookieParser());
+app.use(loadUser);
 
-// Initialize database
-db.initialize();
+// API description and explorer, readable without signing in
+app.get('/api/openapi.json', (req, res) => {
+  res.json(openApiDocument);
+});
+app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(openApiDocument, {
+  customSiteTitle: 'Equipment Tracker API'
+}));
 
-// Routes
+// Routes (everything but signing in requires a session)
+app.use('/api', authRoutes);
+app.use('/api', requireAuth);
 app.use('/api', equipmentRoutes);
+app.use('/api', cleaningRoutes);
+app.use('/api', workOrderRoutes);
+app.use('/api', pmPlanRoutes);
+app.use('/api', locationRoutes);
+app.use('/api', customFieldRoutes);
+app.use('/api', attachmentRoutes);
+app.use('/api', auditRoutes);
+app.use('/api', searchRoutes);
+app.use('/api', metaRoutes);
+app.use('/api', eventRoutes);
 
 // Basic health check
 app.get('/health', (req, res) => {
@@ -22,28 +65,43 @@ app.get('/health', (req, res) => {
 });
 
 // 404 handler
-app.use((req, res) => {
-  res.status(404).json({ error: 'Route not found' });
-});
+app.use(notFoundHandler);
 
 // Error handling middleware
-app.use((err, req, res, next) => {
-  console.error(err.stack);
-  res.status(500).json({ 
-    error: 'Internal server error',
-    message: err.message 
-  });
-});
+app.use(errorHandler);
 
-app.listen(PORT, () => {
-  console.log(`\nEquipment Tracker API running on http://localhost:${PORT}`);
-  console.log(`Database: equipment.db`);
-  console.log(`\nAvailable endpoints:`);
-  console.log(`  GET    /api/equipment       - Fetch all equipment`);
-  console.log(`  POST   /api/equipment       - Create new equipment`);
-  console.log(`  PUT    /api/equipment/:id   - Update equipment`);
-  console.log(`  DELETE /api/equipment/:id   - Delete equipment`);
-  console.log(`  GET    /health             - Health check\n`);
-});
+// Bring the database schema up to date before accepting requests. Only when
+// run as the server; tests require the app and start it themselves.
+if (require.main === module) {
+  migrate()
+    .then(() => {
+      app.listen(PORT, () => {
+        console.log(`\nEquipment Tracker API running on http://localhost:${PORT}`);
+        console.log(`Database: equipment.db`);
+        console.log(`API documentation: http://localhost:${PORT}/api/docs`);
+        console.log(`\nAvailable endpoints:`);
+        Object.entries(openApiDocument.paths).forEach(([path, operations]) => {
+          Object.entries(operations).forEach(([method, { summary }]) => {
+            console.log(`  ${method.toUpperCase().padEnd(6)} ${path.padEnd(46)} - ${summary}`);
+          });
+        });
+
+        // Routes added without documenting them in openapi/paths
+        const { undocumented, unrouted } = checkCoverage(openApiDocument);
+        undocumented.forEach((route) => console.warn(`Warning: ${route} is not in the OpenAPI document`));
+        unrouted.forEach((route) => console.warn(`Warning: ${route} is documented but not routed`));
+        // Bodies documented differently from how the shared schemas validate them
+        checkSharedSchemas(openApiDocument).forEach((mismatch) => console.warn(`Warning: OpenAPI ${mismatch}`));
+        console.log('');
+
+        // Opens work orders for preventive maintenance plans as they come due
+        startPmScheduler(PM_SCHEDULER_INTERVAL_MS);
+      });
+    })
+    .catch((err) => {
+      console.error('Failed to migrate database:', err.message);
+      process.exit(1);
+    });
+}
 
 module.exports = app;
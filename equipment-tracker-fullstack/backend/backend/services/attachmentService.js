@@ -0,0 +1,254 @@
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const path = require('path');
+const sharp = require('sharp');
+const db = require('../db');
+const { recordAudit } = require('./auditService');
+
+const ATTACHMENTS_DIR = process.env.ATTACHMENTS_DIR || path.join(__dirname, '..', 'uploads');
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_FILE_NAME_LENGTH = 255;
+const THUMBNAIL_SIZE = 256;
+const CATEGORIES = ['manual', 'certificate', 'photo', 'other'];
+
+// Accepted file types, recognised by their leading bytes rather than by the
+// file name or the type the client claims
+const FILE_TYPES = [
+  { mimeType: 'application/pdf', matches: (data) => data.subarray(0, 5).toString('latin1') === '%PDF-' },
+  { mimeType: 'image/png', matches: (data) => data.subarray(0, 8).toString('latin1') === '\x89PNG\r\n\x1a\n' },
+  { mimeType: 'image/jpeg', matches: (data) => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+  {
+    mimeType: 'image/webp',
+    matches: (data) => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP'
+  }
+];
+
+const ALLOWED_TYPES = FILE_TYPES.map((type) => type.mimeType);
+
+const detectMimeType = (data) => {
+  const type = FILE_TYPES.find(({ matches }) => matches(data));
+  return type ? type.mimeType : null;
+};
+
+// Files are spread over subdirectories by the first two hex digits of their hash
+const getFilePath = (sha256) => path.join(ATTACHMENTS_DIR, sha256.slice(0, 2), sha256);
+const getThumbnailPath = (sha256) => path.join(ATTACHMENTS_DIR, 'thumbnails', `${sha256}.webp`);
+
+// SQLite has no boolean type
+const formatAttachment = (row) => row && { ...row, hasThumbnail: Boolean(row.hasThumbnail) };
+
+// Validate the form fields sent with an upload
+const validateAttachment = (input) => {
+  const { category, description } = input || {};
+  const errors = {};
+
+  if (category !== undefined && !CATEGORIES.includes(category)) {
+    errors.category = `category must be one of: ${CATEGORIES.join(', ')}`;
+  }
+
+  if (description !== undefined && typeof description !== 'string') {
+    errors.description = 'description must be a string';
+  } else if (description && description.trim().length > MAX_DESCRIPTION_LENGTH) {
+    errors.description = `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+
+  return errors;
+};
+
+// Keep only the last path segment of the uploaded name, without control characters
+const cleanFileName = (name) => {
+  const cleaned = path.basename(String(name || '')).replace(/[\x00-\x1f\x7f]/g, '').trim();
+  return cleaned.slice(0, MAX_FILE_NAME_LENGTH) || 'attachment';
+};
+
+const fileExists = async (filePath) => {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch (err) {
+    return false;
+  }
+};
+
+// Write through a temporary file so a crash never leaves a partial file
+// under a hash name
+const writeFileAtomically = async (filePath, data) => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+};
+
+// Make a thumbnail of an image; images sharp cannot read get none
+const makeThumbnail = async (sha256, data, mimeType) => {
+  if (!mimeType.startsWith('image/')) {
+    return null;
+  }
+
+  try {
+    return await sharp(data)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp()
+      .toBuffer();
+  } catch (err) {
+    console.error(`Could not create thumbnail for ${sha256}:`, err.message);
+    return null;
+  }
+};
+
+// Store the content, and its thumbnail if any, once per hash. Called inside
+// the transaction that records the attachment.
+const storeFile = async (sha256, data, thumbnail) => {
+  if (!(await fileExists(getFilePath(sha256)))) {
+    await writeFileAtomically(getFilePath(sha256), data);
+  }
+
+  if (thumbnail && !(await fileExists(getThumbnailPath(sha256)))) {
+    await writeFileAtomically(getThumbnailPath(sha256), thumbnail);
+  }
+};
+
+const removeFile = async (filePath) => {
+  try {
+    await fs.unlink(filePath);
+  } catch (err) {
+    if (err.code !== 'ENOENT') {
+      throw err;
+    }
+  }
+};
+
+// Delete stored files that no attachment refers to any more. Uploads store
+// their files in the transaction that records them, so counting and deleting
+// in one transaction too never removes a file about to be recorded.
+const removeUnusedFiles = (hashes) => {
+  return db.transaction(async () => {
+    for (const sha256 of new Set(hashes)) {
+      const { count } = await db.get('SELECT COUNT(*) AS count FROM attachments WHERE sha256 = ?', [sha256]);
+      if (count === 0) {
+        await removeFile(getFilePath(sha256));
+        await removeFile(getThumbnailPath(sha256));
+      }
+    }
+  });
+};
+
+// The content hashes of an item's attachments, for cleaning up after it is deleted
+const getAttachmentHashes = async (equipmentId) => {
+  const rows = await db.all('SELECT sha256 FROM attachments WHERE equipmentId = ?', [equipmentId]);
+  return rows.map((row) => row.sha256);
+};
+
+// Attachments of equipment in the trash are hidden along with it, until it
+// is restored or purged
+const ATTACHMENT_SELECT = `
+  SELECT a.* FROM attachments a
+  JOIN equipment e ON e.id = a.equipmentId AND e.deletedAt IS NULL`;
+
+// All attachments of an equipment item, newest first
+const listAttachments = async (equipmentId) => {
+  const rows = await db.all(
+    `${ATTACHMENT_SELECT} WHERE a.equipmentId = ? ORDER BY a.createdAt DESC, a.id DESC`,
+    [equipmentId]
+  );
+  return rows.map(formatAttachment);
+};
+
+// Fetch one attachment of an equipment item
+const getAttachment = async (equipmentId, attachmentId) => {
+  return formatAttachment(await db.get(
+    `${ATTACHMENT_SELECT} WHERE a.equipmentId = ? AND a.id = ?`,
+    [equipmentId, attachmentId]
+  ));
+};
+
+// Store an uploaded file of an accepted type and record it as an attachment.
+// Returns null if the equipment went to the trash during the upload.
+const createAttachment = async (req, equipmentId, file, mimeType, input) => {
+  const sha256 = crypto.createHash('sha256').update(file.buffer).digest('hex');
+  const thumbnail = await makeThumbnail(sha256, file.buffer, mimeType);
+  const description = typeof input.description === 'string' && input.description.trim() !== ''
+    ? input.description.trim()
+    : null;
+
+  const record = () => db.transaction(async () => {
+    const equipment = await db.get('SELECT id FROM equipment WHERE id = ? AND deletedAt IS NULL', [equipmentId]);
+    if (!equipment) {
+      return null;
+    }
+
+    await storeFile(sha256, file.buffer, thumbnail);
+
+    const result = await db.run(
+      `INSERT INTO attachments (equipmentId, fileName, mimeType, size, sha256, category, description, hasThumbnail, uploadedBy)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        equipmentId,
+        cleanFileName(file.originalname),
+        mimeType,
+        file.size,
+        sha256,
+        input.category || 'other',
+        description,
+        thumbnail ? 1 : 0,
+        req.user ? req.user.username : null
+      ]
+    );
+
+    const created = await getAttachment(equipmentId, result.id);
+
+    await recordAudit(req, {
+      entityType: 'attachment',
+      entityId: created.id,
+      equipmentId,
+      action: 'create',
+      after: created
+    });
+
+    return created;
+  });
+
+  // A file stored for a row that was rolled back is removed again
+  try {
+    return await record();
+  } catch (err) {
+    await removeUnusedFiles([sha256]);
+    throw err;
+  }
+};
+
+// Delete an attachment, and its file once nothing else shares it
+const deleteAttachment = async (req, existing) => {
+  await db.transaction(async () => {
+    await db.run('DELETE FROM attachments WHERE id = ?', [existing.id]);
+
+    await recordAudit(req, {
+      entityType: 'attachment',
+      entityId: existing.id,
+      equipmentId: existing.equipmentId,
+      action: 'delete',
+      before: existing
+    });
+  });
+
+  await removeUnusedFiles([existing.sha256]);
+};
+
+module.exports = {
+  MAX_ATTACHMENT_BYTES,
+  MAX_DESCRIPTION_LENGTH,
+  ALLOWED_TYPES,
+  CATEGORIES,
+  detectMimeType,
+  getFilePath,
+  getThumbnailPath,
+  validateAttachment,
+  listAttachments,
+  getAttachment,
+  getAttachmentHashes,
+  createAttachment,
+  deleteAttachment,
+  removeUnusedFiles
+};
@@ -0,0 +1,70 @@
+const db = require('../db');
+
+// Actions the audit log records, as allowed by its CHECK constraint
+const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore', 'purge'];
+
+// Fields that change on every write, or just with the date, and would only
+// add noise to a diff
+const IGNORED_FIELDS = ['updatedAt', 'version', 'overdue'];
+
+// Objects, such as custom field values, are compared by content
+const isSameValue = (a, b) => {
+  if (a === b) {
+    return true;
+  }
+  return typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b);
+};
+
+// Build a { field: { before, after } } map of the fields that differ
+const diff = (before, after) => {
+  const changes = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.includes(field)) {
+      return;
+    }
+    const oldValue = before && before[field] !== undefined ? before[field] : null;
+    const newValue = after && after[field] !== undefined ? after[field] : null;
+    if (!isSameValue(oldValue, newValue)) {
+      changes[field] = { before: oldValue, after: newValue };
+    }
+  });
+
+  return changes;
+};
+
+// Identify who made the request from their session
+const getActor = (req) => (req.user ? req.user.username : 'anonymous');
+
+// Record a create/update/delete (or restore/purge) of an entity in the audit log.
+// Updates that change nothing are not recorded.
+const recordAudit = async (req, { entityType, entityId, equipmentId = null, action, before = null, after = null }) => {
+  const changes = diff(before, after);
+
+  if (action === 'update' && Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  const result = await db.run(
+    `INSERT INTO audit_log (entityType, entityId, equipmentId, action, actor, requestId, changes)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [entityType, entityId, equipmentId, action, getActor(req), req.id || null, JSON.stringify(changes)]
+  );
+
+  return result.id;
+};
+
+// Parse the stored JSON diff of audit rows
+const formatAuditEntry = (row) => ({
+  ...row,
+  changes: JSON.parse(row.changes)
+});
+
+module.exports = {
+  AUDIT_ACTIONS,
+  diff,
+  getActor,
+  recordAudit,
+  formatAuditEntry
+};
@@ -0,0 +1,154 @@
+const crypto = require('crypto');
+const { promisify } = require('util');
+const db = require('../db');
+const { ROLES } = require('./permissionService');
+
+const scrypt = promisify(crypto.scrypt);
+
+const SESSION_COOKIE = 'session';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+const KEY_LENGTH = 64;
+
+// Columns safe to return to clients (never the password hash)
+const USER_SELECT = 'SELECT id, username, displayName, role, createdAt, updatedAt FROM users';
+
+// Hash a password as scrypt$<salt>$<key>, both hex encoded
+const hashPassword = async (password) => {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+};
+
+const verifyPassword = async (password, passwordHash) => {
+  const [scheme, salt, key] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, 'hex');
+  const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+};
+
+// Hashed once so that unknown usernames take as long to reject as wrong passwords
+const dummyHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+// Validate credentials, returning the user or null
+const authenticate = async (username, password) => {
+  const row = await db.get('SELECT * FROM users WHERE username = ?', [username]);
+
+  if (!row) {
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+
+  if (!(await verifyPassword(password, row.passwordHash))) {
+    return null;
+  }
+
+  const { passwordHash, ...user } = row;
+  return user;
+};
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// SQLite's DATETIME format, in UTC
+const toSqlDate = (date) => date.toISOString().replace('T', ' ').slice(0, 19);
+
+// Start a session for a user, returning the cookie token and its expiry
+const createSession = async (userId) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await db.run("DELETE FROM sessions WHERE expiresAt <= datetime('now')");
+  await db.run(
+    'INSERT INTO sessions (id, userId, expiresAt) VALUES (?, ?, ?)',
+    [hashToken(token), userId, toSqlDate(expiresAt)]
+  );
+
+  return { token, expiresAt };
+};
+
+// Look up the user behind a session token, or null if it is unknown or expired
+const getSessionUser = async (token) => {
+  if (!token) {
+    return null;
+  }
+
+  const user = await db.get(
+    `SELECT u.id, u.username, u.displayName, u.role, u.createdAt, u.updatedAt
+     FROM sessions s JOIN users u ON u.id = s.userId
+     WHERE s.id = ? AND s.expiresAt > datetime('now')`,
+    [hashToken(token)]
+  );
+  return user || null;
+};
+
+const deleteSession = (token) => {
+  return db.run('DELETE FROM sessions WHERE id = ?', [hashToken(token)]);
+};
+
+// Validate a new account's fields; returns the problem with each, keyed by field
+const validateUser = ({ username, displayName, password, role }) => {
+  const errors = {};
+
+  if (!username || typeof username !== 'string' || !/^[A-Za-z0-9._-]{3,50}$/.test(username)) {
+    errors.username = 'username must be 3-50 letters, digits, dots, dashes or underscores';
+  }
+
+  if (displayName !== undefined && (typeof displayName !== 'string' || displayName.trim().length === 0)) {
+    errors.displayName = 'displayName must be a non-empty string';
+  }
+
+  if (!password || typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    errors.password = `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+
+  if (role !== undefined && !ROLES.includes(role)) {
+    errors.role = `role must be one of: ${ROLES.join(', ')}`;
+  }
+
+  return errors;
+};
+
+const createUser = async ({ username, displayName, password, role = 'operator' }) => {
+  const result = await db.run(
+    'INSERT INTO users (username, displayName, passwordHash, role) VALUES (?, ?, ?, ?)',
+    [username, (displayName || username).trim(), await hashPassword(password), role]
+  );
+  return db.get(`${USER_SELECT} WHERE id = ?`, [result.id]);
+};
+
+// Changing a password signs the user out everywhere
+const setPassword = async (userId, password) => {
+  await db.run(
+    'UPDATE users SET passwordHash = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+    [await hashPassword(password), userId]
+  );
+  await db.run('DELETE FROM sessions WHERE userId = ?', [userId]);
+};
+
+const setRole = (userId, role) => {
+  return db.run(
+    'UPDATE users SET role = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+    [role, userId]
+  );
+};
+
+module.exports = {
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  MIN_PASSWORD_LENGTH,
+  USER_SELECT,
+  hashPassword,
+  verifyPassword,
+  authenticate,
+  createSession,
+  getSessionUser,
+  deleteSession,
+  validateUser,
+  createUser,
+  setPassword,
+  setRole
+};
@@ -0,0 +1,179 @@
+const { today } = require('equipment-tracker-shared');
+const db = require('../db');
+const { recordCleaning } = require('./cleaningService');
+const { recordAudit } = require('./auditService');
+const { validateCustomFields, normalizeCustomFields, mergeCustomFields } = require('./customFieldService');
+const { getEquipmentById } = require('./equipmentService');
+const { softDeleteEquipment } = require('./trashService');
+const { toProblem } = require('../middleware/problem');
+
+const MAX_BULK_IDS = 500;
+
+// Each bulk action and the permission it needs
+const BULK_PERMISSIONS = {
+  delete: 'equipment:delete',
+  setStatus: 'equipment:update',
+  setType: 'equipment:update',
+  markCleaned: 'cleaning:create'
+};
+
+const BULK_ACTIONS = Object.keys(BULK_PERMISSIONS);
+
+// Validate a bulk request, returning the problem with each field. Takes the
+// options from loadOptions.
+const validateBulkRequest = ({ action, ids, versions, status, type }, { validTypes, validStatuses }) => {
+  const errors = {};
+
+  if (!BULK_ACTIONS.includes(action)) {
+    errors.action = `action is required and must be one of: ${BULK_ACTIONS.join(', ')}`;
+  }
+
+  if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_BULK_IDS) {
+    errors.ids = `ids must be an array of 1 to ${MAX_BULK_IDS} equipment ids`;
+  } else if (!ids.every((id) => Number.isInteger(id) && id > 0)) {
+    errors.ids = 'ids must contain only positive integers';
+  } else if (
+    !versions || typeof versions !== 'object' || Array.isArray(versions) ||
+    !ids.every((id) => Number.isInteger(versions[id]) && versions[id] > 0)
+  ) {
+    errors.versions = 'versions must give the version of every item in ids';
+  }
+
+  if (action === 'setStatus' && !validStatuses.includes(status)) {
+    errors.status = `status is required and must be one of: ${validStatuses.join(', ')}`;
+  }
+
+  if (action === 'setType' && !validTypes.includes(type)) {
+    errors.type = `type is required and must be one of: ${validTypes.join(', ')}`;
+  }
+
+  return errors;
+};
+
+// The result of an item that changed since the version the request is based
+// on, carrying the item as it now is
+const versionConflict = (id, current) => ({
+  id,
+  ...toProblem('VERSION_CONFLICT', {
+    detail: 'The equipment was changed by someone else since it was loaded',
+    data: current
+  })
+});
+
+// The result of an item that could not be changed because it has changed or
+// gone since it was read
+const missedResult = async (id) => {
+  const current = await getEquipmentById(id);
+  return current ? versionConflict(id, current) : { id, ...toProblem('EQUIPMENT_NOT_FOUND') };
+};
+
+// Update columns of one item, unless it changed since it was read, and audit
+// the change. Returns null if nothing was updated.
+const updateItem = async (req, existing, changes) => {
+  const fields = Object.keys(changes);
+
+  const result = await db.run(
+    `UPDATE equipment SET ${fields.map((field) => `${field} = ?`).join(', ')}, updatedAt = CURRENT_TIMESTAMP
+     WHERE id = ? AND version = ?`,
+    [...Object.values(changes), existing.id, existing.version]
+  );
+
+  if (result.changes === 0) {
+    return null;
+  }
+
+  const updated = await getEquipmentById(existing.id);
+
+  await recordAudit(req, {
+    entityType: 'equipment',
+    entityId: existing.id,
+    equipmentId: existing.id,
+    action: 'update',
+    before: existing,
+    after: updated
+  });
+
+  return updated;
+};
+
+// Apply a validated bulk action to one item. Meant to run inside the
+// caller's transaction; items the action cannot apply to are reported in the
+// result as a problem rather than thrown, so the rest of the batch still
+// goes ahead. As with If-Match on single items, an item is only changed if
+// it is still at the version given for it in versions.
+const applyBulkAction = async (req, input, id, { fieldsByType }) => {
+  const existing = await getEquipmentById(id);
+
+  if (!existing) {
+    return { id, ...toProblem('EQUIPMENT_NOT_FOUND') };
+  }
+
+  if (existing.version !== input.versions[id]) {
+    return versionConflict(id, existing);
+  }
+
+  switch (input.action) {
+    // Deleted items go to the trash, as with DELETE /api/equipment/:id
+    case 'delete': {
+      if (!(await softDeleteEquipment(req, existing))) {
+        return missedResult(id);
+      }
+      return { id, success: true };
+    }
+
+    case 'setStatus': {
+      if (existing.status === input.status) {
+        return { id, success: true, data: existing };
+      }
+      const updated = await updateItem(req, existing, { status: input.status });
+      return updated ? { id, success: true, data: updated } : missedResult(id);
+    }
+
+    case 'setType': {
+      if (existing.type === input.type) {
+        return { id, success: true, data: existing };
+      }
+
+      // As with PUT, values for fields the new type doesn't have are dropped
+      const fields = fieldsByType[input.type] || [];
+      const values = mergeCustomFields(existing.customFields, undefined, fields);
+      const errors = validateCustomFields(values, fields);
+
+      if (Object.keys(errors).length > 0) {
+        return { id, ...toProblem('VALIDATION_FAILED', { errors }) };
+      }
+
+      const updated = await updateItem(req, existing, {
+        type: input.type,
+        customFields: JSON.stringify(normalizeCustomFields(values, fields))
+      });
+      return updated ? { id, success: true, data: updated } : missedResult(id);
+    }
+
+    case 'markCleaned': {
+      const cleaning = await recordCleaning(existing.id, {
+        cleanedAt: today(),
+        cleanedBy: req.user ? req.user.displayName : null
+      });
+      await recordAudit(req, {
+        entityType: 'cleaning_event',
+        entityId: cleaning.id,
+        equipmentId: existing.id,
+        action: 'create',
+        after: cleaning
+      });
+      return { id, success: true, data: await getEquipmentById(existing.id) };
+    }
+
+    default:
+      throw new Error(`Unknown bulk action: ${input.action}`);
+  }
+};
+
+module.exports = {
+  MAX_BULK_IDS,
+  BULK_PERMISSIONS,
+  BULK_ACTIONS,
+  validateBulkRequest,
+  applyBulkAction
+};
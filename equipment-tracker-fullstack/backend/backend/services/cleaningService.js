@@ -0,0 +1,53 @@
+const db = require('../db');
+const { MAX_CLEANING_INTERVAL_DAYS } = require('equipment-tracker-shared');
+
+// Validate a cleaning interval in days; null clears it
+const validateCleaningInterval = (value) => {
+  if (value === null) {
+    return {};
+  }
+  if (!Number.isInteger(value) || value < 1 || value > MAX_CLEANING_INTERVAL_DAYS) {
+    return { cleaningIntervalDays: `cleaningIntervalDays must be null or an integer between 1 and ${MAX_CLEANING_INTERVAL_DAYS}` };
+  }
+  return {};
+};
+
+// Recompute the cached lastCleanedDate from the most recent cleaning event
+const refreshLastCleanedDate = (equipmentId) => {
+  return db.run(
+    `UPDATE equipment
+     SET lastCleanedDate = (
+       SELECT MAX(cleanedAt) FROM cleaning_events WHERE equipmentId = ?
+     )
+     WHERE id = ?`,
+    [equipmentId, equipmentId]
+  );
+};
+
+// Insert a cleaning event and keep lastCleanedDate in sync
+const recordCleaning = async (equipmentId, cleaning) => {
+  const optional = (value) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : null);
+
+  const result = await db.run(
+    `INSERT INTO cleaning_events (equipmentId, cleanedAt, cleanedBy, method, notes, verifiedBy)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      equipmentId,
+      cleaning.cleanedAt,
+      optional(cleaning.cleanedBy),
+      optional(cleaning.method),
+      optional(cleaning.notes),
+      optional(cleaning.verifiedBy)
+    ]
+  );
+
+  await refreshLastCleanedDate(equipmentId);
+
+  return db.get('SELECT * FROM cleaning_events WHERE id = ?', [result.id]);
+};
+
+module.exports = {
+  validateCleaningInterval,
+  recordCleaning,
+  refreshLastCleanedDate
+};
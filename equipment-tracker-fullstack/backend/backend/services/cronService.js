@@ -0,0 +1,136 @@
+// A small subset of cron: five fields (minute hour day-of-month month
+// day-of-week) supporting *, numbers, ranges (1-5), lists (1,15) and steps
+// (*/15, 0-30/10). Day of week 0 and 7 are both Sunday. Rules are evaluated
+// in UTC, like the timestamps SQLite stores.
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// How far ahead to look before deciding a rule never matches (e.g. 30 February)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+const range = (from, to, step = 1) => {
+  const values = [];
+  for (let value = from; value <= to; value += step) {
+    values.push(value);
+  }
+  return values;
+};
+
+// Parse one field into the set of values it matches, throwing on bad syntax
+const parseField = (text, { name, min, max }) => {
+  const values = new Set();
+
+  text.split(',').forEach((part) => {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`invalid ${name} "${part}"`);
+    }
+
+    const [, , start, end, step] = match;
+    const from = start === undefined ? min : Number(start);
+    const to = end !== undefined ? Number(end) : (start === undefined || step !== undefined ? max : from);
+    const increment = step === undefined ? 1 : Number(step);
+
+    if (from < min || to > max) {
+      throw new Error(`${name} must be between ${min} and ${max}`);
+    }
+
+    if (from > to || increment < 1) {
+      throw new Error(`invalid ${name} "${part}"`);
+    }
+
+    range(from, to, increment).forEach((value) => values.add(value));
+  });
+
+  return values;
+};
+
+// Parse a cron expression, throwing an Error describing the first problem
+const parseCron = (expression) => {
+  if (typeof expression !== 'string') {
+    throw new Error('cron must be a string');
+  }
+
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error('cron must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // As in cron, when both day fields are restricted a day matching either counts
+    anyDay: parts[2] !== '*' && parts[4] !== '*'
+  };
+};
+
+
+const matchesDay = (rule, date) => {
+  if (!rule.months.has(date.getUTCMonth() + 1)) {
+    return false;
+  }
+  const dayOfMonth = rule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = rule.daysOfWeek.has(date.getUTCDay());
+  return rule.anyDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+};
+
+// The first time strictly after `after` that the rule matches, or null
+const nextCronRun = (expression, after = new Date()) => {
+  const rule = parseCron(expression);
+  const start = new Date(after.getTime());
+  start.setUTCSeconds(0, 0);
+  start.setUTCMinutes(start.getUTCMinutes() + 1);
+
+  const day = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+  const hours = [...rule.hours].sort((a, b) => a - b);
+  const minutes = [...rule.minutes].sort((a, b) => a - b);
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i += 1) {
+    if (matchesDay(rule, day)) {
+      for (const hour of hours) {
+        for (const minute of minutes) {
+          const candidate = new Date(day.getTime());
+          candidate.setUTCHours(hour, minute);
+          if (candidate >= start) {
+            return candidate;
+          }
+        }
+      }
+    }
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  return null;
+};
+
+// Validate a cron expression, returning the problem with it keyed cron
+const validateCron = (expression) => {
+  try {
+    if (nextCronRun(expression) === null) {
+      return { cron: 'cron never matches a date' };
+    }
+    return {};
+  } catch (err) {
+    return { cron: `cron is invalid: ${err.message}` };
+  }
+};
+
+module.exports = {
+  parseCron,
+  validateCron,
+  nextCronRun
+};
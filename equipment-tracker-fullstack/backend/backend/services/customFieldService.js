@@ -0,0 +1,376 @@
+const db = require('../db');
+const { recordAudit } = require('./auditService');
+
+const FIELD_TYPES = ['text', 'number', 'date', 'enum', 'boolean'];
+const KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,49}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_LABEL_LENGTH = 100;
+const MAX_TEXT_LENGTH = 500;
+const MAX_OPTIONS = 100;
+
+// Only text (length) and number (value) fields take min and max
+const BOUNDED_TYPES = ['text', 'number'];
+
+const FIELD_SELECT = `
+  SELECT f.*, t.name AS typeName
+  FROM custom_fields f
+  JOIN equipment_types t ON t.id = f.typeId
+`;
+
+// SQLite has no boolean or array types
+const formatField = (row) => row && {
+  ...row,
+  required: Boolean(row.required),
+  options: row.options ? JSON.parse(row.options) : null
+};
+
+const isUniqueViolation = (err) => err.code === 'SQLITE_CONSTRAINT' && /UNIQUE/.test(err.message);
+
+// Validate a field definition, returning the problem with each field. Without
+// existing every field is checked as for a new definition; with it only the
+// fields present are, and the type, key and fieldType cannot change.
+const validateFieldDefinition = async (input, existing = null) => {
+  if (!input || typeof input !== 'object') {
+    return { body: 'field must be an object' };
+  }
+
+  const { typeId, key, label, fieldType, required, min, max, options, sortOrder } = input;
+  const errors = {};
+
+  if (existing) {
+    if (typeId !== undefined && typeId !== existing.typeId) {
+      errors.typeId = 'typeId cannot be changed';
+    }
+    if (key !== undefined && key !== existing.key) {
+      errors.key = 'key cannot be changed';
+    }
+    if (fieldType !== undefined && fieldType !== existing.fieldType) {
+      errors.fieldType = 'fieldType cannot be changed';
+    }
+  } else {
+    if (!Number.isInteger(typeId) || !(await db.get('SELECT id FROM equipment_types WHERE id = ?', [typeId]))) {
+      errors.typeId = 'typeId is required and must be the id of an existing equipment type';
+    }
+    if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+      errors.key = 'key is required and must start with a letter and contain only letters, digits and underscores (at most 50)';
+    }
+    if (!FIELD_TYPES.includes(fieldType)) {
+      errors.fieldType = `fieldType is required and must be one of: ${FIELD_TYPES.join(', ')}`;
+    }
+  }
+
+  if (!existing || label !== undefined) {
+    if (!label || typeof label !== 'string' || label.trim() === '') {
+      errors.label = 'label is required and must be a non-empty string';
+    } else if (label.trim().length > MAX_LABEL_LENGTH) {
+      errors.label = `label must be at most ${MAX_LABEL_LENGTH} characters`;
+    }
+  }
+
+  if (required !== undefined && typeof required !== 'boolean') {
+    errors.required = 'required must be a boolean';
+  }
+
+  if (sortOrder !== undefined && !Number.isInteger(sortOrder)) {
+    errors.sortOrder = 'sortOrder must be an integer';
+  }
+
+  const type = existing ? existing.fieldType : fieldType;
+
+  [['min', min], ['max', max]].forEach(([name, value]) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    if (!BOUNDED_TYPES.includes(type)) {
+      errors[name] = `${name} is only allowed on text and number fields`;
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors[name] = `${name} must be null or a number`;
+    } else if (type === 'text' && (!Number.isInteger(value) || value < 0)) {
+      errors[name] = `${name} must be a whole number of characters, 0 or more`;
+    }
+  });
+
+  const nextMin = min !== undefined ? min : existing && existing.min;
+  const nextMax = max !== undefined ? max : existing && existing.max;
+  if (typeof nextMin === 'number' && typeof nextMax === 'number' && nextMin > nextMax) {
+    errors.min = 'min must not be greater than max';
+  }
+
+  if (type === 'enum') {
+    if (!existing || options !== undefined) {
+      if (
+        !Array.isArray(options) ||
+        options.length === 0 ||
+        options.length > MAX_OPTIONS ||
+        options.some((option) => typeof option !== 'string' || option.trim() === '')
+      ) {
+        errors.options = `options is required on enum fields and must be a list of 1-${MAX_OPTIONS} non-empty strings`;
+      } else if (new Set(options.map((option) => option.trim())).size !== options.length) {
+        errors.options = 'options must not contain duplicates';
+      }
+    }
+  } else if (options !== undefined && options !== null) {
+    errors.options = 'options is only allowed on enum fields';
+  }
+
+  return errors;
+};
+
+// All field definitions, optionally for one type name, grouped by type in
+// display order
+const listFields = async (typeName) => {
+  const rows = typeName === undefined
+    ? await db.all(`${FIELD_SELECT} ORDER BY t.sortOrder, t.name, f.sortOrder, f.id`)
+    : await db.all(`${FIELD_SELECT} WHERE t.name = ? ORDER BY f.sortOrder, f.id`, [typeName]);
+  return rows.map(formatField);
+};
+
+const getFieldById = async (id) => {
+  return formatField(await db.get(`${FIELD_SELECT} WHERE f.id = ?`, [id]));
+};
+
+// Field definitions keyed by type name, for validating equipment
+const getFieldsByType = async () => {
+  const fieldsByType = {};
+  (await listFields()).forEach((field) => {
+    (fieldsByType[field.typeName] = fieldsByType[field.typeName] || []).push(field);
+  });
+  return fieldsByType;
+};
+
+const isBlank = (value) => value === undefined || value === null || value === '';
+
+// Validate the custom field values of an item against its type's fields,
+// returning a message for each invalid value keyed by customFields.<key>
+const validateCustomFields = (values, fields) => {
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    return { customFields: 'customFields must be an object' };
+  }
+
+  const errors = {};
+  const keys = fields.map((field) => field.key);
+
+  Object.keys(values).forEach((key) => {
+    if (!keys.includes(key)) {
+      errors[`customFields.${key}`] = `customFields.${key} is not a field of this equipment type`;
+    }
+  });
+
+  fields.forEach(({ key, fieldType, required, min, max, options }) => {
+    const value = values[key];
+    const name = `customFields.${key}`;
+
+    if (isBlank(value)) {
+      if (required) {
+        errors[name] = `${name} is required`;
+      }
+      return;
+    }
+
+    switch (fieldType) {
+      case 'text':
+        if (typeof value !== 'string') {
+          errors[name] = `${name} must be a string`;
+        } else if (value.trim().length > MAX_TEXT_LENGTH) {
+          errors[name] = `${name} must be at most ${MAX_TEXT_LENGTH} characters`;
+        } else if (min !== null && value.trim().length < min) {
+          errors[name] = `${name} must be at least ${min} characters`;
+        } else if (max !== null && value.trim().length > max) {
+          errors[name] = `${name} must be at most ${max} characters`;
+        }
+        break;
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          errors[name] = `${name} must be a number`;
+        } else if (min !== null && value < min) {
+          errors[name] = `${name} must be at least ${min}`;
+        } else if (max !== null && value > max) {
+          errors[name] = `${name} must be at most ${max}`;
+        }
+        break;
+      case 'date':
+        if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+          errors[name] = `${name} must be a date in YYYY-MM-DD format`;
+        }
+        break;
+      case 'enum':
+        if (!options.includes(value)) {
+          errors[name] = `${name} must be one of: ${options.join(', ')}`;
+        }
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          errors[name] = `${name} must be a boolean`;
+        }
+        break;
+    }
+  });
+
+  return errors;
+};
+
+// The stored form of validated values: blanks are dropped, text is trimmed
+const normalizeCustomFields = (values, fields) => {
+  const normalized = {};
+  fields.forEach(({ key, fieldType }) => {
+    const value = values[key];
+    if (!isBlank(value)) {
+      normalized[key] = fieldType === 'text' ? value.trim() : value;
+    }
+  });
+  return normalized;
+};
+
+// The values an update leaves an item with: stored values for fields its
+// (possibly new) type still has, overlaid with the values sent
+const mergeCustomFields = (stored, sent, fields) => {
+  const merged = {};
+  fields.forEach(({ key }) => {
+    if (stored[key] !== undefined) {
+      merged[key] = stored[key];
+    }
+  });
+  if (sent === undefined) {
+    return merged;
+  }
+  // Anything but an object is left for validation to reject
+  return sent && typeof sent === 'object' && !Array.isArray(sent) ? { ...merged, ...sent } : sent;
+};
+
+// Create a validated field definition and audit it
+const createField = (req, input) => {
+  return db.transaction(async () => {
+    const result = await db.run(
+      `INSERT INTO custom_fields (typeId, key, label, fieldType, required, min, max, options, sortOrder)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        input.typeId,
+        input.key,
+        input.label.trim(),
+        input.fieldType,
+        input.required ? 1 : 0,
+        input.min === undefined ? null : input.min,
+        input.max === undefined ? null : input.max,
+        input.fieldType === 'enum' ? JSON.stringify(input.options.map((option) => option.trim())) : null,
+        input.sortOrder || 0
+      ]
+    );
+
+    const created = await getFieldById(result.id);
+
+    await recordAudit(req, {
+      entityType: 'custom_field',
+      entityId: created.id,
+      action: 'create',
+      after: created
+    });
+
+    return created;
+  });
+};
+
+// Apply a validated partial update. Values already stored on equipment are
+// not re-checked against changed rules until the item is next edited.
+const updateField = (req, existing, input) => {
+  return db.transaction(async () => {
+    const { label, required, min, max, options, sortOrder } = input;
+    const updates = [];
+    const params = [];
+
+    if (label !== undefined) {
+      updates.push('label = ?');
+      params.push(label.trim());
+    }
+
+    if (required !== undefined) {
+      updates.push('required = ?');
+      params.push(required ? 1 : 0);
+    }
+
+    if (min !== undefined) {
+      updates.push('min = ?');
+      params.push(min);
+    }
+
+    if (max !== undefined) {
+      updates.push('max = ?');
+      params.push(max);
+    }
+
+    if (options !== undefined && existing.fieldType === 'enum') {
+      updates.push('options = ?');
+      params.push(JSON.stringify(options.map((option) => option.trim())));
+    }
+
+    if (sortOrder !== undefined) {
+      updates.push('sortOrder = ?');
+      params.push(sortOrder);
+    }
+
+    updates.push('updatedAt = CURRENT_TIMESTAMP');
+    params.push(existing.id);
+    await db.run(`UPDATE custom_fields SET ${updates.join(', ')} WHERE id = ?`, params);
+
+    const updated = await getFieldById(existing.id);
+
+    await recordAudit(req, {
+      entityType: 'custom_field',
+      entityId: existing.id,
+      action: 'update',
+      before: existing,
+      after: updated
+    });
+
+    return updated;
+  });
+};
+
+// Delete a field definition along with the values stored for it. Returns the
+// ids of the equipment items that held a value.
+const deleteField = (req, existing) => {
+  return db.transaction(async () => {
+    const path = `$.${existing.key}`;
+    const rows = await db.all(
+      'SELECT id FROM equipment WHERE type = ? AND json_type(customFields, ?) IS NOT NULL ORDER BY id',
+      [existing.typeName, path]
+    );
+    const ids = rows.map((row) => row.id);
+
+    if (ids.length > 0) {
+      await db.run(
+        `UPDATE equipment SET customFields = json_remove(customFields, ?)
+         WHERE id IN (${ids.map(() => '?').join(', ')})`,
+        [path, ...ids]
+      );
+    }
+    await db.run('DELETE FROM custom_fields WHERE id = ?', [existing.id]);
+
+    await recordAudit(req, {
+      entityType: 'custom_field',
+      entityId: existing.id,
+      action: 'delete',
+      before: existing
+    });
+
+    return ids;
+  });
+};
+
+module.exports = {
+  FIELD_TYPES,
+  KEY_PATTERN,
+  MAX_LABEL_LENGTH,
+  MAX_TEXT_LENGTH,
+  MAX_OPTIONS,
+  validateFieldDefinition,
+  isUniqueViolation,
+  listFields,
+  getFieldById,
+  getFieldsByType,
+  validateCustomFields,
+  normalizeCustomFields,
+  mergeCustomFields,
+  createField,
+  updateField,
+  deleteField
+};
@@ -0,0 +1,142 @@
+const { NEXT_CLEANING_DUE_SQL, OVERDUE_SQL } = require('./equipmentService');
+const { LOCATION_SUBTREE_SQL } = require('./locationService');
+const { SEARCH_MATCH_SQL, toMatchQuery } = require('./searchService');
+
+// Sortable fields mapped to their SQL expressions
+const SORT_COLUMNS = {
+  id: 'e.id',
+  name: 'e.name COLLATE NOCASE',
+  type: 'e.type',
+  status: 'e.status',
+  assetTag: 'e.assetTag COLLATE NOCASE',
+  lastCleanedDate: 'e.lastCleanedDate',
+  nextCleaningDue: NEXT_CLEANING_DUE_SQL,
+  createdAt: 'e.createdAt',
+  updatedAt: 'e.updatedAt'
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Parse a positive integer query parameter, falling back to a default
+const parsePositiveInt = (value, fallback) => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : NaN;
+};
+
+// Parameters parseListQuery reads; each may be given at most once
+const LIST_PARAMS = ['type', 'status', 'q', 'overdue', 'locationId', 'sort', 'order'];
+
+// A repeated parameter arrives as an array (and a[b]=c as an object) rather
+// than a string. Returns the problem with each of names given so, to be
+// reported before anything else reads them.
+const validateSingleParams = (query, names) => {
+  const errors = {};
+  for (const name of names) {
+    if (query[name] !== undefined && typeof query[name] !== 'string') {
+      errors[name] = `${name} must be given once, as text`;
+    }
+  }
+  return errors;
+};
+
+// Parse list filters and sorting from req.query into SQL fragments. Items in
+// the trash are never listed.
+const parseListQuery = (query) => {
+  const errors = validateSingleParams(query, LIST_PARAMS);
+  const conditions = ['e.deletedAt IS NULL'];
+  const params = [];
+
+  if (Object.keys(errors).length > 0) {
+    return { errors, where: '', params, orderBy: '' };
+  }
+
+  const { type, status, q, overdue, locationId } = query;
+  const sort = query.sort || 'id';
+  const order = (query.order || (query.sort ? 'asc' : 'desc')).toLowerCase();
+
+  if (type !== undefined) {
+    conditions.push('e.type = ?');
+    params.push(type);
+  }
+
+  if (status !== undefined) {
+    conditions.push('e.status = ?');
+    params.push(status);
+  }
+
+  // A location includes everything in the locations below it
+  if (locationId === 'none') {
+    conditions.push('e.locationId IS NULL');
+  } else if (locationId !== undefined) {
+    if (locationId !== '' && Number.isInteger(Number(locationId))) {
+      conditions.push(`e.locationId IN (${LOCATION_SUBTREE_SQL})`);
+      params.push(Number(locationId));
+    } else {
+      errors.locationId = 'locationId must be an integer or none';
+    }
+  }
+
+  if (overdue !== undefined) {
+    if (overdue === 'true' || overdue === 'false') {
+      conditions.push(`${OVERDUE_SQL} = ?`);
+      params.push(overdue === 'true' ? 1 : 0);
+    } else {
+      errors.overdue = 'overdue must be true or false';
+    }
+  }
+
+  // Matched against the full-text index like GET /api/search; text with no
+  // words in it is ignored
+  const matchQuery = q !== undefined ? toMatchQuery(q) : null;
+  if (matchQuery) {
+    conditions.push(`e.id IN (${SEARCH_MATCH_SQL})`);
+    params.push(matchQuery);
+  }
+
+  if (!Object.hasOwn(SORT_COLUMNS, sort)) {
+    errors.sort = `sort must be one of: ${Object.keys(SORT_COLUMNS).join(', ')}`;
+  }
+
+  if (order !== 'asc' && order !== 'desc') {
+    errors.order = 'order must be one of: asc, desc';
+  }
+
+  const direction = order === 'asc' ? 'ASC' : 'DESC';
+
+  return {
+    errors,
+    where: `WHERE ${conditions.join(' AND ')}`,
+    params,
+    orderBy: `ORDER BY ${Object.hasOwn(SORT_COLUMNS, sort) ? SORT_COLUMNS[sort] : 'e.id'} ${direction}, e.id ${direction}`
+  };
+};
+
+// Parse page and pageSize from req.query
+const parsePagination = (query) => {
+  const errors = {};
+  const page = parsePositiveInt(query.page, 1);
+  const pageSize = parsePositiveInt(query.pageSize, DEFAULT_PAGE_SIZE);
+
+  if (Number.isNaN(page)) {
+    errors.page = 'page must be a positive integer';
+  }
+
+  if (Number.isNaN(pageSize) || pageSize > MAX_PAGE_SIZE) {
+    errors.pageSize = `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}`;
+  }
+
+  return { errors, page, pageSize, offset: (page - 1) * pageSize };
+};
+
+module.exports = {
+  SORT_COLUMNS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  validateSingleParams,
+  parseListQuery,
+  parsePagination
+};
@@ -0,0 +1,210 @@
+const db = require('../db');
+const { recordCleaning } = require('./cleaningService');
+const { recordAudit } = require('./auditService');
+const { getTypeNames, getStatusNames } = require('./lookupService');
+const { getLocationIds } = require('./locationService');
+const { getFieldsByType, validateCustomFields, normalizeCustomFields } = require('./customFieldService');
+
+// Optional identification and purchase details; null clears any of them
+const ASSET_TEXT_FIELDS = ['assetTag', 'serialNumber', 'manufacturer', 'model'];
+const ASSET_FIELDS = [...ASSET_TEXT_FIELDS, 'installDate', 'purchaseCost'];
+
+// Days between cleanings: the equipment's own interval, else its type's
+const CLEANING_INTERVAL_SQL = 'COALESCE(e.cleaningIntervalDays, t.cleaningIntervalDays)';
+
+// Equipment that has never been cleaned is due from the day it was added.
+// Cleanings are dated in local time, like today(), so the timestamps SQLite
+// keeps in UTC are read in local time too.
+const NEXT_CLEANING_DUE_SQL = `
+  CASE
+    WHEN ${CLEANING_INTERVAL_SQL} IS NULL THEN NULL
+    WHEN e.lastCleanedDate IS NULL THEN date(e.createdAt, 'localtime')
+    ELSE date(e.lastCleanedDate, '+' || ${CLEANING_INTERVAL_SQL} || ' days')
+  END
+`;
+
+const OVERDUE_SQL = `COALESCE(${NEXT_CLEANING_DUE_SQL} < date('now', 'localtime'), 0)`;
+
+// Equipment joined with its type, for the type's cleaning interval, and its location
+const EQUIPMENT_FROM = `
+  FROM equipment e
+  LEFT JOIN equipment_types t ON t.name = e.type
+  LEFT JOIN locations l ON l.id = e.locationId
+`;
+
+// Equipment columns plus its location's name, the number of logged cleanings
+// and the cleaning schedule
+const EQUIPMENT_SELECT = `
+  SELECT e.*,
+    l.name AS locationName,
+    (SELECT COUNT(*) FROM cleaning_events c WHERE c.equipmentId = e.id) AS cleaningCount,
+    ${CLEANING_INTERVAL_SQL} AS effectiveCleaningIntervalDays,
+    ${NEXT_CLEANING_DUE_SQL} AS nextCleaningDue,
+    ${OVERDUE_SQL} AS overdue
+  ${EQUIPMENT_FROM}
+`;
+
+// SQLite has no boolean or object types
+const formatEquipment = (row) => row && {
+  ...row,
+  overdue: Boolean(row.overdue),
+  customFields: JSON.parse(row.customFields)
+};
+
+// Whether an If-Match header accepts the item as it now is. The header holds
+// * or a comma-separated list of versions, each normally quoted ("3").
+const matchesIfMatch = (header, equipment) => {
+  return header.split(',').some((tag) => {
+    const value = tag.trim();
+    return value === '*' || value.replace(/^"(.*)"$/, '$1') === String(equipment.version);
+  });
+};
+
+// A cleaning can be sent in full, or as the legacy lastCleanedDate shorthand.
+// Re-sending the current lastCleanedDate does not log a new cleaning.
+const getCleaningInput = ({ cleaning, lastCleanedDate }, existing = null) => {
+  if (cleaning !== undefined && cleaning !== null) {
+    return cleaning;
+  }
+  if (lastCleanedDate && lastCleanedDate !== (existing && existing.lastCleanedDate)) {
+    return { cleanedAt: lastCleanedDate };
+  }
+  return null;
+};
+
+// Fetch one equipment item with its derived columns. Items in the trash are
+// left out unless includeDeleted is set.
+const getEquipmentById = async (id, { includeDeleted = false } = {}) => {
+  return formatEquipment(await db.get(
+    `${EQUIPMENT_SELECT} WHERE e.id = ?${includeDeleted ? '' : ' AND e.deletedAt IS NULL'}`,
+    [id]
+  ));
+};
+
+const optional = (value) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : null);
+
+// The stored form of a validated asset field: text is trimmed, blanks are null
+const normalizeAssetField = (field, value) => {
+  if (value === undefined) {
+    return null;
+  }
+  return ASSET_TEXT_FIELDS.includes(field) ? optional(value) : value;
+};
+
+// Asset tags already in use, lower-cased, for checking imports up front.
+// Items in the trash don't hold on to theirs.
+const getAssetTags = async () => {
+  const rows = await db.all(
+    'SELECT LOWER(assetTag) AS assetTag FROM equipment WHERE assetTag IS NOT NULL AND deletedAt IS NULL'
+  );
+  return rows.map((row) => row.assetTag);
+};
+
+// Inserting or updating a duplicate asset tag trips its unique index
+const isAssetTagConflict = (err) => {
+  return err.code === 'SQLITE_CONSTRAINT' && /UNIQUE/.test(err.message) && /assetTag/.test(err.message);
+};
+
+// Load the currently configured types, statuses, locations and custom
+// fields for validation
+const loadOptions = async () => ({
+  validTypes: await getTypeNames(),
+  validStatuses: await getStatusNames(),
+  locationIds: await getLocationIds(),
+  fieldsByType: await getFieldsByType()
+});
+
+// Check the type, status and location of a payload that matches the shared
+// equipmentSchema against those configured, returning a message for each
+// invalid field. Fields left out are not checked.
+const validateEquipmentOptions = (input, { validTypes, validStatuses, locationIds }) => {
+  const { type, status, locationId } = input;
+  const errors = {};
+
+  if (type !== undefined && !validTypes.includes(type)) {
+    errors.type = `Type must be one of: ${validTypes.join(', ')}`;
+  }
+
+  if (status !== undefined && !validStatuses.includes(status)) {
+    errors.status = `Status must be one of: ${validStatuses.join(', ')}`;
+  }
+
+  if (locationId !== undefined && locationId !== null && !locationIds.includes(locationId)) {
+    errors.locationId = 'Location must be an existing location';
+  }
+
+  return errors;
+};
+
+// Check a new equipment payload that matches the shared equipmentSchema
+// against the configured options, and its custom fields against its type's
+const validateNewEquipment = (input, options) => {
+  const errors = validateEquipmentOptions(input, options);
+
+  // Custom fields can only be checked once the type is known
+  if (!errors.type) {
+    Object.assign(errors, validateCustomFields(input.customFields || {}, options.fieldsByType[input.type] || []));
+  }
+
+  return errors;
+};
+
+// Insert validated equipment, log its initial cleaning and audit the creation.
+// Takes the options it was validated against.
+const createEquipment = (req, input, { fieldsByType }) => {
+  return db.transaction(async () => {
+    const { name, type, status, cleaningIntervalDays = null, runtimeHours = 0, locationId = null } = input;
+    const cleaning = getCleaningInput(input);
+    const customFields = normalizeCustomFields(input.customFields || {}, fieldsByType[type] || []);
+
+    const result = await db.run(
+      `INSERT INTO equipment (name, type, status, cleaningIntervalDays, runtimeHours, locationId, customFields, ${ASSET_FIELDS.join(', ')})
+       VALUES (?, ?, ?, ?, ?, ?, ?, ${ASSET_FIELDS.map(() => '?').join(', ')})`,
+      [
+        name.trim(),
+        type,
+        status,
+        cleaningIntervalDays,
+        runtimeHours,
+        locationId,
+        JSON.stringify(customFields),
+        ...ASSET_FIELDS.map((field) => normalizeAssetField(field, input[field]))
+      ]
+    );
+
+    if (cleaning) {
+      await recordCleaning(result.id, cleaning);
+    }
+
+    const created = await getEquipmentById(result.id);
+
+    await recordAudit(req, {
+      entityType: 'equipment',
+      entityId: created.id,
+      equipmentId: created.id,
+      action: 'create',
+      after: created
+    });
+
+    return created;
+  });
+};
+
+module.exports = {
+  ASSET_FIELDS,
+  NEXT_CLEANING_DUE_SQL,
+  OVERDUE_SQL,
+  EQUIPMENT_FROM,
+  EQUIPMENT_SELECT,
+  formatEquipment,
+  matchesIfMatch,
+  getCleaningInput,
+  getEquipmentById,
+  loadOptions,
+  normalizeAssetField,
+  getAssetTags,
+  isAssetTagConflict,
+  validateEquipmentOptions,
+  validateNewEquipment,
+  createEquipment
+};
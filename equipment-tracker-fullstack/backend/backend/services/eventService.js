@@ -0,0 +1,54 @@
+// Server-Sent Events: every signed-in client keeps a stream open and is sent
+// each change as it happens, so open pages stay current without reloading
+
+// Proxies drop connections that stay silent too long
+const HEARTBEAT_MS = 25 * 1000;
+
+const clients = new Set();
+let heartbeat = null;
+
+// Start streaming to a response. Returns a function that stops it.
+const subscribe = (res) => {
+  clients.add(res);
+
+  if (!heartbeat) {
+    heartbeat = setInterval(() => clients.forEach((client) => client.write(': heartbeat\n\n')), HEARTBEAT_MS);
+    heartbeat.unref();
+  }
+
+  return () => {
+    clients.delete(res);
+    if (clients.size === 0) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+  };
+};
+
+// Send a named event to every open stream
+const publish = (event, data) => {
+  const chunk = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  clients.forEach((client) => client.write(chunk));
+};
+
+// Announce a change to equipment, naming who made it so clients can say so.
+// action is create, update, delete or restore (with the item as it now is,
+// or as it was before deletion), import (with the number of items created), bulk
+// (with the bulk operation and the ids it changed), purge (with the ids
+// permanently deleted), workOrder or attachment (with the operation and the
+// work order or attachment, as it now is or as it was before deletion), or
+// cascade (with the ids of the items changed by a change to a type, status,
+// location or custom field).
+const publishEquipmentEvent = (req, action, payload) => {
+  publish('equipment', {
+    action,
+    ...payload,
+    actor: req.user ? { username: req.user.username, displayName: req.user.displayName } : null,
+    requestId: req.id || null
+  });
+};
+
+module.exports = {
+  subscribe,
+  publishEquipmentEvent
+};
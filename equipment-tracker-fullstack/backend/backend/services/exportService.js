@@ -0,0 +1,92 @@
+const { stringify } = require('csv-stringify/sync');
+const ExcelJS = require('exceljs');
+
+const EXPORT_FORMATS = ['csv', 'xlsx'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Whole days between a YYYY-MM-DD date and today (UTC)
+const daysSince = (date) => {
+  if (!date) {
+    return null;
+  }
+  const today = new Date();
+  const todayUtc = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+  return Math.floor((todayUtc - Date.parse(`${date}T00:00:00Z`)) / MS_PER_DAY);
+};
+
+// Exported columns, including values derived from each row
+const EXPORT_COLUMNS = [
+  { header: 'ID', key: 'id', width: 8 },
+  { header: 'Name', key: 'name', width: 30 },
+  { header: 'Type', key: 'type', width: 16 },
+  { header: 'Status', key: 'status', width: 20 },
+  { header: 'Location', key: 'locationName', width: 24 },
+  { header: 'Asset Tag', key: 'assetTag', width: 16 },
+  { header: 'Serial Number', key: 'serialNumber', width: 18 },
+  { header: 'Manufacturer', key: 'manufacturer', width: 20 },
+  { header: 'Model', key: 'model', width: 20 },
+  { header: 'Install Date', key: 'installDate', width: 14 },
+  { header: 'Purchase Cost', key: 'purchaseCost', width: 14 },
+  { header: 'Last Cleaned', key: 'lastCleanedDate', width: 14 },
+  { header: 'Days Since Cleaning', key: 'daysSinceCleaning', width: 20, value: (row) => daysSince(row.lastCleanedDate) },
+  { header: 'Cleanings', key: 'cleaningCount', width: 10 },
+  { header: 'Cleaning Interval (Days)', key: 'effectiveCleaningIntervalDays', width: 24 },
+  { header: 'Next Cleaning Due', key: 'nextCleaningDue', width: 18 },
+  { header: 'Overdue', key: 'overdue', width: 10, value: (row) => (row.overdue ? 'Yes' : 'No') },
+  { header: 'Runtime Hours', key: 'runtimeHours', width: 14 },
+  { header: 'Created', key: 'createdAt', width: 20 },
+  { header: 'Updated', key: 'updatedAt', width: 20 }
+];
+
+const toRecord = (row) => {
+  const record = {};
+  EXPORT_COLUMNS.forEach(({ key, value }) => {
+    const cell = value ? value(row) : row[key];
+    record[key] = cell === undefined ? null : cell;
+  });
+  return record;
+};
+
+// Text a spreadsheet would run as a formula when opening a CSV file
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Prefix formula-like text with ' so spreadsheets show it as text instead of
+// running it. XLSX cells are typed, so only CSV needs this.
+const neutralizeFormula = (value) => {
+  return typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : value;
+};
+
+const toCsvRecord = (row) => {
+  const record = toRecord(row);
+  Object.keys(record).forEach((key) => {
+    record[key] = neutralizeFormula(record[key]);
+  });
+  return record;
+};
+
+const toCsv = (rows) => {
+  return stringify(rows.map(toCsvRecord), {
+    header: true,
+    columns: EXPORT_COLUMNS.map(({ key, header }) => ({ key, header }))
+  });
+};
+
+const toXlsx = async (rows) => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Equipment');
+
+  sheet.columns = EXPORT_COLUMNS.map(({ header, key, width }) => ({ header, key, width }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  rows.forEach((row) => sheet.addRow(toRecord(row)));
+
+  return workbook.xlsx.writeBuffer();
+};
+
+module.exports = {
+  EXPORT_FORMATS,
+  daysSince,
+  toCsv,
+  toXlsx
+};
@@ -0,0 +1,99 @@
+const { parse } = require('csv-parse/sync');
+
+// Fields that can be imported, in the order the wizard presents them
+const IMPORT_FIELDS = [
+  'name',
+  'type',
+  'status',
+  'lastCleanedDate',
+  'assetTag',
+  'serialNumber',
+  'manufacturer',
+  'model',
+  'installDate',
+  'purchaseCost'
+];
+
+const MAX_IMPORT_ROWS = 5000;
+
+// "Last Cleaned Date", "last_cleaned_date" and "lastCleanedDate" all match
+const normalizeHeader = (header) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Parse CSV text into its header row and records keyed by header
+const parseCsv = (text) => {
+  const rows = parse(text, {
+    bom: true,
+    skip_empty_lines: true,
+    relax_column_count: true,
+    trim: true
+  });
+
+  if (rows.length === 0) {
+    return { columns: [], records: [] };
+  }
+
+  const [columns, ...data] = rows;
+  const records = data.map((row) => {
+    const record = {};
+    columns.forEach((column, index) => {
+      record[column] = row[index] !== undefined ? row[index] : '';
+    });
+    return record;
+  });
+
+  return { columns, records };
+};
+
+// Resolve which CSV column feeds each field: an explicit mapping wins,
+// otherwise a column whose normalized name matches the field is used.
+// Problems are keyed by field, like those of parseListQuery.
+const resolveMapping = (columns, mapping = {}) => {
+  const errors = {};
+  const resolved = {};
+
+  IMPORT_FIELDS.forEach((field) => {
+    const explicit = mapping[field];
+    if (explicit !== undefined && explicit !== '') {
+      if (!columns.includes(explicit)) {
+        errors[field] = `mapping for ${field} refers to unknown column "${explicit}"`;
+      } else {
+        resolved[field] = explicit;
+      }
+      return;
+    }
+
+    const match = columns.find((column) => normalizeHeader(column) === normalizeHeader(field));
+    if (match) {
+      resolved[field] = match;
+    }
+  });
+
+  return { errors, mapping: resolved };
+};
+
+// Turn a CSV record into an equipment payload using the resolved mapping
+const toEquipmentInput = (record, mapping) => {
+  const input = {};
+  IMPORT_FIELDS.forEach((field) => {
+    const value = mapping[field] ? record[mapping[field]] : '';
+    if (value === '') {
+      return;
+    }
+    // Costs arrive as text; anything that isn't a number is left for
+    // validation to reject
+    if (field === 'purchaseCost' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      input[field] = Number(value);
+    } else {
+      input[field] = value;
+    }
+  });
+  return input;
+};
+
+module.exports = {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  parseCsv,
+  resolveMapping,
+  toEquipmentInput
+};
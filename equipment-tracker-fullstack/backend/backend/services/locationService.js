@@ -0,0 +1,220 @@
+const db = require('../db');
+const { recordAudit } = require('./auditService');
+
+const LOCATION_KINDS = ['site', 'building', 'area', 'room'];
+const MAX_NAME_LENGTH = 100;
+
+// Locations with the number of equipment items placed directly in them and
+// the number of child locations
+const LOCATION_SELECT = `
+  SELECT l.*,
+    (SELECT COUNT(*) FROM equipment e WHERE e.locationId = l.id AND e.deletedAt IS NULL) AS equipmentCount,
+    (SELECT COUNT(*) FROM locations c WHERE c.parentId = l.id) AS childCount
+  FROM locations l
+`;
+
+// The ids of a location and everything below it; takes the location id as
+// its single parameter
+const LOCATION_SUBTREE_SQL = `
+  WITH RECURSIVE subtree(id) AS (
+    SELECT ?
+    UNION
+    SELECT child.id FROM locations child JOIN subtree s ON child.parentId = s.id
+  )
+  SELECT id FROM subtree
+`;
+
+// Validate a location payload, returning the problem with each field.
+// With partial, only the fields present are checked.
+const validateLocation = (input, { partial = false } = {}) => {
+  if (!input || typeof input !== 'object') {
+    return { body: 'location must be an object' };
+  }
+
+  const { name, kind, description, parentId } = input;
+  const errors = {};
+
+  if (!partial || name !== undefined) {
+    if (!name || typeof name !== 'string' || name.trim() === '') {
+      errors.name = 'name is required and must be a non-empty string';
+    } else if (name.trim().length > MAX_NAME_LENGTH) {
+      errors.name = `name must be at most ${MAX_NAME_LENGTH} characters`;
+    }
+  }
+
+  if (!partial || kind !== undefined) {
+    if (!LOCATION_KINDS.includes(kind)) {
+      errors.kind = `kind is required and must be one of: ${LOCATION_KINDS.join(', ')}`;
+    }
+  }
+
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    errors.description = 'description must be a string';
+  }
+
+  if (parentId !== undefined && parentId !== null && !Number.isInteger(parentId)) {
+    errors.parentId = 'parentId must be null or an integer';
+  }
+
+  return errors;
+};
+
+const optional = (value) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : null);
+
+const isUniqueViolation = (err) => err.code === 'SQLITE_CONSTRAINT' && /UNIQUE/.test(err.message);
+
+// All locations, in name order; clients build the tree from parentId
+const listLocations = () => {
+  return db.all(`${LOCATION_SELECT} ORDER BY l.name COLLATE NOCASE, l.id`);
+};
+
+const getLocationById = (id) => {
+  return db.get(`${LOCATION_SELECT} WHERE l.id = ?`, [id]);
+};
+
+// Fetch just the location ids, for validating equipment
+const getLocationIds = async () => {
+  const rows = await db.all('SELECT id FROM locations');
+  return rows.map((row) => row.id);
+};
+
+// The ids of a location and all of its descendants
+const getSubtreeIds = async (id) => {
+  const rows = await db.all(LOCATION_SUBTREE_SQL, [id]);
+  return rows.map((row) => row.id);
+};
+
+// Check that parentId names an existing location that the location being
+// moved (if any) is not itself an ancestor of. Returns the problem keyed parentId.
+const validateParent = async (parentId, existing = null) => {
+  if (parentId === undefined || parentId === null) {
+    return {};
+  }
+
+  if (!(await getLocationIds()).includes(parentId)) {
+    return { parentId: 'parentId must be the id of an existing location' };
+  }
+
+  if (existing && (await getSubtreeIds(existing.id)).includes(parentId)) {
+    return { parentId: 'parentId cannot be the location itself or one of its descendants' };
+  }
+
+  return {};
+};
+
+// Create a validated location and audit it. The parent is checked in the same
+// transaction, so it can't be deleted in between. Returns the location, or the
+// problem with parentId.
+const createLocation = (req, input) => {
+  return db.transaction(async () => {
+    const errors = await validateParent(input.parentId);
+    if (Object.keys(errors).length > 0) {
+      return { errors };
+    }
+
+    const result = await db.run(
+      'INSERT INTO locations (parentId, name, kind, description) VALUES (?, ?, ?, ?)',
+      [input.parentId === undefined ? null : input.parentId, input.name.trim(), input.kind, optional(input.description)]
+    );
+
+    const created = await getLocationById(result.id);
+
+    await recordAudit(req, {
+      entityType: 'location',
+      entityId: created.id,
+      action: 'create',
+      after: created
+    });
+
+    return { location: created };
+  });
+};
+
+// Apply a validated partial update; sending parentId moves the location and
+// everything in it. The move is checked in the same transaction, so two
+// concurrent moves can't together make a cycle. Returns the location and, when
+// it was renamed, the ids of the equipment placed in it, whose location name
+// changes with it; or the problem with parentId.
+const updateLocation = (req, existing, input) => {
+  return db.transaction(async () => {
+    const { parentId, name, kind, description } = input;
+
+    const errors = await validateParent(parentId, existing);
+    if (Object.keys(errors).length > 0) {
+      return { errors };
+    }
+
+    const updates = [];
+    const params = [];
+
+    if (parentId !== undefined) {
+      updates.push('parentId = ?');
+      params.push(parentId);
+    }
+
+    if (name !== undefined) {
+      updates.push('name = ?');
+      params.push(name.trim());
+    }
+
+    if (kind !== undefined) {
+      updates.push('kind = ?');
+      params.push(kind);
+    }
+
+    if (description !== undefined) {
+      updates.push('description = ?');
+      params.push(optional(description));
+    }
+
+    updates.push('updatedAt = CURRENT_TIMESTAMP');
+    params.push(existing.id);
+    await db.run(`UPDATE locations SET ${updates.join(', ')} WHERE id = ?`, params);
+
+    const updated = await getLocationById(existing.id);
+
+    await recordAudit(req, {
+      entityType: 'location',
+      entityId: existing.id,
+      action: 'update',
+      before: existing,
+      after: updated
+    });
+
+    const renamed = updated.name !== existing.name;
+    const rows = renamed
+      ? await db.all('SELECT id FROM equipment WHERE locationId = ? ORDER BY id', [existing.id])
+      : [];
+
+    return { location: updated, equipmentIds: rows.map((row) => row.id) };
+  });
+};
+
+// Delete an empty location, with no child locations or equipment
+const deleteLocation = (req, existing) => {
+  return db.transaction(async () => {
+    await db.run('DELETE FROM locations WHERE id = ?', [existing.id]);
+
+    await recordAudit(req, {
+      entityType: 'location',
+      entityId: existing.id,
+      action: 'delete',
+      before: existing
+    });
+  });
+};
+
+module.exports = {
+  LOCATION_KINDS,
+  MAX_NAME_LENGTH,
+  LOCATION_SUBTREE_SQL,
+  validateLocation,
+  isUniqueViolation,
+  listLocations,
+  getLocationById,
+  getLocationIds,
+  validateParent,
+  createLocation,
+  updateLocation,
+  deleteLocation
+};
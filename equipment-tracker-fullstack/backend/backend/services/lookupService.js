@@ -0,0 +1,41 @@
+const db = require('../db');
+
+const MAX_NAME_LENGTH = 50;
+
+// Configurable option lists, the equipment column each one constrains and
+// any settings stored on the options beyond name, description and sortOrder
+const LOOKUPS = {
+  types: {
+    table: 'equipment_types',
+    column: 'type',
+    label: 'Equipment type',
+    entityType: 'equipment_type',
+    settings: ['cleaningIntervalDays']
+  },
+  statuses: {
+    table: 'equipment_statuses',
+    column: 'status',
+    label: 'Equipment status',
+    entityType: 'equipment_status',
+    settings: []
+  }
+};
+
+// Fetch all options of a lookup, in display order
+const listOptions = (lookup) => {
+  return db.all(`SELECT * FROM ${LOOKUPS[lookup].table} ORDER BY sortOrder, name`);
+};
+
+// Fetch just the option names of a lookup, for validation
+const getOptionNames = async (lookup) => {
+  const options = await listOptions(lookup);
+  return options.map((option) => option.name);
+};
+
+module.exports = {
+  MAX_NAME_LENGTH,
+  LOOKUPS,
+  listOptions,
+  getTypeNames: () => getOptionNames('types'),
+  getStatusNames: () => getOptionNames('statuses')
+};
@@ -0,0 +1,47 @@
+// Roles from least to most privileged; each role has every permission of
+// the roles before it. Any signed-in user may read, except the audit log.
+const ROLES = ['operator', 'supervisor', 'admin'];
+
+const ROLE_GRANTS = {
+  operator: ['cleaning:create'],
+  supervisor: [
+    'equipment:create',
+    'equipment:update',
+    'equipment:import',
+    'work_order:create',
+    'work_order:update',
+    'pm_plan:manage',
+    'attachment:create',
+    'audit:read'
+  ],
+  admin: ['equipment:delete', 'equipment:purge', 'work_order:delete', 'meta:manage', 'location:manage', 'attachment:delete']
+};
+
+const PERMISSIONS = ROLES.flatMap((role) => ROLE_GRANTS[role]);
+
+// All permissions of a role, including those inherited from lower roles
+const getPermissions = (role) => {
+  const index = ROLES.indexOf(role);
+  if (index === -1) {
+    return [];
+  }
+  return ROLES.slice(0, index + 1).flatMap((r) => ROLE_GRANTS[r]);
+};
+
+const hasPermission = (user, permission) => {
+  return Boolean(user) && getPermissions(user.role).includes(permission);
+};
+
+// The user as returned by the API, with the permissions the UI relies on
+const withPermissions = (user) => ({
+  ...user,
+  permissions: getPermissions(user.role)
+});
+
+module.exports = {
+  ROLES,
+  PERMISSIONS,
+  getPermissions,
+  hasPermission,
+  withPermissions
+};
@@ -0,0 +1,309 @@
+const db = require('../db');
+const { recordAudit } = require('./auditService');
+const { validateWorkOrder } = require('./workOrderService');
+const { validateCron, nextCronRun } = require('./cronService');
+
+const SCHEDULE_TYPES = ['days', 'runtime_hours', 'cron'];
+const SCHEDULE_FIELDS = ['scheduleType', 'intervalDays', 'intervalHours', 'cron', 'nextDueAt'];
+const EDITABLE_FIELDS = ['title', 'description', 'priority', 'assignee', 'scheduleType', 'intervalDays', 'intervalHours', 'cron', 'active'];
+const MAX_INTERVAL_DAYS = 3650;
+const MAX_INTERVAL_HOURS = 100000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Plans with their equipment's name and runtime meter, and how many of the
+// work orders they generated are still open
+const PM_PLAN_SELECT = `
+  SELECT p.*, e.name AS equipmentName, e.runtimeHours AS equipmentRuntimeHours,
+    (SELECT COUNT(*) FROM work_orders w WHERE w.pmPlanId = p.id AND w.closedAt IS NULL) AS openWorkOrders
+  FROM pm_plans p JOIN equipment e ON e.id = p.equipmentId
+`;
+
+// SQLite timestamps are UTC in "YYYY-MM-DD HH:MM:SS" form
+const toTimestamp = (date) => date.toISOString().slice(0, 19).replace('T', ' ');
+
+// SQLite has no boolean type; runtime plans are due at a meter reading
+// rather than a date
+const formatPmPlan = (row) => {
+  if (!row) {
+    return row;
+  }
+  const nextDueRuntimeHours = row.scheduleType === 'runtime_hours'
+    ? row.lastRuntimeHours + row.intervalHours
+    : null;
+  return {
+    ...row,
+    active: Boolean(row.active),
+    nextDueRuntimeHours,
+    runtimeHoursRemaining: nextDueRuntimeHours === null
+      ? null
+      : Math.max(0, nextDueRuntimeHours - row.equipmentRuntimeHours)
+  };
+};
+
+// An update applied over the editable fields of an existing plan. nextDueAt
+// is only kept when sent, as the stored one is a timestamp rather than a date.
+const mergePmPlan = (existing, input) => {
+  const merged = {};
+  EDITABLE_FIELDS.forEach((field) => {
+    merged[field] = existing[field];
+  });
+  return { ...merged, ...input };
+};
+
+// Validate a complete plan, returning the problem with each field. Updates are
+// merged into the existing plan with mergePmPlan and validated whole.
+const validatePmPlan = (plan) => {
+  if (!plan || typeof plan !== 'object') {
+    return { body: 'plan must be an object' };
+  }
+
+  const { title, description, priority, assignee, scheduleType, intervalDays, intervalHours, cron, nextDueAt, active } = plan;
+  const errors = validateWorkOrder({ title, description, priority, assignee });
+
+  if (!SCHEDULE_TYPES.includes(scheduleType)) {
+    errors.scheduleType = `scheduleType is required and must be one of: ${SCHEDULE_TYPES.join(', ')}`;
+  }
+
+  if (scheduleType === 'days') {
+    if (!Number.isInteger(intervalDays) || intervalDays < 1 || intervalDays > MAX_INTERVAL_DAYS) {
+      errors.intervalDays = `intervalDays must be an integer between 1 and ${MAX_INTERVAL_DAYS}`;
+    }
+    if (nextDueAt !== undefined && nextDueAt !== null && !DATE_PATTERN.test(nextDueAt)) {
+      errors.nextDueAt = 'nextDueAt must be in YYYY-MM-DD format';
+    }
+  }
+
+  if (scheduleType === 'runtime_hours') {
+    if (!Number.isInteger(intervalHours) || intervalHours < 1 || intervalHours > MAX_INTERVAL_HOURS) {
+      errors.intervalHours = `intervalHours must be an integer between 1 and ${MAX_INTERVAL_HOURS}`;
+    }
+  }
+
+  if (scheduleType === 'cron') {
+    Object.assign(errors, validateCron(cron));
+  }
+
+  if (active !== undefined && typeof active !== 'boolean') {
+    errors.active = 'active must be a boolean';
+  }
+
+  return errors;
+};
+
+// The schedule columns of a validated plan: only those of its schedule type
+// are kept. Date-based plans get their next due time, starting from nextDueAt
+// if given; runtime plans start counting from the current meter reading.
+const getSchedule = (plan, runtimeHours, now = new Date()) => {
+  const schedule = {
+    scheduleType: plan.scheduleType,
+    intervalDays: null,
+    intervalHours: null,
+    cron: null,
+    nextDueAt: null,
+    lastRuntimeHours: null
+  };
+
+  if (plan.scheduleType === 'days') {
+    const due = new Date(now.getTime());
+    due.setUTCDate(due.getUTCDate() + plan.intervalDays);
+    schedule.intervalDays = plan.intervalDays;
+    schedule.nextDueAt = plan.nextDueAt && DATE_PATTERN.test(plan.nextDueAt)
+      ? `${plan.nextDueAt} 00:00:00`
+      : toTimestamp(due);
+  } else if (plan.scheduleType === 'runtime_hours') {
+    schedule.intervalHours = plan.intervalHours;
+    schedule.lastRuntimeHours = runtimeHours;
+  } else {
+    schedule.cron = plan.cron.trim();
+    schedule.nextDueAt = toTimestamp(nextCronRun(schedule.cron, now));
+  }
+
+  return schedule;
+};
+
+const optional = (value) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : null);
+
+// Plans of equipment in the trash are not found
+const getPmPlanById = async (id) => {
+  return formatPmPlan(await db.get(`${PM_PLAN_SELECT} WHERE p.id = ? AND e.deletedAt IS NULL`, [id]));
+};
+
+// Create a plan for an equipment item and audit it
+const createPmPlan = (req, equipment, input) => {
+  return db.transaction(async () => {
+    const schedule = getSchedule(input, equipment.runtimeHours);
+
+    const result = await db.run(
+      `INSERT INTO pm_plans (equipmentId, title, description, priority, assignee, scheduleType,
+         intervalDays, intervalHours, cron, nextDueAt, lastRuntimeHours, active)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        equipment.id,
+        input.title.trim(),
+        optional(input.description),
+        input.priority || 'medium',
+        optional(input.assignee),
+        schedule.scheduleType,
+        schedule.intervalDays,
+        schedule.intervalHours,
+        schedule.cron,
+        schedule.nextDueAt,
+        schedule.lastRuntimeHours,
+        input.active === false ? 0 : 1
+      ]
+    );
+
+    const created = await getPmPlanById(result.id);
+
+    await recordAudit(req, {
+      entityType: 'pm_plan',
+      entityId: created.id,
+      equipmentId: equipment.id,
+      action: 'create',
+      after: created
+    });
+
+    return created;
+  });
+};
+
+// Apply a validated update. The schedule restarts from now when any of its
+// fields are sent.
+const updatePmPlan = (req, existing, input) => {
+  return db.transaction(async () => {
+    const merged = mergePmPlan(existing, input);
+    const rescheduled = SCHEDULE_FIELDS.some((field) => input[field] !== undefined);
+    const schedule = rescheduled
+      ? getSchedule(merged, existing.equipmentRuntimeHours)
+      : existing;
+
+    await db.run(
+      `UPDATE pm_plans
+       SET title = ?, description = ?, priority = ?, assignee = ?, scheduleType = ?,
+         intervalDays = ?, intervalHours = ?, cron = ?, nextDueAt = ?, lastRuntimeHours = ?,
+         active = ?, updatedAt = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        merged.title.trim(),
+        optional(merged.description),
+        merged.priority,
+        optional(merged.assignee),
+        schedule.scheduleType,
+        schedule.intervalDays,
+        schedule.intervalHours,
+        schedule.cron,
+        schedule.nextDueAt,
+        schedule.lastRuntimeHours,
+        merged.active ? 1 : 0,
+        existing.id
+      ]
+    );
+
+    const updated = await getPmPlanById(existing.id);
+
+    await recordAudit(req, {
+      entityType: 'pm_plan',
+      entityId: existing.id,
+      equipmentId: existing.equipmentId,
+      action: 'update',
+      before: existing,
+      after: updated
+    });
+
+    return updated;
+  });
+};
+
+// Delete a plan. Work orders it generated are kept, unlinked from it.
+const deletePmPlan = (req, existing) => {
+  return db.transaction(async () => {
+    await db.run('DELETE FROM pm_plans WHERE id = ?', [existing.id]);
+
+    await recordAudit(req, {
+      entityType: 'pm_plan',
+      entityId: existing.id,
+      equipmentId: existing.equipmentId,
+      action: 'delete',
+      before: existing
+    });
+  });
+};
+
+// Active plans coming due by a time (date-based plans) or within a number of
+// runtime hours (runtime plans), soonest first. Plans of equipment in the
+// trash are left out, here and when generating work orders.
+const listUpcomingPmPlans = async ({ until, withinHours }) => {
+  const rows = await db.all(
+    `${PM_PLAN_SELECT}
+     WHERE p.active = 1 AND e.deletedAt IS NULL AND (
+       (p.scheduleType IN ('days', 'cron') AND p.nextDueAt <= ?)
+       OR (p.scheduleType = 'runtime_hours' AND p.lastRuntimeHours + p.intervalHours - e.runtimeHours <= ?)
+     )
+     ORDER BY p.nextDueAt IS NULL, p.nextDueAt,
+       p.lastRuntimeHours + p.intervalHours - e.runtimeHours, p.id`,
+    [toTimestamp(until), withinHours]
+  );
+  return rows.map(formatPmPlan);
+};
+
+// Active plans that have come due and have no generated work order still open
+const listDuePmPlans = async (now = new Date()) => {
+  const rows = await db.all(
+    `${PM_PLAN_SELECT}
+     WHERE p.active = 1 AND e.deletedAt IS NULL AND (
+       (p.scheduleType IN ('days', 'cron') AND p.nextDueAt <= ?)
+       OR (p.scheduleType = 'runtime_hours' AND e.runtimeHours >= p.lastRuntimeHours + p.intervalHours)
+     )
+     AND NOT EXISTS (
+       SELECT 1 FROM work_orders w WHERE w.pmPlanId = p.id AND w.closedAt IS NULL
+     )
+     ORDER BY p.id`,
+    [toTimestamp(now)]
+  );
+  return rows.map(formatPmPlan);
+};
+
+// Move a plan on to its next due time or meter reading after it generated a
+// work order. Day-based plans keep their rhythm, skipping any missed periods.
+const advancePmPlan = async (plan, now = new Date()) => {
+  let nextDueAt = null;
+
+  if (plan.scheduleType === 'days') {
+    const due = new Date(`${plan.nextDueAt.replace(' ', 'T')}Z`);
+    while (due <= now) {
+      due.setUTCDate(due.getUTCDate() + plan.intervalDays);
+    }
+    nextDueAt = toTimestamp(due);
+  } else if (plan.scheduleType === 'cron') {
+    const due = nextCronRun(plan.cron, now);
+    nextDueAt = due && toTimestamp(due);
+  }
+
+  await db.run(
+    `UPDATE pm_plans
+     SET nextDueAt = ?, lastRuntimeHours = ?, lastGeneratedAt = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [
+      nextDueAt,
+      plan.scheduleType === 'runtime_hours' ? plan.equipmentRuntimeHours : null,
+      plan.id
+    ]
+  );
+};
+
+module.exports = {
+  SCHEDULE_TYPES,
+  MAX_INTERVAL_DAYS,
+  MAX_INTERVAL_HOURS,
+  PM_PLAN_SELECT,
+  formatPmPlan,
+  mergePmPlan,
+  validatePmPlan,
+  getPmPlanById,
+  createPmPlan,
+  updatePmPlan,
+  deletePmPlan,
+  listUpcomingPmPlans,
+  listDuePmPlans,
+  advancePmPlan
+};
@@ -0,0 +1,68 @@
+const { listDuePmPlans, advancePmPlan } = require('./pmPlanService');
+const { createWorkOrder } = require('./workOrderService');
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+// Work orders generated by the scheduler are audited and announced as this actor
+const SCHEDULER_REQUEST = { id: null, user: { username: 'pm-scheduler', displayName: 'PM scheduler' } };
+
+let timer = null;
+let running = false;
+
+// Open a work order for every plan that has come due, then move each plan
+// on to its next due time. A failing plan is logged and retried next run.
+const runDuePmPlans = async (now = new Date()) => {
+  const plans = await listDuePmPlans(now);
+  let generated = 0;
+
+  for (const plan of plans) {
+    try {
+      await createWorkOrder(SCHEDULER_REQUEST, plan.equipmentId, plan, { pmPlanId: plan.id });
+      await advancePmPlan(plan, now);
+      generated += 1;
+    } catch (err) {
+      console.error(`Error generating work order for PM plan ${plan.id}:`, err);
+    }
+  }
+
+  return generated;
+};
+
+// Skip a run if the previous one has not finished
+const tick = async () => {
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    const generated = await runDuePmPlans();
+    if (generated > 0) {
+      console.log(`PM scheduler opened ${generated} work order(s)`);
+    }
+  } catch (err) {
+    console.error('Error running PM scheduler:', err);
+  } finally {
+    running = false;
+  }
+};
+
+// Check for due plans now and then every intervalMs
+const startPmScheduler = (intervalMs = DEFAULT_INTERVAL_MS) => {
+  if (timer) {
+    return;
+  }
+  tick();
+  timer = setInterval(tick, intervalMs);
+  timer.unref();
+};
+
+const stopPmScheduler = () => {
+  clearInterval(timer);
+  timer = null;
+};
+
+module.exports = {
+  runDuePmPlans,
+  startPmScheduler,
+  stopPmScheduler
+};
@@ -0,0 +1,103 @@
+const db = require('../db');
+const { EQUIPMENT_SELECT, formatEquipment } = require('./equipmentService');
+
+// Columns of equipment_search in table order, with their weight in ranking:
+// a hit in the name or an identifier counts for more than one in the notes
+const SEARCH_FIELDS = [
+  ['name', 10],
+  ['type', 2],
+  ['status', 1],
+  ['assetTag', 8],
+  ['serialNumber', 8],
+  ['manufacturer', 4],
+  ['model', 4],
+  ['cleaningNotes', 1],
+  ['workOrders', 1]
+];
+
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+
+// Words of context in each snippet
+const SNIPPET_TOKENS = 12;
+
+// Matched terms in snippets are wrapped in char(1) and char(2), control
+// characters never found in the indexed text itself
+const HIGHLIGHT_START = '\u0001';
+const HIGHLIGHT_PATTERN = /\u0001([^\u0002]*)\u0002/g;
+
+// Ids of the equipment matching an FTS5 query, for use in IN (...)
+const SEARCH_MATCH_SQL = 'SELECT rowid FROM equipment_search WHERE equipment_search MATCH ?';
+
+// Turn free text into an FTS5 query in which every word must match the start
+// of a word in the index, so "mix b" finds "Mixer B". Returns null when the
+// text has no words.
+const toMatchQuery = (text) => {
+  const words = text.match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map((word) => `"${word}"*`).join(' ') : null;
+};
+
+// Split a snippet into plain and highlighted parts
+const parseSnippet = (snippet) => {
+  const parts = [];
+  let last = 0;
+
+  for (const match of snippet.matchAll(HIGHLIGHT_PATTERN)) {
+    if (match.index > last) {
+      parts.push({ text: snippet.slice(last, match.index), highlight: false });
+    }
+    parts.push({ text: match[1], highlight: true });
+    last = match.index + match[0].length;
+  }
+
+  if (last < snippet.length) {
+    parts.push({ text: snippet.slice(last), highlight: false });
+  }
+
+  return parts;
+};
+
+// Equipment matching an FTS5 query, best match first, each with a snippet of
+// every field it matched in. Items in the trash are left out.
+const searchEquipment = async (matchQuery, limit) => {
+  const snippets = SEARCH_FIELDS.map(([field], index) =>
+    `snippet(equipment_search, ${index}, char(1), char(2), '…', ${SNIPPET_TOKENS}) AS ${field}`
+  );
+  const weights = SEARCH_FIELDS.map(([, weight]) => weight);
+
+  const hits = await db.all(
+    `SELECT equipment_search.rowid AS id, ${snippets.join(', ')}
+     FROM equipment_search
+     JOIN equipment e ON e.id = equipment_search.rowid
+     WHERE equipment_search MATCH ? AND e.deletedAt IS NULL
+     ORDER BY bm25(equipment_search, ${weights.join(', ')})
+     LIMIT ?`,
+    [matchQuery, limit]
+  );
+
+  if (hits.length === 0) {
+    return [];
+  }
+
+  const rows = await db.all(
+    `${EQUIPMENT_SELECT} WHERE e.id IN (${hits.map(() => '?').join(', ')})`,
+    hits.map((hit) => hit.id)
+  );
+  const itemsById = new Map(rows.map((row) => [row.id, formatEquipment(row)]));
+
+  return hits.map((hit) => ({
+    equipment: itemsById.get(hit.id),
+    matches: SEARCH_FIELDS
+      .filter(([field]) => hit[field] && hit[field].includes(HIGHLIGHT_START))
+      .map(([field]) => ({ field, snippet: parseSnippet(hit[field]) }))
+  }));
+};
+
+module.exports = {
+  SEARCH_FIELDS,
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  SEARCH_MATCH_SQL,
+  toMatchQuery,
+  searchEquipment
+};
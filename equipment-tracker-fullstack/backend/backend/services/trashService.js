@@ -0,0 +1,150 @@
+const db = require('../db');
+const { recordAudit } = require('./auditService');
+const { EQUIPMENT_SELECT, formatEquipment, getEquipmentById } = require('./equipmentService');
+const { getAttachmentHashes, removeUnusedFiles } = require('./attachmentService');
+
+// Days deleted equipment stays restorable before a purge may remove it
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const MAX_RETENTION_DAYS = 3650;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// SQLite timestamps are UTC in "YYYY-MM-DD HH:MM:SS" form
+const toTimestamp = (date) => date.toISOString().slice(0, 19).replace('T', ' ');
+
+// A trashed item with the time from which a purge removes it
+const withPurgeAfter = (item) => {
+  const deletedAt = Date.parse(`${item.deletedAt.replace(' ', 'T')}Z`);
+  return {
+    ...item,
+    purgeAfter: toTimestamp(new Date(deletedAt + TRASH_RETENTION_DAYS * MS_PER_DAY))
+  };
+};
+
+// Validate the olderThanDays of a purge; 0 empties the whole trash
+const validateRetentionDays = (value) => {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_RETENTION_DAYS) {
+    return { olderThanDays: `olderThanDays must be an integer between 0 and ${MAX_RETENTION_DAYS}` };
+  }
+  return {};
+};
+
+// Move an item to the trash and audit it. Only the version that was checked
+// is deleted; returns false if the item changed or was deleted meanwhile.
+const softDeleteEquipment = (req, existing) => {
+  return db.transaction(async () => {
+    const result = await db.run(
+      `UPDATE equipment SET deletedAt = CURRENT_TIMESTAMP, deletedBy = ?
+       WHERE id = ? AND version = ? AND deletedAt IS NULL`,
+      [req.user ? req.user.username : null, existing.id, existing.version]
+    );
+
+    if (result.changes === 0) {
+      return false;
+    }
+
+    await recordAudit(req, {
+      entityType: 'equipment',
+      entityId: existing.id,
+      equipmentId: existing.id,
+      action: 'delete',
+      before: existing
+    });
+
+    return true;
+  });
+};
+
+// A page of the trash, most recently deleted first
+const listTrash = async ({ pageSize, offset }) => {
+  const { total } = await db.get('SELECT COUNT(*) AS total FROM equipment WHERE deletedAt IS NOT NULL');
+  const rows = await db.all(
+    `${EQUIPMENT_SELECT} WHERE e.deletedAt IS NOT NULL ORDER BY e.deletedAt DESC, e.id DESC LIMIT ? OFFSET ?`,
+    [pageSize, offset]
+  );
+  return { total, items: rows.map((row) => withPurgeAfter(formatEquipment(row))) };
+};
+
+// Fetch one item from the trash
+const getTrashedEquipment = async (id) => {
+  const item = await getEquipmentById(id, { includeDeleted: true });
+  return item && item.deletedAt ? withPurgeAfter(item) : null;
+};
+
+// Take an item out of the trash and audit it. Throws the unique index error
+// when another item has taken its asset tag meanwhile.
+const restoreEquipment = (req, trashed) => {
+  return db.transaction(async () => {
+    await db.run(
+      'UPDATE equipment SET deletedAt = NULL, deletedBy = NULL WHERE id = ? AND deletedAt IS NOT NULL',
+      [trashed.id]
+    );
+
+    const restored = await getEquipmentById(trashed.id);
+
+    await recordAudit(req, {
+      entityType: 'equipment',
+      entityId: restored.id,
+      equipmentId: restored.id,
+      action: 'restore',
+      after: restored
+    });
+
+    return restored;
+  });
+};
+
+// Permanently delete items that have been in the trash for at least
+// olderThanDays, along with everything that belongs to them, and audit each.
+// Returns the ids purged.
+const purgeTrash = async (req, olderThanDays) => {
+  const cutoff = toTimestamp(new Date(Date.now() - olderThanDays * MS_PER_DAY));
+  // Attachments cascade, so their files are collected first and pruned once
+  // nothing refers to them
+  const attachmentHashes = [];
+
+  // The rows are read and deleted in one transaction, and each delete repeats
+  // the trash condition, so an item restored meanwhile is kept
+  const purgedIds = await db.transaction(async () => {
+    const rows = await db.all(
+      `${EQUIPMENT_SELECT} WHERE e.deletedAt IS NOT NULL AND e.deletedAt <= ? ORDER BY e.id`,
+      [cutoff]
+    );
+
+    const ids = [];
+    for (const row of rows) {
+      const item = formatEquipment(row);
+      const hashes = await getAttachmentHashes(item.id);
+      const { changes } = await db.run(
+        'DELETE FROM equipment WHERE id = ? AND deletedAt IS NOT NULL AND deletedAt <= ?',
+        [item.id, cutoff]
+      );
+      if (!changes) continue;
+
+      attachmentHashes.push(...hashes);
+      await recordAudit(req, {
+        entityType: 'equipment',
+        entityId: item.id,
+        equipmentId: item.id,
+        action: 'purge',
+        before: item
+      });
+      ids.push(item.id);
+    }
+    return ids;
+  });
+
+  await removeUnusedFiles(attachmentHashes);
+
+  return purgedIds;
+};
+
+module.exports = {
+  TRASH_RETENTION_DAYS,
+  MAX_RETENTION_DAYS,
+  validateRetentionDays,
+  softDeleteEquipment,
+  listTrash,
+  getTrashedEquipment,
+  restoreEquipment,
+  purgeTrash
+};
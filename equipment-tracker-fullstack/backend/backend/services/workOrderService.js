@@ -0,0 +1,328 @@
+const db = require('../db');
+const { recordAudit } = require('./auditService');
+const { getEquipmentById } = require('./equipmentService');
+const { getStatusNames } = require('./lookupService');
+const { publishEquipmentEvent } = require('./eventService');
+
+const PRIORITIES = ['low', 'medium', 'high', 'critical'];
+const TEXT_FIELDS = ['description', 'assignee'];
+const MAX_DOWNTIME_MINUTES = 525600;
+
+// Equipment with open work orders is shown as under maintenance
+const MAINTENANCE_STATUS = 'Under Maintenance';
+
+// Work orders with the name of their equipment
+const WORK_ORDER_SELECT = `
+  SELECT w.*, e.name AS equipmentName
+  FROM work_orders w JOIN equipment e ON e.id = w.equipmentId
+`;
+
+// Open orders first, most urgent first, then newest
+const WORK_ORDER_ORDER_BY = `
+  ORDER BY w.closedAt IS NOT NULL,
+    CASE w.priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
+    w.openedAt DESC, w.id DESC
+`;
+
+// Minutes from opening until now, for orders closed without a downtime
+const ELAPSED_MINUTES_SQL = "CAST(ROUND((julianday('now') - julianday(openedAt)) * 1440) AS INTEGER)";
+
+const formatWorkOrder = (row) => row && { ...row, status: row.closedAt ? 'closed' : 'open' };
+
+// Validate a work order payload, returning the problem with each field.
+// With partial, only the fields present are checked.
+const validateWorkOrder = (input, { partial = false } = {}) => {
+  const errors = {};
+
+  if (!input || typeof input !== 'object') {
+    return { body: 'work order must be an object' };
+  }
+
+  const { title, priority, downtimeMinutes, closed } = input;
+
+  if (!partial || title !== undefined) {
+    if (!title || typeof title !== 'string' || title.trim() === '') {
+      errors.title = 'title is required and must be a non-empty string';
+    }
+  }
+
+  if (priority !== undefined && !PRIORITIES.includes(priority)) {
+    errors.priority = `priority must be one of: ${PRIORITIES.join(', ')}`;
+  }
+
+  TEXT_FIELDS.forEach((field) => {
+    const value = input[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      errors[field] = `${field} must be a string`;
+    }
+  });
+
+  if (downtimeMinutes !== undefined && downtimeMinutes !== null) {
+    if (!Number.isInteger(downtimeMinutes) || downtimeMinutes < 0 || downtimeMinutes > MAX_DOWNTIME_MINUTES) {
+      errors.downtimeMinutes = `downtimeMinutes must be null or an integer between 0 and ${MAX_DOWNTIME_MINUTES}`;
+    }
+  }
+
+  if (closed !== undefined && typeof closed !== 'boolean') {
+    errors.closed = 'closed must be a boolean';
+  }
+
+  return errors;
+};
+
+const optional = (value) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : null);
+
+// Fetch one work order of an equipment item that isn't in the trash
+const getWorkOrder = async (equipmentId, workOrderId) => {
+  return formatWorkOrder(await db.get(
+    `${WORK_ORDER_SELECT} WHERE w.equipmentId = ? AND w.id = ? AND e.deletedAt IS NULL`,
+    [equipmentId, workOrderId]
+  ));
+};
+
+// Fetch all work orders of an equipment item
+const listWorkOrders = async (equipmentId) => {
+  const rows = await db.all(
+    `${WORK_ORDER_SELECT} WHERE w.equipmentId = ? ${WORK_ORDER_ORDER_BY}`,
+    [equipmentId]
+  );
+  return rows.map(formatWorkOrder);
+};
+
+// The oldest open work order of an equipment item, other than one excluded
+const getOldestOpen = (equipmentId, excludeId = null) => {
+  return db.get(
+    `SELECT * FROM work_orders
+     WHERE equipmentId = ? AND closedAt IS NULL AND id IS NOT ?
+     ORDER BY openedAt, id
+     LIMIT 1`,
+    [equipmentId, excludeId]
+  );
+};
+
+// Change an equipment item's status on behalf of its work orders, if that
+// status is still configured. Returns the item if it was changed.
+const setEquipmentStatus = async (req, equipment, status) => {
+  if (equipment.status === status || !(await getStatusNames()).includes(status)) {
+    return null;
+  }
+
+  await db.run(
+    'UPDATE equipment SET status = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+    [status, equipment.id]
+  );
+
+  const updated = await getEquipmentById(equipment.id);
+
+  await recordAudit(req, {
+    entityType: 'equipment',
+    entityId: equipment.id,
+    equipmentId: equipment.id,
+    action: 'update',
+    before: equipment,
+    after: updated
+  });
+
+  return updated;
+};
+
+// A work order was opened: if it is the only open one, remember the
+// equipment's status on it and put the equipment under maintenance. Returns
+// the equipment if its status changed.
+const onOpened = async (req, workOrderId, equipmentId) => {
+  if (await getOldestOpen(equipmentId, workOrderId)) {
+    return null;
+  }
+
+  const equipment = await getEquipmentById(equipmentId);
+
+  await db.run(
+    'UPDATE work_orders SET statusBefore = ? WHERE id = ?',
+    [equipment.status, workOrderId]
+  );
+
+  return setEquipmentStatus(req, equipment, MAINTENANCE_STATUS);
+};
+
+// A work order was closed or deleted: hand the remembered status to the
+// next open order, or restore it if none are left open. Returns the
+// equipment if its status changed.
+const onReleased = async (req, workOrder) => {
+  const { equipmentId, statusBefore } = workOrder;
+  const next = await getOldestOpen(equipmentId, workOrder.id);
+
+  if (next) {
+    if (statusBefore !== null && next.statusBefore === null) {
+      await db.run(
+        'UPDATE work_orders SET statusBefore = ? WHERE id = ?',
+        [statusBefore, next.id]
+      );
+    }
+    return null;
+  }
+
+  const equipment = await getEquipmentById(equipmentId);
+
+  if (equipment.status === MAINTENANCE_STATUS && statusBefore !== null) {
+    return setEquipmentStatus(req, equipment, statusBefore);
+  }
+  return null;
+};
+
+// Announce a committed work order change, and the equipment's new status if
+// the change put it under maintenance or took it out. Sent from here rather
+// than the routes so orders the PM scheduler opens are announced too.
+const publishWorkOrderChange = (req, operation, workOrder, equipment) => {
+  publishEquipmentEvent(req, 'workOrder', { operation, workOrder });
+  if (equipment) {
+    publishEquipmentEvent(req, 'update', { equipment });
+  }
+};
+
+// Open a work order on an equipment item and audit it. pmPlanId links orders
+// generated by a preventive maintenance plan.
+const createWorkOrder = async (req, equipmentId, input, { pmPlanId = null } = {}) => {
+  const { created, equipment } = await db.transaction(async () => {
+    const result = await db.run(
+      `INSERT INTO work_orders (equipmentId, title, description, priority, assignee, pmPlanId)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        equipmentId,
+        input.title.trim(),
+        optional(input.description),
+        input.priority || 'medium',
+        optional(input.assignee),
+        pmPlanId
+      ]
+    );
+
+    const equipment = await onOpened(req, result.id, equipmentId);
+
+    const created = await getWorkOrder(equipmentId, result.id);
+
+    await recordAudit(req, {
+      entityType: 'work_order',
+      entityId: created.id,
+      equipmentId,
+      action: 'create',
+      after: created
+    });
+
+    return { created, equipment };
+  });
+
+  publishWorkOrderChange(req, 'create', created, equipment);
+  return created;
+};
+
+// Apply a validated partial update. closed: true closes the order, recording
+// the time open as downtime unless one is given; closed: false reopens it.
+const updateWorkOrder = async (req, existing, input) => {
+  const { updated, equipment } = await db.transaction(async () => {
+    const { title, description, priority, assignee, downtimeMinutes, closed } = input;
+    const closing = closed === true && existing.status === 'open';
+    const reopening = closed === false && existing.status === 'closed';
+    const updates = [];
+    const params = [];
+
+    if (title !== undefined) {
+      updates.push('title = ?');
+      params.push(title.trim());
+    }
+
+    if (description !== undefined) {
+      updates.push('description = ?');
+      params.push(optional(description));
+    }
+
+    if (priority !== undefined) {
+      updates.push('priority = ?');
+      params.push(priority);
+    }
+
+    if (assignee !== undefined) {
+      updates.push('assignee = ?');
+      params.push(optional(assignee));
+    }
+
+    if (downtimeMinutes !== undefined) {
+      updates.push('downtimeMinutes = ?');
+      params.push(downtimeMinutes);
+    } else if (closing) {
+      updates.push(`downtimeMinutes = ${ELAPSED_MINUTES_SQL}`);
+    } else if (reopening) {
+      updates.push('downtimeMinutes = NULL');
+    }
+
+    if (closing) {
+      updates.push('closedAt = CURRENT_TIMESTAMP');
+    } else if (reopening) {
+      updates.push('closedAt = NULL', 'statusBefore = NULL');
+    }
+
+    if (updates.length > 0) {
+      updates.push('updatedAt = CURRENT_TIMESTAMP');
+      params.push(existing.id);
+      await db.run(`UPDATE work_orders SET ${updates.join(', ')} WHERE id = ?`, params);
+    }
+
+    let equipment = null;
+    if (closing) {
+      equipment = await onReleased(req, existing);
+    } else if (reopening) {
+      equipment = await onOpened(req, existing.id, existing.equipmentId);
+    }
+
+    const updated = await getWorkOrder(existing.equipmentId, existing.id);
+
+    await recordAudit(req, {
+      entityType: 'work_order',
+      entityId: existing.id,
+      equipmentId: existing.equipmentId,
+      action: 'update',
+      before: existing,
+      after: updated
+    });
+
+    return { updated, equipment };
+  });
+
+  publishWorkOrderChange(req, 'update', updated, equipment);
+  return updated;
+};
+
+// Delete a work order, releasing the equipment if it was the last one open
+const deleteWorkOrder = async (req, existing) => {
+  const equipment = await db.transaction(async () => {
+    await db.run('DELETE FROM work_orders WHERE id = ?', [existing.id]);
+
+    const released = existing.status === 'open' ? await onReleased(req, existing) : null;
+
+    await recordAudit(req, {
+      entityType: 'work_order',
+      entityId: existing.id,
+      equipmentId: existing.equipmentId,
+      action: 'delete',
+      before: existing
+    });
+
+    return released;
+  });
+
+  publishWorkOrderChange(req, 'delete', existing, equipment);
+};
+
+module.exports = {
+  PRIORITIES,
+  MAX_DOWNTIME_MINUTES,
+  MAINTENANCE_STATUS,
+  WORK_ORDER_SELECT,
+  WORK_ORDER_ORDER_BY,
+  formatWorkOrder,
+  validateWorkOrder,
+  getWorkOrder,
+  listWorkOrders,
+  createWorkOrder,
+  updateWorkOrder,
+  deleteWorkOrder
+};
@@ -0,0 +1,77 @@
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+
+process.env.ATTACHMENTS_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+
+const { startApp, signIn, createEquipment } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const db = require('../db');
+const { getFilePath, createAttachment, removeUnusedFiles } = require('../services/attachmentService');
+
+const PDF = '%PDF-1.4\n%%EOF\n';
+
+let app;
+let admin;
+
+before(async () => {
+  app = await startApp();
+  admin = await signIn(app.baseUrl, 'admin');
+});
+
+after(async () => {
+  await app.stop();
+  fs.rmSync(process.env.ATTACHMENTS_DIR, { recursive: true, force: true });
+});
+
+const upload = (item, content = PDF) => {
+  const form = new FormData();
+  form.append('file', new Blob([content], { type: 'application/pdf' }), 'manual.pdf');
+  return admin.request('POST', `/api/equipment/${item.id}/attachments`, { body: form });
+};
+
+const download = (attachment) => admin.request(
+  'GET',
+  `/api/equipment/${attachment.equipmentId}/attachments/${attachment.id}/download`
+);
+
+const remove = (attachment) => admin.request(
+  'DELETE',
+  `/api/equipment/${attachment.equipmentId}/attachments/${attachment.id}`
+);
+
+test('the same content is stored once and kept until its last attachment is deleted', async () => {
+  const item = await createEquipment(admin, { name: 'Press 1' });
+  const first = (await upload(item)).body.data;
+  const second = (await upload(item)).body.data;
+  assert.equal(first.sha256, second.sha256);
+
+  await remove(first);
+  const kept = await download(second);
+  assert.equal(kept.status, 200);
+  assert.equal(kept.body, PDF);
+
+  await remove(second);
+  assert.equal(fs.existsSync(getFilePath(first.sha256)), false);
+});
+
+test('a file uploaded again while it is being cleaned up is kept for the new attachment', async () => {
+  const item = await createEquipment(admin, { name: 'Press 2' });
+  const content = '%PDF-1.4\n% press 2\n%%EOF\n';
+  const existing = (await upload(item, content)).body.data;
+  // Left without an attachment, as a delete leaves it until the cleanup runs
+  await db.run('DELETE FROM attachments WHERE id = ?', [existing.id]);
+
+  const req = { id: null, user: { username: admin.username } };
+  const file = { buffer: Buffer.from(content), originalname: 'manual.pdf', size: content.length };
+  const [created] = await Promise.all([
+    createAttachment(req, item.id, file, 'application/pdf', {}),
+    removeUnusedFiles([existing.sha256])
+  ]);
+
+  assert.equal(created.sha256, existing.sha256);
+  const { status, body } = await download(created);
+  assert.equal(status, 200);
+  assert.equal(body, content);
+});
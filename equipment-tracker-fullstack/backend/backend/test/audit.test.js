@@ -0,0 +1,121 @@
+const { startApp, signIn, createEquipment } = require('./helpers');
+const { test, before, after, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const db = require('../db');
+
+let app;
+let admin;
+
+before(async () => {
+  app = await startApp();
+  admin = await signIn(app.baseUrl, 'admin');
+});
+
+after(() => app.stop());
+
+// Make every audit insert fail, as a full disk or a broken audit table would
+const breakAuditLog = () => db.run(`
+  CREATE TRIGGER fail_audit BEFORE INSERT ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit log unavailable');
+  END
+`);
+
+afterEach(() => db.run('DROP TRIGGER IF EXISTS fail_audit'));
+
+const countEquipment = async () => (await db.get('SELECT COUNT(*) AS count FROM equipment')).count;
+
+test('changes are audited with who made them', async () => {
+  const item = await createEquipment(admin, { name: 'Saw 1' });
+
+  const { body } = await admin.request('GET', `/api/equipment/${item.id}/history`);
+
+  assert.equal(body.data[0].action, 'create');
+  assert.equal(body.data[0].actor, admin.username);
+});
+
+test('a failed audit insert rolls back a create', async () => {
+  const before = await countEquipment();
+  await breakAuditLog();
+
+  const { status } = await admin.request('POST', '/api/equipment', {
+    body: { name: 'Saw 2', type: 'Machine', status: 'Active' }
+  });
+
+  assert.equal(status, 500);
+  assert.equal(await countEquipment(), before);
+});
+
+test('a failed audit insert rolls back an update', async () => {
+  const item = await createEquipment(admin, { name: 'Saw 3' });
+  await breakAuditLog();
+
+  const { status } = await admin.request('PUT', `/api/equipment/${item.id}`, {
+    body: { name: 'Saw 4', status: 'Inactive' },
+    headers: { 'If-Match': `"${item.version}"` }
+  });
+
+  assert.equal(status, 500);
+  const row = await db.get('SELECT name, status, version FROM equipment WHERE id = ?', [item.id]);
+  assert.deepEqual({ ...row }, { name: 'Saw 3', status: 'Active', version: item.version });
+});
+
+test('a failed audit insert rolls back a delete', async () => {
+  const item = await createEquipment(admin, { name: 'Saw 5' });
+  await breakAuditLog();
+
+  const { status } = await admin.request('DELETE', `/api/equipment/${item.id}`, {
+    headers: { 'If-Match': `"${item.version}"` }
+  });
+
+  assert.equal(status, 500);
+  const row = await db.get('SELECT deletedAt FROM equipment WHERE id = ?', [item.id]);
+  assert.equal(row.deletedAt, null);
+});
+
+test('a failed audit insert rolls back a logged cleaning', async () => {
+  const item = await createEquipment(admin, { name: 'Saw 6' });
+  await breakAuditLog();
+
+  const { status } = await admin.request('POST', `/api/equipment/${item.id}/cleanings`, {
+    body: { cleanedAt: '2026-01-05' }
+  });
+
+  assert.equal(status, 500);
+  const { count } = await db.get('SELECT COUNT(*) AS count FROM cleaning_events WHERE equipmentId = ?', [item.id]);
+  assert.equal(count, 0);
+  const row = await db.get('SELECT lastCleanedDate FROM equipment WHERE id = ?', [item.id]);
+  assert.equal(row.lastCleanedDate, null);
+});
+
+test('a failed audit insert rolls back every item of a bulk request', async () => {
+  const items = [await createEquipment(admin, { name: 'Saw 7' }), await createEquipment(admin, { name: 'Saw 8' })];
+  await breakAuditLog();
+
+  const { status } = await admin.request('POST', '/api/equipment/bulk', {
+    body: {
+      action: 'setStatus',
+      status: 'Inactive',
+      ids: items.map((item) => item.id),
+      versions: Object.fromEntries(items.map((item) => [item.id, item.version]))
+    }
+  });
+
+  assert.equal(status, 500);
+  const rows = await db.all('SELECT status FROM equipment WHERE id IN (?, ?)', items.map((item) => item.id));
+  assert.deepEqual(rows.map((row) => row.status), ['Active', 'Active']);
+});
+
+test('a repeated audit filter is an invalid query', async () => {
+  for (const query of ['actor=a&actor=b', 'action=create&action=update', 'entityType[a]=b']) {
+    const { status, body } = await admin.request('GET', `/api/audit?${query}`);
+
+    assert.equal(status, 400, query);
+    assert.equal(body.code, 'INVALID_QUERY', query);
+    assert.match(body.errors[query.match(/^\w+/)[0]], /must be given once/);
+  }
+
+  const { status, body } = await admin.request('GET', `/api/audit?actor=${admin.username}&action=create`);
+  assert.equal(status, 200);
+  assert.ok(body.data.every((entry) => entry.actor === admin.username && entry.action === 'create'));
+});
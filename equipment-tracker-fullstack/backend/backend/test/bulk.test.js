@@ -0,0 +1,82 @@
+const { startApp, signIn, createEquipment } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+let app;
+let admin;
+
+before(async () => {
+  app = await startApp();
+  admin = await signIn(app.baseUrl, 'admin');
+});
+
+after(() => app.stop());
+
+const getItem = async (id) => (await admin.request('GET', `/api/equipment/${id}`)).body.data;
+
+// Change an item behind the bulk request's back, moving its version on
+const editElsewhere = async (item, body) => {
+  const { status } = await admin.request('PUT', `/api/equipment/${item.id}`, {
+    body,
+    headers: { 'If-Match': `"${item.version}"` }
+  });
+  assert.equal(status, 200);
+};
+
+const bulk = (body, items) => admin.request('POST', '/api/equipment/bulk', {
+  body: {
+    ids: items.map((item) => item.id),
+    versions: Object.fromEntries(items.map((item) => [item.id, item.version])),
+    ...body
+  }
+});
+
+test('an item at an old version fails with VERSION_CONFLICT while the others are applied', async () => {
+  const items = [
+    await createEquipment(admin, { name: 'Drill 1' }),
+    await createEquipment(admin, { name: 'Drill 2' }),
+    await createEquipment(admin, { name: 'Drill 3' })
+  ];
+  await editElsewhere(items[1], { name: 'Drill 2b' });
+
+  const { status, body } = await bulk({ action: 'setStatus', status: 'Inactive' }, items);
+
+  assert.equal(status, 200);
+  assert.equal(body.succeeded, 2);
+  assert.equal(body.failed, 1);
+  const conflict = body.results.find((result) => result.id === items[1].id);
+  assert.equal(conflict.success, false);
+  assert.equal(conflict.code, 'VERSION_CONFLICT');
+  assert.equal(conflict.data.name, 'Drill 2b');
+  assert.equal(conflict.data.version, items[1].version + 1);
+
+  assert.equal((await getItem(items[0].id)).status, 'Inactive');
+  assert.equal((await getItem(items[1].id)).status, 'Active');
+  assert.equal((await getItem(items[2].id)).status, 'Inactive');
+});
+
+test('a bulk delete keeps an item changed since it was loaded', async () => {
+  const kept = await createEquipment(admin, { name: 'Drill 4' });
+  const deleted = await createEquipment(admin, { name: 'Drill 5' });
+  await editElsewhere(kept, { name: 'Drill 4b' });
+
+  const { body } = await bulk({ action: 'delete' }, [kept, deleted]);
+
+  assert.deepEqual(body.results.map((result) => [result.id, result.success]), [[kept.id, false], [deleted.id, true]]);
+  assert.equal(body.results[0].code, 'VERSION_CONFLICT');
+  assert.equal((await admin.request('GET', `/api/equipment/${kept.id}`)).status, 200);
+  assert.equal((await admin.request('GET', `/api/equipment/${deleted.id}`)).status, 404);
+});
+
+test('a bulk request without the version of every item is refused', async () => {
+  const item = await createEquipment(admin, { name: 'Drill 6' });
+
+  const { status, body } = await admin.request('POST', '/api/equipment/bulk', {
+    body: { action: 'setStatus', status: 'Inactive', ids: [item.id], versions: {} }
+  });
+
+  assert.equal(status, 400);
+  assert.equal(body.code, 'VALIDATION_FAILED');
+  assert.ok(body.errors.versions);
+  assert.equal((await getItem(item.id)).status, 'Active');
+});
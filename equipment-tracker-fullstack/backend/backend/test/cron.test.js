@@ -0,0 +1,66 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { parseCron, validateCron, nextCronRun } = require('../services/cronService');
+
+const sorted = (values) => [...values].sort((a, b) => a - b);
+
+test('parses *, numbers, ranges, lists and steps', () => {
+  const rule = parseCron('*/15 9-11 1,15 * 1-5');
+
+  assert.deepEqual(sorted(rule.minutes), [0, 15, 30, 45]);
+  assert.deepEqual(sorted(rule.hours), [9, 10, 11]);
+  assert.deepEqual(sorted(rule.daysOfMonth), [1, 15]);
+  assert.equal(rule.months.size, 12);
+  assert.deepEqual(sorted(rule.daysOfWeek), [1, 2, 3, 4, 5]);
+});
+
+test('a stepped range starts from its first value', () => {
+  assert.deepEqual(sorted(parseCron('0-30/10 0 * * *').minutes), [0, 10, 20, 30]);
+  assert.deepEqual(sorted(parseCron('5/20 0 * * *').minutes), [5, 25, 45]);
+});
+
+test('day of week 7 is Sunday, like 0', () => {
+  assert.ok(parseCron('0 0 * * 7').daysOfWeek.has(0));
+});
+
+test('when both day fields are restricted, either one matching is enough', () => {
+  assert.equal(parseCron('0 0 1 * 1').anyDay, true);
+  assert.equal(parseCron('0 0 1 * *').anyDay, false);
+  assert.equal(parseCron('0 0 * * 1').anyDay, false);
+});
+
+test('rejects malformed expressions with the problem', () => {
+  assert.throws(() => parseCron(5), /cron must be a string/);
+  assert.throws(() => parseCron('0 0 * *'), /5 fields/);
+  assert.throws(() => parseCron('60 0 * * *'), /minute must be between 0 and 59/);
+  assert.throws(() => parseCron('0 24 * * *'), /hour must be between 0 and 23/);
+  assert.throws(() => parseCron('0 0 0 * *'), /day of month must be between 1 and 31/);
+  assert.throws(() => parseCron('0 0 * 13 *'), /month must be between 1 and 12/);
+  assert.throws(() => parseCron('0 0 * * 8'), /day of week must be between 0 and 7/);
+  assert.throws(() => parseCron('5-1 0 * * *'), /invalid minute "5-1"/);
+  assert.throws(() => parseCron('*/0 0 * * *'), /invalid minute "\*\/0"/);
+  assert.throws(() => parseCron('a 0 * * *'), /invalid minute "a"/);
+});
+
+test('the next run is strictly after the given time, in UTC', () => {
+  const after = new Date('2026-03-02T06:00:00Z'); // A Monday
+
+  assert.equal(nextCronRun('0 6 * * *', after).toISOString(), '2026-03-03T06:00:00.000Z');
+  assert.equal(nextCronRun('30 6 * * *', after).toISOString(), '2026-03-02T06:30:00.000Z');
+  assert.equal(nextCronRun('0 6 * * 1-5', new Date('2026-03-06T07:00:00Z')).toISOString(), '2026-03-09T06:00:00.000Z');
+  assert.equal(nextCronRun('0 0 1 * *', after).toISOString(), '2026-04-01T00:00:00.000Z');
+});
+
+test('seconds are ignored when finding the next run', () => {
+  assert.equal(nextCronRun('* * * * *', new Date('2026-03-02T06:00:45Z')).toISOString(), '2026-03-02T06:01:00.000Z');
+});
+
+test('29 February is found in the next leap year', () => {
+  assert.equal(nextCronRun('0 0 29 2 *', new Date('2026-03-01T00:00:00Z')).toISOString(), '2028-02-29T00:00:00.000Z');
+});
+
+test('validateCron keys problems by cron', () => {
+  assert.deepEqual(validateCron('0 6 * * 1'), {});
+  assert.deepEqual(validateCron('0 0 30 2 *'), { cron: 'cron never matches a date' });
+  assert.match(validateCron('0 0 * *').cron, /^cron is invalid: /);
+});
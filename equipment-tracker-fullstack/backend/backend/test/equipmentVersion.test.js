@@ -0,0 +1,87 @@
+const { startApp, signIn, createEquipment } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+let app;
+let admin;
+
+before(async () => {
+  app = await startApp();
+  admin = await signIn(app.baseUrl, 'admin');
+});
+
+after(() => app.stop());
+
+test('PUT without If-Match is refused with 428 and changes nothing', async () => {
+  const item = await createEquipment(admin, { name: 'Scope 1' });
+
+  const { status, body } = await admin.request('PUT', `/api/equipment/${item.id}`, { body: { name: 'Scope 2' } });
+
+  assert.equal(status, 428);
+  assert.equal(body.code, 'VERSION_REQUIRED');
+  const current = await admin.request('GET', `/api/equipment/${item.id}`);
+  assert.equal(current.body.data.name, 'Scope 1');
+});
+
+test('PUT with the current version applies the change and moves the version on', async () => {
+  const item = await createEquipment(admin, { name: 'Scope 3' });
+
+  const { status, body } = await admin.request('PUT', `/api/equipment/${item.id}`, {
+    body: { name: 'Scope 4' },
+    headers: { 'If-Match': `"${item.version}"` }
+  });
+
+  assert.equal(status, 200);
+  assert.equal(body.data.name, 'Scope 4');
+  assert.equal(body.data.version, item.version + 1);
+});
+
+test('PUT with an out-of-date version is refused with 409 and the current item', async () => {
+  const item = await createEquipment(admin, { name: 'Scope 5' });
+  await admin.request('PUT', `/api/equipment/${item.id}`, {
+    body: { status: 'Inactive' },
+    headers: { 'If-Match': `"${item.version}"` }
+  });
+
+  const { status, body } = await admin.request('PUT', `/api/equipment/${item.id}`, {
+    body: { name: 'Scope 6' },
+    headers: { 'If-Match': `"${item.version}"` }
+  });
+
+  assert.equal(status, 409);
+  assert.equal(body.code, 'VERSION_CONFLICT');
+  assert.equal(body.data.name, 'Scope 5');
+  assert.equal(body.data.status, 'Inactive');
+  assert.equal(body.data.version, item.version + 1);
+});
+
+test('DELETE needs If-Match with the current version', async () => {
+  const item = await createEquipment(admin, { name: 'Scope 7' });
+
+  const missing = await admin.request('DELETE', `/api/equipment/${item.id}`);
+  assert.equal(missing.status, 428);
+  assert.equal(missing.body.code, 'VERSION_REQUIRED');
+
+  const stale = await admin.request('DELETE', `/api/equipment/${item.id}`, {
+    headers: { 'If-Match': `"${item.version + 1}"` }
+  });
+  assert.equal(stale.status, 409);
+  assert.equal(stale.body.code, 'VERSION_CONFLICT');
+
+  const current = await admin.request('DELETE', `/api/equipment/${item.id}`, {
+    headers: { 'If-Match': `"${item.version}"` }
+  });
+  assert.equal(current.status, 200);
+  assert.equal((await admin.request('GET', `/api/equipment/${item.id}`)).status, 404);
+});
+
+test('If-Match * accepts any version', async () => {
+  const item = await createEquipment(admin, { name: 'Scope 8' });
+
+  const { status } = await admin.request('PUT', `/api/equipment/${item.id}`, {
+    body: { name: 'Scope 9' },
+    headers: { 'If-Match': '*' }
+  });
+
+  assert.equal(status, 200);
+});
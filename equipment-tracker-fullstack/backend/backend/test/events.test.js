@@ -0,0 +1,196 @@
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+
+process.env.ATTACHMENTS_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+
+const { startApp, signIn, createEquipment } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const db = require('../db');
+const { runDuePmPlans } = require('../services/pmScheduler');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let app;
+let admin;
+let stream;
+
+// Every "equipment" event received, in order
+const events = [];
+
+// Open the event stream as the client and collect its equipment events until
+// aborted. Resolves once the stream is open.
+const listen = async (client) => {
+  const controller = new AbortController();
+  const response = await fetch(`${app.baseUrl}/api/events`, {
+    headers: { Cookie: client.cookie },
+    signal: controller.signal
+  });
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+
+  const read = async () => {
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop();
+      messages.forEach((message) => {
+        const lines = message.split('\n');
+        const data = lines.find((line) => line.startsWith('data: '));
+        if (lines.includes('event: equipment') && data) {
+          events.push(JSON.parse(data.slice('data: '.length)));
+        }
+      });
+    }
+  };
+  read().catch(() => {});
+
+  return controller;
+};
+
+// Wait for the first event matching predicate
+const waitFor = async (predicate, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const event = events.find(predicate);
+    if (event) return event;
+    if (Date.now() > deadline) {
+      throw new Error(`No matching event among: ${JSON.stringify(events.map((received) => received.action))}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+before(async () => {
+  app = await startApp();
+  admin = await signIn(app.baseUrl, 'admin');
+  stream = await listen(admin);
+});
+
+after(async () => {
+  stream.abort();
+  await app.stop();
+  fs.rmSync(process.env.ATTACHMENTS_DIR, { recursive: true, force: true });
+});
+
+test('logging a cleaning sends an update of the equipment', async () => {
+  const item = await createEquipment(admin, { name: 'Oven 1' });
+
+  await admin.request('POST', `/api/equipment/${item.id}/cleanings`, { body: { cleanedAt: '2026-01-05' } });
+
+  const event = await waitFor((received) => received.action === 'update' && received.equipment.id === item.id);
+  assert.equal(event.equipment.lastCleanedDate, '2026-01-05');
+  assert.equal(event.equipment.cleaningCount, 1);
+  assert.equal(event.equipment.version, item.version + 1);
+  assert.equal(event.actor.username, admin.username);
+});
+
+test('opening and closing a work order sends the work order and the status change', async () => {
+  const item = await createEquipment(admin, { name: 'Oven 2' });
+
+  const opened = await admin.request('POST', `/api/equipment/${item.id}/work-orders`, { body: { title: 'Replace seal' } });
+  const workOrderId = opened.body.data.id;
+
+  const created = await waitFor((received) => received.action === 'workOrder' && received.workOrder.id === workOrderId);
+  assert.equal(created.operation, 'create');
+  const underMaintenance = await waitFor((received) => received.action === 'update' && received.equipment.id === item.id);
+  assert.equal(underMaintenance.equipment.status, 'Under Maintenance');
+
+  await admin.request('PUT', `/api/equipment/${item.id}/work-orders/${workOrderId}`, { body: { closed: true } });
+
+  await waitFor((received) => received.action === 'workOrder' && received.operation === 'update' && received.workOrder.id === workOrderId);
+  const released = await waitFor((received) => (
+    received.action === 'update' && received.equipment.id === item.id && received.equipment.status === 'Active'
+  ));
+  assert.equal(released.actor.username, admin.username);
+});
+
+test('work orders opened by the PM scheduler are sent, naming the scheduler', async () => {
+  const item = await createEquipment(admin, { name: 'Oven 3' });
+  const plan = await admin.request('POST', '/api/pm-plans', {
+    body: { equipmentId: item.id, title: 'Calibrate', scheduleType: 'days', intervalDays: 30 }
+  });
+  assert.equal(plan.status, 201);
+
+  assert.equal(await runDuePmPlans(new Date(Date.now() + 31 * DAY_MS)), 1);
+
+  const event = await waitFor((received) => (
+    received.action === 'workOrder' && received.workOrder.equipmentId === item.id && received.workOrder.pmPlanId === plan.body.data.id
+  ));
+  assert.equal(event.operation, 'create');
+  assert.deepEqual(event.actor, { username: 'pm-scheduler', displayName: 'PM scheduler' });
+  await waitFor((received) => received.action === 'update' && received.equipment.id === item.id && received.actor.username === 'pm-scheduler');
+});
+
+test('uploading and deleting an attachment sends each', async () => {
+  const item = await createEquipment(admin, { name: 'Oven 4' });
+  const form = new FormData();
+  form.append('file', new Blob(['%PDF-1.4\n%%EOF\n'], { type: 'application/pdf' }), 'manual.pdf');
+
+  const uploaded = await admin.request('POST', `/api/equipment/${item.id}/attachments`, { body: form });
+  assert.equal(uploaded.status, 201);
+  const attachmentId = uploaded.body.data.id;
+
+  const created = await waitFor((received) => received.action === 'attachment' && received.attachment.id === attachmentId);
+  assert.equal(created.operation, 'create');
+  assert.equal(created.attachment.equipmentId, item.id);
+
+  await admin.request('DELETE', `/api/equipment/${item.id}/attachments/${attachmentId}`);
+
+  await waitFor((received) => received.action === 'attachment' && received.operation === 'delete' && received.attachment.id === attachmentId);
+});
+
+test('a purge sends the ids permanently deleted', async () => {
+  const item = await createEquipment(admin, { name: 'Oven 5' });
+  await admin.request('DELETE', `/api/equipment/${item.id}`, { headers: { 'If-Match': `"${item.version}"` } });
+  await db.run("UPDATE equipment SET deletedAt = datetime('now', '-40 days') WHERE id = ?", [item.id]);
+
+  const { body } = await admin.request('DELETE', '/api/equipment/trash');
+
+  const event = await waitFor((received) => received.action === 'purge' && received.ids.includes(item.id));
+  assert.deepEqual(event.ids, body.ids);
+  assert.equal(event.count, body.ids.length);
+});
+
+test('renaming a type sends the equipment changed with it', async () => {
+  const type = await admin.request('POST', '/api/meta/types', { body: { name: 'Kiln' } });
+  const item = await createEquipment(admin, { name: 'Oven 6', type: 'Kiln' });
+
+  await admin.request('PUT', `/api/meta/types/${type.body.data.id}`, { body: { name: 'Kilns' } });
+
+  const event = await waitFor((received) => received.action === 'cascade' && received.entityType === 'equipment_type');
+  assert.equal(event.operation, 'update');
+  assert.deepEqual(event.ids, [item.id]);
+  assert.equal(event.count, 1);
+});
+
+test('renaming a location sends the equipment placed in it', async () => {
+  const location = await admin.request('POST', '/api/locations', { body: { name: 'Bakery', kind: 'building' } });
+  const item = await createEquipment(admin, { name: 'Oven 7', locationId: location.body.data.id });
+
+  await admin.request('PUT', `/api/locations/${location.body.data.id}`, { body: { name: 'Old bakery' } });
+
+  const event = await waitFor((received) => received.action === 'cascade' && received.entityType === 'location');
+  assert.deepEqual(event.ids, [item.id]);
+});
+
+test('deleting a custom field sends the equipment that held a value for it', async () => {
+  const type = await admin.request('POST', '/api/meta/types', { body: { name: 'Proofer' } });
+  const field = await admin.request('POST', '/api/custom-fields', {
+    body: { typeId: type.body.data.id, key: 'humidity', label: 'Humidity', fieldType: 'text' }
+  });
+  const holding = await createEquipment(admin, { name: 'Oven 8', type: 'Proofer', customFields: { humidity: 'high' } });
+  await createEquipment(admin, { name: 'Oven 9', type: 'Proofer' });
+
+  await admin.request('DELETE', `/api/custom-fields/${field.body.data.id}`);
+
+  const event = await waitFor((received) => received.action === 'cascade' && received.entityType === 'custom_field');
+  assert.equal(event.operation, 'delete');
+  assert.deepEqual(event.ids, [holding.id]);
+  const current = await admin.request('GET', `/api/equipment/${holding.id}`);
+  assert.deepEqual(current.body.data.customFields, {});
+});
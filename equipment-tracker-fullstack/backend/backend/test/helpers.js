@@ -0,0 +1,83 @@
+// Shared setup for the API tests: the app on an in-memory database, listening
+// on a free port, and clients signed in with a given role. Required before
+// anything else so every module sees the in-memory database.
+process.env.DB_PATH = ':memory:';
+
+const db = require('../db');
+const { migrate } = require('../migrate');
+const { createUser } = require('../services/authService');
+const app = require('../server');
+
+const PASSWORD = 'a-long-password';
+
+// Bring the schema up to date and start listening. Returns the base URL and
+// a function that stops the server and closes the database.
+const startApp = async () => {
+  await migrate();
+  const server = await new Promise((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+
+  return {
+    baseUrl: `http://127.0.0.1:${server.address().port}`,
+    stop: async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+      await db.close();
+    }
+  };
+};
+
+// Create a user with the role and sign them in. Returns a client with the
+// session cookie, whose request() sends it and resolves to the status, headers
+// and body of the response. JSON bodies are parsed; a string or form body is
+// sent as is.
+const signIn = async (baseUrl, role, username = `${role}-user`) => {
+  await createUser({ username, password: PASSWORD, displayName: username, role });
+
+  const login = await fetch(`${baseUrl}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password: PASSWORD })
+  });
+  if (login.status !== 200) {
+    throw new Error(`Signing in as ${username} failed with ${login.status}`);
+  }
+  const cookie = login.headers.get('set-cookie').split(';')[0];
+
+  const request = async (method, path, { body, headers = {} } = {}) => {
+    const json = body !== undefined && typeof body !== 'string' && !(body instanceof FormData);
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { Cookie: cookie, ...(json && { 'Content-Type': 'application/json' }), ...headers },
+      body: json ? JSON.stringify(body) : body
+    });
+    const text = await response.text();
+    const isJson = /json/.test(response.headers.get('content-type') || '');
+
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: isJson && text ? JSON.parse(text) : text
+    };
+  };
+
+  return { username, cookie, request };
+};
+
+// Add an equipment item through the API, returning it as created
+const createEquipment = async (client, input = {}) => {
+  const { status, body } = await client.request('POST', '/api/equipment', {
+    body: { name: 'Mixer 1', type: 'Machine', status: 'Active', ...input }
+  });
+  if (status !== 201) {
+    throw new Error(`Creating equipment failed with ${status}: ${JSON.stringify(body)}`);
+  }
+  return body.data;
+};
+
+module.exports = {
+  startApp,
+  signIn,
+  createEquipment
+};
@@ -0,0 +1,111 @@
+const { startApp, signIn } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+let app;
+let supervisor;
+
+before(async () => {
+  app = await startApp();
+  supervisor = await signIn(app.baseUrl, 'supervisor');
+});
+
+after(() => app.stop());
+
+const importCsv = (csv, query = '') => supervisor.request('POST', `/api/equipment/import${query}`, {
+  body: csv,
+  headers: { 'Content-Type': 'text/csv' }
+});
+
+const countEquipment = async () => (await supervisor.request('GET', '/api/equipment?pageSize=1')).body.total;
+
+const VALID_CSV = [
+  'Name,Type,Status,Asset Tag',
+  'Press 1,Machine,Active,PR-1',
+  'Press 2,Machine,Inactive,PR-2'
+].join('\n');
+
+test('a dry run reports every row and imports nothing', async () => {
+  const before = await countEquipment();
+
+  const { status, body } = await importCsv(VALID_CSV, '?dryRun=true');
+
+  assert.equal(status, 200);
+  assert.equal(body.dryRun, true);
+  assert.equal(body.total, 2);
+  assert.equal(body.valid, 2);
+  assert.equal(body.invalid, 0);
+  assert.equal(body.imported, 0);
+  assert.deepEqual(body.rows.map((row) => row.row), [2, 3]);
+  assert.ok(body.rows.every((row) => row.id === undefined));
+  assert.equal(await countEquipment(), before);
+});
+
+test('a dry run reports invalid rows without failing', async () => {
+  const csv = ['Name,Type,Status', 'Press 3,Machine,Active', 'P,Nope,Active'].join('\n');
+
+  const { status, body } = await importCsv(csv, '?dryRun=true');
+
+  assert.equal(status, 200);
+  assert.equal(body.valid, 1);
+  assert.equal(body.invalid, 1);
+  assert.deepEqual(body.rows[0].errors, {});
+  assert.ok(body.rows[1].errors.name);
+  assert.ok(body.rows[1].errors.type);
+});
+
+test('committing valid rows creates every item', async () => {
+  const before = await countEquipment();
+
+  const { status, body } = await importCsv(VALID_CSV);
+
+  assert.equal(status, 201);
+  assert.equal(body.dryRun, false);
+  assert.equal(body.imported, 2);
+  assert.ok(body.rows.every((row) => Number.isInteger(row.id)));
+  assert.equal(await countEquipment(), before + 2);
+
+  const created = await supervisor.request('GET', `/api/equipment/${body.rows[1].id}`);
+  assert.equal(created.body.data.name, 'Press 2');
+  assert.equal(created.body.data.status, 'Inactive');
+  assert.equal(created.body.data.assetTag, 'PR-2');
+});
+
+test('committing with any invalid row imports nothing', async () => {
+  const before = await countEquipment();
+  const csv = ['Name,Type,Status', 'Press 4,Machine,Active', 'Press 5,Machine,Nope'].join('\n');
+
+  const { status, body } = await importCsv(csv);
+
+  assert.equal(status, 400);
+  assert.equal(body.code, 'VALIDATION_FAILED');
+  assert.equal(body.imported, 0);
+  assert.equal(body.invalid, 1);
+  assert.ok(body.rows[1].errors.status);
+  assert.equal(await countEquipment(), before);
+});
+
+test('asset tags already in use, or repeated in the file, fail their row', async () => {
+  const csv = ['Name,Type,Status,Asset Tag', 'Press 6,Machine,Active,pr-1', 'Press 7,Machine,Active,NEW-1', 'Press 8,Machine,Active,new-1'].join('\n');
+
+  const { body } = await importCsv(csv, '?dryRun=true');
+
+  assert.ok(body.rows[0].errors.assetTag);
+  assert.deepEqual(body.rows[1].errors, {});
+  assert.ok(body.rows[2].errors.assetTag);
+});
+
+test('mapping picks the column for a field, and unknown columns are refused', async () => {
+  const csv = ['Asset,Kind,State', 'Press 9,Machine,Active'].join('\n');
+  const mapping = '&mapping[name]=Asset&mapping[type]=Kind&mapping[status]=State';
+
+  const mapped = await importCsv(csv, `?dryRun=true${mapping}`);
+  assert.equal(mapped.status, 200);
+  assert.deepEqual(mapped.body.mapping, { name: 'Asset', type: 'Kind', status: 'State' });
+  assert.equal(mapped.body.valid, 1);
+
+  const unknown = await importCsv(csv, '?dryRun=true&mapping[name]=Title');
+  assert.equal(unknown.status, 400);
+  assert.equal(unknown.body.code, 'INVALID_QUERY');
+  assert.ok(unknown.body.errors.name);
+});
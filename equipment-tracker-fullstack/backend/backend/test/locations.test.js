@@ -0,0 +1,57 @@
+const { startApp, signIn } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+let app;
+let admin;
+
+before(async () => {
+  app = await startApp();
+  admin = await signIn(app.baseUrl, 'admin');
+});
+
+after(() => app.stop());
+
+const createLocation = async (name, parentId = null) => {
+  const { status, body } = await admin.request('POST', '/api/locations', { body: { name, kind: 'area', parentId } });
+  assert.equal(status, 201);
+  return body.data;
+};
+
+const move = (location, parentId) => admin.request('PUT', `/api/locations/${location.id}`, { body: { parentId } });
+
+const getParentId = async (location) => (await admin.request('GET', `/api/locations/${location.id}`)).body.data.parentId;
+
+test('a location cannot be moved under itself or one of its descendants', async () => {
+  const site = await createLocation('Site 1');
+  const hall = await createLocation('Hall 1', site.id);
+  const bay = await createLocation('Bay 1', hall.id);
+
+  for (const parent of [site, bay]) {
+    const { status, body } = await move(site, parent.id);
+    assert.equal(status, 400);
+    assert.equal(body.code, 'VALIDATION_FAILED');
+    assert.ok(body.errors.parentId);
+  }
+  assert.equal(await getParentId(site), null);
+});
+
+test('a parent that does not exist is refused', async () => {
+  const { status, body } = await admin.request('POST', '/api/locations', {
+    body: { name: 'Hall 2', kind: 'area', parentId: 999999 }
+  });
+
+  assert.equal(status, 400);
+  assert.ok(body.errors.parentId);
+});
+
+test('two moves sent together cannot make a cycle', async () => {
+  const first = await createLocation('Hall 3');
+  const second = await createLocation('Hall 4');
+
+  const results = await Promise.all([move(first, second.id), move(second, first.id)]);
+
+  assert.deepEqual(results.map((result) => result.status).sort(), [200, 400]);
+  const parents = [await getParentId(first), await getParentId(second)];
+  assert.ok(parents.includes(null), `parents are ${parents}`);
+});
@@ -0,0 +1,92 @@
+process.env.DB_PATH = ':memory:';
+
+const { test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const db = require('../db');
+const { migrate, rollback, status } = require('../migrate');
+
+after(() => db.close());
+
+// Everything the migrations create, for comparing the schema before and after
+const getSchema = () => db.all(
+  `SELECT type, name, tbl_name, sql FROM sqlite_master
+   WHERE name NOT LIKE 'sqlite_%' AND name != 'schema_migrations'
+   ORDER BY type, name`
+);
+
+test('migrate applies every migration in order, once', async () => {
+  const versions = (await status()).map((migration) => migration.version);
+
+  assert.deepEqual(await migrate(), versions);
+  assert.deepEqual([...versions].sort(), versions);
+  assert.ok((await status()).every((migration) => migration.applied));
+  assert.deepEqual(await migrate(), []);
+});
+
+test('rolling back and re-applying each migration leaves the same schema', async () => {
+  const migrated = await getSchema();
+  const versions = (await status()).map((migration) => migration.version);
+
+  for (let steps = 1; steps <= versions.length; steps += 1) {
+    assert.deepEqual(await rollback(steps), versions.slice(-steps).reverse());
+    assert.deepEqual(await migrate(), versions.slice(-steps));
+    assert.deepEqual(await getSchema(), migrated, `after rolling back ${steps} migration(s)`);
+  }
+});
+
+test('rolling everything back leaves an empty database', async () => {
+  const versions = (await status()).map((migration) => migration.version);
+
+  await rollback(versions.length);
+
+  assert.deepEqual(await getSchema(), []);
+  assert.ok((await status()).every((migration) => !migration.applied));
+  assert.deepEqual(await rollback(), []);
+
+  await migrate();
+});
+
+test('rolling back later migrations keeps the data of earlier ones', async () => {
+  const { id } = await db.run("INSERT INTO equipment (name, type, status) VALUES ('Kiln 1', 'Machine', 'Active')");
+
+  await rollback(3);
+  const rolledBack = await db.get('SELECT * FROM equipment WHERE id = ?', [id]);
+  assert.equal(rolledBack.name, 'Kiln 1');
+  assert.equal(rolledBack.version, undefined);
+
+  await migrate();
+  const migrated = await db.get('SELECT * FROM equipment WHERE id = ?', [id]);
+  assert.equal(migrated.name, 'Kiln 1');
+  assert.equal(migrated.version, 1);
+  assert.equal(migrated.deletedAt, null);
+});
+
+test('rolling back soft delete removes trashed equipment with everything that belongs to it', async () => {
+  const kept = await db.run("INSERT INTO equipment (name, type, status) VALUES ('Kiln 2', 'Machine', 'Active')");
+  const trashed = await db.run(
+    "INSERT INTO equipment (name, type, status, deletedAt) VALUES ('Kiln 3', 'Machine', 'Active', datetime('now'))"
+  );
+  for (const { id } of [kept, trashed]) {
+    await db.run("INSERT INTO cleaning_events (equipmentId, cleanedAt) VALUES (?, '2026-01-05')", [id]);
+    const plan = await db.run(
+      "INSERT INTO pm_plans (equipmentId, title, scheduleType, intervalDays) VALUES (?, 'Oil', 'days', 30)",
+      [id]
+    );
+    await db.run("INSERT INTO work_orders (equipmentId, title, pmPlanId) VALUES (?, 'Oil', ?)", [id, plan.id]);
+    await db.run(
+      "INSERT INTO attachments (equipmentId, fileName, mimeType, size, sha256) VALUES (?, 'manual.pdf', 'application/pdf', 1, 'abc')",
+      [id]
+    );
+  }
+
+  await rollback(2);
+
+  assert.equal(await db.get('SELECT id FROM equipment WHERE id = ?', [trashed.id]), undefined);
+  assert.ok(await db.get('SELECT id FROM equipment WHERE id = ?', [kept.id]));
+  for (const table of ['cleaning_events', 'work_orders', 'pm_plans', 'attachments']) {
+    const rows = await db.all(`SELECT equipmentId FROM ${table} WHERE equipmentId IN (?, ?)`, [kept.id, trashed.id]);
+    assert.deepEqual(rows.map((row) => row.equipmentId), [kept.id], table);
+  }
+
+  await migrate();
+});
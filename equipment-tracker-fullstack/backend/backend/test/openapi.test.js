@@ -0,0 +1,32 @@
+process.env.DB_PATH = ':memory:';
+
+const { test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const db = require('../db');
+const { buildOpenApiDocument } = require('../openapi/index');
+const { checkCoverage } = require('../openapi/routes');
+const { checkSharedSchemas } = require('../openapi/shared');
+
+after(() => db.close());
+
+test('every route is documented and every documented operation is routed', () => {
+  assert.deepEqual(checkCoverage(buildOpenApiDocument()), { undocumented: [], unrouted: [] });
+});
+
+test('documented bodies match the shared schemas that validate them', () => {
+  assert.deepEqual(checkSharedSchemas(buildOpenApiDocument()), []);
+});
+
+test('a body schema that drifts from its shared schema is reported', () => {
+  const document = buildOpenApiDocument();
+  const { EquipmentInput, CleaningEventInput } = document.components.schemas;
+  delete CleaningEventInput.properties.notes;
+  EquipmentInput.properties.name.maxLength = 10;
+  EquipmentInput.required.push('model');
+
+  const mismatches = checkSharedSchemas(document);
+
+  assert.ok(mismatches.includes('CleaningEventInput.notes is validated but not documented'));
+  assert.ok(mismatches.includes('EquipmentInput.name should have maxLength 100, not 10'));
+  assert.ok(mismatches.includes('EquipmentInput.model should not be required'));
+});
@@ -0,0 +1,54 @@
+// A time zone whose date differs from the UTC date right now, so a mix-up
+// between the two shows. Set before anything reads the clock.
+process.env.TZ = new Date().getUTCHours() >= 12 ? 'Pacific/Kiritimati' : 'Etc/GMT+12';
+
+const { startApp, signIn, createEquipment } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { today } = require('equipment-tracker-shared');
+
+let app;
+let admin;
+
+before(async () => {
+  app = await startApp();
+  admin = await signIn(app.baseUrl, 'admin');
+});
+
+after(() => app.stop());
+
+// The local date days before today, as YYYY-MM-DD
+const daysAgo = (days) => {
+  const date = new Date(`${today()}T12:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().slice(0, 10);
+};
+
+const cleanedDaysAgo = async (name, days) => {
+  const item = await createEquipment(admin, { name, cleaningIntervalDays: 1 });
+  await admin.request('POST', `/api/equipment/${item.id}/cleanings`, { body: { cleanedAt: daysAgo(days) } });
+  return (await admin.request('GET', `/api/equipment/${item.id}`)).body.data;
+};
+
+test('an item due today, in local time, is not overdue', async () => {
+  const item = await cleanedDaysAgo('Fryer 1', 1);
+
+  assert.equal(item.nextCleaningDue, today());
+  assert.equal(item.overdue, false);
+});
+
+test('an item due yesterday, in local time, is overdue', async () => {
+  const item = await cleanedDaysAgo('Fryer 2', 2);
+
+  assert.equal(item.nextCleaningDue, daysAgo(1));
+  assert.equal(item.overdue, true);
+  const { body } = await admin.request('GET', '/api/equipment/overdue');
+  assert.ok(body.data.some((overdue) => overdue.id === item.id));
+});
+
+test('an item never cleaned is due on the local day it was added', async () => {
+  const item = await createEquipment(admin, { name: 'Fryer 3', cleaningIntervalDays: 1 });
+
+  assert.equal(item.nextCleaningDue, today());
+  assert.equal(item.overdue, false);
+});
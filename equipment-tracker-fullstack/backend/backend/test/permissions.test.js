@@ -0,0 +1,125 @@
+const { startApp, signIn } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { ROLES, getPermissions } = require('../services/permissionService');
+const { buildOpenApiDocument } = require('../openapi/index');
+
+// Who may do what. Changing a role's grants should mean changing this too.
+const MATRIX = {
+  operator: ['cleaning:create'],
+  supervisor: [
+    'cleaning:create',
+    'equipment:create',
+    'equipment:update',
+    'equipment:import',
+    'work_order:create',
+    'work_order:update',
+    'pm_plan:manage',
+    'attachment:create',
+    'audit:read'
+  ],
+  admin: [
+    'cleaning:create',
+    'equipment:create',
+    'equipment:update',
+    'equipment:import',
+    'work_order:create',
+    'work_order:update',
+    'pm_plan:manage',
+    'attachment:create',
+    'audit:read',
+    'equipment:delete',
+    'equipment:purge',
+    'work_order:delete',
+    'meta:manage',
+    'location:manage',
+    'attachment:delete'
+  ]
+};
+
+// An id no record has, so allowed requests fail past the permission check
+// without changing anything
+const MISSING_ID = '999999';
+
+// Every documented operation, with the permission its description names
+const listOperations = () => {
+  const document = buildOpenApiDocument();
+  return Object.entries(document.paths)
+    .filter(([path]) => path.startsWith('/api/') && path !== '/api/events')
+    .flatMap(([path, operations]) => Object.entries(operations).map(([method, operation]) => {
+      const match = (operation.description || '').match(/Requires the `([^`]+)` permission/);
+      return {
+        method: method.toUpperCase(),
+        path: path.replace(/\{\w+\}/g, MISSING_ID),
+        permission: match ? match[1] : null
+      };
+    }));
+};
+
+let app;
+const clients = {};
+
+before(async () => {
+  app = await startApp();
+  for (const role of ROLES) {
+    clients[role] = await signIn(app.baseUrl, role);
+  }
+});
+
+after(() => app.stop());
+
+test('each role has exactly the permissions of the matrix', () => {
+  assert.deepEqual(ROLES, Object.keys(MATRIX));
+  ROLES.forEach((role) => {
+    assert.deepEqual([...getPermissions(role)].sort(), [...MATRIX[role]].sort(), role);
+  });
+});
+
+test('an unknown role has no permissions', () => {
+  assert.deepEqual(getPermissions('owner'), []);
+});
+
+test('each documented permission is enforced for every role', async () => {
+  const gated = listOperations().filter((operation) => operation.permission);
+  assert.ok(gated.length > 0);
+
+  for (const { method, path, permission } of gated) {
+    for (const role of ROLES) {
+      const { status } = await clients[role].request(method, path);
+      const label = `${role} ${method} ${path} (${permission})`;
+
+      if (MATRIX[role].includes(permission)) {
+        assert.notEqual(status, 403, label);
+        assert.ok(status < 500, `${label} failed with ${status}`);
+      } else {
+        assert.equal(status, 403, label);
+      }
+    }
+  }
+});
+
+test('reading needs a session but no permission', async () => {
+  const reads = listOperations().filter((operation) => operation.method === 'GET' && !operation.permission);
+
+  for (const { path } of reads) {
+    const { status } = await clients.operator.request('GET', path);
+    assert.notEqual(status, 403, `operator GET ${path}`);
+    assert.ok(status < 500, `operator GET ${path} failed with ${status}`);
+  }
+
+  const anonymous = await fetch(`${app.baseUrl}/api/equipment`);
+  assert.equal(anonymous.status, 401);
+  assert.equal((await anonymous.json()).code, 'AUTHENTICATION_REQUIRED');
+});
+
+test('bulk actions need the permission of the action', async () => {
+  const bulk = (role, action) => clients[role].request('POST', '/api/equipment/bulk', {
+    body: { action, ids: [Number(MISSING_ID)], versions: { [MISSING_ID]: 1 }, status: 'Inactive' }
+  });
+
+  assert.equal((await bulk('operator', 'setStatus')).status, 403);
+  assert.equal((await bulk('supervisor', 'setStatus')).status, 200);
+  assert.equal((await bulk('operator', 'markCleaned')).status, 200);
+  assert.equal((await bulk('supervisor', 'delete')).status, 403);
+  assert.equal((await bulk('admin', 'delete')).status, 200);
+});
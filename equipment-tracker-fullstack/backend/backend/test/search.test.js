@@ -0,0 +1,33 @@
+const { startApp, signIn, createEquipment } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+let app;
+let operator;
+
+before(async () => {
+  app = await startApp();
+  const admin = await signIn(app.baseUrl, 'admin');
+  operator = await signIn(app.baseUrl, 'operator');
+  await createEquipment(admin, { name: 'Mixer B', manufacturer: 'Hobart' });
+});
+
+after(() => app.stop());
+
+test('finds items by the start of each word, ignoring case', async () => {
+  const { status, body } = await operator.request('GET', '/api/search?q=MIX%20b');
+
+  assert.equal(status, 200);
+  assert.deepEqual(body.data.map((result) => result.equipment.name), ['Mixer B']);
+});
+
+test('a missing, empty or repeated q, or an invalid limit, is an invalid query', async () => {
+  const queries = ['', '?q=%20-', '?q=mix&q=b', '?q=mix&limit=0', '?q=mix&limit=1&limit=2'];
+
+  for (const query of queries) {
+    const { status, body } = await operator.request('GET', `/api/search${query}`);
+    assert.equal(status, 400, query);
+    assert.equal(body.code, 'INVALID_QUERY', query);
+    assert.ok(Object.keys(body.errors).length > 0, query);
+  }
+});
@@ -0,0 +1,108 @@
+const { startApp, signIn, createEquipment } = require('./helpers');
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const db = require('../db');
+
+let app;
+let admin;
+
+before(async () => {
+  app = await startApp();
+  admin = await signIn(app.baseUrl, 'admin');
+});
+
+after(() => app.stop());
+
+const trash = async (item) => {
+  const { status } = await admin.request('DELETE', `/api/equipment/${item.id}`, {
+    headers: { 'If-Match': `"${item.version}"` }
+  });
+  assert.equal(status, 200);
+};
+
+const trashedIds = async () => {
+  const { body } = await admin.request('GET', '/api/equipment/trash?pageSize=100');
+  return body.data.map((item) => item.id);
+};
+
+test('deleted equipment leaves the list for the trash', async () => {
+  const item = await createEquipment(admin, { name: 'Lathe 1' });
+
+  await trash(item);
+
+  assert.equal((await admin.request('GET', `/api/equipment/${item.id}`)).status, 404);
+  const { body } = await admin.request('GET', '/api/equipment/trash?pageSize=100');
+  const trashed = body.data.find((entry) => entry.id === item.id);
+  assert.equal(trashed.deletedBy, admin.username);
+  assert.ok(trashed.purgeAfter > trashed.deletedAt);
+});
+
+test('restoring takes equipment out of the trash as it was', async () => {
+  const item = await createEquipment(admin, { name: 'Lathe 2', assetTag: 'LA-2' });
+  await trash(item);
+
+  const { status, body } = await admin.request('POST', `/api/equipment/${item.id}/restore`);
+
+  assert.equal(status, 200);
+  assert.equal(body.data.name, 'Lathe 2');
+  assert.equal(body.data.assetTag, 'LA-2');
+  assert.equal(body.data.deletedAt, null);
+  assert.ok(!(await trashedIds()).includes(item.id));
+  assert.equal((await admin.request('GET', `/api/equipment/${item.id}`)).status, 200);
+
+  const again = await admin.request('POST', `/api/equipment/${item.id}/restore`);
+  assert.equal(again.status, 404);
+  assert.equal(again.body.code, 'EQUIPMENT_NOT_FOUND');
+});
+
+test('restoring fails while another item holds the asset tag', async () => {
+  const item = await createEquipment(admin, { name: 'Lathe 3', assetTag: 'LA-3' });
+  await trash(item);
+  await createEquipment(admin, { name: 'Lathe 4', assetTag: 'la-3' });
+
+  const { status, body } = await admin.request('POST', `/api/equipment/${item.id}/restore`);
+
+  assert.equal(status, 409);
+  assert.equal(body.code, 'ASSET_TAG_IN_USE');
+  assert.ok((await trashedIds()).includes(item.id));
+});
+
+test('a purge removes only items deleted longer ago than the retention', async () => {
+  const old = await createEquipment(admin, { name: 'Lathe 5' });
+  const recent = await createEquipment(admin, { name: 'Lathe 6' });
+  await trash(old);
+  await trash(recent);
+  await db.run("UPDATE equipment SET deletedAt = datetime('now', '-40 days') WHERE id = ?", [old.id]);
+
+  const { status, body } = await admin.request('DELETE', '/api/equipment/trash');
+
+  assert.equal(status, 200);
+  assert.deepEqual(body.ids, [old.id]);
+  const ids = await trashedIds();
+  assert.ok(!ids.includes(old.id));
+  assert.ok(ids.includes(recent.id));
+  assert.equal((await admin.request('POST', `/api/equipment/${old.id}/restore`)).status, 404);
+});
+
+test('a purge with olderThanDays=0 empties the trash, including what belongs to the items', async () => {
+  const item = await createEquipment(admin, { name: 'Lathe 7' });
+  await admin.request('POST', `/api/equipment/${item.id}/work-orders`, { body: { title: 'Replace chuck' } });
+  const current = (await admin.request('GET', `/api/equipment/${item.id}`)).body.data;
+  await trash(current);
+
+  const { status, body } = await admin.request('DELETE', '/api/equipment/trash?olderThanDays=0');
+
+  assert.equal(status, 200);
+  assert.ok(body.ids.includes(item.id));
+  assert.deepEqual(await trashedIds(), []);
+  const { count } = await db.get('SELECT COUNT(*) AS count FROM work_orders WHERE equipmentId = ?', [item.id]);
+  assert.equal(count, 0);
+});
+
+test('a purge refuses an invalid olderThanDays', async () => {
+  const { status, body } = await admin.request('DELETE', '/api/equipment/trash?olderThanDays=-1');
+
+  assert.equal(status, 400);
+  assert.equal(body.code, 'INVALID_QUERY');
+  assert.ok(body.errors.olderThanDays);
+});
@@ -0,0 +1,76 @@
+const db = require('./db');
+const { migrate } = require('./migrate');
+const {
+  USER_SELECT,
+  validateUser,
+  createUser,
+  setPassword,
+  setRole
+} = require('./services/authService');
+const { ROLES } = require('./services/permissionService');
+
+const USAGE = 'list, create <username> <password> [displayName] [role], passwd <username> <password>, role <username> <role>';
+
+// CLI: node users.js [list | create ... | passwd ... | role ...]
+const [command = 'list', ...args] = process.argv.slice(2);
+
+const findUser = async (username) => {
+  const user = await db.get(`${USER_SELECT} WHERE username = ?`, [username]);
+  if (!user) {
+    throw new Error(`User "${username}" not found`);
+  }
+  return user;
+};
+
+const commands = {
+  list: async () => {
+    const users = await db.all(`${USER_SELECT} ORDER BY username COLLATE NOCASE`);
+    if (users.length === 0) {
+      console.log('No users yet. Add one with: node users.js create <username> <password>');
+    }
+    users.forEach((user) => {
+      console.log(`  ${user.username.padEnd(20)} ${user.role.padEnd(12)} ${user.displayName}`);
+    });
+  },
+  create: async () => {
+    const [username, password, displayName, role] = args;
+    const errors = validateUser({ username, password, displayName, role });
+    if (Object.keys(errors).length > 0) {
+      throw new Error(Object.values(errors).join('; '));
+    }
+    const user = await createUser({ username, password, displayName, role });
+    console.log(`Created ${user.role} ${user.username}`);
+  },
+  passwd: async () => {
+    const [username, password] = args;
+    const user = await findUser(username);
+    const errors = validateUser({ username: user.username, password });
+    if (Object.keys(errors).length > 0) {
+      throw new Error(Object.values(errors).join('; '));
+    }
+    await setPassword(user.id, password);
+    console.log(`Password changed for ${user.username}; existing sessions were signed out`);
+  },
+  role: async () => {
+    const [username, role] = args;
+    const user = await findUser(username);
+    if (!ROLES.includes(role)) {
+      throw new Error(`role must be one of: ${ROLES.join(', ')}`);
+    }
+    await setRole(user.id, role);
+    console.log(`${user.username} now has the ${role} role`);
+  }
+};
+
+if (!commands[command]) {
+  console.error(`Unknown command "${command}". Use: ${USAGE}`);
+  process.exit(1);
+}
+
+migrate()
+  .then(() => commands[command]())
+  .catch((err) => {
+    console.error('Command failed:', err.message);
+    process.exitCode = 1;
+  })
+  .finally(() => db.close());
@@ -1,12 +1,29 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MutationCache, QueryCache, QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { RequireAuth } from "@/components/RequireAuth";
+import { AUTH_QUERY_KEY } from "@/hooks/use-auth";
+import { UnauthorizedError } from "@/services/api";
 import Index from "./pages/Index";
+import EquipmentDetail from "./pages/EquipmentDetail";
+import WorkOrders from "./pages/WorkOrders";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// An expired session on any request signs the user out, which sends them
+// back to the login page
+const handleError = (error: Error) => {
+  if (error instanceof UnauthorizedError) {
+    queryClient.setQueryData(AUTH_QUERY_KEY, null);
+  }
+};
+
+const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: handleError }),
+  mutationCache: new MutationCache({ onError: handleError }),
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -15,7 +32,12 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/login" element={<Login />} />
+          <Route element={<RequireAuth />}>
+            <Route path="/" element={<Index />} />
+            <Route path="/equipment/:id" element={<EquipmentDetail />} />
+            <Route path="/work-orders" element={<WorkOrders />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
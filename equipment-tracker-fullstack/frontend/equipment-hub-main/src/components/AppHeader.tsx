@@ -0,0 +1,48 @@
+import { Link } from 'react-router-dom';
+import { NavLink } from '@/components/NavLink';
+import { useCurrentUser, useLogout } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
+import { LogOut } from 'lucide-react';
+
+const NAV_LINK_CLASS = 'text-primary-foreground/80 hover:text-primary-foreground';
+const NAV_LINK_ACTIVE_CLASS = 'text-primary-foreground font-medium underline underline-offset-4';
+
+export function AppHeader() {
+  const { data: user } = useCurrentUser();
+  const logoutMutation = useLogout();
+
+  return (
+    <header className="bg-primary text-primary-foreground py-4 px-4 sm:px-6 shadow-sm">
+      <div className="max-w-6xl mx-auto flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold">
+            <Link to="/">Equipment Tracker</Link>
+          </h1>
+          <p className="text-sm text-primary-foreground/80 mt-1">Manage your equipment inventory</p>
+        </div>
+        {user && (
+          <div className="flex items-center gap-3">
+            <nav className="flex items-center gap-3 text-sm">
+              <NavLink to="/" end className={NAV_LINK_CLASS} activeClassName={NAV_LINK_ACTIVE_CLASS}>
+                Equipment
+              </NavLink>
+              <NavLink to="/work-orders" className={NAV_LINK_CLASS} activeClassName={NAV_LINK_ACTIVE_CLASS}>
+                Work Orders
+              </NavLink>
+            </nav>
+            <span className="text-sm text-primary-foreground/80 hidden sm:inline">{user.displayName}</span>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <LogOut className="h-4 w-4 mr-1" />
+              Sign out
+            </Button>
+          </div>
+        )}
+      </div>
+    </header>
+  );
+}
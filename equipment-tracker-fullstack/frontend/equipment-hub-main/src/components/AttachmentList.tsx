@@ -0,0 +1,259 @@
+import { useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Attachment,
+  AttachmentCategory,
+  getAttachmentDownloadUrl,
+  getAttachmentThumbnailUrl,
+  getAttachments,
+} from '@/services/api';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { usePermissions } from '@/hooks/use-auth';
+import { useAttachmentMutations } from '@/hooks/use-attachments';
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  ATTACHMENT_CATEGORIES,
+  CATEGORY_LABELS,
+  MAX_ATTACHMENT_BYTES,
+  formatFileSize,
+} from '@/lib/attachments';
+import { formatTimestamp } from '@/lib/equipment';
+import { Download, FileText, Loader2, Trash2, Upload } from 'lucide-react';
+
+interface AttachmentListProps {
+  equipmentId: number;
+}
+
+function AttachmentPreview({ attachment }: { attachment: Attachment }) {
+  if (attachment.hasThumbnail) {
+    return (
+      <img
+        src={getAttachmentThumbnailUrl(attachment)}
+        alt=""
+        loading="lazy"
+        className="h-16 w-16 rounded border border-border object-cover bg-muted"
+      />
+    );
+  }
+  return (
+    <div className="h-16 w-16 rounded border border-border bg-muted flex items-center justify-center">
+      <FileText className="h-6 w-6 text-muted-foreground" />
+    </div>
+  );
+}
+
+export function AttachmentList({ equipmentId }: AttachmentListProps) {
+  const { can } = usePermissions();
+  const { uploadMutation, deleteMutation } = useAttachmentMutations();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [category, setCategory] = useState<AttachmentCategory>('other');
+  const [description, setDescription] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const { data: attachments = [], isLoading, isError, error } = useQuery({
+    queryKey: ['attachments', equipmentId],
+    queryFn: () => getAttachments(equipmentId),
+  });
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setFileError(
+      selected && selected.size > MAX_ATTACHMENT_BYTES
+        ? `Files must be at most ${formatFileSize(MAX_ATTACHMENT_BYTES)}`
+        : null
+    );
+    if (selected?.type.startsWith('image/') && category === 'other') {
+      setCategory('photo');
+    }
+  };
+
+  const resetForm = () => {
+    setFile(null);
+    setCategory('other');
+    setDescription('');
+    setFileError(null);
+    if (fileInput.current) {
+      fileInput.current.value = '';
+    }
+  };
+
+  const handleUpload = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || fileError) return;
+    uploadMutation.mutate(
+      { equipmentId, data: { file, category, description: description.trim() || undefined } },
+      { onSuccess: resetForm }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+        Loading attachments...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="bg-destructive/10 border border-destructive rounded-lg p-4 text-destructive">
+        Failed to load attachments: {error instanceof Error ? error.message : 'Unknown error'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {can('attachment:create') && (
+        <form onSubmit={handleUpload} className="grid gap-3 sm:grid-cols-[2fr_1fr_2fr_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="attachmentFile">File</Label>
+            <Input
+              id="attachmentFile"
+              ref={fileInput}
+              type="file"
+              accept={ACCEPTED_ATTACHMENT_TYPES}
+              onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+              className={fileError ? 'border-destructive' : ''}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="attachmentCategory">Category</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as AttachmentCategory)}>
+              <SelectTrigger id="attachmentCategory">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ATTACHMENT_CATEGORIES.map((c) => (
+                  <SelectItem key={c} value={c}>{CATEGORY_LABELS[c]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="attachmentDescription">Description</Label>
+            <Input
+              id="attachmentDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+              maxLength={500}
+            />
+          </div>
+          <Button type="submit" disabled={!file || Boolean(fileError) || uploadMutation.isPending}>
+            {uploadMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-1" />
+            )}
+            Upload
+          </Button>
+          <p className={`text-xs sm:col-span-4 ${fileError ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {fileError || `PDF, PNG, JPEG or WebP, up to ${formatFileSize(MAX_ATTACHMENT_BYTES)}`}
+          </p>
+        </form>
+      )}
+
+      {attachments.length === 0 ? (
+        <p className="p-8 text-center text-muted-foreground">No attachments yet.</p>
+      ) : (
+        // Newest first, as returned by the API
+        <ul className="divide-y divide-border">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="py-3 first:pt-0 last:pb-0 flex items-start gap-3">
+              <a href={getAttachmentDownloadUrl(attachment, true)} target="_blank" rel="noreferrer">
+                <AttachmentPreview attachment={attachment} />
+              </a>
+
+              <div className="flex-1 space-y-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <a
+                    href={getAttachmentDownloadUrl(attachment, true)}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="font-medium text-foreground hover:underline truncate"
+                  >
+                    {attachment.fileName}
+                  </a>
+                  <Badge variant="outline">{CATEGORY_LABELS[attachment.category]}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {[
+                    formatFileSize(attachment.size),
+                    `Uploaded ${formatTimestamp(attachment.createdAt)}`,
+                    attachment.uploadedBy && `by ${attachment.uploadedBy}`,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+                {attachment.description && <p className="text-sm text-foreground">{attachment.description}</p>}
+              </div>
+
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <a href={getAttachmentDownloadUrl(attachment)} download={attachment.fileName}>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+                {can('attachment:delete') && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Attachment</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Are you sure you want to delete "{attachment.fileName}"? This action cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => deleteMutation.mutate({ equipmentId, id: attachment.id })}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
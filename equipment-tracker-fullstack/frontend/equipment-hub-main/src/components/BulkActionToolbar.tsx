@@ -0,0 +1,125 @@
+import { BulkRequest } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useEquipmentOptions } from '@/hooks/use-equipment-options';
+import { formatItemCount } from '@/lib/bulk';
+import { Loader2, Sparkles, Trash2, X } from 'lucide-react';
+
+interface BulkActionToolbarProps {
+  selectedCount: number;
+  onAction: (action: Omit<BulkRequest, 'ids' | 'versions'>) => void;
+  onClearSelection: () => void;
+  isLoading: boolean;
+  canEdit: boolean;
+  canLogCleaning: boolean;
+  canDelete: boolean;
+}
+
+// Actions for the selected rows of the equipment table. The status and type
+// pickers apply as soon as a value is chosen.
+export function BulkActionToolbar({
+  selectedCount,
+  onAction,
+  onClearSelection,
+  isLoading,
+  canEdit,
+  canLogCleaning,
+  canDelete,
+}: BulkActionToolbarProps) {
+  const { types, statuses } = useEquipmentOptions();
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-3 mb-4 flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium text-foreground mr-auto flex items-center gap-2">
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+        {selectedCount} selected
+      </span>
+
+      {canEdit && (
+        <>
+          <Select value="" onValueChange={(status) => onAction({ action: 'setStatus', status })} disabled={isLoading}>
+            <SelectTrigger className="w-40 h-9" aria-label="Set status of selected equipment">
+              <SelectValue placeholder="Set status" />
+            </SelectTrigger>
+            <SelectContent>
+              {statuses.map((s) => (
+                <SelectItem key={s} value={s}>{s}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value="" onValueChange={(type) => onAction({ action: 'setType', type })} disabled={isLoading}>
+            <SelectTrigger className="w-36 h-9" aria-label="Set type of selected equipment">
+              <SelectValue placeholder="Set type" />
+            </SelectTrigger>
+            <SelectContent>
+              {types.map((t) => (
+                <SelectItem key={t} value={t}>{t}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      )}
+
+      {canLogCleaning && (
+        <Button variant="outline" size="sm" onClick={() => onAction({ action: 'markCleaned' })} disabled={isLoading}>
+          <Sparkles className="h-4 w-4 mr-1" />
+          Mark Cleaned Today
+        </Button>
+      )}
+
+      {canDelete && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-destructive hover:text-destructive"
+              disabled={isLoading}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Equipment</AlertDialogTitle>
+              <AlertDialogDescription>
+                Are you sure you want to delete {formatItemCount(selectedCount)}? They move to the trash and can be restored.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => onAction({ action: 'delete' })}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+
+      <Button variant="ghost" size="sm" onClick={onClearSelection} aria-label="Clear selection">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
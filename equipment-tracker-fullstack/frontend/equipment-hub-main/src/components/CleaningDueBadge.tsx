@@ -0,0 +1,41 @@
+import { Equipment } from '@/services/api';
+import { Badge } from '@/components/ui/badge';
+
+// Cleanings due within this many days are flagged as due soon
+const DUE_SOON_DAYS = 3;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Dates are compared in UTC, as the API does when computing overdue
+function daysUntil(date: string): number {
+  const today = new Date().toISOString().split('T')[0];
+  return Math.round((Date.parse(date) - Date.parse(today)) / MS_PER_DAY);
+}
+
+interface CleaningDueBadgeProps {
+  equipment: Pick<Equipment, 'nextCleaningDue' | 'overdue'>;
+}
+
+// Flags equipment that is overdue or due soon; renders nothing otherwise
+export function CleaningDueBadge({ equipment }: CleaningDueBadgeProps) {
+  const { nextCleaningDue, overdue } = equipment;
+
+  if (!nextCleaningDue) {
+    return null;
+  }
+
+  if (overdue) {
+    return (
+      <Badge variant="destructive" className="bg-destructive text-destructive-foreground">
+        Overdue
+      </Badge>
+    );
+  }
+
+  const days = daysUntil(nextCleaningDue);
+  if (days > DUE_SOON_DAYS) {
+    return null;
+  }
+
+  return <Badge variant="outline">{days <= 0 ? 'Due today' : `Due in ${days}d`}</Badge>;
+}
@@ -0,0 +1,58 @@
+import { useQuery } from '@tanstack/react-query';
+import { getCleanings } from '@/services/api';
+import { formatDate } from '@/lib/equipment';
+import { Loader2 } from 'lucide-react';
+
+interface CleaningTimelineProps {
+  equipmentId: number;
+}
+
+export function CleaningTimeline({ equipmentId }: CleaningTimelineProps) {
+  const { data: cleanings = [], isLoading, isError, error } = useQuery({
+    queryKey: ['cleanings', equipmentId],
+    queryFn: () => getCleanings(equipmentId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+        Loading cleanings...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="bg-destructive/10 border border-destructive rounded-lg p-4 text-destructive">
+        Failed to load cleanings: {error instanceof Error ? error.message : 'Unknown error'}
+      </div>
+    );
+  }
+
+  if (cleanings.length === 0) {
+    return <p className="p-8 text-center text-muted-foreground">No cleanings logged yet.</p>;
+  }
+
+  // Newest first, as returned by the API
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-6">
+      {cleanings.map((cleaning) => (
+        <li key={cleaning.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <p className="text-sm font-medium text-foreground">{formatDate(cleaning.cleanedAt)}</p>
+          <p className="text-sm text-muted-foreground">
+            {[
+              cleaning.method,
+              cleaning.cleanedBy && `by ${cleaning.cleanedBy}`,
+              cleaning.verifiedBy && `verified by ${cleaning.verifiedBy}`,
+            ]
+              .filter(Boolean)
+              .join(' · ') || 'No details recorded'}
+          </p>
+          {cleaning.notes && <p className="text-sm text-foreground mt-1">{cleaning.notes}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,83 @@
+import { CustomField } from '@/services/api';
+import { CustomFieldDraft } from '@/lib/customFields';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Radix Select does not allow an empty string as an item value
+const UNSET = '__none__';
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  value: CustomFieldDraft;
+  onChange: (value: CustomFieldDraft) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+// One input for a custom field, chosen by its field type
+export function CustomFieldInput({ field, value, onChange, error, disabled }: CustomFieldInputProps) {
+  const id = `custom-${field.key}`;
+  const errorClass = error ? 'border-destructive focus-visible:ring-destructive' : '';
+
+  if (field.fieldType === 'boolean') {
+    return (
+      <div className="flex items-center gap-2 sm:pt-8">
+        <Switch id={id} checked={value === true} onCheckedChange={onChange} disabled={disabled} />
+        <Label htmlFor={id} className="cursor-pointer">{field.label}</Label>
+      </div>
+    );
+  }
+
+  const text = typeof value === 'string' ? value : '';
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>
+        {field.label} {field.required && <span className="text-destructive">*</span>}
+      </Label>
+      {field.fieldType === 'enum' ? (
+        <Select
+          value={text || UNSET}
+          onValueChange={(option) => onChange(option === UNSET ? '' : option)}
+          disabled={disabled}
+        >
+          <SelectTrigger id={id} className={errorClass}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNSET}>
+              <span className="text-muted-foreground">Not set</span>
+            </SelectItem>
+            {field.options?.map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          id={id}
+          type={field.fieldType === 'number' ? 'number' : field.fieldType === 'date' ? 'date' : 'text'}
+          step={field.fieldType === 'number' ? 'any' : undefined}
+          min={field.fieldType === 'number' ? field.min ?? undefined : undefined}
+          max={field.fieldType === 'number' ? field.max ?? undefined : undefined}
+          maxLength={field.fieldType === 'text' ? field.max ?? undefined : undefined}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={errorClass}
+          disabled={disabled}
+        />
+      )}
+      {error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { Equipment } from '@/services/api';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { useLocations } from '@/hooks/use-locations';
+import { EquipmentConflict, getConflictRows } from '@/lib/conflicts';
+import { formatTimestamp } from '@/lib/equipment';
+
+export type ConflictResolution = 'keep-mine' | 'use-latest' | 'cancel';
+
+interface EquipmentConflictDialogProps {
+  // The version the user started editing from
+  base: Equipment;
+  conflict: EquipmentConflict;
+  onResolve: (resolution: ConflictResolution) => void;
+  isLoading: boolean;
+}
+
+export function EquipmentConflictDialog({ base, conflict, onResolve, isLoading }: EquipmentConflictDialogProps) {
+  const { locations } = useLocations();
+  const { fieldsForType } = useCustomFields();
+  const { latest } = conflict;
+
+  const rows = getConflictRows(base, conflict, locations, fieldsForType(conflict.input.type ?? base.type));
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onResolve('cancel')}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{latest.name} was changed while you were editing</DialogTitle>
+          <DialogDescription>
+            Someone else saved changes
+            {latest.updatedAt && ` at ${formatTimestamp(latest.updatedAt)}`}. Saving your changes applies only
+            the fields you edited, so their changes to other fields are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            None of the fields on this form differ; only details such as its cleanings changed.
+          </p>
+        ) : (
+          <div className="max-h-[50vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Yours</TableHead>
+                  <TableHead>Latest</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">
+                      <div className="flex flex-wrap items-center gap-2">
+                        {row.label}
+                        {row.changedByMe && row.changedByOthers && (
+                          <Badge variant="destructive">Both changed</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className={row.changedByMe ? 'font-medium text-foreground' : 'text-muted-foreground'}>
+                      {row.mine}
+                    </TableCell>
+                    <TableCell className={row.changedByOthers ? 'font-medium text-foreground' : 'text-muted-foreground'}>
+                      {row.latest}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onResolve('use-latest')} disabled={isLoading}>
+            Discard Mine and Load Latest
+          </Button>
+          <Button onClick={() => onResolve('keep-mine')} disabled={isLoading}>
+            Save My Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
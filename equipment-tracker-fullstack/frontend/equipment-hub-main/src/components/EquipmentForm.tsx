@@ -1,8 +1,19 @@
-import { useState, useEffect } from 'react';
-import { Equipment, EquipmentInput } from '@/services/api';
+import { useEffect } from 'react';
+import { Controller, FieldError, Resolver, useForm } from 'react-hook-form';
+import { toNestErrors } from '@hookform/resolvers';
+import { MAX_ASSET_TEXT_LENGTH, MAX_CLEANING_INTERVAL_DAYS, equipmentSchema } from 'equipment-tracker-shared';
+import {
+  CleaningEventInput,
+  CustomField,
+  CustomFieldValue,
+  Equipment,
+  EquipmentInput,
+  ValidationError,
+} from '@/services/api';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Select,
   SelectContent,
@@ -11,107 +22,223 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Loader2 } from 'lucide-react';
+import { CustomFieldInput } from '@/components/CustomFieldInput';
+import { ConflictResolution, EquipmentConflictDialog } from '@/components/EquipmentConflictDialog';
+import { LocationPicker } from '@/components/LocationPicker';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { useEquipmentOptions } from '@/hooks/use-equipment-options';
+import { EquipmentConflict } from '@/lib/conflicts';
+import { fromDraft, toDraft, validateDraft } from '@/lib/customFields';
+
+// What the inputs hold: the API's input, except that custom fields are stored
+// values until edited, then drafts (kept across type changes), and the cleaning
+// is text until its date is picked
+interface EquipmentFormValues extends Omit<EquipmentInput, 'customFields' | 'cleaning' | 'lastCleanedDate'> {
+  customFields: Record<string, CustomFieldValue>;
+  cleaning: Record<keyof CleaningEventInput, string>;
+}
+
+interface FormContext {
+  canEditDetails: boolean;
+  fieldsForType: (type: string) => CustomField[];
+}
+
+const EMPTY_CLEANING: EquipmentFormValues['cleaning'] = {
+  cleanedAt: '',
+  cleanedBy: '',
+  method: '',
+  notes: '',
+  verifiedBy: '',
+};
+
+const EMPTY_VALUES: EquipmentFormValues = {
+  name: '',
+  type: '',
+  status: '',
+  locationId: null,
+  cleaningIntervalDays: null,
+  runtimeHours: undefined,
+  assetTag: null,
+  serialNumber: null,
+  manufacturer: null,
+  model: null,
+  installDate: null,
+  purchaseCost: null,
+  customFields: {},
+  cleaning: EMPTY_CLEANING,
+};
+
+const toFormValues = (equipment: Equipment): EquipmentFormValues => ({
+  name: equipment.name,
+  type: equipment.type,
+  status: equipment.status,
+  locationId: equipment.locationId,
+  cleaningIntervalDays: equipment.cleaningIntervalDays,
+  runtimeHours: equipment.runtimeHours,
+  assetTag: equipment.assetTag,
+  serialNumber: equipment.serialNumber,
+  manufacturer: equipment.manufacturer,
+  model: equipment.model,
+  installDate: equipment.installDate,
+  purchaseCost: equipment.purchaseCost,
+  customFields: equipment.customFields,
+  cleaning: EMPTY_CLEANING,
+});
+
+// Empty number inputs are null: no value rather than zero
+const toNumber = (value: string) => (value === '' ? null : Number(value));
+
+const toInput = (values: EquipmentFormValues, customFields: CustomField[]): EquipmentInput => {
+  const { cleaning, runtimeHours, ...details } = values;
+  return {
+    ...details,
+    // An empty meter is a new one at zero
+    runtimeHours: runtimeHours ?? 0,
+    customFields: Object.fromEntries(
+      customFields.map((field) => [field.key, fromDraft(field, toDraft(field, values.customFields[field.key]))])
+    ),
+    // A picked date logs a new cleaning event rather than overwriting history
+    cleaning: cleaning.cleanedAt ? cleaning : undefined,
+  };
+};
+
+const cleaningOnlySchema = equipmentSchema.pick({ cleaning: true });
+
+// Checks the form with the schema the API uses, plus the custom fields of the
+// selected type against their definitions. Without permission to edit details
+// only the cleaning is sent, so only it is checked.
+const resolver: Resolver<EquipmentFormValues, FormContext, EquipmentInput> = (values, context, options) => {
+  const customFields = context.fieldsForType(values.type);
+  const schema = context.canEditDetails ? equipmentSchema : cleaningOnlySchema;
+  const result = schema.safeParse(toInput(values, customFields));
+
+  // Keyed by field path, which is the same in what is sent as in the form
+  const errors: Record<string, FieldError> = {};
+  if (!result.success) {
+    result.error.issues.forEach(({ path, message }) => {
+      errors[path.join('.')] ??= { type: 'validation', message };
+    });
+  }
+  if (context.canEditDetails) {
+    customFields.forEach((field) => {
+      const message = validateDraft(field, toDraft(field, values.customFields[field.key]));
+      if (message) {
+        errors[`customFields.${field.key}`] = { type: 'validation', message };
+      }
+    });
+  }
+
+  if (result.success && Object.keys(errors).length === 0) {
+    return { values: result.data as EquipmentInput, errors: {} };
+  }
+  return { values: {}, errors: toNestErrors(errors, options) };
+};
 
 interface EquipmentFormProps {
   editingEquipment: Equipment | null;
-  onSubmit: (equipment: EquipmentInput) => void;
+  // Rejects when saving fails; field errors from the API are shown on their inputs
+  onSubmit: (equipment: EquipmentInput) => Promise<unknown>;
   onCancel: () => void;
   isLoading: boolean;
+  // Without permission to change name, type and status only a cleaning can be logged
+  canEditDetails: boolean;
+  // Set when saving found the equipment changed since editing began
+  conflict: EquipmentConflict | null;
+  onResolveConflict: (resolution: ConflictResolution) => void;
 }
 
-const EQUIPMENT_TYPES = ['Machine', 'Vessel', 'Tank', 'Mixer'] as const;
-const STATUS_OPTIONS = ['Active', 'Inactive', 'Under Maintenance'] as const;
+const ERROR_CLASS = 'border-destructive focus-visible:ring-destructive';
 
-export function EquipmentForm({ editingEquipment, onSubmit, onCancel, isLoading }: EquipmentFormProps) {
-  const [name, setName] = useState('');
-  const [type, setType] = useState<Equipment['type']>('Machine');
-  const [status, setStatus] = useState<Equipment['status']>('Active');
-  const [lastCleanedDate, setLastCleanedDate] = useState('');
-  const [errors, setErrors] = useState<{ name?: string; lastCleanedDate?: string }>({});
+export function EquipmentForm({
+  editingEquipment,
+  onSubmit,
+  onCancel,
+  isLoading,
+  canEditDetails,
+  conflict,
+  onResolveConflict,
+}: EquipmentFormProps) {
+  const { typeOptions, types, statuses } = useEquipmentOptions();
+  const { fieldsForType } = useCustomFields();
+  const {
+    control,
+    formState: { errors },
+    handleSubmit,
+    register,
+    reset,
+    setError,
+    setValue,
+    watch,
+  } = useForm<EquipmentFormValues, FormContext, EquipmentInput>({
+    defaultValues: EMPTY_VALUES,
+    resolver,
+    context: { canEditDetails, fieldsForType },
+  });
 
   useEffect(() => {
-    if (editingEquipment) {
-      setName(editingEquipment.name);
-      setType(editingEquipment.type);
-      setStatus(editingEquipment.status);
-      setLastCleanedDate(editingEquipment.lastCleanedDate || '');
-      setErrors({});
-    } else {
-      resetForm();
-    }
-  }, [editingEquipment]);
-
-  const resetForm = () => {
-    setName('');
-    setType('Machine');
-    setStatus('Active');
-    setLastCleanedDate('');
-    setErrors({});
-  };
+    reset(editingEquipment ? toFormValues(editingEquipment) : EMPTY_VALUES);
+  }, [editingEquipment, reset]);
 
-  const validateForm = (): boolean => {
-    const newErrors: { name?: string; lastCleanedDate?: string } = {};
+  const name = watch('name');
+  const type = watch('type');
+  const status = watch('status');
+  const cleanedAt = watch('cleaning.cleanedAt');
 
-    // Name validation
-    if (!name.trim()) {
-      newErrors.name = 'Name is required';
-    } else if (name.trim().length < 2) {
-      newErrors.name = 'Name must be at least 2 characters';
-    } else if (name.trim().length > 100) {
-      newErrors.name = 'Name must be less than 100 characters';
+  // Default new equipment to the first configured type and status
+  useEffect(() => {
+    if (!type && types.length > 0) {
+      setValue('type', types[0]);
     }
-
-    // Date validation (optional but must be valid if provided)
-    if (lastCleanedDate) {
-      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-      if (!dateRegex.test(lastCleanedDate)) {
-        newErrors.lastCleanedDate = 'Invalid date format';
-      } else {
-        const date = new Date(lastCleanedDate);
-        const today = new Date();
-        today.setHours(23, 59, 59, 999);
-        if (date > today) {
-          newErrors.lastCleanedDate = 'Date cannot be in the future';
-        }
-      }
+    if (!status && statuses.length > 0) {
+      setValue('status', statuses[0]);
     }
+  }, [type, status, types, statuses, setValue]);
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-
-    if (!validateForm()) {
+  const submit = async (input: EquipmentInput) => {
+    try {
+      await onSubmit(input);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        Object.entries(error.errors).forEach(([path, message]) => {
+          // A cleaning alone is sent as the body, so its errors are unprefixed
+          const field = canEditDetails ? path : `cleaning.${path}`;
+          setError(field as Parameters<typeof setError>[0], { type: 'server', message });
+        });
+      }
+      // Anything else is reported by whoever saves
       return;
     }
 
-    onSubmit({
-      name: name.trim(),
-      type,
-      status,
-      lastCleanedDate: lastCleanedDate || null,
-    });
-
-    // Reset form only for new equipment
+    // Reset form only for new equipment; edits are closed by the parent
     if (!editingEquipment) {
-      resetForm();
+      reset(EMPTY_VALUES);
     }
   };
 
   const handleCancel = () => {
-    resetForm();
+    reset(EMPTY_VALUES);
     onCancel();
   };
 
-  const isValid = name.trim().length > 0;
+  const customFields = fieldsForType(type);
+
+  const typeInterval = typeOptions.find((option) => option.name === type)?.cleaningIntervalDays;
+
+  const isValid = canEditDetails
+    ? name.trim().length > 0 && type !== '' && status !== ''
+    : cleanedAt !== '';
+
+  const title = editingEquipment
+    ? canEditDetails ? 'Edit Equipment' : `Log Cleaning: ${editingEquipment.name}`
+    : 'Add New Equipment';
+
+  const submitLabel = editingEquipment
+    ? canEditDetails ? 'Update Equipment' : 'Log Cleaning'
+    : 'Add Equipment';
 
   return (
-    <form onSubmit={handleSubmit} className="bg-card border border-border rounded-lg p-4 sm:p-6">
-      <h2 className="text-lg font-semibold text-foreground mb-4">
-        {editingEquipment ? 'Edit Equipment' : 'Add New Equipment'}
-      </h2>
+    <form onSubmit={handleSubmit(submit)} className="bg-card border border-border rounded-lg p-4 sm:p-6">
+      <h2 className="text-lg font-semibold text-foreground mb-4">{title}</h2>
 
       <div className="grid gap-4">
         {/* Name Field */}
@@ -120,71 +247,311 @@ export function EquipmentForm({ editingEquipment, onSubmit, onCancel, isLoading
           <Input
             id="name"
             type="text"
-            value={name}
-            onChange={(e) => {
-              setName(e.target.value);
-              if (errors.name && e.target.value.trim()) {
-                setErrors(prev => ({ ...prev, name: undefined }));
-              }
-            }}
+            {...register('name')}
             placeholder="Enter equipment name"
-            className={errors.name ? 'border-destructive focus-visible:ring-destructive' : ''}
-            disabled={isLoading}
+            className={errors.name ? ERROR_CLASS : ''}
+            disabled={isLoading || !canEditDetails}
           />
           {errors.name && (
-            <p className="text-sm text-destructive">{errors.name}</p>
+            <p className="text-sm text-destructive">{errors.name.message}</p>
           )}
         </div>
 
         {/* Type Field */}
         <div className="space-y-2">
           <Label htmlFor="type">Type <span className="text-destructive">*</span></Label>
-          <Select value={type} onValueChange={(value) => setType(value as Equipment['type'])} disabled={isLoading}>
-            <SelectTrigger id="type">
-              <SelectValue placeholder="Select type" />
-            </SelectTrigger>
-            <SelectContent>
-              {EQUIPMENT_TYPES.map((t) => (
-                <SelectItem key={t} value={t}>{t}</SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <Controller
+            control={control}
+            name="type"
+            render={({ field }) => (
+              <Select value={field.value} onValueChange={field.onChange} disabled={isLoading || !canEditDetails}>
+                <SelectTrigger id="type" className={errors.type ? ERROR_CLASS : ''}>
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {types.map((t) => (
+                    <SelectItem key={t} value={t}>{t}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+          {errors.type && (
+            <p className="text-sm text-destructive">{errors.type.message}</p>
+          )}
         </div>
 
         {/* Status Field */}
         <div className="space-y-2">
           <Label htmlFor="status">Status <span className="text-destructive">*</span></Label>
-          <Select value={status} onValueChange={(value) => setStatus(value as Equipment['status'])} disabled={isLoading}>
-            <SelectTrigger id="status">
-              <SelectValue placeholder="Select status" />
-            </SelectTrigger>
-            <SelectContent>
-              {STATUS_OPTIONS.map((s) => (
-                <SelectItem key={s} value={s}>{s}</SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <Controller
+            control={control}
+            name="status"
+            render={({ field }) => (
+              <Select value={field.value} onValueChange={field.onChange} disabled={isLoading || !canEditDetails}>
+                <SelectTrigger id="status" className={errors.status ? ERROR_CLASS : ''}>
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {statuses.map((s) => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+          {errors.status && (
+            <p className="text-sm text-destructive">{errors.status.message}</p>
+          )}
+        </div>
+
+        {/* Location Field */}
+        <div className="space-y-2">
+          <Label htmlFor="location">Location</Label>
+          <Controller
+            control={control}
+            name="locationId"
+            render={({ field }) => (
+              <LocationPicker
+                id="location"
+                value={field.value ?? null}
+                onChange={field.onChange}
+                disabled={isLoading || !canEditDetails}
+              />
+            )}
+          />
+          {errors.locationId && (
+            <p className="text-sm text-destructive">{errors.locationId.message}</p>
+          )}
+        </div>
+
+        {/* Cleaning Interval Field */}
+        <div className="space-y-2">
+          <Label htmlFor="cleaningInterval">Clean Every (days)</Label>
+          <Input
+            id="cleaningInterval"
+            type="number"
+            min={1}
+            max={MAX_CLEANING_INTERVAL_DAYS}
+            step={1}
+            {...register('cleaningIntervalDays', { setValueAs: toNumber })}
+            placeholder={typeInterval ? `${type} default: ${typeInterval} days` : 'No schedule'}
+            className={errors.cleaningIntervalDays ? ERROR_CLASS : ''}
+            disabled={isLoading || !canEditDetails}
+          />
+          {errors.cleaningIntervalDays ? (
+            <p className="text-sm text-destructive">{errors.cleaningIntervalDays.message}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">Leave empty to use the equipment type's schedule.</p>
+          )}
         </div>
 
-        {/* Last Cleaned Date Field */}
+        {/* Runtime Meter Field */}
         <div className="space-y-2">
-          <Label htmlFor="lastCleanedDate">Last Cleaned Date</Label>
+          <Label htmlFor="runtimeHours">Runtime Hours</Label>
           <Input
-            id="lastCleanedDate"
-            type="date"
-            value={lastCleanedDate}
-            onChange={(e) => {
-              setLastCleanedDate(e.target.value);
-              if (errors.lastCleanedDate) {
-                setErrors(prev => ({ ...prev, lastCleanedDate: undefined }));
-              }
-            }}
-            max={new Date().toISOString().split('T')[0]}
-            className={errors.lastCleanedDate ? 'border-destructive focus-visible:ring-destructive' : ''}
-            disabled={isLoading}
+            id="runtimeHours"
+            type="number"
+            min={0}
+            step="any"
+            {...register('runtimeHours', { setValueAs: (value: string) => toNumber(value) ?? undefined })}
+            placeholder="0"
+            className={errors.runtimeHours ? ERROR_CLASS : ''}
+            disabled={isLoading || !canEditDetails}
           />
-          {errors.lastCleanedDate && (
-            <p className="text-sm text-destructive">{errors.lastCleanedDate}</p>
+          {errors.runtimeHours ? (
+            <p className="text-sm text-destructive">{errors.runtimeHours.message}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">Hour meter reading, used by runtime-based maintenance plans.</p>
+          )}
+        </div>
+
+        {/* Custom Fields of the selected type */}
+        {customFields.length > 0 && (
+          <div className="space-y-4 pt-2 border-t border-border">
+            <h3 className="text-sm font-medium text-foreground pt-2">{type} Details</h3>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              {customFields.map((customField) => (
+                <Controller
+                  key={customField.id}
+                  control={control}
+                  name={`customFields.${customField.key}`}
+                  render={({ field, fieldState }) => (
+                    <CustomFieldInput
+                      field={customField}
+                      value={toDraft(customField, field.value)}
+                      onChange={field.onChange}
+                      error={fieldState.error?.message}
+                      disabled={isLoading || !canEditDetails}
+                    />
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Asset Detail Fields */}
+        <div className="space-y-4 pt-2 border-t border-border">
+          <h3 className="text-sm font-medium text-foreground pt-2">Asset Details</h3>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="assetTag">Asset Tag</Label>
+              <Input
+                id="assetTag"
+                {...register('assetTag')}
+                maxLength={MAX_ASSET_TEXT_LENGTH}
+                placeholder="e.g. AT-0042"
+                className={errors.assetTag ? ERROR_CLASS : ''}
+                disabled={isLoading || !canEditDetails}
+              />
+              {errors.assetTag && (
+                <p className="text-sm text-destructive">{errors.assetTag.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="serialNumber">Serial Number</Label>
+              <Input
+                id="serialNumber"
+                {...register('serialNumber')}
+                maxLength={MAX_ASSET_TEXT_LENGTH}
+                className={errors.serialNumber ? ERROR_CLASS : ''}
+                disabled={isLoading || !canEditDetails}
+              />
+              {errors.serialNumber && (
+                <p className="text-sm text-destructive">{errors.serialNumber.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manufacturer">Manufacturer</Label>
+              <Input
+                id="manufacturer"
+                {...register('manufacturer')}
+                maxLength={MAX_ASSET_TEXT_LENGTH}
+                className={errors.manufacturer ? ERROR_CLASS : ''}
+                disabled={isLoading || !canEditDetails}
+              />
+              {errors.manufacturer && (
+                <p className="text-sm text-destructive">{errors.manufacturer.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="model">Model</Label>
+              <Input
+                id="model"
+                {...register('model')}
+                maxLength={MAX_ASSET_TEXT_LENGTH}
+                className={errors.model ? ERROR_CLASS : ''}
+                disabled={isLoading || !canEditDetails}
+              />
+              {errors.model && (
+                <p className="text-sm text-destructive">{errors.model.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="installDate">Install Date</Label>
+              <Input
+                id="installDate"
+                type="date"
+                {...register('installDate', { setValueAs: (value: string) => value || null })}
+                className={errors.installDate ? ERROR_CLASS : ''}
+                disabled={isLoading || !canEditDetails}
+              />
+              {errors.installDate && (
+                <p className="text-sm text-destructive">{errors.installDate.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="purchaseCost">Purchase Cost</Label>
+              <Input
+                id="purchaseCost"
+                type="number"
+                min={0}
+                step="0.01"
+                {...register('purchaseCost', { setValueAs: toNumber })}
+                className={errors.purchaseCost ? ERROR_CLASS : ''}
+                disabled={isLoading || !canEditDetails}
+              />
+              {errors.purchaseCost && (
+                <p className="text-sm text-destructive">{errors.purchaseCost.message}</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Log Cleaning Fields */}
+        <div className="space-y-4 pt-2 border-t border-border">
+          <div>
+            <h3 className="text-sm font-medium text-foreground pt-2">Log Cleaning</h3>
+            {editingEquipment && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {editingEquipment.cleaningCount > 0
+                  ? `Last cleaned ${editingEquipment.lastCleanedDate} (${editingEquipment.cleaningCount} logged)`
+                  : 'No cleanings logged yet'}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cleanedAt">Cleaned On</Label>
+            <Input
+              id="cleanedAt"
+              type="date"
+              {...register('cleaning.cleanedAt')}
+              max={new Date().toISOString().split('T')[0]}
+              className={errors.cleaning?.cleanedAt ? ERROR_CLASS : ''}
+              disabled={isLoading}
+            />
+            {errors.cleaning?.cleanedAt && (
+              <p className="text-sm text-destructive">{errors.cleaning.cleanedAt.message}</p>
+            )}
+          </div>
+
+          {cleanedAt && (
+            <>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="cleanedBy">Cleaned By</Label>
+                  <Input
+                    id="cleanedBy"
+                    {...register('cleaning.cleanedBy')}
+                    placeholder="Operator"
+                    disabled={isLoading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="verifiedBy">Verified By</Label>
+                  <Input
+                    id="verifiedBy"
+                    {...register('cleaning.verifiedBy')}
+                    placeholder="Supervisor"
+                    disabled={isLoading}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="cleaningMethod">Method</Label>
+                <Input
+                  id="cleaningMethod"
+                  {...register('cleaning.method')}
+                  placeholder="e.g. CIP, manual wash"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="cleaningNotes">Notes</Label>
+                <Textarea
+                  id="cleaningNotes"
+                  {...register('cleaning.notes')}
+                  rows={2}
+                  disabled={isLoading}
+                />
+              </div>
+            </>
           )}
         </div>
 
@@ -196,7 +563,7 @@ export function EquipmentForm({ editingEquipment, onSubmit, onCancel, isLoading
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 Saving...
               </>
-            ) : editingEquipment ? 'Update Equipment' : 'Add Equipment'}
+            ) : submitLabel}
           </Button>
           {editingEquipment && (
             <Button type="button" variant="outline" onClick={handleCancel} disabled={isLoading} className="w-full sm:w-auto">
@@ -205,6 +572,15 @@ export function EquipmentForm({ editingEquipment, onSubmit, onCancel, isLoading
           )}
         </div>
       </div>
+
+      {editingEquipment && conflict && (
+        <EquipmentConflictDialog
+          base={editingEquipment}
+          conflict={conflict}
+          onResolve={onResolveConflict}
+          isLoading={isLoading}
+        />
+      )}
     </form>
   );
 }
@@ -0,0 +1,115 @@
+import { useQuery } from '@tanstack/react-query';
+import { AuditEntry, getEquipmentHistory } from '@/services/api';
+import { Badge } from '@/components/ui/badge';
+import { formatTimestamp } from '@/lib/equipment';
+import { Loader2 } from 'lucide-react';
+
+interface EquipmentHistoryProps {
+  equipmentId: number;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  type: 'Type',
+  status: 'Status',
+  lastCleanedDate: 'Last cleaned',
+  cleaningCount: 'Cleanings',
+  cleaningIntervalDays: 'Cleaning interval (days)',
+  effectiveCleaningIntervalDays: 'Effective interval (days)',
+  nextCleaningDue: 'Next cleaning due',
+};
+
+function getActionVariant(action: AuditEntry['action']): 'default' | 'secondary' | 'destructive' {
+  switch (action) {
+    case 'create':
+      return 'default';
+    case 'delete':
+    case 'purge':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+}
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined || value === '' ? '—' : String(value);
+}
+
+function describeEntry(entry: AuditEntry): string {
+  if (entry.entityType === 'cleaning_event') {
+    return `Cleaning logged for ${formatValue(entry.changes.cleanedAt?.after)}`;
+  }
+  switch (entry.action) {
+    case 'create':
+      return 'Equipment created';
+    case 'delete':
+      return 'Equipment moved to the trash';
+    case 'restore':
+      return 'Equipment restored';
+    case 'purge':
+      return 'Equipment purged';
+    default:
+      return 'Equipment updated';
+  }
+}
+
+export function EquipmentHistory({ equipmentId }: EquipmentHistoryProps) {
+  const { data: entries = [], isLoading, isError, error } = useQuery({
+    queryKey: ['equipment-history', equipmentId],
+    queryFn: () => getEquipmentHistory(equipmentId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="bg-destructive/10 border border-destructive rounded-lg p-4 text-destructive">
+        Failed to load history: {error instanceof Error ? error.message : 'Unknown error'}
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="p-8 text-center text-muted-foreground">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {entries.map((entry) => (
+        <li key={entry.id} className="border border-border rounded-lg p-3 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <p className="text-sm font-medium text-foreground">{describeEntry(entry)}</p>
+              <p className="text-xs text-muted-foreground">
+                {entry.actor} · {formatTimestamp(entry.createdAt)}
+              </p>
+            </div>
+            <Badge variant={getActionVariant(entry.action)}>{entry.action}</Badge>
+          </div>
+
+          {entry.action === 'update' && (
+            <ul className="text-sm space-y-1">
+              {Object.entries(entry.changes).map(([field, change]) => (
+                <li key={field} className="text-muted-foreground">
+                  <span className="font-medium text-foreground">{FIELD_LABELS[field] ?? field}:</span>{' '}
+                  {formatValue(change.before)} → {formatValue(change.after)}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {entry.requestId && (
+            <p className="text-xs text-muted-foreground font-mono truncate">Request {entry.requestId}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,80 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { cn } from '@/lib/utils';
+
+interface EquipmentPaginationProps {
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+// Pages to show: first, last, and the current page with its neighbours
+function getVisiblePages(page: number, totalPages: number): (number | 'ellipsis')[] {
+  const pages = new Set([1, totalPages, page - 1, page, page + 1]);
+  const sorted = [...pages].filter(p => p >= 1 && p <= totalPages).sort((a, b) => a - b);
+
+  const result: (number | 'ellipsis')[] = [];
+  sorted.forEach((p, index) => {
+    if (index > 0 && p - sorted[index - 1] > 1) {
+      result.push('ellipsis');
+    }
+    result.push(p);
+  });
+  return result;
+}
+
+export function EquipmentPagination({ page, totalPages, onPageChange }: EquipmentPaginationProps) {
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= totalPages && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goTo(page - 1)}
+            aria-disabled={page === 1}
+            className={cn(page === 1 && 'pointer-events-none opacity-50')}
+          />
+        </PaginationItem>
+        {getVisiblePages(page, totalPages).map((p, index) =>
+          p === 'ellipsis' ? (
+            <PaginationItem key={`ellipsis-${index}`} className="hidden sm:block">
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={p} className={cn(p !== page && 'hidden sm:block')}>
+              <PaginationLink href="#" isActive={p === page} onClick={goTo(p)}>
+                {p}
+              </PaginationLink>
+            </PaginationItem>
+          )
+        )}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goTo(page + 1)}
+            aria-disabled={page === totalPages}
+            className={cn(page === totalPages && 'pointer-events-none opacity-50')}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
@@ -1,5 +1,7 @@
-import { Equipment } from '@/services/api';
+import { Link } from 'react-router-dom';
+import { BulkRequest, CustomField, Equipment } from '@/services/api';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Table,
   TableBody,
@@ -9,7 +11,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Pencil, Trash2, Loader2 } from 'lucide-react';
+import { Pencil, Trash2, Loader2, History, Sparkles } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -21,38 +23,51 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
+import { BulkActionToolbar } from '@/components/BulkActionToolbar';
+import { CleaningDueBadge } from '@/components/CleaningDueBadge';
+import { formatDate, getStatusVariant } from '@/lib/equipment';
+import { formatCustomValue } from '@/lib/customFields';
 
 interface EquipmentTableProps {
   equipment: Equipment[];
   onEdit: (equipment: Equipment) => void;
-  onDelete: (id: number) => void;
+  onDelete: (item: Equipment) => void;
+  onShowHistory: (equipment: Equipment) => void;
   isLoading: boolean;
+  canEdit: boolean;
+  // Users who may not edit can still open the form to log a cleaning
+  canLogCleaning: boolean;
+  canDelete: boolean;
+  canShowHistory: boolean;
+  // Custom fields shown as extra columns; blank for items of other types
+  customColumns: CustomField[];
+  // Ids of the rows checked for a bulk action
+  selectedIds: number[];
+  onSelectionChange: (ids: number[]) => void;
+  onBulkAction: (action: Omit<BulkRequest, 'ids' | 'versions'>) => void;
+  isBulkLoading: boolean;
 }
 
-function getStatusVariant(status: Equipment['status']): 'default' | 'secondary' | 'destructive' {
-  switch (status) {
-    case 'Active':
-      return 'default';
-    case 'Inactive':
-      return 'secondary';
-    case 'Under Maintenance':
-      return 'destructive';
-    default:
-      return 'secondary';
-  }
-}
-
-function formatDate(dateString: string | null): string {
-  if (!dateString) return '—';
-  const date = new Date(dateString);
-  return date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-  });
+function formatCleaningCount(count: number): string {
+  return count === 1 ? '1 cleaning' : `${count} cleanings`;
 }
 
-export function EquipmentTable({ equipment, onEdit, onDelete, isLoading }: EquipmentTableProps) {
+export function EquipmentTable({
+  equipment,
+  onEdit,
+  onDelete,
+  onShowHistory,
+  isLoading,
+  canEdit,
+  canLogCleaning,
+  canDelete,
+  canShowHistory,
+  customColumns,
+  selectedIds,
+  onSelectionChange,
+  onBulkAction,
+  isBulkLoading,
+}: EquipmentTableProps) {
   if (isLoading) {
     return (
       <div className="bg-card border border-border rounded-lg p-8 text-center text-muted-foreground">
@@ -71,64 +86,145 @@ export function EquipmentTable({ equipment, onEdit, onDelete, isLoading }: Equip
     );
   }
 
+  const showEdit = canEdit || canLogCleaning;
+  const EditIcon = canEdit ? Pencil : Sparkles;
+  const editLabel = canEdit ? 'Edit' : 'Log Cleaning';
+
+  // Rows can be checked by anyone allowed at least one bulk action
+  const canSelect = canEdit || canLogCleaning || canDelete;
+  const allSelected = equipment.every((item) => selectedIds.includes(item.id));
+  const someSelected = equipment.some((item) => selectedIds.includes(item.id));
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    onSelectionChange(checked ? [...selectedIds, id] : selectedIds.filter((selected) => selected !== id));
+  };
+
+  const toggleAll = (checked: boolean) => {
+    onSelectionChange(checked ? equipment.map((item) => item.id) : []);
+  };
+
+  const SelectCheckbox = ({ item }: { item: Equipment }) => (
+    <Checkbox
+      checked={selectedIds.includes(item.id)}
+      onCheckedChange={(checked) => toggleSelected(item.id, checked === true)}
+      aria-label={`Select ${item.name}`}
+    />
+  );
+
   // Mobile card view for small screens
   const MobileCard = ({ item }: { item: Equipment }) => (
     <div className="bg-card border border-border rounded-lg p-4 space-y-3">
       <div className="flex justify-between items-start">
-        <div>
-          <h3 className="font-medium text-foreground">{item.name}</h3>
-          <p className="text-sm text-muted-foreground">{item.type}</p>
+        <div className="flex items-start gap-3">
+          {canSelect && (
+            <div className="pt-1">
+              <SelectCheckbox item={item} />
+            </div>
+          )}
+          <div>
+            <h3 className="font-medium text-foreground">
+              <Link to={`/equipment/${item.id}`} className="hover:underline">{item.name}</Link>
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              {item.assetTag && <span className="font-mono">{item.assetTag} · </span>}
+              {item.type}
+              {item.locationName && <span> · {item.locationName}</span>}
+            </p>
+          </div>
         </div>
         <Badge variant={getStatusVariant(item.status)}>{item.status}</Badge>
       </div>
-      <div className="text-sm text-muted-foreground">
-        Last cleaned: {formatDate(item.lastCleanedDate)}
+      <div className="text-sm text-muted-foreground space-y-1">
+        <p>
+          Last cleaned: {formatDate(item.lastCleanedDate)}
+          <span className="ml-2">({formatCleaningCount(item.cleaningCount)})</span>
+        </p>
+        {item.nextCleaningDue && (
+          <p className="flex items-center gap-2">
+            Next due: {formatDate(item.nextCleaningDue)}
+            <CleaningDueBadge equipment={item} />
+          </p>
+        )}
+        {customColumns
+          .filter((field) => field.typeName === item.type)
+          .map((field) => (
+            <p key={field.id}>
+              {field.label}: {formatCustomValue(field, item.customFields[field.key])}
+            </p>
+          ))}
       </div>
       <div className="flex gap-2 pt-2 border-t border-border">
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => onEdit(item)}
-          className="flex-1"
-        >
-          <Pencil className="h-4 w-4 mr-1" />
-          Edit
-        </Button>
-        <AlertDialog>
-          <AlertDialogTrigger asChild>
-            <Button
-              variant="outline"
-              size="sm"
-              className="flex-1 text-destructive hover:text-destructive"
-            >
-              <Trash2 className="h-4 w-4 mr-1" />
-              Delete
-            </Button>
-          </AlertDialogTrigger>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Delete Equipment</AlertDialogTitle>
-              <AlertDialogDescription>
-                Are you sure you want to delete "{item.name}"? This action cannot be undone.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction
-                onClick={() => onDelete(item.id)}
-                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+        {showEdit && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onEdit(item)}
+            className="flex-1"
+          >
+            <EditIcon className="h-4 w-4 mr-1" />
+            {editLabel}
+          </Button>
+        )}
+        {canShowHistory && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onShowHistory(item)}
+            className="flex-1"
+          >
+            <History className="h-4 w-4 mr-1" />
+            History
+          </Button>
+        )}
+        {canDelete && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 text-destructive hover:text-destructive"
               >
+                <Trash2 className="h-4 w-4 mr-1" />
                 Delete
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete Equipment</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Are you sure you want to delete "{item.name}"? It moves to the trash and can be restored.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => onDelete(item)}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
       </div>
     </div>
   );
 
   return (
     <>
+      {selectedIds.length > 0 && (
+        <BulkActionToolbar
+          selectedCount={selectedIds.length}
+          onAction={onBulkAction}
+          onClearSelection={() => onSelectionChange([])}
+          isLoading={isBulkLoading}
+          canEdit={canEdit}
+          canLogCleaning={canLogCleaning}
+          canDelete={canDelete}
+        />
+      )}
+
       {/* Mobile view: Cards */}
       <div className="md:hidden space-y-4">
         {equipment.map((item) => (
@@ -141,17 +237,45 @@ export function EquipmentTable({ equipment, onEdit, onDelete, isLoading }: Equip
         <Table>
           <TableHeader>
             <TableRow className="bg-muted/50">
+              {canSelect && (
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allSelected ? true : someSelected ? 'indeterminate' : false}
+                    onCheckedChange={(checked) => toggleAll(checked === true)}
+                    aria-label="Select all equipment on this page"
+                  />
+                </TableHead>
+              )}
               <TableHead className="font-semibold">Name</TableHead>
+              <TableHead className="font-semibold">Asset Tag</TableHead>
               <TableHead className="font-semibold">Type</TableHead>
               <TableHead className="font-semibold">Status</TableHead>
               <TableHead className="font-semibold">Last Cleaned</TableHead>
+              <TableHead className="font-semibold">Next Due</TableHead>
+              <TableHead className="font-semibold text-right">Cleanings</TableHead>
+              {customColumns.map((field) => (
+                <TableHead key={field.id} className="font-semibold" title={`${field.typeName}: ${field.label}`}>
+                  {field.label}
+                </TableHead>
+              ))}
               <TableHead className="font-semibold text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {equipment.map((item) => (
-              <TableRow key={item.id}>
-                <TableCell className="font-medium">{item.name}</TableCell>
+              <TableRow key={item.id} data-state={selectedIds.includes(item.id) ? 'selected' : undefined}>
+                {canSelect && (
+                  <TableCell>
+                    <SelectCheckbox item={item} />
+                  </TableCell>
+                )}
+                <TableCell className="font-medium">
+                  <Link to={`/equipment/${item.id}`} className="hover:underline">{item.name}</Link>
+                  {item.locationName && (
+                    <p className="text-xs font-normal text-muted-foreground">{item.locationName}</p>
+                  )}
+                </TableCell>
+                <TableCell className="font-mono text-sm">{item.assetTag ?? '—'}</TableCell>
                 <TableCell>{item.type}</TableCell>
                 <TableCell>
                   <Badge variant={getStatusVariant(item.status)}>
@@ -159,47 +283,74 @@ export function EquipmentTable({ equipment, onEdit, onDelete, isLoading }: Equip
                   </Badge>
                 </TableCell>
                 <TableCell>{formatDate(item.lastCleanedDate)}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {formatDate(item.nextCleaningDue)}
+                    <CleaningDueBadge equipment={item} />
+                  </div>
+                </TableCell>
+                <TableCell className="text-right tabular-nums">{item.cleaningCount}</TableCell>
+                {customColumns.map((field) => (
+                  <TableCell key={field.id}>
+                    {field.typeName === item.type ? formatCustomValue(field, item.customFields[field.key]) : ''}
+                  </TableCell>
+                ))}
                 <TableCell className="text-right">
                   <div className="flex justify-end gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => onEdit(item)}
-                      aria-label={`Edit ${item.name}`}
-                    >
-                      <Pencil className="h-4 w-4" />
-                      <span className="ml-1 hidden lg:inline">Edit</span>
-                    </Button>
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          aria-label={`Delete ${item.name}`}
-                          className="text-destructive hover:text-destructive"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                          <span className="ml-1 hidden lg:inline">Delete</span>
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>Delete Equipment</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            Are you sure you want to delete "{item.name}"? This action cannot be undone.
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>Cancel</AlertDialogCancel>
-                          <AlertDialogAction
-                            onClick={() => onDelete(item.id)}
-                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    {showEdit && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onEdit(item)}
+                        aria-label={`${editLabel} ${item.name}`}
+                      >
+                        <EditIcon className="h-4 w-4" />
+                        <span className="ml-1 hidden lg:inline">{editLabel}</span>
+                      </Button>
+                    )}
+                    {canShowHistory && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onShowHistory(item)}
+                        aria-label={`History of ${item.name}`}
+                      >
+                        <History className="h-4 w-4" />
+                        <span className="ml-1 hidden lg:inline">History</span>
+                      </Button>
+                    )}
+                    {canDelete && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            aria-label={`Delete ${item.name}`}
+                            className="text-destructive hover:text-destructive"
                           >
-                            Delete
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
+                            <Trash2 className="h-4 w-4" />
+                            <span className="ml-1 hidden lg:inline">Delete</span>
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Equipment</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete "{item.name}"? It moves to the trash and can be restored.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => onDelete(item)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
                   </div>
                 </TableCell>
               </TableRow>
@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ImportField, ImportMapping, ImportReport, importEquipment } from '@/services/api';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+
+interface ImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+const FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'type', label: 'Type', required: true },
+  { field: 'status', label: 'Status', required: true },
+  { field: 'lastCleanedDate', label: 'Last Cleaned Date', required: false },
+  { field: 'assetTag', label: 'Asset Tag', required: false },
+  { field: 'serialNumber', label: 'Serial Number', required: false },
+  { field: 'manufacturer', label: 'Manufacturer', required: false },
+  { field: 'model', label: 'Model', required: false },
+  { field: 'installDate', label: 'Install Date', required: false },
+  { field: 'purchaseCost', label: 'Purchase Cost', required: false },
+];
+
+// Radix Select does not allow an empty string as an item value
+const UNMAPPED = '__none__';
+
+// Only the first rows with errors are listed; the summary covers the rest
+const MAX_ERROR_ROWS = 50;
+
+export function ImportWizard({ open, onOpenChange }: ImportWizardProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setCsv('');
+    setMapping({});
+    setReport(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      reset();
+    }
+    onOpenChange(isOpen);
+  };
+
+  const showError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  // Upload: a first dry run detects the columns and suggests a mapping
+  const detectMutation = useMutation({
+    mutationFn: (text: string) => importEquipment(text, { dryRun: true }),
+    onSuccess: (result) => {
+      setReport(result);
+      setMapping(result.mapping);
+      setStep('map');
+    },
+    onError: showError,
+  });
+
+  // Map: validate every row with the chosen mapping
+  const previewMutation = useMutation({
+    mutationFn: () => importEquipment(csv, { dryRun: true, mapping }),
+    onSuccess: (result) => {
+      setReport(result);
+      setStep('preview');
+    },
+    onError: showError,
+  });
+
+  // Preview: commit all rows in one transaction
+  const importMutation = useMutation({
+    mutationFn: () => importEquipment(csv, { mapping }),
+    onSuccess: (result) => {
+      if (!result.success) {
+        setReport(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['equipment'] });
+      toast({ title: 'Success', description: `${result.imported} equipment item(s) imported` });
+      handleOpenChange(false);
+    },
+    onError: showError,
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    const text = await file.text();
+    setFileName(file.name);
+    setCsv(text);
+    detectMutation.mutate(text);
+  };
+
+  const isBusy = detectMutation.isPending || previewMutation.isPending || importMutation.isPending;
+  const isMappingComplete = FIELDS.every(({ field, required }) => !required || mapping[field]);
+  const errorRows = report?.rows.filter((row) => Object.keys(row.errors).length > 0) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Equipment</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV file with a header row.'}
+            {step === 'map' && `Match the columns in ${fileName} to equipment fields.`}
+            {step === 'preview' && 'Review the validation results before importing.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="importFile">CSV file</Label>
+            <Input id="importFile" type="file" accept=".csv,text/csv" onChange={handleFileChange} disabled={isBusy} />
+            {detectMutation.isPending && (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Reading file...
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'map' && report && (
+          <div className="grid gap-4">
+            <p className="text-sm text-muted-foreground">{report.total} row(s) found.</p>
+            {FIELDS.map(({ field, label, required }) => (
+              <div key={field} className="grid gap-2 sm:grid-cols-[160px_1fr] sm:items-center">
+                <Label htmlFor={`map-${field}`}>
+                  {label} {required && <span className="text-destructive">*</span>}
+                </Label>
+                <Select
+                  value={mapping[field] ?? UNMAPPED}
+                  onValueChange={(value) =>
+                    setMapping((prev) => ({ ...prev, [field]: value === UNMAPPED ? undefined : value }))
+                  }
+                  disabled={isBusy}
+                >
+                  <SelectTrigger id={`map-${field}`}>
+                    <SelectValue placeholder="Select column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>— Not imported —</SelectItem>
+                    {report.columns.map((column) => (
+                      <SelectItem key={column} value={column}>{column}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'preview' && report && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="border border-border rounded-lg p-3">
+                <p className="text-2xl font-semibold">{report.total}</p>
+                <p className="text-xs text-muted-foreground">Rows</p>
+              </div>
+              <div className="border border-border rounded-lg p-3">
+                <p className="text-2xl font-semibold">{report.valid}</p>
+                <p className="text-xs text-muted-foreground">Valid</p>
+              </div>
+              <div className="border border-border rounded-lg p-3">
+                <p className={`text-2xl font-semibold ${report.invalid > 0 ? 'text-destructive' : ''}`}>{report.invalid}</p>
+                <p className="text-xs text-muted-foreground">With errors</p>
+              </div>
+            </div>
+
+            {errorRows.length > 0 ? (
+              <>
+                <p className="text-sm text-destructive">
+                  Fix these rows in the file and upload it again. Nothing is imported until every row is valid.
+                </p>
+                <div className="border border-border rounded-lg overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/50">
+                        <TableHead className="w-16">Line</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Errors</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {errorRows.slice(0, MAX_ERROR_ROWS).map((row) => (
+                        <TableRow key={row.row}>
+                          <TableCell className="tabular-nums">{row.row}</TableCell>
+                          <TableCell>{row.data.name ?? '—'}</TableCell>
+                          <TableCell className="text-sm text-destructive">{Object.values(row.errors).join('; ')}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {errorRows.length > MAX_ERROR_ROWS && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the first {MAX_ERROR_ROWS} of {errorRows.length} rows with errors.
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">All rows are valid and ready to import.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={isBusy}>Back</Button>
+              <Button onClick={() => previewMutation.mutate()} disabled={!isMappingComplete || isBusy}>
+                {previewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Validate
+              </Button>
+            </>
+          )}
+          {step === 'preview' && report && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')} disabled={isBusy}>Back</Button>
+              <Button onClick={() => importMutation.mutate()} disabled={report.invalid > 0 || isBusy}>
+                {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {report.valid} row(s)
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { useLocations } from '@/hooks/use-locations';
+import { LOCATION_KIND_LABELS, flattenLocationTree, getLocationPath } from '@/lib/locations';
+import { cn } from '@/lib/utils';
+import { Check, ChevronsUpDown, MapPin } from 'lucide-react';
+
+interface LocationPickerProps {
+  id?: string;
+  value: number | null;
+  onChange: (locationId: number | null) => void;
+  disabled?: boolean;
+}
+
+// Pick a location from the tree, indented by depth and searchable by its full path
+export function LocationPicker({ id, value, onChange, disabled }: LocationPickerProps) {
+  const [open, setOpen] = useState(false);
+  const { locations, tree } = useLocations();
+
+  const select = (locationId: number | null) => {
+    onChange(locationId);
+    setOpen(false);
+  };
+
+  const selectedPath = value !== null ? getLocationPath(locations, value) : '';
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+          disabled={disabled}
+        >
+          <span className={cn('truncate', !selectedPath && 'text-muted-foreground')}>
+            {selectedPath || 'No location'}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search locations..." />
+          <CommandList>
+            <CommandEmpty>No locations found.</CommandEmpty>
+            <CommandGroup>
+              <CommandItem value="No location" onSelect={() => select(null)}>
+                <Check className={cn('mr-2 h-4 w-4', value === null ? 'opacity-100' : 'opacity-0')} />
+                No location
+              </CommandItem>
+              {flattenLocationTree(tree).map(({ node, depth }) => (
+                <CommandItem
+                  key={node.id}
+                  value={`${getLocationPath(locations, node.id)} ${node.id}`}
+                  onSelect={() => select(node.id)}
+                >
+                  <Check className={cn('mr-2 h-4 w-4', value === node.id ? 'opacity-100' : 'opacity-0')} />
+                  <span className="flex items-center gap-2 min-w-0" style={{ paddingLeft: `${depth}rem` }}>
+                    <MapPin className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{node.name}</span>
+                    <span className="text-xs text-muted-foreground">{LOCATION_KIND_LABELS[node.kind]}</span>
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,118 @@
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+  SidebarMenuSubButton,
+  SidebarMenuSubItem,
+} from '@/components/ui/sidebar';
+import { useLocations } from '@/hooks/use-locations';
+import { LocationNode } from '@/lib/locations';
+import { cn } from '@/lib/utils';
+import { Building2, Loader2, MapPin, MapPinOff } from 'lucide-react';
+
+// 'all' shows every item; 'none' only those without a location
+export type LocationFilter = number | 'all' | 'none';
+
+interface LocationTreeProps {
+  selected: LocationFilter;
+  onSelect: (filter: LocationFilter) => void;
+}
+
+interface LocationSubTreeProps extends LocationTreeProps {
+  nodes: LocationNode[];
+}
+
+// Locations below a site, nested to any depth
+function LocationSubTree({ nodes, selected, onSelect }: LocationSubTreeProps) {
+  return (
+    <SidebarMenuSub>
+      {nodes.map((node) => (
+        <SidebarMenuSubItem key={node.id}>
+          <SidebarMenuSubButton asChild isActive={selected === node.id}>
+            <button type="button" onClick={() => onSelect(node.id)} className="w-full">
+              <span className="flex-1 truncate text-left">{node.name}</span>
+              <span className="text-xs tabular-nums text-muted-foreground">{node.totalEquipmentCount}</span>
+            </button>
+          </SidebarMenuSubButton>
+          {node.children.length > 0 && (
+            <LocationSubTree nodes={node.children} selected={selected} onSelect={onSelect} />
+          )}
+        </SidebarMenuSubItem>
+      ))}
+    </SidebarMenuSub>
+  );
+}
+
+// The location hierarchy as a menu; selecting a location filters to it and
+// everything below it. Counts include the locations below.
+export function LocationTree({ selected, onSelect }: LocationTreeProps) {
+  const { tree, isLoading } = useLocations();
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>Locations</SidebarGroupLabel>
+      <SidebarGroupContent>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton isActive={selected === 'all'} onClick={() => onSelect('all')}>
+              <Building2 />
+              <span>All locations</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+
+          {isLoading && (
+            <SidebarMenuItem>
+              <div className="flex items-center gap-2 px-2 py-1.5 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading...
+              </div>
+            </SidebarMenuItem>
+          )}
+
+          {tree.map((site) => (
+            <SidebarMenuItem key={site.id}>
+              <SidebarMenuButton isActive={selected === site.id} onClick={() => onSelect(site.id)}>
+                <MapPin />
+                <span>{site.name}</span>
+              </SidebarMenuButton>
+              <SidebarMenuBadge>{site.totalEquipmentCount}</SidebarMenuBadge>
+              {site.children.length > 0 && (
+                <LocationSubTree nodes={site.children} selected={selected} onSelect={onSelect} />
+              )}
+            </SidebarMenuItem>
+          ))}
+
+          <SidebarMenuItem>
+            <SidebarMenuButton isActive={selected === 'none'} onClick={() => onSelect('none')}>
+              <MapPinOff />
+              <span>No location</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+}
+
+interface LocationSidebarProps extends LocationTreeProps {
+  className?: string;
+}
+
+// A fixed column beside the equipment list; smaller screens open the same
+// tree in a sheet instead
+export function LocationSidebar({ className, ...props }: LocationSidebarProps) {
+  return (
+    <Sidebar collapsible="none" className={cn('border-r border-sidebar-border', className)}>
+      <SidebarContent>
+        <LocationTree {...props} />
+      </SidebarContent>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { PmPlanInput, PmScheduleType, WorkOrderPriority } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PRIORITY_LABELS, WORK_ORDER_PRIORITIES } from '@/lib/work-orders';
+import { SCHEDULE_TYPE_LABELS } from '@/lib/pm-plans';
+import { Loader2 } from 'lucide-react';
+
+const SCHEDULE_TYPES = Object.keys(SCHEDULE_TYPE_LABELS) as PmScheduleType[];
+
+interface PmPlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (plan: PmPlanInput) => void;
+  isLoading: boolean;
+}
+
+// Render only while open so every new plan starts from a blank form
+export function PmPlanDialog({ open, onOpenChange, onSubmit, isLoading }: PmPlanDialogProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState<WorkOrderPriority>('medium');
+  const [assignee, setAssignee] = useState('');
+  const [scheduleType, setScheduleType] = useState<PmScheduleType>('days');
+  const [intervalValue, setIntervalValue] = useState('');
+  const [firstDue, setFirstDue] = useState('');
+  const [cron, setCron] = useState('');
+  const [errors, setErrors] = useState<{ title?: string; schedule?: string }>({});
+
+  const validateForm = (): boolean => {
+    const newErrors: { title?: string; schedule?: string } = {};
+
+    if (!title.trim()) {
+      newErrors.title = 'Title is required';
+    }
+
+    if (scheduleType === 'cron') {
+      if (cron.trim().split(/\s+/).length !== 5) {
+        newErrors.schedule = 'Enter five fields: minute hour day-of-month month day-of-week';
+      }
+    } else {
+      const value = Number(intervalValue);
+      if (!intervalValue || !Number.isInteger(value) || value < 1) {
+        newErrors.schedule = `Enter a whole number of ${scheduleType === 'days' ? 'days' : 'hours'}`;
+      }
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    onSubmit({
+      title: title.trim(),
+      description: description.trim() || null,
+      priority,
+      assignee: assignee.trim() || null,
+      scheduleType,
+      intervalDays: scheduleType === 'days' ? Number(intervalValue) : null,
+      intervalHours: scheduleType === 'runtime_hours' ? Number(intervalValue) : null,
+      cron: scheduleType === 'cron' ? cron.trim() : null,
+      nextDueAt: scheduleType === 'days' && firstDue ? firstDue : null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Maintenance Plan</DialogTitle>
+          <DialogDescription>
+            A work order is opened each time the plan comes due.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="pm-plan-form" onSubmit={handleSubmit} className="grid gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="pmPlanTitle">Title *</Label>
+            <Input
+              id="pmPlanTitle"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Lubricate bearings"
+              disabled={isLoading}
+              className={errors.title ? 'border-destructive' : ''}
+            />
+            {errors.title && <p className="text-sm text-destructive">{errors.title}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pmPlanSchedule">Schedule</Label>
+            <Select
+              value={scheduleType}
+              onValueChange={(value) => {
+                setScheduleType(value as PmScheduleType);
+                setErrors((prev) => ({ ...prev, schedule: undefined }));
+              }}
+              disabled={isLoading}
+            >
+              <SelectTrigger id="pmPlanSchedule">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCHEDULE_TYPES.map((t) => (
+                  <SelectItem key={t} value={t}>{SCHEDULE_TYPE_LABELS[t]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {scheduleType === 'cron' ? (
+            <div className="space-y-2">
+              <Label htmlFor="pmPlanCron">Cron Rule</Label>
+              <Input
+                id="pmPlanCron"
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+                placeholder="0 6 * * 1"
+                disabled={isLoading}
+                className={`font-mono ${errors.schedule ? 'border-destructive' : ''}`}
+              />
+              <p className="text-xs text-muted-foreground">
+                minute hour day-of-month month day-of-week, in UTC. "0 6 * * 1" is Mondays at 06:00.
+              </p>
+            </div>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="pmPlanInterval">{scheduleType === 'days' ? 'Every (days)' : 'Every (runtime hours)'}</Label>
+                <Input
+                  id="pmPlanInterval"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={intervalValue}
+                  onChange={(e) => setIntervalValue(e.target.value)}
+                  disabled={isLoading}
+                  className={errors.schedule ? 'border-destructive' : ''}
+                />
+              </div>
+              {scheduleType === 'days' && (
+                <div className="space-y-2">
+                  <Label htmlFor="pmPlanFirstDue">First Due</Label>
+                  <Input
+                    id="pmPlanFirstDue"
+                    type="date"
+                    value={firstDue}
+                    onChange={(e) => setFirstDue(e.target.value)}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          {errors.schedule && <p className="text-sm text-destructive">{errors.schedule}</p>}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="pmPlanPriority">Priority</Label>
+              <Select
+                value={priority}
+                onValueChange={(value) => setPriority(value as WorkOrderPriority)}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="pmPlanPriority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WORK_ORDER_PRIORITIES.map((p) => (
+                    <SelectItem key={p} value={p}>{PRIORITY_LABELS[p]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pmPlanAssignee">Assignee</Label>
+              <Input
+                id="pmPlanAssignee"
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                placeholder="Optional"
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pmPlanDescription">Description</Label>
+            <Textarea
+              id="pmPlanDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Steps or checklist for the work order"
+              disabled={isLoading}
+            />
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" form="pm-plan-form" disabled={isLoading}>
+            {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Plan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getPmPlans } from '@/services/api';
+import { PmPlanDialog } from '@/components/PmPlanDialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { usePermissions } from '@/hooks/use-auth';
+import { usePmPlanMutations } from '@/hooks/use-pm-plans';
+import { PRIORITY_LABELS, getPriorityVariant } from '@/lib/work-orders';
+import { describeNextDue, describeSchedule } from '@/lib/pm-plans';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface PmPlanListProps {
+  equipmentId: number;
+}
+
+export function PmPlanList({ equipmentId }: PmPlanListProps) {
+  const { can } = usePermissions();
+  const { addMutation, updateMutation, deleteMutation } = usePmPlanMutations();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const canManage = can('pm_plan:manage');
+
+  const { data: plans = [], isLoading, isError, error } = useQuery({
+    queryKey: ['pm-plans', 'equipment', equipmentId],
+    queryFn: () => getPmPlans({ equipmentId }),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+        Loading maintenance plans...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="bg-destructive/10 border border-destructive rounded-lg p-4 text-destructive">
+        Failed to load maintenance plans: {error instanceof Error ? error.message : 'Unknown error'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-foreground">Preventive Maintenance Plans</h3>
+        {canManage && (
+          <Button size="sm" variant="outline" onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Plan
+          </Button>
+        )}
+      </div>
+
+      {plans.length === 0 ? (
+        <p className="py-4 text-center text-sm text-muted-foreground">No maintenance plans yet.</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {plans.map((plan) => (
+            <li key={plan.id} className="py-3 first:pt-0 last:pb-0 flex flex-wrap items-start justify-between gap-3">
+              <div className="space-y-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className={`font-medium ${plan.active ? 'text-foreground' : 'text-muted-foreground'}`}>{plan.title}</p>
+                  <Badge variant={getPriorityVariant(plan.priority)}>{PRIORITY_LABELS[plan.priority]}</Badge>
+                  {!plan.active && <Badge variant="outline">Paused</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {[
+                    describeSchedule(plan),
+                    plan.active && `next due ${describeNextDue(plan)}`,
+                    plan.assignee && `assigned to ${plan.assignee}`,
+                    plan.openWorkOrders > 0 && `${plan.openWorkOrders} open work order(s)`,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              </div>
+
+              {canManage && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={plan.active}
+                    onCheckedChange={(active) => updateMutation.mutate({ id: plan.id, data: { active } })}
+                    disabled={updateMutation.isPending}
+                    aria-label={plan.active ? 'Pause plan' : 'Resume plan'}
+                  />
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Maintenance Plan</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Are you sure you want to delete "{plan.title}"? Work orders it already opened are kept.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => deleteMutation.mutate(plan.id)}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {dialogOpen && (
+        <PmPlanDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          isLoading={addMutation.isPending}
+          onSubmit={(data) =>
+            addMutation.mutate({ equipmentId, data }, { onSuccess: () => setDialogOpen(false) })
+          }
+        />
+      )}
+    </div>
+  );
+}
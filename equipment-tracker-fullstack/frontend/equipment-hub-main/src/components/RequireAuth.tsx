@@ -0,0 +1,27 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useCurrentUser } from '@/hooks/use-auth';
+import { useEquipmentEvents } from '@/hooks/use-equipment-events';
+import { Loader2 } from 'lucide-react';
+
+// Route guard: sends visitors without a session to the login page, which
+// returns them to the page they asked for after signing in. Signed-in pages
+// are kept up to date with changes made by others.
+export function RequireAuth() {
+  const location = useLocation();
+  const { data: user, isLoading } = useCurrentUser();
+  useEquipmentEvents();
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return <Outlet />;
+}
@@ -0,0 +1,85 @@
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { SearchMatch, searchEquipment } from '@/services/api';
+import { SEARCH_FIELD_LABELS } from '@/lib/search';
+import { Loader2 } from 'lucide-react';
+
+const SEARCH_LIMIT = 8;
+
+interface SearchResultsProps {
+  query: string;
+}
+
+function Snippet({ match }: { match: SearchMatch }) {
+  return (
+    <>
+      {match.snippet.map((part, index) =>
+        part.highlight ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// Best matches for the search box, shown under it, each linking to the item's
+// detail page with the matched words highlighted
+export function SearchResults({ query }: SearchResultsProps) {
+  // Shares the ['equipment'] prefix so changes to equipment refresh it too
+  const { data: results = [], isLoading, isError, error } = useQuery({
+    queryKey: ['equipment', 'search', query],
+    queryFn: () => searchEquipment(query, SEARCH_LIMIT),
+  });
+
+  return (
+    <div className="absolute left-0 right-0 top-full mt-1 z-20 max-h-96 overflow-y-auto rounded-md border border-border bg-popover shadow-md">
+      {isLoading ? (
+        <div className="p-3 text-sm text-muted-foreground flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Searching...
+        </div>
+      ) : isError ? (
+        <div className="p-3 text-sm text-destructive">
+          Search failed: {error instanceof Error ? error.message : 'Unknown error'}
+        </div>
+      ) : results.length === 0 ? (
+        <div className="p-3 text-sm text-muted-foreground">No matches</div>
+      ) : (
+        <ul className="py-1">
+          {results.map(({ equipment, matches }) => {
+            const nameMatch = matches.find((match) => match.field === 'name');
+            return (
+              <li key={equipment.id}>
+                {/* Keeps the focus in the search box, which would otherwise
+                    close this list before the click lands */}
+                <Link
+                  to={`/equipment/${equipment.id}`}
+                  onMouseDown={(e) => e.preventDefault()}
+                  className="block px-3 py-2 hover:bg-accent focus:bg-accent focus:outline-none"
+                >
+                  <div className="text-sm font-medium text-foreground">
+                    {nameMatch ? <Snippet match={nameMatch} /> : equipment.name}
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">
+                      {equipment.type} · {equipment.status}
+                    </span>
+                  </div>
+                  {matches
+                    .filter((match) => match.field !== 'name')
+                    .map((match) => (
+                      <p key={match.field} className="text-xs text-muted-foreground truncate">
+                        {SEARCH_FIELD_LABELS[match.field]}: <Snippet match={match} />
+                      </p>
+                    ))}
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { WorkOrderInput, WorkOrderPriority } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PRIORITY_LABELS, WORK_ORDER_PRIORITIES } from '@/lib/work-orders';
+import { Loader2 } from 'lucide-react';
+
+interface WorkOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (workOrder: WorkOrderInput) => void;
+  isLoading: boolean;
+}
+
+// Render only while open so every new work order starts from a blank form
+export function WorkOrderDialog({ open, onOpenChange, onSubmit, isLoading }: WorkOrderDialogProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState<WorkOrderPriority>('medium');
+  const [assignee, setAssignee] = useState('');
+  const [titleError, setTitleError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title.trim()) {
+      setTitleError('Title is required');
+      return;
+    }
+
+    onSubmit({
+      title: title.trim(),
+      description: description.trim() || null,
+      priority,
+      assignee: assignee.trim() || null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Work Order</DialogTitle>
+          <DialogDescription>
+            The equipment is set to Under Maintenance until all its work orders are closed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="work-order-form" onSubmit={handleSubmit} className="grid gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="workOrderTitle">Title *</Label>
+            <Input
+              id="workOrderTitle"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Replace drive belt"
+              disabled={isLoading}
+              className={titleError ? 'border-destructive' : ''}
+            />
+            {titleError && <p className="text-sm text-destructive">{titleError}</p>}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="workOrderPriority">Priority</Label>
+              <Select
+                value={priority}
+                onValueChange={(value) => setPriority(value as WorkOrderPriority)}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="workOrderPriority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WORK_ORDER_PRIORITIES.map((p) => (
+                    <SelectItem key={p} value={p}>{PRIORITY_LABELS[p]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="workOrderAssignee">Assignee</Label>
+              <Input
+                id="workOrderAssignee"
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                placeholder="Optional"
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="workOrderDescription">Description</Label>
+            <Textarea
+              id="workOrderDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What needs doing?"
+              disabled={isLoading}
+            />
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" form="work-order-form" disabled={isLoading}>
+            {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Open Work Order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { WorkOrder, getEquipmentWorkOrders } from '@/services/api';
+import { WorkOrderDialog } from '@/components/WorkOrderDialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { usePermissions } from '@/hooks/use-auth';
+import { useWorkOrderMutations } from '@/hooks/use-work-orders';
+import { formatTimestamp } from '@/lib/equipment';
+import { PRIORITY_LABELS, formatDowntime, getPriorityVariant } from '@/lib/work-orders';
+import { CheckCircle2, Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react';
+
+interface WorkOrderListProps {
+  equipmentId: number;
+}
+
+export function WorkOrderList({ equipmentId }: WorkOrderListProps) {
+  const { can } = usePermissions();
+  const { addMutation, updateMutation, deleteMutation } = useWorkOrderMutations();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { data: workOrders = [], isLoading, isError, error } = useQuery({
+    queryKey: ['work-orders', 'equipment', equipmentId],
+    queryFn: () => getEquipmentWorkOrders(equipmentId),
+  });
+
+  const setClosed = (workOrder: WorkOrder, closed: boolean) => {
+    updateMutation.mutate({ equipmentId, id: workOrder.id, data: { closed } });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+        Loading work orders...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="bg-destructive/10 border border-destructive rounded-lg p-4 text-destructive">
+        Failed to load work orders: {error instanceof Error ? error.message : 'Unknown error'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {can('work_order:create') && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Work Order
+          </Button>
+        </div>
+      )}
+
+      {workOrders.length === 0 ? (
+        <p className="p-8 text-center text-muted-foreground">No work orders yet.</p>
+      ) : (
+        // Open orders first, most urgent first, as returned by the API
+        <ul className="divide-y divide-border">
+          {workOrders.map((workOrder) => (
+            <li key={workOrder.id} className="py-3 first:pt-0 last:pb-0 flex flex-wrap items-start justify-between gap-3">
+              <div className="space-y-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="font-medium text-foreground">{workOrder.title}</p>
+                  <Badge variant={getPriorityVariant(workOrder.priority)}>{PRIORITY_LABELS[workOrder.priority]}</Badge>
+                  {workOrder.pmPlanId !== null && <Badge variant="outline">Preventive</Badge>}
+                  {workOrder.status === 'closed' && <Badge variant="outline">Closed</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {[
+                    `Opened ${formatTimestamp(workOrder.openedAt)}`,
+                    workOrder.assignee && `assigned to ${workOrder.assignee}`,
+                    workOrder.closedAt && `closed ${formatTimestamp(workOrder.closedAt)}`,
+                    workOrder.closedAt && `downtime ${formatDowntime(workOrder.downtimeMinutes)}`,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+                {workOrder.description && <p className="text-sm text-foreground">{workOrder.description}</p>}
+              </div>
+
+              <div className="flex gap-2">
+                {can('work_order:update') && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setClosed(workOrder, workOrder.status === 'open')}
+                    disabled={updateMutation.isPending}
+                  >
+                    {workOrder.status === 'open' ? (
+                      <>
+                        <CheckCircle2 className="h-4 w-4 mr-1" />
+                        Close
+                      </>
+                    ) : (
+                      <>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Reopen
+                      </>
+                    )}
+                  </Button>
+                )}
+                {can('work_order:delete') && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Work Order</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Are you sure you want to delete "{workOrder.title}"? This action cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => deleteMutation.mutate({ equipmentId, id: workOrder.id })}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {dialogOpen && (
+        <WorkOrderDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          isLoading={addMutation.isPending}
+          onSubmit={(data) =>
+            addMutation.mutate({ equipmentId, data }, { onSuccess: () => setDialogOpen(false) })
+          }
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AttachmentInput, deleteAttachment, uploadAttachment } from '@/services/api';
+import { useToast } from '@/hooks/use-toast';
+
+// Uploads and deletions are audited, so the history is refreshed too
+export function useAttachmentMutations() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const onSuccess = (description: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ['attachments'] });
+    queryClient.invalidateQueries({ queryKey: ['equipment-history'] });
+    toast({ title: 'Success', description });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: ({ equipmentId, data }: { equipmentId: number; data: AttachmentInput }) =>
+      uploadAttachment(equipmentId, data),
+    onSuccess: onSuccess('Attachment uploaded successfully'),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: ({ equipmentId, id }: { equipmentId: number; id: number }) => deleteAttachment(equipmentId, id),
+    onSuccess: onSuccess('Attachment deleted successfully'),
+    onError,
+  });
+
+  return { uploadMutation, deleteMutation };
+}
@@ -0,0 +1,48 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Permission, User, getCurrentUser, login, logout } from '@/services/api';
+
+export const AUTH_QUERY_KEY = ['auth', 'me'];
+
+// The signed-in user, or null when there is no session
+export function useCurrentUser() {
+  return useQuery({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getCurrentUser,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
+
+// Checks against the permissions the API granted the signed-in user
+export function usePermissions() {
+  const { data: user } = useCurrentUser();
+  const permissions = user?.permissions ?? [];
+
+  return {
+    can: (permission: Permission) => permissions.includes(permission),
+  };
+}
+
+export function useLogin() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ username, password }: { username: string; password: string }) => login(username, password),
+    onSuccess: (user: User) => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, user);
+    },
+  });
+}
+
+// Signing out drops every cached query so the next user starts fresh
+export function useLogout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: logout,
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(AUTH_QUERY_KEY, null);
+    },
+  });
+}
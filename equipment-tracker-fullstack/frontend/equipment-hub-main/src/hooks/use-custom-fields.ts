@@ -0,0 +1,19 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getCustomFields } from '@/services/api';
+
+// Custom field definitions are configured on the server per equipment type
+export function useCustomFields() {
+  const { data: fields = [] } = useQuery({
+    queryKey: ['meta', 'customFields'],
+    queryFn: getCustomFields,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const fieldsForType = useCallback(
+    (type: string) => fields.filter((field) => field.typeName === type),
+    [fields]
+  );
+
+  return { fields, fieldsForType };
+}
@@ -0,0 +1,155 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Equipment, EquipmentEvent, EquipmentPage, getEventsUrl } from '@/services/api';
+import { AUTH_QUERY_KEY, useCurrentUser } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { BULK_ACTION_VERBS, formatItemCount } from '@/lib/bulk';
+
+// Everything cached under ['equipment']: list pages, the overdue list and
+// detail views
+type EquipmentCache = EquipmentPage | Equipment[] | Equipment | undefined;
+
+// Replace an item wherever it is cached, or drop it when update returns null
+function patchCache(cached: EquipmentCache, id: number, update: Equipment | null): EquipmentCache {
+  if (!cached) return cached;
+
+  const patchList = (items: Equipment[]) =>
+    update
+      ? items.map((item) => (item.id === id ? update : item))
+      : items.filter((item) => item.id !== id);
+
+  if (Array.isArray(cached)) {
+    return patchList(cached);
+  }
+  if ('data' in cached) {
+    const data = patchList(cached.data);
+    return { ...cached, data, total: cached.total - (cached.data.length - data.length) };
+  }
+  return cached.id === id && update ? update : cached;
+}
+
+const TOAST_TITLES: Record<EquipmentEvent['action'], string> = {
+  create: 'Equipment added',
+  update: 'Equipment updated',
+  delete: 'Equipment deleted',
+  restore: 'Equipment restored',
+  import: 'Equipment imported',
+  bulk: 'Equipment changed',
+  purge: 'Trash emptied',
+  workOrder: 'Work order changed',
+  attachment: 'Attachment changed',
+  cascade: 'Equipment changed',
+};
+
+const WORK_ORDER_VERBS = { create: 'opened', update: 'updated', delete: 'deleted' };
+const ATTACHMENT_VERBS = { create: 'added', delete: 'removed' };
+const CASCADE_CAUSES = {
+  equipment_type: 'a type',
+  equipment_status: 'a status',
+  location: 'a location',
+  custom_field: 'a custom field',
+};
+const CASCADE_VERBS = { update: 'changing', delete: 'deleting' };
+
+function describeEvent(event: EquipmentEvent): string {
+  const actor = event.actor?.displayName ?? 'someone';
+  switch (event.action) {
+    case 'create':
+      return `${event.equipment.name} was added by ${actor}`;
+    case 'update':
+      return `${event.equipment.name} was updated by ${actor}`;
+    case 'delete':
+      return `${event.equipment.name} was deleted by ${actor}`;
+    case 'restore':
+      return `${event.equipment.name} was restored by ${actor}`;
+    case 'import':
+      return event.count === 1
+        ? `1 equipment item was imported by ${actor}`
+        : `${event.count} equipment items were imported by ${actor}`;
+    case 'bulk':
+      return `${formatItemCount(event.count)} ${event.count === 1 ? 'was' : 'were'} ${BULK_ACTION_VERBS[event.operation]} by ${actor}`;
+    case 'purge':
+      return `${formatItemCount(event.count)} ${event.count === 1 ? 'was' : 'were'} permanently deleted by ${actor}`;
+    case 'workOrder':
+      return `Work order "${event.workOrder.title}" on ${event.workOrder.equipmentName} was ${WORK_ORDER_VERBS[event.operation]} by ${actor}`;
+    case 'attachment':
+      return `${event.attachment.fileName} was ${ATTACHMENT_VERBS[event.operation]} by ${actor}`;
+    case 'cascade':
+      return `${formatItemCount(event.count)} ${event.count === 1 ? 'was' : 'were'} changed by ${actor} ${CASCADE_VERBS[event.operation]} ${CASCADE_CAUSES[event.entityType]}`;
+  }
+}
+
+// While signed in, listens for equipment changes made anywhere and applies
+// them to the cache. Changes by other users are announced with a toast; the
+// user's own are already confirmed by the mutation that made them.
+export function useEquipmentEvents() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: user } = useCurrentUser();
+  const username = user?.username;
+
+  useEffect(() => {
+    if (!username) return;
+
+    const source = new EventSource(getEventsUrl());
+    let disconnected = false;
+
+    source.addEventListener('equipment', (message) => {
+      const event: EquipmentEvent = JSON.parse((message as MessageEvent<string>).data);
+
+      if (event.action === 'update' || event.action === 'delete') {
+        const { id } = event.equipment;
+        queryClient.setQueriesData<EquipmentCache>({ queryKey: ['equipment'] }, (cached) =>
+          patchCache(cached, id, event.action === 'update' ? event.equipment : null)
+        );
+        // Whether the item is overdue may have changed, and a deleted item's
+        // detail view should show that it is gone
+        queryClient.invalidateQueries({ queryKey: ['equipment', 'overdue'] });
+        if (event.action === 'delete') {
+          queryClient.invalidateQueries({ queryKey: ['equipment', 'detail', id] });
+        }
+        queryClient.invalidateQueries({ queryKey: ['equipment-history', id] });
+        // Logging a cleaning is announced as an update of its equipment
+        queryClient.invalidateQueries({ queryKey: ['cleanings', id] });
+      } else if (event.action === 'workOrder') {
+        // A change in maintenance status follows as its own update event
+        queryClient.invalidateQueries({ queryKey: ['work-orders'] });
+        queryClient.invalidateQueries({ queryKey: ['equipment-history', event.workOrder.equipmentId] });
+      } else if (event.action === 'attachment') {
+        queryClient.invalidateQueries({ queryKey: ['attachments', event.attachment.equipmentId] });
+        queryClient.invalidateQueries({ queryKey: ['equipment-history', event.attachment.equipmentId] });
+      } else if (event.action !== 'purge') {
+        // Where new and restored items fall depends on each list's filters
+        // and sort, and bulk changes can move items in or out of any of them
+        queryClient.invalidateQueries({ queryKey: ['equipment'] });
+        if (event.action === 'bulk' || event.action === 'cascade') {
+          queryClient.invalidateQueries({ queryKey: ['equipment-history'] });
+        } else if (event.action === 'restore') {
+          queryClient.invalidateQueries({ queryKey: ['equipment-history', event.equipment.id] });
+        }
+      }
+
+      if (event.actor?.username !== username) {
+        toast({ title: TOAST_TITLES[event.action], description: describeEvent(event) });
+      }
+    });
+
+    // The browser reconnects by itself; anything missed meanwhile is refetched
+    source.addEventListener('open', () => {
+      if (disconnected) {
+        disconnected = false;
+        queryClient.invalidateQueries({ queryKey: ['equipment'] });
+      }
+    });
+
+    source.addEventListener('error', () => {
+      disconnected = true;
+      // A refused reconnect usually means the session has expired
+      if (source.readyState === EventSource.CLOSED) {
+        queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
+      }
+    });
+
+    return () => source.close();
+  }, [username, queryClient, toast]);
+}
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { getEquipmentStatuses, getEquipmentTypes } from '@/services/api';
+
+// Equipment types and statuses are configured on the server
+export function useEquipmentOptions() {
+  const { data: types = [] } = useQuery({
+    queryKey: ['meta', 'types'],
+    queryFn: getEquipmentTypes,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: statuses = [] } = useQuery({
+    queryKey: ['meta', 'statuses'],
+    queryFn: getEquipmentStatuses,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    typeOptions: types,
+    types: types.map((option) => option.name),
+    statuses: statuses.map((option) => option.name),
+  };
+}
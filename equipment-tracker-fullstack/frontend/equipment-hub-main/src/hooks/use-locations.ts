@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getLocations } from '@/services/api';
+import { buildLocationTree } from '@/lib/locations';
+
+// Shares the ['locations'] key so equipment changes can refresh the counts
+export function useLocations() {
+  const { data: locations = [], isLoading } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const tree = useMemo(() => buildLocationTree(locations), [locations]);
+
+  return { locations, tree, isLoading };
+}
@@ -0,0 +1,38 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { PmPlanInput, addPmPlan, deletePmPlan, updatePmPlan } from '@/services/api';
+import { useToast } from '@/hooks/use-toast';
+
+export function usePmPlanMutations() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const onSuccess = (description: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ['pm-plans'] });
+    queryClient.invalidateQueries({ queryKey: ['equipment-history'] });
+    toast({ title: 'Success', description });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: ({ equipmentId, data }: { equipmentId: number; data: PmPlanInput }) => addPmPlan(equipmentId, data),
+    onSuccess: onSuccess('PM plan created successfully'),
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<PmPlanInput> }) => updatePmPlan(id, data),
+    onSuccess: onSuccess('PM plan updated successfully'),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deletePmPlan,
+    onSuccess: onSuccess('PM plan deleted successfully'),
+    onError,
+  });
+
+  return { addMutation, updateMutation, deleteMutation };
+}
@@ -0,0 +1,49 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  WorkOrderInput,
+  WorkOrderUpdate,
+  addWorkOrder,
+  deleteWorkOrder,
+  updateWorkOrder,
+} from '@/services/api';
+import { useToast } from '@/hooks/use-toast';
+
+// Opening and closing work orders also changes the equipment's status, so
+// equipment and its history are refreshed along with the work orders
+export function useWorkOrderMutations() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const onSuccess = (description: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ['work-orders'] });
+    queryClient.invalidateQueries({ queryKey: ['equipment'] });
+    queryClient.invalidateQueries({ queryKey: ['equipment-history'] });
+    toast({ title: 'Success', description });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: ({ equipmentId, data }: { equipmentId: number; data: WorkOrderInput }) =>
+      addWorkOrder(equipmentId, data),
+    onSuccess: onSuccess('Work order opened successfully'),
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ equipmentId, id, data }: { equipmentId: number; id: number; data: WorkOrderUpdate }) =>
+      updateWorkOrder(equipmentId, id, data),
+    onSuccess: onSuccess('Work order updated successfully'),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: ({ equipmentId, id }: { equipmentId: number; id: number }) => deleteWorkOrder(equipmentId, id),
+    onSuccess: onSuccess('Work order deleted successfully'),
+    onError,
+  });
+
+  return { addMutation, updateMutation, deleteMutation };
+}
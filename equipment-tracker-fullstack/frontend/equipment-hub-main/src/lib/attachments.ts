@@ -0,0 +1,20 @@
+import { AttachmentCategory } from '@/services/api';
+
+export const ATTACHMENT_CATEGORIES: AttachmentCategory[] = ['manual', 'certificate', 'photo', 'other'];
+
+export const CATEGORY_LABELS: Record<AttachmentCategory, string> = {
+  manual: 'Manual',
+  certificate: 'Certificate',
+  photo: 'Photo',
+  other: 'Other',
+};
+
+// Mirrors the API's limits, so bad files are caught before uploading
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+export const ACCEPTED_ATTACHMENT_TYPES = 'application/pdf,image/png,image/jpeg,image/webp';
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,31 @@
+import { BulkAction, BulkResult, Equipment } from '@/services/api';
+
+// What each bulk action did, for messages
+export const BULK_ACTION_VERBS: Record<BulkAction, string> = {
+  delete: 'deleted',
+  setStatus: 'updated',
+  setType: 'updated',
+  markCleaned: 'marked cleaned',
+};
+
+export function formatItemCount(count: number): string {
+  return count === 1 ? '1 equipment item' : `${count} equipment items`;
+}
+
+// A one-line summary of a bulk result, naming the items that failed and why.
+// equipment is used to look up their names.
+export function summarizeBulkResult(result: BulkResult, equipment: Equipment[]): string {
+  const summary = `${formatItemCount(result.succeeded)} ${BULK_ACTION_VERBS[result.action]}`;
+  if (result.failed === 0) {
+    return summary;
+  }
+
+  const failures = result.results
+    .filter((item) => !item.success)
+    .map((item) => {
+      const name = equipment.find((e) => e.id === item.id)?.name ?? `#${item.id}`;
+      return `${name}: ${item.detail || item.title}`;
+    });
+
+  return `${summary}; ${result.failed} failed (${failures.join('; ')})`;
+}
@@ -0,0 +1,141 @@
+import { AssetField, CustomField, CustomFieldValue, Equipment, EquipmentInput, Location } from '@/services/api';
+import { formatCustomValue } from '@/lib/customFields';
+import { formatCost, formatDate } from '@/lib/equipment';
+import { getLocationPath } from '@/lib/locations';
+
+// An edit refused because the equipment changed while it was being made
+export interface EquipmentConflict {
+  // What the user saved
+  input: Partial<EquipmentInput>;
+  // The equipment as it now is
+  latest: Equipment;
+}
+
+// One field that differs between the user's edit and the latest version
+export interface ConflictRow {
+  key: string;
+  label: string;
+  mine: string;
+  latest: string;
+  changedByMe: boolean;
+  changedByOthers: boolean;
+}
+
+type EditableField =
+  | 'name'
+  | 'type'
+  | 'status'
+  | 'locationId'
+  | 'cleaningIntervalDays'
+  | 'runtimeHours'
+  | AssetField;
+
+type FieldValue = string | number | null | undefined;
+
+const FIELD_LABELS: Record<EditableField, string> = {
+  name: 'Name',
+  type: 'Type',
+  status: 'Status',
+  locationId: 'Location',
+  cleaningIntervalDays: 'Clean Every (days)',
+  runtimeHours: 'Runtime Hours',
+  assetTag: 'Asset Tag',
+  serialNumber: 'Serial Number',
+  manufacturer: 'Manufacturer',
+  model: 'Model',
+  installDate: 'Install Date',
+  purchaseCost: 'Purchase Cost',
+};
+
+const EDITABLE_FIELDS = Object.keys(FIELD_LABELS) as EditableField[];
+
+// Missing and empty values are all "no value"
+const normalize = (value: FieldValue | CustomFieldValue) => (value === undefined || value === '' ? null : value);
+
+const isSame = (a: FieldValue | CustomFieldValue, b: FieldValue | CustomFieldValue) => normalize(a) === normalize(b);
+
+// The part of an edit that actually changes the version it started from, so
+// saving it over a newer version keeps everyone else's changes to other fields
+export function getOwnEdits(base: Equipment, input: Partial<EquipmentInput>): Partial<EquipmentInput> {
+  const edits: Partial<EquipmentInput> = {};
+
+  EDITABLE_FIELDS.forEach((field) => {
+    if (input[field] !== undefined && !isSame(input[field], base[field])) {
+      Object.assign(edits, { [field]: input[field] });
+    }
+  });
+
+  const customEdits = Object.entries(input.customFields ?? {}).filter(
+    ([key, value]) => !isSame(value, base.customFields[key])
+  );
+  if (customEdits.length > 0) {
+    edits.customFields = Object.fromEntries(customEdits);
+  }
+
+  if (input.cleaning) {
+    edits.cleaning = input.cleaning;
+  }
+
+  return edits;
+}
+
+function formatField(field: EditableField, value: FieldValue, locations: Location[]): string {
+  if (value === null || value === undefined || value === '') return '—';
+  switch (field) {
+    case 'locationId':
+      return getLocationPath(locations, Number(value)) || '—';
+    case 'cleaningIntervalDays':
+      return `${value} days`;
+    case 'runtimeHours':
+      return Number(value).toLocaleString('en-US');
+    case 'installDate':
+      return formatDate(String(value));
+    case 'purchaseCost':
+      return formatCost(Number(value));
+    default:
+      return String(value);
+  }
+}
+
+// The fields where the user's edit and the latest version disagree, noting
+// who changed each since the user started from base. customFields are the
+// definitions of the type being edited.
+export function getConflictRows(
+  base: Equipment,
+  conflict: EquipmentConflict,
+  locations: Location[],
+  customFields: CustomField[]
+): ConflictRow[] {
+  const { latest } = conflict;
+  const edits = getOwnEdits(base, conflict.input);
+  const rows: ConflictRow[] = [];
+
+  EDITABLE_FIELDS.forEach((field) => {
+    const mine = edits[field] !== undefined ? edits[field] : base[field];
+    if (isSame(mine, latest[field])) return;
+    rows.push({
+      key: field,
+      label: FIELD_LABELS[field],
+      mine: formatField(field, mine, locations),
+      latest: formatField(field, latest[field], locations),
+      changedByMe: edits[field] !== undefined,
+      changedByOthers: !isSame(base[field], latest[field]),
+    });
+  });
+
+  customFields.forEach((field) => {
+    const edited = edits.customFields?.[field.key];
+    const mine = edited !== undefined ? edited : base.customFields[field.key];
+    if (isSame(mine, latest.customFields[field.key])) return;
+    rows.push({
+      key: `customFields.${field.key}`,
+      label: field.label,
+      mine: formatCustomValue(field, mine ?? undefined),
+      latest: formatCustomValue(field, latest.customFields[field.key]),
+      changedByMe: edited !== undefined,
+      changedByOthers: !isSame(base.customFields[field.key], latest.customFields[field.key]),
+    });
+  });
+
+  return rows;
+}
@@ -0,0 +1,70 @@
+import { CustomField, CustomFieldValue } from '@/services/api';
+import { formatDate } from '@/lib/equipment';
+
+// What a custom field input holds while editing: booleans as a switch,
+// everything else as the text typed or picked
+export type CustomFieldDraft = string | boolean;
+
+export function toDraft(field: CustomField, value: CustomFieldValue | undefined): CustomFieldDraft {
+  if (field.fieldType === 'boolean') {
+    return value === true;
+  }
+  return value === undefined ? '' : String(value);
+}
+
+// Mirrors the server's checks so mistakes show before submitting
+export function validateDraft(field: CustomField, draft: CustomFieldDraft): string | undefined {
+  if (typeof draft === 'boolean') {
+    return undefined;
+  }
+
+  const text = draft.trim();
+  if (!text) {
+    return field.required ? `${field.label} is required` : undefined;
+  }
+
+  const { min, max } = field;
+  switch (field.fieldType) {
+    case 'number': {
+      const value = Number(text);
+      if (!Number.isFinite(value)) return 'Enter a number';
+      if (min !== null && value < min) return `Must be at least ${min}`;
+      if (max !== null && value > max) return `Must be at most ${max}`;
+      return undefined;
+    }
+    case 'text':
+      if (min !== null && text.length < min) return `Must be at least ${min} characters`;
+      if (max !== null && text.length > max) return `Must be at most ${max} characters`;
+      return undefined;
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(text) ? undefined : 'Invalid date format';
+    default:
+      return undefined;
+  }
+}
+
+// The value sent to the server; null clears it
+export function fromDraft(field: CustomField, draft: CustomFieldDraft): CustomFieldValue | null {
+  if (typeof draft === 'boolean') {
+    return draft;
+  }
+  const text = draft.trim();
+  if (!text) {
+    return null;
+  }
+  return field.fieldType === 'number' ? Number(text) : text;
+}
+
+export function formatCustomValue(field: CustomField, value: CustomFieldValue | undefined): string {
+  if (value === undefined) return '—';
+  switch (field.fieldType) {
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'date':
+      return formatDate(String(value));
+    case 'number':
+      return Number(value).toLocaleString('en-US');
+    default:
+      return String(value);
+  }
+}
@@ -0,0 +1,45 @@
+import { Equipment } from '@/services/api';
+
+export function getStatusVariant(status: Equipment['status']): 'default' | 'secondary' | 'destructive' {
+  switch (status) {
+    case 'Active':
+      return 'default';
+    case 'Inactive':
+      return 'secondary';
+    case 'Under Maintenance':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+}
+
+export function formatDate(dateString: string | null): string {
+  if (!dateString) return '—';
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+// Costs carry no currency; two decimals with thousands separators
+export function formatCost(cost: number | null): string {
+  if (cost === null) return '—';
+  return cost.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+// SQLite timestamps are UTC without a zone designator
+export function formatTimestamp(timestamp: string): string {
+  const date = new Date(`${timestamp.replace(' ', 'T')}Z`);
+  return date.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
@@ -0,0 +1,61 @@
+import { Location, LocationKind } from '@/services/api';
+
+export const LOCATION_KIND_LABELS: Record<LocationKind, string> = {
+  site: 'Site',
+  building: 'Building',
+  area: 'Area',
+  room: 'Room',
+};
+
+export interface LocationNode extends Location {
+  children: LocationNode[];
+  // Equipment in this location and every location below it
+  totalEquipmentCount: number;
+}
+
+// Nest the flat list from the API, keeping its name order at every level
+export function buildLocationTree(locations: Location[]): LocationNode[] {
+  const nodes = new Map<number, LocationNode>();
+  locations.forEach((location) => {
+    nodes.set(location.id, { ...location, children: [], totalEquipmentCount: 0 });
+  });
+
+  const roots: LocationNode[] = [];
+  locations.forEach((location) => {
+    const node = nodes.get(location.id)!;
+    const parent = location.parentId !== null ? nodes.get(location.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const countEquipment = (node: LocationNode): number => {
+    node.totalEquipmentCount = node.children.reduce(
+      (total, child) => total + countEquipment(child),
+      node.equipmentCount
+    );
+    return node.totalEquipmentCount;
+  };
+  roots.forEach(countEquipment);
+
+  return roots;
+}
+
+// Depth-first, so that indenting by depth draws the tree
+export function flattenLocationTree(tree: LocationNode[], depth = 0): { node: LocationNode; depth: number }[] {
+  return tree.flatMap((node) => [{ node, depth }, ...flattenLocationTree(node.children, depth + 1)]);
+}
+
+// e.g. "Plant 1 / Building A / Room 3"
+export function getLocationPath(locations: Location[], id: number | null): string {
+  const names: string[] = [];
+  let current = locations.find((location) => location.id === id);
+  while (current) {
+    names.unshift(current.name);
+    const parentId = current.parentId;
+    current = locations.find((location) => location.id === parentId);
+  }
+  return names.join(' / ');
+}
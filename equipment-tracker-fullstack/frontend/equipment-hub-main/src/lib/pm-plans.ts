@@ -0,0 +1,26 @@
+import { PmPlan, PmScheduleType } from '@/services/api';
+import { formatTimestamp } from '@/lib/equipment';
+
+export const SCHEDULE_TYPE_LABELS: Record<PmScheduleType, string> = {
+  days: 'Every N days',
+  runtime_hours: 'Every N runtime hours',
+  cron: 'Calendar rule (cron)',
+};
+
+export function describeSchedule(plan: PmPlan): string {
+  switch (plan.scheduleType) {
+    case 'days':
+      return plan.intervalDays === 1 ? 'Every day' : `Every ${plan.intervalDays} days`;
+    case 'runtime_hours':
+      return `Every ${plan.intervalHours} runtime hours`;
+    default:
+      return `Cron: ${plan.cron} (UTC)`;
+  }
+}
+
+export function describeNextDue(plan: PmPlan): string {
+  if (plan.scheduleType === 'runtime_hours') {
+    return `At ${plan.nextDueRuntimeHours} h (${plan.runtimeHoursRemaining} h to go)`;
+  }
+  return plan.nextDueAt ? formatTimestamp(plan.nextDueAt) : '—';
+}
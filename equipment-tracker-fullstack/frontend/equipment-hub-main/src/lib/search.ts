@@ -0,0 +1,18 @@
+import { SearchField } from '@/services/api';
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  name: 'Name',
+  type: 'Type',
+  status: 'Status',
+  assetTag: 'Asset Tag',
+  serialNumber: 'Serial Number',
+  manufacturer: 'Manufacturer',
+  model: 'Model',
+  cleaningNotes: 'Cleaning notes',
+  workOrders: 'Work orders',
+};
+
+// Search only looks at letters and digits; text without any matches nothing
+export function hasSearchWords(text: string): boolean {
+  return /[\p{L}\p{N}]/u.test(text);
+}
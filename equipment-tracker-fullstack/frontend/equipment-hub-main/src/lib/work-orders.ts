@@ -0,0 +1,30 @@
+import { WorkOrderPriority } from '@/services/api';
+
+export const WORK_ORDER_PRIORITIES: WorkOrderPriority[] = ['low', 'medium', 'high', 'critical'];
+
+export const PRIORITY_LABELS: Record<WorkOrderPriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical',
+};
+
+export function getPriorityVariant(priority: WorkOrderPriority): 'default' | 'secondary' | 'destructive' | 'outline' {
+  switch (priority) {
+    case 'critical':
+      return 'destructive';
+    case 'high':
+      return 'default';
+    case 'medium':
+      return 'secondary';
+    default:
+      return 'outline';
+  }
+}
+
+export function formatDowntime(minutes: number | null): string {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+}
@@ -0,0 +1,202 @@
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { getEquipmentById } from '@/services/api';
+import { AppHeader } from '@/components/AppHeader';
+import { AttachmentList } from '@/components/AttachmentList';
+import { CleaningDueBadge } from '@/components/CleaningDueBadge';
+import { CleaningTimeline } from '@/components/CleaningTimeline';
+import { EquipmentHistory } from '@/components/EquipmentHistory';
+import { PmPlanList } from '@/components/PmPlanList';
+import { WorkOrderList } from '@/components/WorkOrderList';
+import { usePermissions } from '@/hooks/use-auth';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { useLocations } from '@/hooks/use-locations';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { formatCustomValue } from '@/lib/customFields';
+import { formatCost, formatDate, formatTimestamp, getStatusVariant } from '@/lib/equipment';
+import { getLocationPath } from '@/lib/locations';
+import { ArrowLeft, Loader2, MapPin } from 'lucide-react';
+
+function formatInterval(days: number | null): string {
+  if (days === null) return 'No schedule';
+  return days === 1 ? 'Every day' : `Every ${days} days`;
+}
+
+const EquipmentDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const equipmentId = Number(id);
+
+  // Under the ['equipment'] prefix so list mutations refresh it too
+  const { data: equipment, isLoading, isError, error } = useQuery({
+    queryKey: ['equipment', 'detail', equipmentId],
+    queryFn: () => getEquipmentById(equipmentId),
+    enabled: Number.isInteger(equipmentId) && equipmentId > 0,
+  });
+
+  const { locations } = useLocations();
+  const { fieldsForType } = useCustomFields();
+  const { can } = usePermissions();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to equipment
+          </Link>
+        </Button>
+
+        {isLoading && (
+          <div className="p-8 text-center text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+            Loading equipment...
+          </div>
+        )}
+
+        {isError && (
+          <div className="bg-destructive/10 border border-destructive rounded-lg p-4 text-destructive">
+            Failed to load equipment: {error instanceof Error ? error.message : 'Unknown error'}
+          </div>
+        )}
+
+        {equipment && (
+          <>
+            {/* Header Info */}
+            <div className="bg-card border border-border rounded-lg p-4 sm:p-6 space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <h2 className="text-xl font-semibold text-foreground">{equipment.name}</h2>
+                  <p className="text-sm text-muted-foreground">{equipment.type}</p>
+                  {equipment.locationId !== null && (
+                    <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+                      <MapPin className="h-3.5 w-3.5" />
+                      {getLocationPath(locations, equipment.locationId) || equipment.locationName}
+                    </p>
+                  )}
+                </div>
+                <Badge variant={getStatusVariant(equipment.status)}>{equipment.status}</Badge>
+              </div>
+
+              <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5 text-sm">
+                <div>
+                  <dt className="text-muted-foreground">Last cleaned</dt>
+                  <dd className="font-medium text-foreground">{formatDate(equipment.lastCleanedDate)}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Next cleaning due</dt>
+                  <dd className="font-medium text-foreground flex items-center gap-2">
+                    {formatDate(equipment.nextCleaningDue)}
+                    <CleaningDueBadge equipment={equipment} />
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Cleaning schedule</dt>
+                  <dd className="font-medium text-foreground">
+                    {formatInterval(equipment.effectiveCleaningIntervalDays)}
+                    {equipment.cleaningIntervalDays === null && equipment.effectiveCleaningIntervalDays !== null && (
+                      <span className="font-normal text-muted-foreground"> (type default)</span>
+                    )}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Cleanings logged</dt>
+                  <dd className="font-medium text-foreground tabular-nums">{equipment.cleaningCount}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Runtime hours</dt>
+                  <dd className="font-medium text-foreground tabular-nums">{equipment.runtimeHours}</dd>
+                </div>
+              </dl>
+
+              <dl className="grid gap-4 sm:grid-cols-3 lg:grid-cols-6 text-sm pt-4 border-t border-border">
+                <div>
+                  <dt className="text-muted-foreground">Asset tag</dt>
+                  <dd className="font-medium text-foreground font-mono">{equipment.assetTag ?? '—'}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Serial number</dt>
+                  <dd className="font-medium text-foreground font-mono">{equipment.serialNumber ?? '—'}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Manufacturer</dt>
+                  <dd className="font-medium text-foreground">{equipment.manufacturer ?? '—'}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Model</dt>
+                  <dd className="font-medium text-foreground">{equipment.model ?? '—'}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Installed</dt>
+                  <dd className="font-medium text-foreground">{formatDate(equipment.installDate)}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Purchase cost</dt>
+                  <dd className="font-medium text-foreground tabular-nums">{formatCost(equipment.purchaseCost)}</dd>
+                </div>
+              </dl>
+
+              {fieldsForType(equipment.type).length > 0 && (
+                <dl className="grid gap-4 sm:grid-cols-3 lg:grid-cols-6 text-sm pt-4 border-t border-border">
+                  {fieldsForType(equipment.type).map((field) => (
+                    <div key={field.id}>
+                      <dt className="text-muted-foreground">{field.label}</dt>
+                      <dd className="font-medium text-foreground">
+                        {formatCustomValue(field, equipment.customFields[field.key])}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+
+              {equipment.createdAt && (
+                <p className="text-xs text-muted-foreground">
+                  Added {formatTimestamp(equipment.createdAt)}
+                  {equipment.updatedAt && ` · Updated ${formatTimestamp(equipment.updatedAt)}`}
+                </p>
+              )}
+            </div>
+
+            {/* Related Records */}
+            <Tabs defaultValue="cleanings">
+              <TabsList className="w-full sm:w-auto overflow-x-auto justify-start">
+                <TabsTrigger value="cleanings">Cleanings</TabsTrigger>
+                <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
+                <TabsTrigger value="attachments">Attachments</TabsTrigger>
+                {can('audit:read') && <TabsTrigger value="history">History</TabsTrigger>}
+              </TabsList>
+
+              <div className="bg-card border border-border rounded-lg p-4 sm:p-6 mt-2">
+                <TabsContent value="cleanings" className="mt-0">
+                  <CleaningTimeline equipmentId={equipment.id} />
+                </TabsContent>
+                <TabsContent value="maintenance" className="mt-0">
+                  <div className="space-y-6">
+                    <WorkOrderList equipmentId={equipment.id} />
+                    <div className="pt-6 border-t border-border">
+                      <PmPlanList equipmentId={equipment.id} />
+                    </div>
+                  </div>
+                </TabsContent>
+                <TabsContent value="attachments" className="mt-0">
+                  <AttachmentList equipmentId={equipment.id} />
+                </TabsContent>
+                {can('audit:read') && (
+                  <TabsContent value="history" className="mt-0">
+                    <EquipmentHistory equipmentId={equipment.id} />
+                  </TabsContent>
+                )}
+              </div>
+            </Tabs>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default EquipmentDetail;
@@ -1,38 +1,152 @@
-import { useState, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Equipment, EquipmentInput, getEquipment, addEquipment, updateEquipment, deleteEquipment } from '@/services/api';
+import { Fragment, useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import {
+  Equipment,
+  EquipmentInput,
+  EquipmentQuery,
+  EquipmentSortField,
+  getEquipment,
+  getOverdueEquipment,
+  getExportUrl,
+  addEquipment,
+  updateEquipment,
+  deleteEquipment,
+  restoreEquipment,
+  addCleaning,
+  bulkUpdateEquipment,
+  BulkRequest,
+  CleaningEventInput,
+  VersionConflictError,
+} from '@/services/api';
 import { EquipmentForm } from '@/components/EquipmentForm';
+import { ConflictResolution } from '@/components/EquipmentConflictDialog';
 import { EquipmentTable } from '@/components/EquipmentTable';
+import { EquipmentPagination } from '@/components/EquipmentPagination';
+import { EquipmentHistory } from '@/components/EquipmentHistory';
+import { ImportWizard } from '@/components/ImportWizard';
+import { AppHeader } from '@/components/AppHeader';
+import { LocationFilter, LocationSidebar, LocationTree } from '@/components/LocationSidebar';
+import { SearchResults } from '@/components/SearchResults';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useEquipmentOptions } from '@/hooks/use-equipment-options';
+import { useLocations } from '@/hooks/use-locations';
+import { usePermissions } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
+import { summarizeBulkResult } from '@/lib/bulk';
+import { EquipmentConflict, getOwnEdits } from '@/lib/conflicts';
+import { hasSearchWords } from '@/lib/search';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToastAction } from '@/components/ui/toast';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Search, ArrowUpDown, Filter } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { SidebarProvider } from '@/components/ui/sidebar';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Search, ArrowUpDown, Filter, Upload, Download, MapPin, Columns3 } from 'lucide-react';
 
-type SortField = 'name' | 'type' | 'status' | 'lastCleanedDate';
+type SortField = Extract<EquipmentSortField, 'name' | 'assetTag' | 'type' | 'status' | 'lastCleanedDate' | 'nextCleaningDue'>;
 type SortDirection = 'asc' | 'desc';
 
+const SORT_LABELS: Record<SortField, string> = {
+  name: 'Name',
+  assetTag: 'Asset Tag',
+  type: 'Type',
+  status: 'Status',
+  lastCleanedDate: 'Last Cleaned',
+  nextCleaningDue: 'Next Due',
+};
+
+const PAGE_SIZE = 20;
+
+// How long typing has to pause before the search runs
+const SEARCH_DEBOUNCE_MS = 300;
+
 const Index = () => {
   const [editingEquipment, setEditingEquipment] = useState<Equipment | null>(null);
+  const [conflict, setConflict] = useState<EquipmentConflict | null>(null);
+  const [historyEquipment, setHistoryEquipment] = useState<Equipment | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isLocationsOpen, setIsLocationsOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [isSearchFocused, setIsSearchFocused] = useState(false);
   const [typeFilter, setTypeFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [locationFilter, setLocationFilter] = useState<LocationFilter>('all');
+  const [overdueOnly, setOverdueOnly] = useState(false);
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [page, setPage] = useState(1);
+  // Custom fields the user chose to show as table columns
+  const [visibleFieldIds, setVisibleFieldIds] = useState<number[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { types, statuses } = useEquipmentOptions();
+  const { locations } = useLocations();
+  const { fields: customFields } = useCustomFields();
+  const { can } = usePermissions();
+  const debouncedSearch = useDebouncedValue(searchQuery.trim(), SEARCH_DEBOUNCE_MS);
+
+  // Filtering, sorting and paging all happen on the server
+  const query: EquipmentQuery = {
+    page,
+    pageSize: PAGE_SIZE,
+    q: debouncedSearch || undefined,
+    type: typeFilter !== 'all' ? typeFilter : undefined,
+    status: statusFilter !== 'all' ? statusFilter : undefined,
+    locationId: locationFilter !== 'all' ? locationFilter : undefined,
+    overdue: overdueOnly || undefined,
+    sort: sortField,
+    order: sortDirection,
+  };
 
   // Fetch equipment from API
-  const { data: equipment = [], isLoading, isError, error } = useQuery({
-    queryKey: ['equipment'],
-    queryFn: getEquipment,
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['equipment', query],
+    queryFn: () => getEquipment(query),
+    placeholderData: keepPreviousData,
+  });
+
+  // Shares the ['equipment'] prefix so mutations refresh the count too
+  const { data: overdueEquipment = [] } = useQuery({
+    queryKey: ['equipment', 'overdue'],
+    queryFn: getOverdueEquipment,
   });
 
+  const equipment = data?.data ?? [];
+  const total = data?.total ?? 0;
+  const totalPages = data?.totalPages ?? 0;
+
+  // Only rows on the current page stay selected, so items that were deleted
+  // or filtered out meanwhile drop out of the selection
+  const visibleSelectedIds = selectedIds.filter((id) => equipment.some((item) => item.id === id));
+
+  // Step back when the current page disappears, e.g. after deleting its last item
+  useEffect(() => {
+    if (totalPages > 0 && page > totalPages) {
+      setPage(totalPages);
+    }
+  }, [page, totalPages]);
+
   // Add mutation
   const addMutation = useMutation({
     mutationFn: addEquipment,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['equipment'] });
+      queryClient.invalidateQueries({ queryKey: ['equipment-history'] });
+      queryClient.invalidateQueries({ queryKey: ['cleanings'] });
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
       toast({ title: 'Success', description: 'Equipment added successfully' });
     },
     onError: (error: Error) => {
@@ -40,93 +154,164 @@ const Index = () => {
     },
   });
 
-  // Update mutation
+  // Update mutation; a version conflict is left for the form to resolve
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: number; data: Partial<EquipmentInput> }) => updateEquipment(id, data),
+    mutationFn: ({ id, data, version }: { id: number; data: Partial<EquipmentInput>; version: number }) =>
+      updateEquipment(id, data, version),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['equipment'] });
+      queryClient.invalidateQueries({ queryKey: ['equipment-history'] });
+      queryClient.invalidateQueries({ queryKey: ['cleanings'] });
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
       setEditingEquipment(null);
+      setConflict(null);
       toast({ title: 'Success', description: 'Equipment updated successfully' });
     },
-    onError: (error: Error) => {
+    onError: (error: Error, { data }) => {
+      if (error instanceof VersionConflictError) {
+        setConflict({ input: data, latest: error.current });
+        return;
+      }
       toast({ title: 'Error', description: error.message, variant: 'destructive' });
     },
   });
 
-  // Delete mutation
-  const deleteMutation = useMutation({
-    mutationFn: deleteEquipment,
+  // Cleaning mutation, for users who may log cleanings but not edit equipment
+  const cleaningMutation = useMutation({
+    mutationFn: ({ id, cleaning }: { id: number; cleaning: CleaningEventInput }) => addCleaning(id, cleaning),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['equipment'] });
-      toast({ title: 'Success', description: 'Equipment deleted successfully' });
+      queryClient.invalidateQueries({ queryKey: ['equipment-history'] });
+      queryClient.invalidateQueries({ queryKey: ['cleanings'] });
+      setEditingEquipment(null);
+      toast({ title: 'Success', description: 'Cleaning logged successfully' });
     },
     onError: (error: Error) => {
       toast({ title: 'Error', description: error.message, variant: 'destructive' });
     },
   });
 
-  // Filter and sort equipment
-  const filteredAndSortedEquipment = useMemo(() => {
-    let result = [...equipment];
-
-    // Apply search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(
-        item =>
-          item.name.toLowerCase().includes(query) ||
-          item.type.toLowerCase().includes(query) ||
-          item.status.toLowerCase().includes(query)
-      );
-    }
-
-    // Apply type filter
-    if (typeFilter !== 'all') {
-      result = result.filter(item => item.type === typeFilter);
-    }
-
-    // Apply status filter
-    if (statusFilter !== 'all') {
-      result = result.filter(item => item.status === statusFilter);
-    }
-
-    // Apply sorting
-    result.sort((a, b) => {
-      let aValue = a[sortField] ?? '';
-      let bValue = b[sortField] ?? '';
+  // Restore mutation, behind the Undo of a delete
+  const restoreMutation = useMutation({
+    mutationFn: restoreEquipment,
+    onSuccess: (restored) => {
+      queryClient.invalidateQueries({ queryKey: ['equipment'] });
+      queryClient.invalidateQueries({ queryKey: ['equipment-history'] });
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      toast({ title: 'Success', description: `"${restored.name}" restored` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
 
-      if (typeof aValue === 'string' && typeof bValue === 'string') {
-        aValue = aValue.toLowerCase();
-        bValue = bValue.toLowerCase();
+  // Delete mutation; deleted equipment goes to the trash, so the toast offers
+  // to undo it
+  const deleteMutation = useMutation({
+    mutationFn: ({ id, version }: { id: number; version: number }) => deleteEquipment(id, version),
+    onSuccess: (deleted) => {
+      queryClient.invalidateQueries({ queryKey: ['equipment'] });
+      queryClient.invalidateQueries({ queryKey: ['equipment-history'] });
+      queryClient.invalidateQueries({ queryKey: ['cleanings'] });
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      toast({
+        title: 'Success',
+        description: `"${deleted.name}" moved to the trash`,
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => restoreMutation.mutate(deleted.id)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    onError: (error: Error) => {
+      // Show the latest version so the user can decide again
+      if (error instanceof VersionConflictError) {
+        queryClient.invalidateQueries({ queryKey: ['equipment'] });
       }
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
 
-      if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
-    });
+  // Bulk mutation; failed items stay selected so they can be retried
+  const bulkMutation = useMutation({
+    mutationFn: bulkUpdateEquipment,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['equipment'] });
+      queryClient.invalidateQueries({ queryKey: ['equipment-history'] });
+      queryClient.invalidateQueries({ queryKey: ['cleanings'] });
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      setSelectedIds(result.results.filter((item) => !item.success).map((item) => item.id));
+      toast({
+        title: result.failed > 0 ? 'Some changes failed' : 'Success',
+        description: summarizeBulkResult(result, equipment),
+        variant: result.failed > 0 ? 'destructive' : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
 
-    return result;
-  }, [equipment, searchQuery, typeFilter, statusFilter, sortField, sortDirection]);
+  const handleBulkAction = (action: Omit<BulkRequest, 'ids' | 'versions'>) => {
+    // Each item is only changed if it is still at the version shown
+    const versions = Object.fromEntries(
+      equipment.filter((item) => visibleSelectedIds.includes(item.id)).map((item) => [item.id, item.version])
+    );
+    bulkMutation.mutate({ ...action, ids: visibleSelectedIds, versions });
+  };
 
-  const handleSubmit = (data: EquipmentInput) => {
-    if (editingEquipment) {
-      updateMutation.mutate({ id: editingEquipment.id, data });
+  // Resolves once saved and rejects on failure, so the form can show field
+  // errors from the API; the mutations report everything else
+  const handleSubmit = async (data: EquipmentInput) => {
+    if (editingEquipment && can('equipment:update')) {
+      await updateMutation.mutateAsync({ id: editingEquipment.id, data, version: editingEquipment.version });
+    } else if (editingEquipment) {
+      if (data.cleaning) {
+        await cleaningMutation.mutateAsync({ id: editingEquipment.id, cleaning: data.cleaning });
+      }
     } else {
-      addMutation.mutate(data);
+      await addMutation.mutateAsync(data);
+    }
+  };
+
+  // Saving over the latest version sends only the user's own edits, so
+  // changes others made to other fields survive
+  const handleResolveConflict = (resolution: ConflictResolution) => {
+    if (!editingEquipment || !conflict) return;
+    if (resolution === 'keep-mine') {
+      updateMutation.mutate({
+        id: editingEquipment.id,
+        data: getOwnEdits(editingEquipment, conflict.input),
+        version: conflict.latest.version,
+      });
+      return;
+    }
+    if (resolution === 'use-latest') {
+      setEditingEquipment(conflict.latest);
     }
+    setConflict(null);
   };
 
   const handleEdit = (item: Equipment) => {
     setEditingEquipment(item);
+    setConflict(null);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const handleDelete = (id: number) => {
-    deleteMutation.mutate(id);
+  const handleDelete = (item: Equipment) => {
+    deleteMutation.mutate({ id: item.id, version: item.version });
   };
 
   const handleCancel = () => {
     setEditingEquipment(null);
+    setConflict(null);
+  };
+
+  const toggleColumn = (fieldId: number) => {
+    setVisibleFieldIds((ids) =>
+      ids.includes(fieldId) ? ids.filter((id) => id !== fieldId) : [...ids, fieldId]
+    );
   };
 
   const toggleSort = (field: SortField) => {
@@ -136,126 +321,279 @@ const Index = () => {
       setSortField(field);
       setSortDirection('asc');
     }
+    setPage(1);
+  };
+
+  // Any change to the filters starts again from the first page
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    setPage(1);
+  };
+
+  const handleTypeFilterChange = (value: string) => {
+    setTypeFilter(value);
+    setPage(1);
+  };
+
+  const handleStatusFilterChange = (value: string) => {
+    setStatusFilter(value);
+    setPage(1);
   };
 
-  const isSubmitting = addMutation.isPending || updateMutation.isPending;
+  const handleOverdueOnlyChange = (checked: boolean) => {
+    setOverdueOnly(checked);
+    setPage(1);
+  };
+
+  const handleLocationFilterChange = (filter: LocationFilter) => {
+    setLocationFilter(filter);
+    setIsLocationsOpen(false);
+    setPage(1);
+  };
+
+  const isSubmitting = addMutation.isPending || updateMutation.isPending || cleaningMutation.isPending;
+
+  // Operators only see the form while logging a cleaning
+  const showForm = editingEquipment !== null || can('equipment:create');
+
+  const locationLabel = locationFilter === 'all'
+    ? 'All locations'
+    : locationFilter === 'none'
+      ? 'No location'
+      : locations.find((location) => location.id === locationFilter)?.name ?? 'Location';
 
   return (
     <div className="min-h-screen bg-background">
-      <header className="bg-primary text-primary-foreground py-4 px-4 sm:px-6 shadow-sm">
-        <div className="max-w-6xl mx-auto">
-          <h1 className="text-xl sm:text-2xl font-bold">Equipment Tracker</h1>
-          <p className="text-sm text-primary-foreground/80 mt-1">Manage your equipment inventory</p>
-        </div>
-      </header>
-
-      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6 sm:py-8">
-        <div className="grid gap-6 lg:gap-8 lg:grid-cols-[350px_1fr]">
-          <aside className="order-2 lg:order-1">
-            <EquipmentForm
-              editingEquipment={editingEquipment}
-              onSubmit={handleSubmit}
-              onCancel={handleCancel}
-              isLoading={isSubmitting}
-            />
-          </aside>
-
-          <section className="order-1 lg:order-2">
-            {/* Search and Filter Controls */}
-            <div className="bg-card border border-border rounded-lg p-4 mb-4">
-              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-                {/* Search Input */}
-                <div className="relative sm:col-span-2">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    type="text"
-                    placeholder="Search equipment..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-10"
-                  />
-                </div>
+      <AppHeader />
+
+      <SidebarProvider className="min-h-0">
+        {/* Location Tree: a column on wide screens, a sheet below that */}
+        <LocationSidebar className="hidden xl:flex" selected={locationFilter} onSelect={handleLocationFilterChange} />
+
+        <main className="flex-1 min-w-0 max-w-6xl mx-auto px-4 sm:px-6 py-6 sm:py-8">
+          <div className={`grid gap-6 lg:gap-8 ${showForm ? 'lg:grid-cols-[350px_1fr]' : ''}`}>
+            {showForm && (
+              <aside className="order-2 lg:order-1">
+                <EquipmentForm
+                  editingEquipment={editingEquipment}
+                  onSubmit={handleSubmit}
+                  onCancel={handleCancel}
+                  isLoading={isSubmitting}
+                  canEditDetails={can(editingEquipment ? 'equipment:update' : 'equipment:create')}
+                  conflict={conflict}
+                  onResolveConflict={handleResolveConflict}
+                />
+              </aside>
+            )}
 
-                {/* Type Filter */}
-                <div className="flex items-center gap-2">
-                  <Filter className="h-4 w-4 text-muted-foreground hidden sm:block" />
-                  <Select value={typeFilter} onValueChange={setTypeFilter}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Filter by type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Types</SelectItem>
-                      <SelectItem value="Machine">Machine</SelectItem>
-                      <SelectItem value="Vessel">Vessel</SelectItem>
-                      <SelectItem value="Tank">Tank</SelectItem>
-                      <SelectItem value="Mixer">Mixer</SelectItem>
-                    </SelectContent>
-                  </Select>
+            <section className="order-1 lg:order-2">
+              {/* Search and Filter Controls */}
+              <div className="bg-card border border-border rounded-lg p-4 mb-4">
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+                  {/* Search Input */}
+                  <div className="relative sm:col-span-2">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      type="text"
+                      placeholder="Search name, serial, notes, work orders..."
+                      value={searchQuery}
+                      onChange={(e) => handleSearchChange(e.target.value)}
+                      onFocus={() => setIsSearchFocused(true)}
+                      onBlur={() => setIsSearchFocused(false)}
+                      onKeyDown={(e) => e.key === 'Escape' && e.currentTarget.blur()}
+                      className="pl-10"
+                    />
+                    {isSearchFocused && hasSearchWords(debouncedSearch) && (
+                      <SearchResults query={debouncedSearch} />
+                    )}
+                  </div>
+
+                  {/* Type Filter */}
+                  <div className="flex items-center gap-2">
+                    <Filter className="h-4 w-4 text-muted-foreground hidden sm:block" />
+                    <Select value={typeFilter} onValueChange={handleTypeFilterChange}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Filter by type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Types</SelectItem>
+                        {types.map((t) => (
+                          <SelectItem key={t} value={t}>{t}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Status Filter */}
+                  <div className="flex items-center gap-2">
+                    <Select value={statusFilter} onValueChange={handleStatusFilterChange}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Filter by status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Statuses</SelectItem>
+                        {statuses.map((s) => (
+                          <SelectItem key={s} value={s}>{s}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Overdue Filter */}
+                  <div className="flex items-center gap-2">
+                    <Switch id="overdueOnly" checked={overdueOnly} onCheckedChange={handleOverdueOnlyChange} />
+                    <Label htmlFor="overdueOnly" className="cursor-pointer">
+                      Overdue only
+                      {overdueEquipment.length > 0 && (
+                        <span className="ml-1 text-destructive">({overdueEquipment.length})</span>
+                      )}
+                    </Label>
+                  </div>
                 </div>
 
-                {/* Status Filter */}
-                <div className="flex items-center gap-2">
-                  <Select value={statusFilter} onValueChange={setStatusFilter}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Filter by status" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Statuses</SelectItem>
-                      <SelectItem value="Active">Active</SelectItem>
-                      <SelectItem value="Inactive">Inactive</SelectItem>
-                      <SelectItem value="Under Maintenance">Under Maintenance</SelectItem>
-                    </SelectContent>
-                  </Select>
+                {/* Sort Controls */}
+                <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-border">
+                  <span className="text-sm text-muted-foreground flex items-center gap-1">
+                    <ArrowUpDown className="h-4 w-4" />
+                    Sort by:
+                  </span>
+                  {(Object.keys(SORT_LABELS) as SortField[]).map((field) => (
+                    <button
+                      key={field}
+                      onClick={() => toggleSort(field)}
+                      className={`text-sm px-2 py-1 rounded-md transition-colors ${sortField === field
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-muted hover:bg-muted/80'
+                        }`}
+                    >
+                      {SORT_LABELS[field]}
+                      {sortField === field && (
+                        <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
+                      )}
+                    </button>
+                  ))}
                 </div>
               </div>
 
-              {/* Sort Controls */}
-              <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-border">
-                <span className="text-sm text-muted-foreground flex items-center gap-1">
-                  <ArrowUpDown className="h-4 w-4" />
-                  Sort by:
-                </span>
-                {(['name', 'type', 'status', 'lastCleanedDate'] as SortField[]).map((field) => (
-                  <button
-                    key={field}
-                    onClick={() => toggleSort(field)}
-                    className={`text-sm px-2 py-1 rounded-md transition-colors ${sortField === field
-                        ? 'bg-primary text-primary-foreground'
-                        : 'bg-muted hover:bg-muted/80'
-                      }`}
-                  >
-                    {field === 'lastCleanedDate' ? 'Last Cleaned' : field.charAt(0).toUpperCase() + field.slice(1)}
-                    {sortField === field && (
-                      <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
-                    )}
-                  </button>
-                ))}
-              </div>
-            </div>
-
-            {/* Results Count */}
-            <h2 className="text-lg font-semibold text-foreground mb-4">
-              Equipment List ({filteredAndSortedEquipment.length}
-              {filteredAndSortedEquipment.length !== equipment.length && ` of ${equipment.length}`})
-            </h2>
-
-            {/* Error State */}
-            {isError && (
-              <div className="bg-destructive/10 border border-destructive rounded-lg p-4 mb-4 text-destructive">
-                Failed to load equipment: {error instanceof Error ? error.message : 'Unknown error'}
+              {/* Results Count */}
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <h2 className="text-lg font-semibold text-foreground">
+                  Equipment List ({total})
+                  {totalPages > 1 && (
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">
+                      Page {page} of {totalPages}
+                    </span>
+                  )}
+                </h2>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" className="xl:hidden" onClick={() => setIsLocationsOpen(true)}>
+                    <MapPin className="h-4 w-4 mr-1" />
+                    <span className="max-w-32 truncate">{locationLabel}</span>
+                  </Button>
+                  {customFields.length > 0 && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm">
+                          <Columns3 className="h-4 w-4 mr-1" />
+                          Columns
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+                        {customFields.map((field, index) => (
+                          <Fragment key={field.id}>
+                            {field.typeName !== customFields[index - 1]?.typeName && (
+                              <DropdownMenuLabel>{field.typeName}</DropdownMenuLabel>
+                            )}
+                            <DropdownMenuCheckboxItem
+                              checked={visibleFieldIds.includes(field.id)}
+                              onCheckedChange={() => toggleColumn(field.id)}
+                              onSelect={(e) => e.preventDefault()}
+                            >
+                              {field.label}
+                            </DropdownMenuCheckboxItem>
+                          </Fragment>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" disabled={total === 0}>
+                        <Download className="h-4 w-4 mr-1" />
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem asChild>
+                        <a href={getExportUrl(query, 'csv')} download>CSV (.csv)</a>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <a href={getExportUrl(query, 'xlsx')} download>Excel (.xlsx)</a>
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  {can('equipment:import') && (
+                    <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)}>
+                      <Upload className="h-4 w-4 mr-1" />
+                      Import CSV
+                    </Button>
+                  )}
+                </div>
               </div>
-            )}
 
-            {/* Equipment Table */}
-            <EquipmentTable
-              equipment={filteredAndSortedEquipment}
-              onEdit={handleEdit}
-              onDelete={handleDelete}
-              isLoading={isLoading}
-            />
-          </section>
-        </div>
-      </main>
+              {/* Error State */}
+              {isError && (
+                <div className="bg-destructive/10 border border-destructive rounded-lg p-4 mb-4 text-destructive">
+                  Failed to load equipment: {error instanceof Error ? error.message : 'Unknown error'}
+                </div>
+              )}
+
+              {/* Equipment Table */}
+              <EquipmentTable
+                equipment={equipment}
+                onEdit={handleEdit}
+                onDelete={handleDelete}
+                onShowHistory={setHistoryEquipment}
+                isLoading={isLoading}
+                canEdit={can('equipment:update')}
+                canLogCleaning={can('cleaning:create')}
+                canDelete={can('equipment:delete')}
+                canShowHistory={can('audit:read')}
+                customColumns={customFields.filter((field) => visibleFieldIds.includes(field.id))}
+                selectedIds={visibleSelectedIds}
+                onSelectionChange={setSelectedIds}
+                onBulkAction={handleBulkAction}
+                isBulkLoading={bulkMutation.isPending}
+              />
+
+              <EquipmentPagination page={page} totalPages={totalPages} onPageChange={setPage} />
+            </section>
+          </div>
+        </main>
+
+        <Sheet open={isLocationsOpen} onOpenChange={setIsLocationsOpen}>
+          <SheetContent side="left" className="w-72 overflow-y-auto p-2 pt-10">
+            <SheetHeader className="sr-only">
+              <SheetTitle>Locations</SheetTitle>
+              <SheetDescription>Filter equipment by location</SheetDescription>
+            </SheetHeader>
+            <LocationTree selected={locationFilter} onSelect={handleLocationFilterChange} />
+          </SheetContent>
+        </Sheet>
+      </SidebarProvider>
+
+      <ImportWizard open={isImportOpen} onOpenChange={setIsImportOpen} />
+
+      {/* History Panel */}
+      <Sheet open={historyEquipment !== null} onOpenChange={(open) => !open && setHistoryEquipment(null)}>
+        <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+          <SheetHeader className="mb-4">
+            <SheetTitle>History</SheetTitle>
+            <SheetDescription>{historyEquipment?.name}</SheetDescription>
+          </SheetHeader>
+          {historyEquipment && <EquipmentHistory equipmentId={historyEquipment.id} />}
+        </SheetContent>
+      </Sheet>
     </div>
   );
 };
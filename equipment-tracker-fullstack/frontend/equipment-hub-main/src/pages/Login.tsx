@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Navigate, useLocation, useNavigate, type Location } from 'react-router-dom';
+import { useCurrentUser, useLogin } from '@/hooks/use-auth';
+import { AppHeader } from '@/components/AppHeader';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+
+const Login = () => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { data: user } = useCurrentUser();
+  const loginMutation = useLogin();
+
+  // Where the guard redirected from, so the user lands back there
+  const from = (location.state as { from?: Location } | null)?.from?.pathname || '/';
+
+  if (user) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate(
+      { username: username.trim(), password },
+      { onSuccess: () => navigate(from, { replace: true }) }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <AppHeader />
+
+      <main className="flex-1 flex items-center justify-center px-4 py-8">
+        <form onSubmit={handleSubmit} className="w-full max-w-sm bg-card border border-border rounded-lg p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">Sign in</h2>
+
+          <div className="space-y-2">
+            <Label htmlFor="username">Username</Label>
+            <Input
+              id="username"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              disabled={loginMutation.isPending}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={loginMutation.isPending}
+            />
+          </div>
+
+          {loginMutation.isError && (
+            <p className="text-sm text-destructive">
+              {loginMutation.error instanceof Error ? loginMutation.error.message : 'Failed to sign in'}
+            </p>
+          )}
+
+          <Button type="submit" className="w-full" disabled={!username.trim() || !password || loginMutation.isPending}>
+            {loginMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Sign in
+          </Button>
+        </form>
+      </main>
+    </div>
+  );
+};
+
+export default Login;
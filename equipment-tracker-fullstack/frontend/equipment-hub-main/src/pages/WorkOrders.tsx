@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import {
+  WorkOrderPriority,
+  WorkOrderQuery,
+  WorkOrderStatus,
+  getUpcomingPmPlans,
+  getWorkOrders,
+} from '@/services/api';
+import { AppHeader } from '@/components/AppHeader';
+import { EquipmentPagination } from '@/components/EquipmentPagination';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { usePermissions } from '@/hooks/use-auth';
+import { useWorkOrderMutations } from '@/hooks/use-work-orders';
+import { formatTimestamp } from '@/lib/equipment';
+import { PRIORITY_LABELS, WORK_ORDER_PRIORITIES, formatDowntime, getPriorityVariant } from '@/lib/work-orders';
+import { describeNextDue, describeSchedule } from '@/lib/pm-plans';
+import { CalendarClock, CheckCircle2, Filter, Loader2, RotateCcw } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+const WorkOrders = () => {
+  const { can } = usePermissions();
+  const { updateMutation } = useWorkOrderMutations();
+  const [statusFilter, setStatusFilter] = useState<WorkOrderStatus | 'all'>('open');
+  const [priorityFilter, setPriorityFilter] = useState<WorkOrderPriority | 'all'>('all');
+  const [page, setPage] = useState(1);
+
+  const query: WorkOrderQuery = {
+    page,
+    pageSize: PAGE_SIZE,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    priority: priorityFilter === 'all' ? undefined : priorityFilter,
+  };
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['work-orders', query],
+    queryFn: () => getWorkOrders(query),
+    placeholderData: keepPreviousData,
+  });
+
+  // Plans the scheduler will open work orders for in the next 30 days
+  const { data: upcomingPlans = [] } = useQuery({
+    queryKey: ['pm-plans', 'upcoming'],
+    queryFn: () => getUpcomingPmPlans(),
+  });
+
+  const workOrders = data?.data ?? [];
+  const total = data?.total ?? 0;
+  const totalPages = data?.totalPages ?? 0;
+
+  // Filter changes go back to the first page
+  const handleStatusFilterChange = (value: string) => {
+    setStatusFilter(value as WorkOrderStatus | 'all');
+    setPage(1);
+  };
+
+  const handlePriorityFilterChange = (value: string) => {
+    setPriorityFilter(value as WorkOrderPriority | 'all');
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6 sm:py-8">
+        {/* Upcoming Preventive Maintenance */}
+        {upcomingPlans.length > 0 && (
+          <div className="bg-card border border-border rounded-lg p-4 mb-4">
+            <h2 className="text-sm font-medium text-foreground flex items-center gap-2 mb-3">
+              <CalendarClock className="h-4 w-4 text-muted-foreground" />
+              Upcoming Preventive Maintenance ({upcomingPlans.length})
+            </h2>
+            <ul className="divide-y divide-border text-sm">
+              {upcomingPlans.map((plan) => (
+                <li key={plan.id} className="py-2 flex flex-wrap items-center justify-between gap-2">
+                  <span>
+                    <span className="font-medium text-foreground">{plan.title}</span>
+                    <span className="text-muted-foreground"> · </span>
+                    <Link to={`/equipment/${plan.equipmentId}`} className="hover:underline">
+                      {plan.equipmentName}
+                    </Link>
+                    <span className="text-muted-foreground"> · {describeSchedule(plan)}</span>
+                  </span>
+                  <span className="text-muted-foreground tabular-nums">{describeNextDue(plan)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Filter Controls */}
+        <div className="bg-card border border-border rounded-lg p-4 mb-4">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="flex items-center gap-2">
+              <Filter className="h-4 w-4 text-muted-foreground hidden sm:block" />
+              <Select value={statusFilter} onValueChange={handleStatusFilterChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">Open</SelectItem>
+                  <SelectItem value="closed">Closed</SelectItem>
+                  <SelectItem value="all">All Work Orders</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={priorityFilter} onValueChange={handlePriorityFilterChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by priority" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Priorities</SelectItem>
+                  {WORK_ORDER_PRIORITIES.map((p) => (
+                    <SelectItem key={p} value={p}>{PRIORITY_LABELS[p]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        {/* Results Count */}
+        <h2 className="text-lg font-semibold text-foreground mb-4">
+          Work Orders ({total})
+          {totalPages > 1 && (
+            <span className="ml-2 text-sm font-normal text-muted-foreground">
+              Page {page} of {totalPages}
+            </span>
+          )}
+        </h2>
+
+        {/* Error State */}
+        {isError && (
+          <div className="bg-destructive/10 border border-destructive rounded-lg p-4 mb-4 text-destructive">
+            Failed to load work orders: {error instanceof Error ? error.message : 'Unknown error'}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="p-8 text-center text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+            Loading work orders...
+          </div>
+        ) : workOrders.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground bg-card border border-border rounded-lg">
+            No work orders found.
+          </div>
+        ) : (
+          <div className="bg-card border border-border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Work Order</TableHead>
+                  <TableHead>Equipment</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead className="hidden md:table-cell">Assignee</TableHead>
+                  <TableHead className="hidden md:table-cell">Opened</TableHead>
+                  <TableHead className="hidden lg:table-cell">Closed</TableHead>
+                  <TableHead className="hidden lg:table-cell">Downtime</TableHead>
+                  {can('work_order:update') && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {workOrders.map((workOrder) => (
+                  <TableRow key={workOrder.id}>
+                    <TableCell>
+                      <p className="font-medium">{workOrder.title}</p>
+                      {workOrder.description && (
+                        <p className="text-sm text-muted-foreground line-clamp-1">{workOrder.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Link to={`/equipment/${workOrder.equipmentId}`} className="hover:underline">
+                        {workOrder.equipmentName}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={getPriorityVariant(workOrder.priority)}>{PRIORITY_LABELS[workOrder.priority]}</Badge>
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">{workOrder.assignee ?? '—'}</TableCell>
+                    <TableCell className="hidden md:table-cell">{formatTimestamp(workOrder.openedAt)}</TableCell>
+                    <TableCell className="hidden lg:table-cell">
+                      {workOrder.closedAt ? formatTimestamp(workOrder.closedAt) : '—'}
+                    </TableCell>
+                    <TableCell className="hidden lg:table-cell tabular-nums">
+                      {formatDowntime(workOrder.downtimeMinutes)}
+                    </TableCell>
+                    {can('work_order:update') && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            updateMutation.mutate({
+                              equipmentId: workOrder.equipmentId,
+                              id: workOrder.id,
+                              data: { closed: workOrder.status === 'open' },
+                            })
+                          }
+                          disabled={updateMutation.isPending}
+                        >
+                          {workOrder.status === 'open' ? (
+                            <>
+                              <CheckCircle2 className="h-4 w-4 mr-1" />
+                              Close
+                            </>
+                          ) : (
+                            <>
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Reopen
+                            </>
+                          )}
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <EquipmentPagination page={page} totalPages={totalPages} onPageChange={setPage} />
+      </main>
+    </div>
+  );
+};
+
+export default WorkOrders;
@@ -0,0 +1,3666 @@
+/**
+ * This file was auto-generated by openapi-typescript.
+ * Do not make direct changes to the file.
+ */
+
+export interface paths {
+    "/api/auth/login": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Sign in
+         * @description Sets the HTTP-only session cookie the other endpoints need.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["LoginRequest"];
+                };
+            };
+            responses: {
+                /** @description The signed-in user */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["User"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                /** @description Invalid username or password */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/logout": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Sign out
+         * @description Ends the session, if any, and clears its cookie.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Signed out */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message: string;
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/me": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Fetch the signed-in user */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The signed-in user and their permissions */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["User"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch a page of equipment
+         * @description Items in the trash are left out.
+         */
+        get: {
+            parameters: {
+                query?: {
+                    /** @description Page number, starting at 1 */
+                    page?: number;
+                    /** @description Items per page */
+                    pageSize?: number;
+                    /** @description Only items of this type */
+                    type?: string;
+                    /** @description Only items with this status */
+                    status?: string;
+                    /** @description Only items in this location or those below it; none for items without a location */
+                    locationId?: number | "none";
+                    /** @description Only items that are, or are not, overdue for cleaning */
+                    overdue?: boolean;
+                    /** @description Full-text search, as in GET /api/search */
+                    q?: string;
+                    sort?: "id" | "name" | "type" | "status" | "assetTag" | "lastCleanedDate" | "nextCleaningDue" | "createdAt" | "updatedAt";
+                    /** @description Defaults to asc when sort is given, else desc */
+                    order?: "asc" | "desc";
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description A page of equipment */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            total: number;
+                            page: number;
+                            pageSize: number;
+                            totalPages: number;
+                            data: components["schemas"]["Equipment"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        /**
+         * Create new equipment
+         * @description Requires the `equipment:create` permission.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["EquipmentInput"];
+                };
+            };
+            responses: {
+                /** @description The created item */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["Equipment"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                /** @description Asset tag already in use */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/export": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Export equipment as CSV or Excel
+         * @description Every item matching the filters is exported, not just one page.
+         */
+        get: {
+            parameters: {
+                query?: {
+                    format?: "csv" | "xlsx";
+                    /** @description Only items of this type */
+                    type?: string;
+                    /** @description Only items with this status */
+                    status?: string;
+                    /** @description Only items in this location or those below it; none for items without a location */
+                    locationId?: number | "none";
+                    /** @description Only items that are, or are not, overdue for cleaning */
+                    overdue?: boolean;
+                    /** @description Full-text search, as in GET /api/search */
+                    q?: string;
+                    sort?: "id" | "name" | "type" | "status" | "assetTag" | "lastCleanedDate" | "nextCleaningDue" | "createdAt" | "updatedAt";
+                    /** @description Defaults to asc when sort is given, else desc */
+                    order?: "asc" | "desc";
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The file, as an attachment */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "text/csv": string;
+                        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": string;
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/overdue": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch equipment overdue for cleaning
+         * @description Most overdue first.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Overdue equipment */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            data: components["schemas"]["Equipment"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/trash": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch deleted equipment
+         * @description Most recently deleted first.
+         */
+        get: {
+            parameters: {
+                query?: {
+                    /** @description Page number, starting at 1 */
+                    page?: number;
+                    /** @description Items per page */
+                    pageSize?: number;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description A page of the trash */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            total: number;
+                            page: number;
+                            pageSize: number;
+                            totalPages: number;
+                            /** @description Days items stay in the trash before a purge removes them */
+                            retentionDays?: number;
+                            data: components["schemas"]["TrashedEquipment"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        /**
+         * Purge equipment past the retention period
+         * @description Permanently deletes the items, with their cleanings, work orders, plans and attachments.
+         *
+         *     Requires the `equipment:purge` permission.
+         */
+        delete: {
+            parameters: {
+                query?: {
+                    /** @description Only items deleted at least this many days ago; 0 empties the trash */
+                    olderThanDays?: number;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The items purged */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message: string;
+                            count: number;
+                            ids: number[];
+                        };
+                    };
+                };
+                /** @description Invalid olderThanDays (INVALID_QUERY); errors holds the problem with it */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/import": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Import equipment from CSV
+         * @description Every row is validated as by POST /api/equipment, and nothing is imported unless all are valid. At most 5000 rows.
+         *
+         *     Requires the `equipment:import` permission.
+         */
+        post: {
+            parameters: {
+                query?: {
+                    /** @description Only validate, returning the report */
+                    dryRun?: boolean;
+                    /** @description The CSV column for each field, as mapping[field]=Column; unmapped fields use a column of the same name */
+                    mapping?: {
+                        name?: string;
+                        type?: string;
+                        status?: string;
+                        lastCleanedDate?: string;
+                        assetTag?: string;
+                        serialNumber?: string;
+                        manufacturer?: string;
+                        model?: string;
+                        installDate?: string;
+                        purchaseCost?: string;
+                    };
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            /** @description CSV with a header row */
+            requestBody: {
+                content: {
+                    "text/csv": string;
+                    "text/plain": string;
+                };
+            };
+            responses: {
+                /** @description The report of a dry run */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ImportReport"];
+                    };
+                };
+                /** @description The report of the import */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ImportReport"];
+                    };
+                };
+                /** @description Unreadable CSV (INVALID_CSV) or mapping (INVALID_QUERY), or invalid rows (VALIDATION_FAILED, with the report) */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"] | (components["schemas"]["Problem"] & components["schemas"]["ImportReport"]);
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/bulk": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Apply one action to many items
+         * @description Each action needs its own permission: delete needs `equipment:delete`, setStatus and setType need `equipment:update` and markCleaned needs `cleaning:create`. Items the action cannot apply to are reported and skipped.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["BulkRequest"];
+                };
+            };
+            responses: {
+                /** @description The outcome for each item */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["BulkResult"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                /** @description The user's role lacks the permission of the action */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Fetch one equipment item */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The item */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["Equipment"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        /**
+         * Update equipment
+         * @description Requires the `equipment:update` permission.
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header: {
+                    /** @description The version the change is based on, such as "3", or * to skip the check */
+                    "If-Match": string;
+                };
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["EquipmentUpdate"];
+                };
+            };
+            responses: {
+                /** @description The updated item */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["Equipment"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description The item changed since that version (VERSION_CONFLICT); data holds it as it now is. Also sent for an asset tag already in use (ASSET_TAG_IN_USE). */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                /** @description If-Match is missing (VERSION_REQUIRED) */
+                428: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        post?: never;
+        /**
+         * Move equipment to the trash
+         * @description Everything belonging to the item stays in place until it is purged.
+         *
+         *     Requires the `equipment:delete` permission.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header: {
+                    /** @description The version the change is based on, such as "3", or * to skip the check */
+                    "If-Match": string;
+                };
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The item as it is in the trash */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            id?: number;
+                            data: components["schemas"]["TrashedEquipment"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description The item changed since that version (VERSION_CONFLICT); data holds it as it now is. Also sent for an asset tag already in use (ASSET_TAG_IN_USE). */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                /** @description If-Match is missing (VERSION_REQUIRED) */
+                428: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/{id}/restore": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Restore equipment from the trash
+         * @description Requires the `equipment:delete` permission.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The restored item */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["Equipment"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                /** @description The item is not in the trash */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                /** @description Another item has taken its asset tag since it was deleted */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/{id}/cleanings": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch cleaning history
+         * @description Most recent first.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The cleanings of the item */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            data: components["schemas"]["CleaningEvent"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        /**
+         * Log a cleaning
+         * @description Keeps the item's lastCleanedDate up to date.
+         *
+         *     Requires the `cleaning:create` permission.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["CleaningEventInput"];
+                };
+            };
+            responses: {
+                /** @description The logged cleaning */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["CleaningEvent"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/work-orders": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch a page of work orders
+         * @description Across all equipment outside the trash; open orders first, most urgent first, then newest.
+         */
+        get: {
+            parameters: {
+                query?: {
+                    /** @description Page number, starting at 1 */
+                    page?: number;
+                    /** @description Items per page */
+                    pageSize?: number;
+                    status?: components["schemas"]["WorkOrderStatus"];
+                    priority?: "low" | "medium" | "high" | "critical";
+                    /** @description Matched ignoring case */
+                    assignee?: string;
+                    equipmentId?: number;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description A page of work orders */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            total: number;
+                            page: number;
+                            pageSize: number;
+                            totalPages: number;
+                            data: components["schemas"]["WorkOrder"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/{id}/work-orders": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Fetch work orders of equipment */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The work orders of the item */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            data: components["schemas"]["WorkOrder"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        /**
+         * Open a work order
+         * @description The first open order puts the item under maintenance.
+         *
+         *     Requires the `work_order:create` permission.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["WorkOrderInput"];
+                };
+            };
+            responses: {
+                /** @description The opened work order */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["WorkOrder"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/{id}/work-orders/{workOrderId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Fetch one work order */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                    /** @description Work order id */
+                    workOrderId: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The work order */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["WorkOrder"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        /**
+         * Update, close or reopen a work order
+         * @description Closing the last open order puts the item back to the status it had before.
+         *
+         *     Requires the `work_order:update` permission.
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                    /** @description Work order id */
+                    workOrderId: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["WorkOrderUpdate"];
+                };
+            };
+            responses: {
+                /** @description The updated work order */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["WorkOrder"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        post?: never;
+        /**
+         * Delete a work order
+         * @description Requires the `work_order:delete` permission.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                    /** @description Work order id */
+                    workOrderId: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The work order was deleted */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message: string;
+                            id: number;
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/pm-plans": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch preventive maintenance plans
+         * @description Plans of equipment in the trash are left out.
+         */
+        get: {
+            parameters: {
+                query?: {
+                    equipmentId?: number;
+                    active?: boolean;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The plans */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            data: components["schemas"]["PmPlan"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        /**
+         * Create a PM plan
+         * @description Requires the `pm_plan:manage` permission.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["PmPlanInput"] & {
+                        equipmentId: number;
+                    };
+                };
+            };
+            responses: {
+                /** @description The created plan */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["PmPlan"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/pm-plans/upcoming": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch plans coming due
+         * @description Active plans only, soonest first.
+         */
+        get: {
+            parameters: {
+                query?: {
+                    /** @description Date-based plans due within this many days */
+                    days?: number;
+                    /** @description Runtime plans due within this many runtime hours */
+                    hours?: number;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The plans coming due */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            data: components["schemas"]["PmPlan"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/pm-plans/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Fetch one PM plan */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description PM plan id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The plan */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["PmPlan"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        /**
+         * Update a PM plan
+         * @description The fields sent are merged into the plan, which is validated whole. The equipment cannot be changed.
+         *
+         *     Requires the `pm_plan:manage` permission.
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description PM plan id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["PmPlanUpdate"];
+                };
+            };
+            responses: {
+                /** @description The updated plan */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["PmPlan"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        post?: never;
+        /**
+         * Delete a PM plan
+         * @description Work orders it opened are kept.
+         *
+         *     Requires the `pm_plan:manage` permission.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description PM plan id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The plan was deleted */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message: string;
+                            id: number;
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/locations": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch all locations
+         * @description Returned flat, in name order; parentId links each one to its parent.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Every location */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            data: components["schemas"]["Location"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        /**
+         * Create a location
+         * @description Requires the `location:manage` permission.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["LocationInput"];
+                };
+            };
+            responses: {
+                /** @description The created location */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["Location"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                /** @description Another location with this name has the same parent */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/locations/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Fetch one location */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Location id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The location */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["Location"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        /**
+         * Update or move a location
+         * @description Only the fields sent are changed. A location cannot be moved below itself.
+         *
+         *     Requires the `location:manage` permission.
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Location id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["LocationUpdate"];
+                };
+            };
+            responses: {
+                /** @description The updated location */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["Location"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description Another location with this name has the same parent */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        post?: never;
+        /**
+         * Delete an empty location
+         * @description Requires the `location:manage` permission.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Location id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The location was deleted */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message: string;
+                            id: number;
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description The location still contains locations or equipment */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/custom-fields": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch custom field definitions
+         * @description Grouped by type, in display order.
+         */
+        get: {
+            parameters: {
+                query?: {
+                    /** @description Only the fields of the type with this name */
+                    type?: string;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The field definitions */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            data: components["schemas"]["CustomField"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        /**
+         * Define a custom field on a type
+         * @description Requires the `meta:manage` permission.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["CustomFieldInput"];
+                };
+            };
+            responses: {
+                /** @description The created field */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["CustomField"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                /** @description The type already has a field with this key */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/custom-fields/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Fetch one custom field */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Custom field id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The field */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["CustomField"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        /**
+         * Update a custom field
+         * @description Only the fields sent are changed; typeId, key and fieldType cannot be.
+         *
+         *     Requires the `meta:manage` permission.
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Custom field id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["CustomFieldUpdate"];
+                };
+            };
+            responses: {
+                /** @description The updated field */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["CustomField"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        post?: never;
+        /**
+         * Delete a custom field and its values
+         * @description Requires the `meta:manage` permission.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Custom field id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The field was deleted, along with its values on every item */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message: string;
+                            id: number;
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/{id}/attachments": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch attachments of equipment
+         * @description Newest first.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The attachments of the item */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            data: components["schemas"]["Attachment"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        /**
+         * Upload an attachment
+         * @description The type is detected from the content and must be one of: application/pdf, image/png, image/jpeg, image/webp.
+         *
+         *     Requires the `attachment:create` permission.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "multipart/form-data": {
+                        /** Format: binary */
+                        file: string;
+                        category?: components["schemas"]["AttachmentCategory"];
+                        description?: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description The stored attachment */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["Attachment"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description The file is larger than 20 MB */
+                413: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                /** @description The file is not of an allowed type */
+                415: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/{id}/attachments/{attachmentId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Fetch one attachment */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                    /** @description Attachment id */
+                    attachmentId: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The attachment */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["Attachment"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        /**
+         * Delete an attachment
+         * @description The stored file is removed once no attachment uses it.
+         *
+         *     Requires the `attachment:delete` permission.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                    /** @description Attachment id */
+                    attachmentId: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The attachment was deleted */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message: string;
+                            id: number;
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/{id}/attachments/{attachmentId}/download": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Download an attachment */
+        get: {
+            parameters: {
+                query?: {
+                    /** @description Display the file in the browser instead of saving it */
+                    inline?: boolean;
+                };
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                    /** @description Attachment id */
+                    attachmentId: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The file, with its own content type */
+                200: {
+                    headers: {
+                        "Cache-Control"?: string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "*/*": string;
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/{id}/attachments/{attachmentId}/thumbnail": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch an image thumbnail
+         * @description A WebP of at most 256x256 pixels.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                    /** @description Attachment id */
+                    attachmentId: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The thumbnail */
+                200: {
+                    headers: {
+                        "Cache-Control"?: string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "image/webp": string;
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                /** @description No such attachment, or it has no thumbnail */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/equipment/{id}/history": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch equipment audit trail
+         * @description Changes to the item and to everything belonging to it, newest first. Stays available after the item is deleted.
+         *
+         *     Requires the `audit:read` permission.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The audit trail */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            data: components["schemas"]["AuditEntry"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/audit": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Search the audit log
+         * @description Newest first.
+         *
+         *     Requires the `audit:read` permission.
+         */
+        get: {
+            parameters: {
+                query?: {
+                    /** @description Page number, starting at 1 */
+                    page?: number;
+                    /** @description Items per page */
+                    pageSize?: number;
+                    /** @description Such as equipment, work_order or location */
+                    entityType?: string;
+                    entityId?: number;
+                    equipmentId?: number;
+                    action?: "create" | "update" | "delete" | "restore" | "purge";
+                    /** @description Username */
+                    actor?: string;
+                    /** @description The X-Request-Id of the request that made the change */
+                    requestId?: string;
+                    /** @description Changes on or after this day */
+                    from?: string;
+                    /** @description Changes on or before this day */
+                    to?: string;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description A page of the audit log */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            total: number;
+                            page: number;
+                            pageSize: number;
+                            totalPages: number;
+                            data: components["schemas"]["AuditEntry"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/search": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Full-text search of equipment
+         * @description Every word must match the start of a word in a field; accents and case are ignored. Best match first, leaving out items in the trash.
+         */
+        get: {
+            parameters: {
+                query: {
+                    /** @description Must contain at least one letter or digit */
+                    q: string;
+                    limit?: number;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The matching items, each with the fields it matched in */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            data: components["schemas"]["SearchResult"][];
+                        };
+                    };
+                };
+                /** @description Missing or invalid q or limit (INVALID_QUERY); errors holds the problem with each */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/meta/types": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch equipment types
+         * @description In display order.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Every equipment type */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            data: components["schemas"]["LookupOption"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        /**
+         * Add an equipment type
+         * @description Requires the `meta:manage` permission.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["LookupOptionInput"];
+                };
+            };
+            responses: {
+                /** @description The created equipment type */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["LookupOption"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                /** @description An equipment type with this name already exists */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/meta/types/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Update an equipment type
+         * @description Only the fields sent are changed. Renaming cascades to all equipment using it.
+         *
+         *     Requires the `meta:manage` permission.
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment type id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["LookupOptionUpdate"];
+                };
+            };
+            responses: {
+                /** @description The updated equipment type */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["LookupOption"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description An equipment type with this name already exists */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        post?: never;
+        /**
+         * Delete an unused equipment type
+         * @description Requires the `meta:manage` permission.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment type id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The equipment type was deleted */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message: string;
+                            id: number;
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description Equipment still uses the equipment type */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/meta/statuses": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Fetch equipment statuses
+         * @description In display order.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Every equipment status */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            count: number;
+                            data: components["schemas"]["LookupOption"][];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        /**
+         * Add an equipment status
+         * @description Requires the `meta:manage` permission.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["LookupOptionInput"];
+                };
+            };
+            responses: {
+                /** @description The created equipment status */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["LookupOption"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                /** @description An equipment status with this name already exists */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/meta/statuses/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Update an equipment status
+         * @description Only the fields sent are changed. Renaming cascades to all equipment using it.
+         *
+         *     Requires the `meta:manage` permission.
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment status id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["LookupOptionUpdate"];
+                };
+            };
+            responses: {
+                /** @description The updated equipment status */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message?: string;
+                            data: components["schemas"]["LookupOption"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description An equipment status with this name already exists */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        post?: never;
+        /**
+         * Delete an unused equipment status
+         * @description Requires the `meta:manage` permission.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description Equipment status id */
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The equipment status was deleted */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {boolean} */
+                            success: true;
+                            message: string;
+                            id: number;
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description Equipment still uses the equipment status */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/problem+json": components["schemas"]["Problem"];
+                    };
+                };
+                500: components["responses"]["ServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/events": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Stream changes as Server-Sent Events
+         * @description Stays open, sending an `equipment` event whose data is an EquipmentEvent for each change to equipment, and a comment every 25 seconds to keep the connection alive.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The event stream */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "text/event-stream": string;
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["ServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/health": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Health check */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The API is running */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /** @enum {string} */
+                            status: "OK";
+                            message: string;
+                        };
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        /** @enum {string} */
+        Role: "operator" | "supervisor" | "admin";
+        /** @enum {string} */
+        Permission: "cleaning:create" | "equipment:create" | "equipment:update" | "equipment:import" | "work_order:create" | "work_order:update" | "pm_plan:manage" | "attachment:create" | "audit:read" | "equipment:delete" | "equipment:purge" | "work_order:delete" | "meta:manage" | "location:manage" | "attachment:delete";
+        User: {
+            id: number;
+            username: string;
+            displayName: string;
+            role: components["schemas"]["Role"];
+            /** @description Everything the user's role allows, as enforced by the API */
+            permissions: components["schemas"]["Permission"][];
+            /** @example 2025-12-18 10:30:00 */
+            createdAt: string;
+            /** @example 2025-12-18 10:30:00 */
+            updatedAt: string;
+        };
+        LoginRequest: {
+            username: string;
+            /** Format: password */
+            password: string;
+        };
+        CustomFieldValue: string | number | boolean;
+        Equipment: {
+            id: number;
+            name: string;
+            type: string;
+            status: string;
+            /**
+             * Format: date
+             * @example 2025-12-18
+             */
+            lastCleanedDate: string | null;
+            cleaningCount: number;
+            /** @description Days between cleanings set on this item; null falls back to its type */
+            cleaningIntervalDays: number | null;
+            /** @description The item's cleaning interval, else its type's */
+            effectiveCleaningIntervalDays: number | null;
+            /**
+             * Format: date
+             * @description Null when neither the item nor its type has a cleaning interval
+             * @example 2025-12-18
+             */
+            nextCleaningDue: string | null;
+            overdue: boolean;
+            /** @description Hour meter reading, for runtime-based maintenance plans */
+            runtimeHours: number;
+            locationId: number | null;
+            locationName: string | null;
+            /** @description Unique among equipment outside the trash, ignoring case */
+            assetTag: string | null;
+            serialNumber: string | null;
+            manufacturer: string | null;
+            model: string | null;
+            /**
+             * Format: date
+             * @example 2025-12-18
+             */
+            installDate: string | null;
+            purchaseCost: number | null;
+            /** @description Values of the custom fields defined on the item's type, keyed by field key */
+            customFields: {
+                [key: string]: components["schemas"]["CustomFieldValue"];
+            };
+            /** @description Goes up with every change; updates and deletes must name the version they are based on */
+            version: number;
+            /**
+             * @description Set while the item is in the trash, which only the trash endpoints return
+             * @example 2025-12-18 10:30:00
+             */
+            deletedAt: string | null;
+            deletedBy: string | null;
+            /** @example 2025-12-18 10:30:00 */
+            createdAt: string;
+            /** @example 2025-12-18 10:30:00 */
+            updatedAt: string;
+        };
+        EquipmentInput: {
+            /** @description Trimmed before checking its length */
+            name: string;
+            /** @description The name of a configured equipment type */
+            type: string;
+            /** @description The name of a configured equipment status */
+            status: string;
+            /** @description Days between cleanings set on this item; null falls back to its type */
+            cleaningIntervalDays?: number | null;
+            /** @description Hour meter reading */
+            runtimeHours?: number;
+            /** @description The id of an existing location */
+            locationId?: number | null;
+            /** @description Unique among equipment outside the trash, ignoring case */
+            assetTag?: string | null;
+            serialNumber?: string | null;
+            manufacturer?: string | null;
+            model?: string | null;
+            /**
+             * Format: date
+             * @example 2025-12-18
+             */
+            installDate?: string | null;
+            purchaseCost?: number | null;
+            /** @description Values of the custom fields defined on the item's type, keyed by field key; null clears a value */
+            customFields?: {
+                [key: string]: (string | number | boolean) | null;
+            };
+            cleaning?: components["schemas"]["CleaningEventInput"] | null;
+            /**
+             * Format: date
+             * @description Shorthand for a cleaning with only cleanedAt; ignored when cleaning is sent, and on updates when it is the current date
+             * @example 2025-12-18
+             */
+            lastCleanedDate?: string | null;
+        };
+        /** @description Only the fields sent are changed */
+        EquipmentUpdate: {
+            /** @description Trimmed before checking its length */
+            name?: string;
+            /** @description The name of a configured equipment type */
+            type?: string;
+            /** @description The name of a configured equipment status */
+            status?: string;
+            /** @description Days between cleanings set on this item; null falls back to its type */
+            cleaningIntervalDays?: number | null;
+            /** @description Hour meter reading */
+            runtimeHours?: number;
+            /** @description The id of an existing location */
+            locationId?: number | null;
+            /** @description Unique among equipment outside the trash, ignoring case */
+            assetTag?: string | null;
+            serialNumber?: string | null;
+            manufacturer?: string | null;
+            model?: string | null;
+            /**
+             * Format: date
+             * @example 2025-12-18
+             */
+            installDate?: string | null;
+            purchaseCost?: number | null;
+            /** @description Values of the custom fields defined on the item's type, keyed by field key; null clears a value */
+            customFields?: {
+                [key: string]: (string | number | boolean) | null;
+            };
+            cleaning?: components["schemas"]["CleaningEventInput"] | null;
+            /**
+             * Format: date
+             * @description Shorthand for a cleaning with only cleanedAt; ignored when cleaning is sent, and on updates when it is the current date
+             * @example 2025-12-18
+             */
+            lastCleanedDate?: string | null;
+        };
+        TrashedEquipment: components["schemas"]["Equipment"] & {
+            /**
+             * @description When a purge of the trash will remove the item
+             * @example 2025-12-18 10:30:00
+             */
+            purgeAfter: string;
+        };
+        CleaningEvent: {
+            id: number;
+            equipmentId: number;
+            /**
+             * Format: date
+             * @example 2025-12-18
+             */
+            cleanedAt: string;
+            cleanedBy: string | null;
+            method: string | null;
+            notes: string | null;
+            verifiedBy: string | null;
+            /** @example 2025-12-18 10:30:00 */
+            createdAt: string;
+        };
+        CleaningEventInput: {
+            /**
+             * Format: date
+             * @description No later than today
+             * @example 2025-12-18
+             */
+            cleanedAt: string;
+            cleanedBy?: string | null;
+            method?: string | null;
+            notes?: string | null;
+            verifiedBy?: string | null;
+        };
+        /** @enum {string} */
+        LocationKind: "site" | "building" | "area" | "room";
+        /** @description A node of the site/building/area/room hierarchy */
+        Location: {
+            id: number;
+            /** @description Null for top-level locations */
+            parentId: number | null;
+            name: string;
+            kind: components["schemas"]["LocationKind"];
+            description: string | null;
+            /** @description Equipment placed directly in this location, not in those below it */
+            equipmentCount: number;
+            childCount: number;
+            /** @example 2025-12-18 10:30:00 */
+            createdAt: string;
+            /** @example 2025-12-18 10:30:00 */
+            updatedAt: string;
+        };
+        LocationInput: {
+            /** @description An existing location; sending it on an update moves the location and everything in it */
+            parentId?: number | null;
+            /** @description Unique among the locations with the same parent, ignoring case */
+            name: string;
+            kind: components["schemas"]["LocationKind"];
+            description?: string | null;
+        };
+        /** @description Only the fields sent are changed */
+        LocationUpdate: {
+            /** @description An existing location; sending it on an update moves the location and everything in it */
+            parentId?: number | null;
+            /** @description Unique among the locations with the same parent, ignoring case */
+            name?: string;
+            kind?: components["schemas"]["LocationKind"];
+            description?: string | null;
+        };
+        /** @description A configurable equipment type or status */
+        LookupOption: {
+            id: number;
+            name: string;
+            description: string | null;
+            sortOrder: number;
+            /** @description Only set on equipment types */
+            cleaningIntervalDays?: number | null;
+            /** @example 2025-12-18 10:30:00 */
+            createdAt: string;
+        };
+        LookupOptionInput: {
+            /** @description Renaming an option renames it on every item using it */
+            name: string;
+            description?: string | null;
+            sortOrder?: number;
+            /** @description Equipment types only */
+            cleaningIntervalDays?: number | null;
+        };
+        /** @description Only the fields sent are changed */
+        LookupOptionUpdate: {
+            /** @description Renaming an option renames it on every item using it */
+            name?: string;
+            description?: string | null;
+            sortOrder?: number;
+            /** @description Equipment types only */
+            cleaningIntervalDays?: number | null;
+        };
+        /** @enum {string} */
+        CustomFieldType: "text" | "number" | "date" | "enum" | "boolean";
+        /** @description A field an admin has defined on one equipment type */
+        CustomField: {
+            id: number;
+            typeId: number;
+            typeName: string;
+            key: string;
+            label: string;
+            fieldType: components["schemas"]["CustomFieldType"];
+            required: boolean;
+            /** @description Value bound on number fields, length bound on text fields */
+            min: number | null;
+            /** @description Value bound on number fields, length bound on text fields */
+            max: number | null;
+            /** @description The choices of an enum field */
+            options: string[] | null;
+            sortOrder: number;
+            /** @example 2025-12-18 10:30:00 */
+            createdAt: string;
+            /** @example 2025-12-18 10:30:00 */
+            updatedAt: string;
+        };
+        CustomFieldInput: {
+            /** @description An existing equipment type */
+            typeId: number;
+            key: string;
+            label: string;
+            fieldType: components["schemas"]["CustomFieldType"];
+            required?: boolean;
+            /** @description Text and number fields only */
+            min?: number | null;
+            /** @description Text and number fields only */
+            max?: number | null;
+            /** @description Required on enum fields, and only allowed on them */
+            options?: string[] | null;
+            sortOrder?: number;
+        };
+        /** @description Only the fields sent are changed; typeId, key and fieldType cannot be */
+        CustomFieldUpdate: {
+            /** @description An existing equipment type */
+            typeId?: number;
+            key?: string;
+            label?: string;
+            fieldType?: components["schemas"]["CustomFieldType"];
+            required?: boolean;
+            /** @description Text and number fields only */
+            min?: number | null;
+            /** @description Text and number fields only */
+            max?: number | null;
+            /** @description Required on enum fields, and only allowed on them */
+            options?: string[] | null;
+            sortOrder?: number;
+        };
+        /** @enum {string} */
+        WorkOrderPriority: "low" | "medium" | "high" | "critical";
+        /** @enum {string} */
+        WorkOrderStatus: "open" | "closed";
+        WorkOrder: {
+            id: number;
+            equipmentId: number;
+            equipmentName: string;
+            title: string;
+            description: string | null;
+            priority: components["schemas"]["WorkOrderPriority"];
+            assignee: string | null;
+            status: components["schemas"]["WorkOrderStatus"];
+            /** @example 2025-12-18 10:30:00 */
+            openedAt: string;
+            /** @example 2025-12-18 10:30:00 */
+            closedAt: string | null;
+            /** @description Set when closed: the time it was open, unless entered by hand */
+            downtimeMinutes: number | null;
+            /** @description The equipment status to go back to once the last open order closes */
+            statusBefore: string | null;
+            /** @description The preventive maintenance plan that generated the order, if any */
+            pmPlanId: number | null;
+            /** @example 2025-12-18 10:30:00 */
+            createdAt: string;
+            /** @example 2025-12-18 10:30:00 */
+            updatedAt: string;
+        };
+        WorkOrderInput: {
+            title: string;
+            description?: string | null;
+            priority?: components["schemas"]["WorkOrderPriority"];
+            assignee?: string | null;
+        };
+        WorkOrderUpdate: {
+            title?: string;
+            description?: string | null;
+            priority?: components["schemas"]["WorkOrderPriority"];
+            assignee?: string | null;
+            /** @description true closes the order, false reopens it */
+            closed?: boolean;
+            downtimeMinutes?: number | null;
+        };
+        /** @enum {string} */
+        PmScheduleType: "days" | "runtime_hours" | "cron";
+        /** @description A preventive maintenance plan, which opens a work order each time it comes due. Only the fields of its schedule type are set. */
+        PmPlan: {
+            id: number;
+            equipmentId: number;
+            equipmentName: string;
+            title: string;
+            description: string | null;
+            priority: components["schemas"]["WorkOrderPriority"];
+            assignee: string | null;
+            scheduleType: components["schemas"]["PmScheduleType"];
+            /** @description Days between orders of day-based plans */
+            intervalDays: number | null;
+            /** @description Runtime hours between orders of runtime plans */
+            intervalHours: number | null;
+            /**
+             * @description Five-field cron expression of cron plans, in UTC
+             * @example 0 6 * * 1
+             */
+            cron: string | null;
+            active: boolean;
+            /**
+             * @description Date-based plans (days, cron), in UTC
+             * @example 2025-12-18 10:30:00
+             */
+            nextDueAt: string | null;
+            /** @description Runtime plans: the meter reading at which the next order opens */
+            nextDueRuntimeHours: number | null;
+            runtimeHoursRemaining: number | null;
+            lastRuntimeHours: number | null;
+            equipmentRuntimeHours: number;
+            /** @example 2025-12-18 10:30:00 */
+            lastGeneratedAt: string | null;
+            openWorkOrders: number;
+            /** @example 2025-12-18 10:30:00 */
+            createdAt: string;
+            /** @example 2025-12-18 10:30:00 */
+            updatedAt: string;
+        };
+        PmPlanInput: {
+            title: string;
+            description?: string | null;
+            priority?: components["schemas"]["WorkOrderPriority"];
+            assignee?: string | null;
+            scheduleType: components["schemas"]["PmScheduleType"];
+            /** @description Days between orders of day-based plans */
+            intervalDays?: number | null;
+            /** @description Runtime hours between orders of runtime plans */
+            intervalHours?: number | null;
+            /**
+             * @description Five-field cron expression of cron plans, in UTC
+             * @example 0 6 * * 1
+             */
+            cron?: string | null;
+            active?: boolean;
+            /**
+             * Format: date
+             * @description Day-based plans are first due then instead of one interval from now
+             * @example 2025-12-18
+             */
+            nextDueAt?: string | null;
+        };
+        /** @description Merged into the plan, which is then validated whole */
+        PmPlanUpdate: {
+            title?: string;
+            description?: string | null;
+            priority?: components["schemas"]["WorkOrderPriority"];
+            assignee?: string | null;
+            scheduleType?: components["schemas"]["PmScheduleType"];
+            /** @description Days between orders of day-based plans */
+            intervalDays?: number | null;
+            /** @description Runtime hours between orders of runtime plans */
+            intervalHours?: number | null;
+            /**
+             * @description Five-field cron expression of cron plans, in UTC
+             * @example 0 6 * * 1
+             */
+            cron?: string | null;
+            active?: boolean;
+            /**
+             * Format: date
+             * @description Day-based plans are first due then instead of one interval from now
+             * @example 2025-12-18
+             */
+            nextDueAt?: string | null;
+        };
+        /** @enum {string} */
+        AttachmentCategory: "manual" | "certificate" | "photo" | "other";
+        /** @description A file stored against an equipment item */
+        Attachment: {
+            id: number;
+            equipmentId: number;
+            fileName: string;
+            mimeType: string;
+            /** @description In bytes */
+            size: number;
+            /** @description Identical uploads share one stored copy */
+            sha256: string;
+            category: components["schemas"]["AttachmentCategory"];
+            description: string | null;
+            /** @description Images get a WebP thumbnail of at most 256x256 pixels */
+            hasThumbnail: boolean;
+            uploadedBy: string | null;
+            /** @example 2025-12-18 10:30:00 */
+            createdAt: string;
+        };
+        /** @enum {string} */
+        AuditAction: "create" | "update" | "delete" | "restore" | "purge";
+        AuditEntry: {
+            id: number;
+            /** @example equipment */
+            entityType: string;
+            entityId: number;
+            equipmentId: number | null;
+            action: components["schemas"]["AuditAction"];
+            /** @description Username of whoever made the change */
+            actor: string;
+            requestId: string | null;
+            /** @description The fields that changed */
+            changes: {
+                [key: string]: {
+                    before: unknown;
+                    after: unknown;
+                };
+            };
+            /** @example 2025-12-18 10:30:00 */
+            createdAt: string;
+        };
+        /** @enum {string} */
+        BulkAction: "delete" | "setStatus" | "setType" | "markCleaned";
+        /** @description One action applied to many items */
+        BulkRequest: {
+            action: components["schemas"]["BulkAction"];
+            /** @description Duplicates are applied once */
+            ids: number[];
+            /**
+             * @description The version each item in ids is expected to be at, keyed by id; items at another version are not changed and fail with VERSION_CONFLICT
+             * @example {
+             *       "1": 3,
+             *       "2": 1
+             *     }
+             */
+            versions: {
+                [key: string]: number;
+            };
+            /** @description Required by setStatus */
+            status?: string;
+            /** @description Required by setType */
+            type?: string;
+        };
+        BulkItemResult: {
+            id: number;
+            success: boolean;
+            /** @description The item after the change, or on a version conflict as it now is; absent for deletions and other failures */
+            data?: components["schemas"]["Equipment"];
+            /** @description On failures, this and the members below are those of a Problem */
+            type?: string;
+            title?: string;
+            status?: number;
+            detail?: string;
+            code?: components["schemas"]["ProblemCode"];
+            errors?: components["schemas"]["FieldErrors"];
+        };
+        BulkResult: {
+            /** @enum {boolean} */
+            success: true;
+            message: string;
+            action: components["schemas"]["BulkAction"];
+            total: number;
+            succeeded: number;
+            failed: number;
+            results: components["schemas"]["BulkItemResult"][];
+        };
+        /** @enum {string} */
+        ImportField: "name" | "type" | "status" | "lastCleanedDate" | "assetTag" | "serialNumber" | "manufacturer" | "model" | "installDate" | "purchaseCost";
+        ImportRowResult: {
+            /** @description Line number in the file, counting the header */
+            row: number;
+            /** @description purchaseCost comes back as a number when it parses as one */
+            data: {
+                [key: string]: string | number;
+            };
+            errors: components["schemas"]["FieldErrors"];
+            /** @description The created item, once imported */
+            id?: number;
+        };
+        ImportReport: {
+            success: boolean;
+            message?: string;
+            dryRun: boolean;
+            columns: string[];
+            /** @description The CSV column feeding each field */
+            mapping: {
+                [key: string]: string;
+            };
+            total: number;
+            valid: number;
+            invalid: number;
+            imported: number;
+            rows: components["schemas"]["ImportRowResult"][];
+        };
+        /**
+         * @description Fields of an item that full-text search looks in
+         * @enum {string}
+         */
+        SearchField: "name" | "type" | "status" | "assetTag" | "serialNumber" | "manufacturer" | "model" | "cleaningNotes" | "workOrders";
+        SearchMatch: {
+            field: components["schemas"]["SearchField"];
+            /** @description A stretch of the field around the words that matched, split into plain and matched parts */
+            snippet: {
+                text: string;
+                highlight: boolean;
+            }[];
+        };
+        SearchResult: {
+            equipment: components["schemas"]["Equipment"];
+            matches: components["schemas"]["SearchMatch"][];
+        };
+        EventActor: {
+            username: string;
+            displayName: string;
+        };
+        /** @description Sent as an "equipment" event on GET /api/events for every change made to equipment, its cleanings, its work orders or its attachments, including changes that follow from editing a type, status, location or custom field. Deletions carry the item as it was before going to the trash, or the work order or attachment as it was before being deleted. Work orders that put equipment under maintenance or take it out are followed by an update of the equipment. */
+        EquipmentEvent: {
+            /** @enum {string} */
+            action: "create" | "update" | "delete" | "restore";
+            equipment: components["schemas"]["Equipment"];
+            actor: components["schemas"]["EventActor"] | null;
+            requestId: string | null;
+        } | {
+            /** @enum {string} */
+            action: "import";
+            count: number;
+            actor: components["schemas"]["EventActor"] | null;
+            requestId: string | null;
+        } | {
+            /** @enum {string} */
+            action: "bulk";
+            operation: components["schemas"]["BulkAction"];
+            /** @description The items the action succeeded on */
+            ids: number[];
+            count: number;
+            actor: components["schemas"]["EventActor"] | null;
+            requestId: string | null;
+        } | {
+            /** @enum {string} */
+            action: "purge";
+            /** @description The items permanently deleted from the trash */
+            ids: number[];
+            count: number;
+            actor: components["schemas"]["EventActor"] | null;
+            requestId: string | null;
+        } | {
+            /** @enum {string} */
+            action: "workOrder";
+            /** @enum {string} */
+            operation: "create" | "update" | "delete";
+            workOrder: components["schemas"]["WorkOrder"];
+            actor: components["schemas"]["EventActor"] | null;
+            requestId: string | null;
+        } | {
+            /** @enum {string} */
+            action: "attachment";
+            /** @enum {string} */
+            operation: "create" | "delete";
+            attachment: components["schemas"]["Attachment"];
+            actor: components["schemas"]["EventActor"] | null;
+            requestId: string | null;
+        } | {
+            /** @enum {string} */
+            action: "cascade";
+            /**
+             * @description What was changed: renaming a type, status or location, or changing a type's cleaning interval, changes the equipment using it, and deleting a custom field removes its values
+             * @enum {string}
+             */
+            entityType: "equipment_type" | "equipment_status" | "location" | "custom_field";
+            /** @enum {string} */
+            operation: "update" | "delete";
+            /** @description The items changed along with it, including any in the trash */
+            ids: number[];
+            count: number;
+            actor: components["schemas"]["EventActor"] | null;
+            requestId: string | null;
+        };
+        /**
+         * @description Names the kind of problem; unlike title and detail, codes stay the same across releases
+         * @enum {string}
+         */
+        ProblemCode: "VALIDATION_FAILED" | "INVALID_QUERY" | "INVALID_ID" | "INVALID_JSON" | "INVALID_CSV" | "NO_CHANGES" | "AUTHENTICATION_REQUIRED" | "INVALID_CREDENTIALS" | "PERMISSION_DENIED" | "ROUTE_NOT_FOUND" | "EQUIPMENT_NOT_FOUND" | "WORK_ORDER_NOT_FOUND" | "PM_PLAN_NOT_FOUND" | "LOCATION_NOT_FOUND" | "CUSTOM_FIELD_NOT_FOUND" | "TYPE_NOT_FOUND" | "STATUS_NOT_FOUND" | "ATTACHMENT_NOT_FOUND" | "THUMBNAIL_NOT_FOUND" | "VERSION_CONFLICT" | "ASSET_TAG_IN_USE" | "LOCATION_EXISTS" | "LOCATION_IN_USE" | "CUSTOM_FIELD_EXISTS" | "TYPE_EXISTS" | "TYPE_IN_USE" | "STATUS_EXISTS" | "STATUS_IN_USE" | "FILE_TOO_LARGE" | "UNSUPPORTED_FILE_TYPE" | "VERSION_REQUIRED" | "INTERNAL_ERROR";
+        /** @description The problem with each field, keyed by its path such as name or cleaning.cleanedAt */
+        FieldErrors: {
+            [key: string]: string;
+        };
+        /** @description An RFC 7807 problem details object, sent as application/problem+json */
+        Problem: {
+            /**
+             * @description URI naming the kind of problem, one per code
+             * @example urn:equipment-tracker:problem:equipment-not-found
+             */
+            type: string;
+            /** @description Summary of the kind of problem, the same for every occurrence */
+            title: string;
+            /** @description The HTTP status code */
+            status: number;
+            /** @description What went wrong this time */
+            detail?: string;
+            /** @description The path and query of the request */
+            instance?: string;
+            code: components["schemas"]["ProblemCode"];
+            /** @enum {boolean} */
+            success: false;
+            errors?: components["schemas"]["FieldErrors"];
+            /** @description The X-Request-Id of the request, for finding it in the logs */
+            requestId?: string;
+            /** @description The id that was not found */
+            id?: number;
+            permission?: components["schemas"]["Permission"];
+            /** @description On a version conflict, the item as it now is */
+            data?: components["schemas"]["Equipment"];
+        };
+    };
+    responses: {
+        /** @description Invalid id, query or body (INVALID_ID, INVALID_QUERY, INVALID_JSON or VALIDATION_FAILED); errors holds the problem with each field */
+        BadRequest: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/problem+json": components["schemas"]["Problem"];
+            };
+        };
+        /** @description Not signed in */
+        Unauthorized: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/problem+json": components["schemas"]["Problem"];
+            };
+        };
+        /** @description The user's role lacks the permission named in permission */
+        Forbidden: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/problem+json": components["schemas"]["Problem"];
+            };
+        };
+        /** @description No such record; code names its kind and id echoes the id asked for */
+        NotFound: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/problem+json": components["schemas"]["Problem"];
+            };
+        };
+        /** @description Unexpected server error */
+        ServerError: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/problem+json": components["schemas"]["Problem"];
+            };
+        };
+    };
+    parameters: never;
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export type operations = Record<string, never>;
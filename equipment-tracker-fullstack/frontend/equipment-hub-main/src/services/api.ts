@@ -1,40 +1,291 @@
+import type { components, paths } from '@/services/api-schema';
+
 const API_BASE = '/api';
 
-export interface Equipment {
-  id: number;
-  name: string;
-  type: 'Machine' | 'Vessel' | 'Tank' | 'Mixer';
-  status: 'Active' | 'Inactive' | 'Under Maintenance';
-  lastCleanedDate: string | null;
-  createdAt?: string;
-  updatedAt?: string;
+// Records the API sends and accepts, and the query parameters of its lists,
+// are generated from the backend's OpenAPI document (npm run generate:api)
+// so they cannot drift from what the API does
+type Schemas = components['schemas'];
+
+type Query<P extends keyof paths> = NonNullable<paths[P]['get']['parameters']['query']>;
+
+export type Role = Schemas['Role'];
+export type Permission = Schemas['Permission'];
+export type User = Schemas['User'];
+
+export type Equipment = Schemas['Equipment'];
+// Equipment in the trash, with the time a purge will remove it
+export type TrashedEquipment = Schemas['TrashedEquipment'];
+export type EquipmentInput = Schemas['EquipmentInput'];
+export type EquipmentUpdate = Schemas['EquipmentUpdate'];
+export type AssetField = 'assetTag' | 'serialNumber' | 'manufacturer' | 'model' | 'installDate' | 'purchaseCost';
+
+export type LocationKind = Schemas['LocationKind'];
+export type Location = Schemas['Location'];
+
+export type LookupOption = Schemas['LookupOption'];
+
+export type CustomFieldType = Schemas['CustomFieldType'];
+export type CustomFieldValue = Schemas['CustomFieldValue'];
+export type CustomField = Schemas['CustomField'];
+
+export type CleaningEvent = Schemas['CleaningEvent'];
+export type CleaningEventInput = Schemas['CleaningEventInput'];
+
+export type WorkOrderPriority = Schemas['WorkOrderPriority'];
+export type WorkOrderStatus = Schemas['WorkOrderStatus'];
+export type WorkOrder = Schemas['WorkOrder'];
+export type WorkOrderInput = Schemas['WorkOrderInput'];
+export type WorkOrderUpdate = Schemas['WorkOrderUpdate'];
+export type WorkOrderQuery = Query<'/api/work-orders'>;
+
+export type PmScheduleType = Schemas['PmScheduleType'];
+export type PmPlan = Schemas['PmPlan'];
+export type PmPlanInput = Schemas['PmPlanInput'];
+export type PmPlanUpdate = Schemas['PmPlanUpdate'];
+export type PmPlanQuery = Query<'/api/pm-plans'>;
+export type UpcomingPmPlanQuery = Query<'/api/pm-plans/upcoming'>;
+
+export type AttachmentCategory = Schemas['AttachmentCategory'];
+export type Attachment = Schemas['Attachment'];
+
+export interface AttachmentInput {
+  file: File;
+  category?: AttachmentCategory;
+  description?: string;
+}
+
+export type AuditAction = Schemas['AuditAction'];
+export type AuditEntry = Schemas['AuditEntry'];
+export type AuditQuery = Query<'/api/audit'>;
+
+export type BulkAction = Schemas['BulkAction'];
+export type BulkRequest = Schemas['BulkRequest'];
+export type BulkItemResult = Schemas['BulkItemResult'];
+export type BulkResult = Schemas['BulkResult'];
+
+export type EquipmentEvent = Schemas['EquipmentEvent'];
+
+export interface Page<T> {
+  data: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
 }
 
-export type EquipmentInput = Omit<Equipment, 'id' | 'createdAt' | 'updatedAt'>;
+export type ImportField = Schemas['ImportField'];
+export type ImportMapping = Partial<Record<ImportField, string>>;
+export type ImportRowResult = Schemas['ImportRowResult'];
+export type ImportReport = Schemas['ImportReport'];
+
+export type EquipmentQuery = Query<'/api/equipment'>;
+export type EquipmentSortField = NonNullable<EquipmentQuery['sort']>;
+export type EquipmentPage = Page<Equipment>;
+
+export type SearchField = Schemas['SearchField'];
+export type SearchMatch = Schemas['SearchMatch'];
+export type SearchResult = Schemas['SearchResult'];
+
+export type ExportFormat = NonNullable<Query<'/api/equipment/export'>['format']>;
 
 interface ApiResponse<T> {
   success: boolean;
   data: T;
   message?: string;
-  error?: string;
-  details?: string[];
 }
 
-export async function getEquipment(): Promise<Equipment[]> {
-  const response = await fetch(`${API_BASE}/equipment`);
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error || 'Failed to fetch equipment');
+type PaginatedResponse<T> = ApiResponse<T[]> & Omit<Page<T>, 'data'>;
+
+// Failures are sent as RFC 7807 problem details; code names the kind of
+// problem and, unlike the wording, stays the same across releases
+export type Problem = Schemas['Problem'];
+export type ProblemCode = Schemas['ProblemCode'];
+
+// Thrown when the API refuses a request. The message is the problem's detail
+// or, without one, its title.
+export class ApiError extends Error {
+  readonly status: number;
+  // Absent when the response was not a problem, e.g. from a proxy
+  readonly code?: ProblemCode;
+  readonly problem: Partial<Problem>;
+
+  constructor(status: number, problem: Partial<Problem>, fallback: string) {
+    super(problem.detail || problem.title || fallback);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = problem.code;
+    this.problem = problem;
+  }
+}
+
+// Thrown when the session is missing or has expired
+export class UnauthorizedError extends ApiError {
+  constructor(problem: Partial<Problem> = {}) {
+    super(401, problem, 'Authentication required');
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// Thrown when equipment was changed by someone else since it was loaded
+export class VersionConflictError extends ApiError {
+  // The equipment as it now is
+  readonly current: Equipment;
+
+  constructor(problem: Partial<Problem>) {
+    super(409, problem, 'The equipment was changed by someone else since it was loaded');
+    this.name = 'VersionConflictError';
+    this.current = problem.data;
+  }
+}
+
+// Thrown when the API refuses a body, with the problem with each field keyed
+// by its path (name, cleaning.cleanedAt) so forms can show them in place
+export class ValidationError extends ApiError {
+  readonly errors: Record<string, string>;
+
+  constructor(problem: Partial<Problem>) {
+    super(400, problem, 'Validation failed');
+    this.name = 'ValidationError';
+    this.errors = problem.errors ?? {};
+  }
+}
+
+// The error a failed response stands for, built from the problem in its
+// body; fallback is the message when the body is not a problem
+function toApiError(response: Response, body: unknown, fallback: string): ApiError {
+  const problem = (body && typeof body === 'object' && 'code' in body ? body : {}) as Partial<Problem>;
+
+  switch (problem.code) {
+    case 'AUTHENTICATION_REQUIRED':
+      return new UnauthorizedError(problem);
+    case 'VERSION_CONFLICT':
+      return new VersionConflictError(problem);
+    case 'VALIDATION_FAILED':
+      return new ValidationError(problem);
+    default:
+      return new ApiError(response.status, problem, fallback);
+  }
+}
+
+// fetch for authenticated endpoints; the session cookie is sent automatically.
+// A 401 always means the session is gone, even when the body is not a problem
+// (e.g. from a proxy), so it is thrown as an UnauthorizedError either way.
+async function request(input: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+  if (response.status === 401) {
+    const body = await response.json().catch(() => ({}));
+    const error = toApiError(response, body, 'Authentication required');
+    throw error instanceof UnauthorizedError ? error : new UnauthorizedError(error.problem);
+  }
+  return response;
+}
+
+function toSearchParams(query: object): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  return params;
+}
+
+export async function login(username: string, password: string): Promise<User> {
+  const response = await fetch(`${API_BASE}/auth/login`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username, password }),
+  });
+  const result: ApiResponse<User> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to sign in');
+  }
+  return result.data;
+}
+
+export async function logout(): Promise<void> {
+  const response = await fetch(`${API_BASE}/auth/logout`, {
+    method: 'POST',
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to sign out');
+  }
+}
+
+// Resolves to null when nobody is signed in
+export async function getCurrentUser(): Promise<User | null> {
+  const response = await fetch(`${API_BASE}/auth/me`);
+  if (response.status === 401) {
+    return null;
+  }
+  const result: ApiResponse<User> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch current user');
+  }
+  return result.data;
+}
+
+export async function getEquipment(query: EquipmentQuery = {}): Promise<EquipmentPage> {
+  const response = await request(`${API_BASE}/equipment?${toSearchParams(query)}`);
+  const result: PaginatedResponse<Equipment> = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch equipment');
+  }
+  return {
+    data: result.data,
+    total: result.total,
+    page: result.page,
+    pageSize: result.pageSize,
+    totalPages: result.totalPages,
+  };
+}
+
+// Best match first; every word searched for must start a word of the item
+export async function searchEquipment(q: string, limit?: number): Promise<SearchResult[]> {
+  const response = await request(`${API_BASE}/search?${toSearchParams({ q, limit })}`);
+  const result: ApiResponse<SearchResult[]> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to search equipment');
   }
+  return result.data;
+}
+
+export async function getEquipmentById(id: number): Promise<Equipment> {
+  const response = await request(`${API_BASE}/equipment/${id}`);
+  const result: ApiResponse<Equipment> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch equipment');
+  }
+  return result.data;
+}
+
+// All overdue equipment, most overdue first
+export async function getOverdueEquipment(): Promise<Equipment[]> {
+  const response = await request(`${API_BASE}/equipment/overdue`);
   const result: ApiResponse<Equipment[]> = await response.json();
-  if (!result.success) {
-    throw new Error(result.error || 'Failed to fetch equipment');
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch overdue equipment');
   }
   return result.data;
 }
 
+// Exports every row matching the filters and sort, so paging is dropped
+export function getExportUrl(query: EquipmentQuery, format: ExportFormat): string {
+  const { page: _page, pageSize: _pageSize, ...filters } = query;
+  return `${API_BASE}/equipment/export?${toSearchParams({ ...filters, format })}`;
+}
+
+// Server-Sent Events stream of changes; see EquipmentEvent
+export function getEventsUrl(): string {
+  return `${API_BASE}/events`;
+}
+
 export async function addEquipment(equipment: EquipmentInput): Promise<Equipment> {
-  const response = await fetch(`${API_BASE}/equipment`, {
+  const response = await request(`${API_BASE}/equipment`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -43,32 +294,367 @@ export async function addEquipment(equipment: EquipmentInput): Promise<Equipment
   });
   const result: ApiResponse<Equipment> = await response.json();
   if (!response.ok || !result.success) {
-    throw new Error(result.error || result.details?.join(', ') || 'Failed to add equipment');
+    throw toApiError(response, result, 'Failed to add equipment');
   }
   return result.data;
 }
 
-export async function updateEquipment(id: number, equipment: Partial<EquipmentInput>): Promise<Equipment> {
-  const response = await fetch(`${API_BASE}/equipment/${id}`, {
+// Validates (dryRun) or imports a CSV file. A report is returned even when
+// rows fail validation, so callers can show per-row errors.
+export async function importEquipment(
+  csv: string,
+  options: { dryRun?: boolean; mapping?: ImportMapping } = {}
+): Promise<ImportReport> {
+  const params = new URLSearchParams();
+  if (options.dryRun) {
+    params.set('dryRun', 'true');
+  }
+  Object.entries(options.mapping ?? {}).forEach(([field, column]) => {
+    if (column) {
+      params.set(`mapping[${field}]`, column);
+    }
+  });
+
+  const response = await request(`${API_BASE}/equipment/import?${params}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/csv',
+    },
+    body: csv,
+  });
+  const result = await response.json();
+  if (Array.isArray(result.rows)) {
+    return result as ImportReport;
+  }
+  throw toApiError(response, result, 'Failed to import equipment');
+}
+
+// version is the one the changes are based on; VersionConflictError is
+// thrown when the equipment has moved on since
+export async function updateEquipment(
+  id: number,
+  equipment: EquipmentUpdate,
+  version: number
+): Promise<Equipment> {
+  const response = await request(`${API_BASE}/equipment/${id}`, {
     method: 'PUT',
     headers: {
       'Content-Type': 'application/json',
+      'If-Match': `"${version}"`,
     },
     body: JSON.stringify(equipment),
   });
   const result: ApiResponse<Equipment> = await response.json();
   if (!response.ok || !result.success) {
-    throw new Error(result.error || result.details?.join(', ') || 'Failed to update equipment');
+    throw toApiError(response, result, 'Failed to update equipment');
   }
   return result.data;
 }
 
-export async function deleteEquipment(id: number): Promise<void> {
-  const response = await fetch(`${API_BASE}/equipment/${id}`, {
+// Deleted equipment goes to the trash; returns it as it is there
+export async function deleteEquipment(id: number, version: number): Promise<Equipment> {
+  const response = await request(`${API_BASE}/equipment/${id}`, {
     method: 'DELETE',
+    headers: {
+      'If-Match': `"${version}"`,
+    },
   });
   const result = await response.json();
   if (!response.ok || !result.success) {
-    throw new Error(result.error || 'Failed to delete equipment');
+    throw toApiError(response, result, 'Failed to delete equipment');
   }
+  return result.data;
+}
+
+// Takes equipment back out of the trash
+export async function restoreEquipment(id: number): Promise<Equipment> {
+  const response = await request(`${API_BASE}/equipment/${id}/restore`, {
+    method: 'POST',
+  });
+  const result: ApiResponse<Equipment> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to restore equipment');
+  }
+  return result.data;
+}
+
+// Items the action can't apply to are reported in the result, not thrown
+export async function bulkUpdateEquipment(bulk: BulkRequest): Promise<BulkResult> {
+  const response = await request(`${API_BASE}/equipment/bulk`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(bulk),
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to update equipment');
+  }
+  return result as BulkResult;
+}
+
+export async function getCleanings(equipmentId: number): Promise<CleaningEvent[]> {
+  const response = await request(`${API_BASE}/equipment/${equipmentId}/cleanings`);
+  const result: ApiResponse<CleaningEvent[]> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch cleanings');
+  }
+  return result.data;
+}
+
+export async function addCleaning(equipmentId: number, cleaning: CleaningEventInput): Promise<CleaningEvent> {
+  const response = await request(`${API_BASE}/equipment/${equipmentId}/cleanings`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(cleaning),
+  });
+  const result: ApiResponse<CleaningEvent> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to log cleaning');
+  }
+  return result.data;
+}
+
+export async function getWorkOrders(query: WorkOrderQuery = {}): Promise<Page<WorkOrder>> {
+  const response = await request(`${API_BASE}/work-orders?${toSearchParams(query)}`);
+  const result: PaginatedResponse<WorkOrder> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch work orders');
+  }
+  return {
+    data: result.data,
+    total: result.total,
+    page: result.page,
+    pageSize: result.pageSize,
+    totalPages: result.totalPages,
+  };
+}
+
+// Open orders first, most urgent first
+export async function getEquipmentWorkOrders(equipmentId: number): Promise<WorkOrder[]> {
+  const response = await request(`${API_BASE}/equipment/${equipmentId}/work-orders`);
+  const result: ApiResponse<WorkOrder[]> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch work orders');
+  }
+  return result.data;
+}
+
+export async function addWorkOrder(equipmentId: number, workOrder: WorkOrderInput): Promise<WorkOrder> {
+  const response = await request(`${API_BASE}/equipment/${equipmentId}/work-orders`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(workOrder),
+  });
+  const result: ApiResponse<WorkOrder> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to open work order');
+  }
+  return result.data;
+}
+
+export async function updateWorkOrder(
+  equipmentId: number,
+  id: number,
+  workOrder: WorkOrderUpdate
+): Promise<WorkOrder> {
+  const response = await request(`${API_BASE}/equipment/${equipmentId}/work-orders/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(workOrder),
+  });
+  const result: ApiResponse<WorkOrder> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to update work order');
+  }
+  return result.data;
+}
+
+export async function deleteWorkOrder(equipmentId: number, id: number): Promise<void> {
+  const response = await request(`${API_BASE}/equipment/${equipmentId}/work-orders/${id}`, {
+    method: 'DELETE',
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to delete work order');
+  }
+}
+
+export async function getPmPlans(query: PmPlanQuery = {}): Promise<PmPlan[]> {
+  const response = await request(`${API_BASE}/pm-plans?${toSearchParams(query)}`);
+  const result: ApiResponse<PmPlan[]> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch PM plans');
+  }
+  return result.data;
+}
+
+// Active plans coming due, soonest first
+export async function getUpcomingPmPlans(query: UpcomingPmPlanQuery = {}): Promise<PmPlan[]> {
+  const response = await request(`${API_BASE}/pm-plans/upcoming?${toSearchParams(query)}`);
+  const result: ApiResponse<PmPlan[]> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch upcoming PM plans');
+  }
+  return result.data;
+}
+
+export async function addPmPlan(equipmentId: number, plan: PmPlanInput): Promise<PmPlan> {
+  const response = await request(`${API_BASE}/pm-plans`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...plan, equipmentId }),
+  });
+  const result: ApiResponse<PmPlan> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to create PM plan');
+  }
+  return result.data;
+}
+
+export async function updatePmPlan(id: number, plan: PmPlanUpdate): Promise<PmPlan> {
+  const response = await request(`${API_BASE}/pm-plans/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(plan),
+  });
+  const result: ApiResponse<PmPlan> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to update PM plan');
+  }
+  return result.data;
+}
+
+export async function deletePmPlan(id: number): Promise<void> {
+  const response = await request(`${API_BASE}/pm-plans/${id}`, {
+    method: 'DELETE',
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to delete PM plan');
+  }
+}
+
+// All locations, flat; see buildLocationTree
+export async function getLocations(): Promise<Location[]> {
+  const response = await request(`${API_BASE}/locations`);
+  const result: ApiResponse<Location[]> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch locations');
+  }
+  return result.data;
+}
+
+// Custom field definitions of every equipment type
+export async function getCustomFields(): Promise<CustomField[]> {
+  const response = await request(`${API_BASE}/custom-fields`);
+  const result: ApiResponse<CustomField[]> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch custom fields');
+  }
+  return result.data;
+}
+
+// Newest first
+export async function getAttachments(equipmentId: number): Promise<Attachment[]> {
+  const response = await request(`${API_BASE}/equipment/${equipmentId}/attachments`);
+  const result: ApiResponse<Attachment[]> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch attachments');
+  }
+  return result.data;
+}
+
+// Sent as multipart/form-data; fetch sets the Content-Type with its boundary
+export async function uploadAttachment(equipmentId: number, attachment: AttachmentInput): Promise<Attachment> {
+  const body = new FormData();
+  body.append('file', attachment.file);
+  if (attachment.category) {
+    body.append('category', attachment.category);
+  }
+  if (attachment.description) {
+    body.append('description', attachment.description);
+  }
+
+  const response = await request(`${API_BASE}/equipment/${equipmentId}/attachments`, {
+    method: 'POST',
+    body,
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to upload attachment');
+  }
+  return result.data;
+}
+
+export async function deleteAttachment(equipmentId: number, id: number): Promise<void> {
+  const response = await request(`${API_BASE}/equipment/${equipmentId}/attachments/${id}`, {
+    method: 'DELETE',
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to delete attachment');
+  }
+}
+
+// inline opens the file in the browser rather than saving it
+export function getAttachmentDownloadUrl(attachment: Attachment, inline = false): string {
+  const url = `${API_BASE}/equipment/${attachment.equipmentId}/attachments/${attachment.id}/download`;
+  return inline ? `${url}?inline=true` : url;
+}
+
+export function getAttachmentThumbnailUrl(attachment: Attachment): string {
+  return `${API_BASE}/equipment/${attachment.equipmentId}/attachments/${attachment.id}/thumbnail`;
+}
+
+export async function getEquipmentHistory(equipmentId: number): Promise<AuditEntry[]> {
+  const response = await request(`${API_BASE}/equipment/${equipmentId}/history`);
+  const result: ApiResponse<AuditEntry[]> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch equipment history');
+  }
+  return result.data;
+}
+
+export async function getAuditLog(query: AuditQuery = {}): Promise<Page<AuditEntry>> {
+  const response = await request(`${API_BASE}/audit?${toSearchParams(query)}`);
+  const result: PaginatedResponse<AuditEntry> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, 'Failed to fetch audit log');
+  }
+  return {
+    data: result.data,
+    total: result.total,
+    page: result.page,
+    pageSize: result.pageSize,
+    totalPages: result.totalPages,
+  };
+}
+
+async function getLookupOptions(lookup: 'types' | 'statuses'): Promise<LookupOption[]> {
+  const response = await request(`${API_BASE}/meta/${lookup}`);
+  const result: ApiResponse<LookupOption[]> = await response.json();
+  if (!response.ok || !result.success) {
+    throw toApiError(response, result, `Failed to fetch equipment ${lookup}`);
+  }
+  return result.data;
+}
+
+export function getEquipmentTypes(): Promise<LookupOption[]> {
+  return getLookupOptions('types');
+}
+
+export function getEquipmentStatuses(): Promise<LookupOption[]> {
+  return getLookupOptions('statuses');
 }
@@ -17,6 +17,16 @@ export default defineConfig(({ mode }) => ({
     },
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  // The shared validation package is CommonJS linked from outside
+  // node_modules, which Vite only converts when told to
+  optimizeDeps: {
+    include: ["equipment-tracker-shared"],
+  },
+  build: {
+    commonjsOptions: {
+      include: [/shared[\\/]/, /node_modules/],
+    },
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
@@ -0,0 +1,127 @@
+const { z } = require('zod');
+
+// Validation shared by the API and the web app, so a form accepts exactly
+// what the API does. Checks that need the database (that a type, status or
+// location exists, that custom field values suit the type) are left to the API.
+
+const MIN_NAME_LENGTH = 2;
+const MAX_NAME_LENGTH = 100;
+const MAX_CLEANING_INTERVAL_DAYS = 3650;
+const MAX_RUNTIME_HOURS = 10000000;
+const MAX_ASSET_TEXT_LENGTH = 100;
+const MAX_PURCHASE_COST = 1000000000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// Today's local date as YYYY-MM-DD, wherever the check runs
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+// A date in YYYY-MM-DD format; with notFuture, one no later than today
+const date = (label, { notFuture = false } = {}) => {
+  const message = `${label} must be a date in YYYY-MM-DD format`;
+  return z.string({ required_error: `${label} is required`, invalid_type_error: message })
+    .superRefine((value, ctx) => {
+      if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      } else if (notFuture && value > today()) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} cannot be in the future` });
+      }
+    });
+};
+
+// A number from min to max; one message covers every way of getting it wrong
+const number = (message, { min, max, integer = false }) => {
+  const schema = z.number({ message }).min(min, message).max(max, message);
+  return integer ? schema.int(message) : schema;
+};
+
+// Free text that may be left out or cleared with null
+const optionalText = (label, max) => {
+  const schema = z.string({ message: `${label} must be text` }).trim();
+  return (max ? schema.max(max, `${label} must be at most ${max} characters`) : schema).nullable().optional();
+};
+
+// A choice from a list the API keeps, such as the equipment types
+const option = (label) => {
+  return z.string({ required_error: `${label} is required`, invalid_type_error: `${label} must be text` })
+    .min(1, `${label} is required`);
+};
+
+const cleaningSchema = z.object({
+  cleanedAt: date('Cleaning date', { notFuture: true }),
+  cleanedBy: optionalText('Cleaned by'),
+  method: optionalText('Method'),
+  notes: optionalText('Notes'),
+  verifiedBy: optionalText('Verified by')
+}, { message: 'Cleaning must be an object' });
+
+const equipmentSchema = z.object({
+  name: z.string({ required_error: 'Name is required', invalid_type_error: 'Name must be text' })
+    .trim()
+    .min(1, 'Name is required')
+    .min(MIN_NAME_LENGTH, `Name must be at least ${MIN_NAME_LENGTH} characters`)
+    .max(MAX_NAME_LENGTH, `Name must be at most ${MAX_NAME_LENGTH} characters`),
+  type: option('Type'),
+  status: option('Status'),
+  locationId: z.number({ message: 'Location must be the id of a location' })
+    .int('Location must be the id of a location')
+    .nullable()
+    .optional(),
+  cleaningIntervalDays: number(
+    `Cleaning interval must be a whole number of days from 1 to ${MAX_CLEANING_INTERVAL_DAYS}`,
+    { min: 1, max: MAX_CLEANING_INTERVAL_DAYS, integer: true }
+  ).nullable().optional(),
+  runtimeHours: number(
+    `Runtime hours must be a number from 0 to ${MAX_RUNTIME_HOURS}`,
+    { min: 0, max: MAX_RUNTIME_HOURS }
+  ).optional(),
+  assetTag: optionalText('Asset tag', MAX_ASSET_TEXT_LENGTH),
+  serialNumber: optionalText('Serial number', MAX_ASSET_TEXT_LENGTH),
+  manufacturer: optionalText('Manufacturer', MAX_ASSET_TEXT_LENGTH),
+  model: optionalText('Model', MAX_ASSET_TEXT_LENGTH),
+  installDate: date('Install date').nullable().optional(),
+  purchaseCost: number(
+    `Purchase cost must be an amount from 0 to ${MAX_PURCHASE_COST}`,
+    { min: 0, max: MAX_PURCHASE_COST }
+  ).nullable().optional(),
+  customFields: z.record(z.unknown(), { message: 'Custom fields must be an object' }).optional(),
+  cleaning: cleaningSchema.nullable().optional(),
+  // Shorthand for a cleaning with only cleanedAt
+  lastCleanedDate: date('Last cleaned date', { notFuture: true }).nullable().optional()
+}, { message: 'Equipment must be an object' });
+
+// Updates send only the fields they change
+const equipmentUpdateSchema = equipmentSchema.partial();
+
+// The first problem with each field of a failed parse, keyed by its path
+// ("name", "cleaning.cleanedAt"); problems with the value as a whole are
+// keyed "body"
+const getFieldErrors = (error) => {
+  const errors = {};
+  error.issues.forEach(({ path, message }) => {
+    const field = path.join('.') || 'body';
+    if (!(field in errors)) {
+      errors[field] = message;
+    }
+  });
+  return errors;
+};
+
+module.exports = {
+  MIN_NAME_LENGTH,
+  MAX_NAME_LENGTH,
+  MAX_CLEANING_INTERVAL_DAYS,
+  MAX_RUNTIME_HOURS,
+  MAX_ASSET_TEXT_LENGTH,
+  MAX_PURCHASE_COST,
+  cleaningSchema,
+  equipmentSchema,
+  equipmentUpdateSchema,
+  getFieldErrors,
+  today
+};